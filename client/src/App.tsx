@@ -5,6 +5,7 @@ import Home from "@/pages/Home";
 import Visualization from "@/pages/Visualization";
 import Analytics from "@/pages/Analytics";
 import Help from "@/pages/Help";
+import Entity from "@/pages/Entity";
 import NotFound from "@/pages/not-found";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
@@ -23,6 +24,7 @@ function Router() {
           <Route path="/rpc-visualization/:walletAddress?" component={Visualization} />
           <Route path="/analytics" component={Analytics} />
           <Route path="/help" component={Help} />
+          <Route path="/entity/:entityId" component={Entity} />
           <Route component={NotFound} />
         </Switch>
       </main>
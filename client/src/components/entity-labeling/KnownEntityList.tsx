@@ -1,5 +1,6 @@
 import React from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
 import { apiRequest } from '@/lib/queryClient';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
@@ -10,7 +11,8 @@ export default function KnownEntityList() {
   const knownEntitiesQuery = useQuery({
     queryKey: ['/api/entity-labeling/entities/exchange'],
     queryFn: async () => {
-      return apiRequest('/api/entity-labeling/entities/exchange');
+      const response = await apiRequest('GET', '/api/entity-labeling/entities/exchange');
+      return response.json();
     },
     staleTime: 5 * 60 * 1000 // 5 minutes
   });
@@ -61,7 +63,9 @@ export default function KnownEntityList() {
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <Tag className="h-4 w-4 text-muted-foreground" />
-                <h4 className="text-sm font-medium">{entity.name}</h4>
+                <Link href={`/entity/${entity.id}`} className="text-sm font-medium hover:underline">
+                  {entity.name}
+                </Link>
                 <Badge variant={entity.type === "exchange" ? "destructive" : "outline"} className="text-xs">
                   {entity.type}
                 </Badge>
@@ -0,0 +1,139 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { BackfillJob } from "@/types/solana";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { History, XCircle } from "lucide-react";
+
+interface BackfillProgressProps {
+  address: string;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+export default function BackfillProgress({ address }: BackfillProgressProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Latest job for this wallet, polled while it is still active
+  const { data: jobs } = useQuery({
+    queryKey: ['/api/jobs', address],
+    queryFn: async () => {
+      const response = await fetch(`/api/jobs?address=${encodeURIComponent(address)}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch backfill jobs');
+      }
+      return response.json() as Promise<BackfillJob[]>;
+    },
+    enabled: !!address,
+  });
+  const latestJob = jobs?.[0];
+  const isActive = latestJob?.status === 'pending' || latestJob?.status === 'running';
+
+  const { data: job } = useQuery({
+    queryKey: [`/api/jobs/${latestJob?.id}`],
+    queryFn: async () => {
+      const response = await fetch(`/api/jobs/${latestJob!.id}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch backfill job');
+      }
+      return response.json() as Promise<BackfillJob>;
+    },
+    enabled: !!latestJob,
+    initialData: latestJob,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'pending' || status === 'running' ? POLL_INTERVAL_MS : false;
+    },
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/jobs/backfill', { address });
+      return response.json() as Promise<BackfillJob>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs', address] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Backfill failed to start",
+        description: error.message,
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/jobs/${id}/cancel`);
+      return response.json() as Promise<BackfillJob>;
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${id}`] });
+    },
+  });
+
+  const current = job || latestJob;
+  const running = current?.status === 'pending' || current?.status === 'running';
+  const total = Math.max(current?.estimatedTotal || 0, current?.signaturesProcessed || 0);
+  const percent = current && total > 0 ? Math.round((current.signaturesProcessed / total) * 100) : 0;
+
+  const getStatusText = () => {
+    if (!current) return "Only recent transactions are loaded for this wallet.";
+
+    switch (current.status) {
+      case 'pending':
+        return "Waiting to start...";
+      case 'running':
+        return `${current.signaturesProcessed.toLocaleString()} of ~${total.toLocaleString()} signatures ingested`;
+      case 'completed':
+        return `Full history ingested: ${current.signaturesProcessed.toLocaleString()} signatures`;
+      case 'cancelled':
+        return `Cancelled after ${current.signaturesProcessed.toLocaleString()} signatures`;
+      case 'failed':
+        return `Failed after ${current.signaturesProcessed.toLocaleString()} signatures: ${current.error || 'Unknown error'}`;
+    }
+  };
+
+  return (
+    <div className="bg-solana-dark-light rounded-lg p-4">
+      <div className="flex justify-between items-center gap-4">
+        <div className="flex items-center gap-2 min-w-0">
+          <History className="h-4 w-4 text-solana-secondary shrink-0" />
+          <div className="min-w-0">
+            <h3 className="font-medium text-white text-sm">History Backfill</h3>
+            <p className="text-xs text-gray-400 truncate">{getStatusText()}</p>
+          </div>
+        </div>
+
+        {running ? (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => current && cancelMutation.mutate(current.id)}
+            disabled={cancelMutation.isPending}
+            className="flex items-center gap-1.5"
+          >
+            <XCircle size={14} />
+            Cancel
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => startMutation.mutate()}
+            disabled={startMutation.isPending || isActive}
+          >
+            {current?.status === 'completed' ? "Backfill Again" : "Backfill Full History"}
+          </Button>
+        )}
+      </div>
+
+      {running && (
+        <Progress value={percent} className="h-2 mt-3 bg-solana-dark" />
+      )}
+    </div>
+  );
+}
@@ -108,7 +108,7 @@ export default function EntityClustering({
                   <span className="text-sm font-medium text-white">{cluster.name}</span>
                 </div>
                 <span className={`text-xs font-medium px-2 py-0.5 ${getClusterColor(cluster.type)} bg-opacity-20 rounded-full`}>
-                  {cluster.walletCount} wallets
+                  {cluster.addresses.length} wallets
                 </span>
               </div>
               <div className="text-xs text-gray-400 mb-2">{cluster.description}</div>
@@ -118,17 +118,27 @@ export default function EntityClustering({
                 <div className="mb-3 pl-2 border-l-2 border-solana-dark-lighter">
                   <div className="text-xs text-gray-400 mb-1">Included addresses:</div>
                   <div className="space-y-1 max-h-20 overflow-y-auto pr-2 text-xs">
-                    {cluster.wallets.slice(0, 5).map((wallet, i) => (
+                    {cluster.addresses.slice(0, 5).map((wallet, i) => (
                       <div key={i} className="text-gray-300 font-mono">
                         {wallet.slice(0, 8)}...{wallet.slice(-4)}
                       </div>
                     ))}
-                    {cluster.wallets.length > 5 && (
+                    {cluster.addresses.length > 5 && (
                       <div className="text-gray-400">
-                        +{cluster.wallets.length - 5} more wallets
+                        +{cluster.addresses.length - 5} more wallets
                       </div>
                     )}
                   </div>
+                  {cluster.evidence && cluster.evidence.length > 0 && (
+                    <>
+                      <div className="text-xs text-gray-400 mt-2 mb-1">Evidence:</div>
+                      <div className="space-y-1 max-h-24 overflow-y-auto pr-2 text-xs">
+                        {cluster.evidence.map((item, i) => (
+                          <div key={i} className="text-gray-300 break-all">{item}</div>
+                        ))}
+                      </div>
+                    </>
+                  )}
                 </div>
               )}
               
@@ -5,7 +5,9 @@ import { Slider } from "@/components/ui/slider";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { isValidSolanaAddress } from "@/lib/utils";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { isValidSolanaAddress, getMintColor } from "@/lib/utils";
+import { getMintSymbol } from "@shared/transfers";
 
 interface FilterSidebarProps {
   walletAddress: string;
@@ -13,6 +15,7 @@ interface FilterSidebarProps {
   onFiltersChange: (filters: any) => void;
   onFilterApply: () => void;
   onFilterReset: () => void;
+  availableMints?: string[];
 }
 
 export default function FilterSidebar({
@@ -20,7 +23,8 @@ export default function FilterSidebar({
   onWalletChange,
   onFiltersChange,
   onFilterApply,
-  onFilterReset
+  onFilterReset,
+  availableMints = []
 }: FilterSidebarProps) {
   const [address, setAddress] = useState(walletAddress);
   const [dateRange, setDateRange] = useState({
@@ -46,6 +50,7 @@ export default function FilterSidebar({
     mango: false,
     metaplex: true
   });
+  const [selectedMint, setSelectedMint] = useState("all");
 
   // Handle address change
   const handleAddressChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -131,9 +136,10 @@ export default function FilterSidebar({
         .map(([key]) => key),
       programs: Object.entries(programs)
         .filter(([_, value]) => value)
-        .map(([key]) => key)
+        .map(([key]) => key),
+      mints: selectedMint === "all" ? [] : [selectedMint]
     });
-  }, [dateRange, amountRange, transactionTypes, programs, onFiltersChange]);
+  }, [dateRange, amountRange, transactionTypes, programs, selectedMint, onFiltersChange]);
 
   return (
     <div className="lg:col-span-1 space-y-6">
@@ -308,6 +314,27 @@ export default function FilterSidebar({
         </div>
       </div>
 
+      {/* Token Filter */}
+      <div className="bg-solana-dark-light rounded-lg p-4">
+        <h3 className="font-medium text-white mb-3">Token</h3>
+        <Select value={selectedMint} onValueChange={setSelectedMint}>
+          <SelectTrigger className="w-full bg-solana-dark border border-solana-dark-lighter text-white text-sm">
+            <SelectValue placeholder="All tokens" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All tokens</SelectItem>
+            {availableMints.map(mint => (
+              <SelectItem key={mint} value={mint}>
+                <span className="flex items-center">
+                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: getMintColor(mint) }}></span>
+                  {getMintSymbol(mint)}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       {/* Transaction Type Filter */}
       <div className="bg-solana-dark-light rounded-lg p-4">
         <h3 className="font-medium text-white mb-3">Transaction Types</h3>
@@ -1,10 +1,12 @@
-import { useState, useRef, useEffect, RefObject } from "react";
+import { useState, useRef, useEffect, useMemo, RefObject } from "react";
 import { useVisualization } from "@/hooks/useVisualization";
 import { VisualizationGraph, WalletNode, TransactionEdge } from "@/types/solana";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { shortenAddress, formatSolAmount, formatTimeAgo, openInSolscan } from "@/lib/utils";
+import { shortenAddress, formatSolAmount, formatUsdAmount, formatTimeAgo, openInSolscan, getMintColor } from "@/lib/utils";
+import { getMintSymbol } from "@shared/transfers";
+import { FlowCycle } from "@shared/tracing";
 import { Card } from "@/components/ui/card";
 import { HelpCircle, ZoomIn, ZoomOut, Maximize, Download, Share2, Filter as FilterIcon } from "lucide-react";
 
@@ -16,8 +18,12 @@ interface FlowVisualizationProps {
   selectedEdge?: TransactionEdge | null;
   filteredWalletAddress?: string | null;
   svgRef?: RefObject<SVGSVGElement>;
+  cycles?: FlowCycle[]; // Circular flows whose transactions are drawn as critical paths
 }
 
+// Stable default so the graph is not redrawn on every render
+const NO_CYCLES: FlowCycle[] = [];
+
 export default function FlowVisualization({
   graph,
   onNodeClick,
@@ -25,25 +31,44 @@ export default function FlowVisualization({
   selectedNode,
   selectedEdge,
   filteredWalletAddress,
-  svgRef
+  svgRef,
+  cycles = NO_CYCLES
 }: FlowVisualizationProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const localSvgRef = useRef<SVGSVGElement>(null);
   const [layout, setLayout] = useState<"force" | "radial" | "hierarchy">("force");
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
   
+  // Mark the edges of transactions on a circular flow
+  const highlightedGraph = useMemo(() => {
+    const cycleSignatures = new Set(cycles.flatMap(cycle => cycle.signatures));
+    if (cycleSignatures.size === 0) return graph;
+    return {
+      ...graph,
+      edges: graph.edges.map(edge => cycleSignatures.has(edge.signature) ? { ...edge, isCritical: true } : edge)
+    };
+  }, [graph, cycles]);
+
   const { 
     zoomIn, 
     zoomOut, 
     resetZoom, 
     changeLayout 
   } = useVisualization({
-    graph,
+    graph: highlightedGraph,
     container: containerRef,
     onNodeClick,
     onEdgeClick
   });
 
+  // Circular flow the selected edge belongs to
+  const selectedCycle = selectedEdge
+    ? cycles.find(cycle => cycle.signatures.includes(selectedEdge.signature))
+    : undefined;
+
+  // Tokens with value on at least one edge, for the legend
+  const edgeMints = Array.from(new Set(graph.edges.filter(edge => edge.uiAmount).map(edge => edge.mint)));
+
   const handleLayoutChange = (newLayout: string) => {
     const validLayout = newLayout as "force" | "radial" | "hierarchy";
     setLayout(validLayout);
@@ -267,14 +292,28 @@ export default function FlowVisualization({
           <div className="w-3 h-3 rounded-full bg-solana-secondary mr-2"></div>
           <span className="text-gray-300">Connected Protocol</span>
         </div>
+        {graph.nodes.some(node => node.entity) && (
+          <div className="flex items-center mb-1">
+            <div className="w-3 h-3 rounded-full bg-solana-info mr-2"></div>
+            <span className="text-gray-300">Entity (collapsed wallets)</span>
+          </div>
+        )}
         <div className="flex items-center mb-1">
           <div className="w-3 h-3 rounded-full bg-solana-dark-lighter mr-2"></div>
           <span className="text-gray-300">Other Wallets</span>
         </div>
         <div className="flex items-center">
           <div className="w-6 h-1 bg-solana-error mr-2"></div>
-          <span className="text-gray-300">Critical Path</span>
+          <span className="text-gray-300">
+            Critical Path{cycles.length > 0 && ` (${cycles.length} circular flow${cycles.length === 1 ? '' : 's'})`}
+          </span>
         </div>
+        {edgeMints.map(mint => (
+          <div key={mint} className="flex items-center mt-1">
+            <div className="w-6 h-1 mr-2" style={{ backgroundColor: getMintColor(mint) }}></div>
+            <span className="text-gray-300">{getMintSymbol(mint)}</span>
+          </div>
+        ))}
       </div>
       
       {/* Node Details Card */}
@@ -282,7 +321,7 @@ export default function FlowVisualization({
         <div className="absolute right-4 top-12 bg-solana-dark-lighter rounded-md p-3 text-xs shadow-lg border border-solana-dark-light w-48">
           <div className="flex justify-between items-center mb-2">
             <span className="font-medium text-white">
-              {selectedNode.type === 'program' ? 'Program' : 'Wallet'}
+              {selectedNode.entity ? selectedNode.entity.name : selectedNode.type === 'program' ? 'Program' : 'Wallet'}
             </span>
             <span className="text-gray-400 text-[10px]">
               {selectedNode.lastActivity ? `Last activity: ${formatTimeAgo(selectedNode.lastActivity)}` : ''}
@@ -305,9 +344,25 @@ export default function FlowVisualization({
                 <span className="text-white">{selectedNode.transactionCount}</span>
               </div>
             )}
+            {selectedNode.entity && (
+              <div className="flex justify-between">
+                <span className="text-gray-400">Member Wallets:</span>
+                <span className="text-white">{selectedNode.entity.members.length}</span>
+              </div>
+            )}
+            {selectedNode.tokenAccounts && selectedNode.tokenAccounts.length > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-400">Token Accounts:</span>
+                <span className="text-white">{selectedNode.tokenAccounts.length}</span>
+              </div>
+            )}
           </div>
           <div className="text-[10px] text-gray-400 mb-1 italic flex items-center justify-center">
-            <span>Double-click to view {selectedNode.type === 'program' ? 'program' : 'address'} in Solscan</span>
+            <span>
+              {selectedNode.entity
+                ? 'Double-click to open the entity page'
+                : `Double-click to view ${selectedNode.type === 'program' ? 'program' : 'address'} in Solscan`}
+            </span>
           </div>
           <div className="flex space-x-2">
             <Button 
@@ -358,12 +413,20 @@ export default function FlowVisualization({
               <span className="text-gray-400">Type:</span>
               <span className="text-white capitalize">{selectedEdge.type}</span>
             </div>
-            {selectedEdge.amount !== undefined && (
+            {selectedEdge.uiAmount !== undefined && (
               <div className="flex justify-between">
                 <span className="text-gray-400">Amount:</span>
-                <span className="text-white">{formatSolAmount(selectedEdge.amount)} SOL</span>
+                <span className="text-white">{formatSolAmount(selectedEdge.uiAmount)} {getMintSymbol(selectedEdge.mint)}</span>
               </div>
             )}
+            <div className="flex justify-between">
+              <span className="text-gray-400">Value:</span>
+              {selectedEdge.usdValue !== undefined ? (
+                <span className="text-white">{formatUsdAmount(selectedEdge.usdValue)}</span>
+              ) : (
+                <span className="text-gray-500">Unpriced</span>
+              )}
+            </div>
             <div className="flex justify-between">
               <span className="text-gray-400">From:</span>
               <span className="text-white font-mono">{shortenAddress(selectedEdge.source.toString())}</span>
@@ -384,6 +447,14 @@ export default function FlowVisualization({
                 <span className="text-white">Yes</span>
               </div>
             )}
+            {selectedCycle && (
+              <div className="flex justify-between">
+                <span className="text-gray-400">Circular Flow:</span>
+                <span className="text-white">
+                  {selectedCycle.hops.length} hops, {(selectedCycle.elapsedMs / 3600000).toFixed(1)}h, {formatSolAmount(selectedCycle.netRetained)} kept
+                </span>
+              </div>
+            )}
           </div>
           <div className="text-[10px] text-gray-400 mb-1 italic flex items-center justify-center">
             <span>Double-click to view transaction in Solscan</span>
@@ -1,4 +1,7 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { WalletSummary as WalletSummaryType } from "@/types/solana";
+import { RiskAssessment } from "@shared/risk";
 import { shortenAddress, formatSolAmount, formatTimeAgo } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Copy, Wallet, Store, ExternalLink, BarChart2, RotateCw } from "lucide-react";
@@ -10,7 +13,41 @@ interface WalletSummaryProps {
   isLoading: boolean;
 }
 
+// Pill color for a 0-100 risk score
+function getRiskClass(score: number): string {
+  if (score >= 70) return "bg-solana-error text-solana-error";
+  if (score >= 40) return "bg-solana-warning text-solana-warning";
+  return "bg-solana-secondary text-solana-secondary";
+}
+
 export default function WalletSummary({ walletSummary, isLoading }: WalletSummaryProps) {
+  const queryClient = useQueryClient();
+  const riskKey = [`/api/wallets/${walletSummary?.address}/risk`];
+
+  // Stored assessment, null until the wallet has been scored
+  const { data: risk, isLoading: isLoadingRisk } = useQuery({
+    queryKey: riskKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/wallets/${walletSummary!.address}/risk`);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error('Failed to fetch risk assessment');
+      }
+      return response.json() as Promise<RiskAssessment>;
+    },
+    enabled: !!walletSummary,
+  });
+
+  const scoreMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/wallets/${walletSummary!.address}/risk`);
+      return response.json() as Promise<RiskAssessment>;
+    },
+    onSuccess: (assessment) => {
+      queryClient.setQueryData(riskKey, assessment);
+    },
+  });
+
   const copyAddress = () => {
     if (!walletSummary) return;
     
@@ -148,6 +185,52 @@ export default function WalletSummary({ walletSummary, isLoading }: WalletSummar
           </div>
         </div>
         
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs text-gray-400">Risk</span>
+            <div className="flex items-center space-x-2">
+              {risk && (
+                <>
+                  <span className="text-xs text-gray-500">rules v{risk.rulesetVersion}</span>
+                  <span className={`text-xs font-medium px-2 py-0.5 ${getRiskClass(risk.score)} bg-opacity-20 rounded-full`}>
+                    {risk.score}/100
+                  </span>
+                </>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 text-xs"
+                onClick={() => scoreMutation.mutate()}
+                disabled={scoreMutation.isPending}
+              >
+                {risk ? "Rescore" : "Score"}
+              </Button>
+            </div>
+          </div>
+          {isLoadingRisk || scoreMutation.isPending ? (
+            <Skeleton className="h-8 w-full" />
+          ) : risk && risk.breakdown.length > 0 ? (
+            <div className="space-y-2">
+              {risk.breakdown.map(item => (
+                <div key={item.ruleId} className="bg-solana-dark rounded-lg p-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-white">{item.description}</span>
+                    <span className="text-xs text-gray-400">+{Math.round(item.points)} of {item.weight}</span>
+                  </div>
+                  {item.evidence.slice(0, 2).map((evidence, index) => (
+                    <div key={index} className="text-xs text-gray-400 truncate" title={evidence}>{evidence}</div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-2 text-gray-400 text-sm">
+              {risk ? "No risk rules triggered" : scoreMutation.isError ? "Risk score unavailable" : "Not scored yet"}
+            </div>
+          )}
+        </div>
+
         <div>
           <div className="text-xs text-gray-400 mb-2">Top Interactions</div>
           {walletSummary.topInteractions.length > 0 ? (
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Slider } from '@/components/ui/slider';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, AlertCircle } from 'lucide-react';
+import type { DirectionExposure, ExposureReport } from '@shared/tracing';
+
+interface ExposureViewProps {
+  address: string;
+}
+
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+function ExposureTable({ title, exposure }: { title: string; exposure: DirectionExposure }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">
+          {title} ({exposure.total.toFixed(4)} SOL)
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {exposure.categories.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No {title.toLowerCase()} in the stored history.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead>Direct</TableHead>
+                <TableHead>Indirect</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Share</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {exposure.categories.map((category) => (
+                <TableRow key={category.category}>
+                  <TableCell className="capitalize">{category.category}</TableCell>
+                  <TableCell>{formatShare(exposure.total > 0 ? category.direct / exposure.total : 0)}</TableCell>
+                  <TableCell>{formatShare(exposure.total > 0 ? category.indirect / exposure.total : 0)}</TableCell>
+                  <TableCell>{category.amount.toFixed(4)} SOL</TableCell>
+                  <TableCell>
+                    <div className="w-full bg-muted rounded-full h-2.5">
+                      <div
+                        className="bg-primary h-2.5 rounded-full"
+                        style={{ width: `${Math.min(100, Math.round(category.share * 100))}%` }}
+                      ></div>
+                    </div>
+                    <span className="text-xs text-muted-foreground">{formatShare(category.share)}</span>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ExposureView({ address }: ExposureViewProps) {
+  const [depth, setDepth] = useState(3);
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['/api/wallet-analysis/exposure', address, depth],
+    queryFn: async () => {
+      const response = await fetch(`/api/wallet-analysis/${address}/exposure?depth=${depth}`);
+      if (!response.ok) {
+        throw new Error('Failed to calculate exposure');
+      }
+      return response.json() as Promise<ExposureReport>;
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col space-y-2">
+        <label htmlFor="exposure-depth-slider" className="text-sm font-medium">
+          Hops: {depth}
+        </label>
+        <Slider
+          id="exposure-depth-slider"
+          min={1}
+          max={6}
+          step={1}
+          defaultValue={[depth]}
+          onValueChange={(value) => setDepth(value[0])}
+          className="w-full max-w-xs"
+        />
+        <p className="text-xs text-muted-foreground">
+          Value is attributed to the first labeled entity within this many transfers; the rest counts as unlabeled.
+        </p>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin mr-2" />
+          <p>Calculating exposure...</p>
+        </div>
+      )}
+
+      {isError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {error instanceof Error ? error.message : 'Failed to calculate exposure'}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {data && (
+        <>
+          {data.truncated && (
+            <Alert>
+              <AlertDescription>
+                The path limit was reached, so shares may add up to less than 100%.
+              </AlertDescription>
+            </Alert>
+          )}
+          <ExposureTable title="Inflows" exposure={data.inflows} />
+          <ExposureTable title="Outflows" exposure={data.outflows} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, AlertCircle, CornerDownRight, Search } from 'lucide-react';
+import { buildTraceTree, TaintModel, TraceResult, TraceTermination, TraceTreeNode } from '@shared/tracing';
+
+interface ForwardTraceViewProps {
+  address?: string;
+}
+
+interface TraceRequest {
+  signature: string;
+  amount: string;
+  depth: number;
+  model: TaintModel;
+  ingest: boolean;
+}
+
+const TERMINAL_LABELS: Record<TraceTermination, string> = {
+  entity: 'Reached entity',
+  held: 'Still held',
+  'depth-limit': 'Depth limit',
+  cycle: 'Cycle',
+  origin: 'Origin',
+};
+
+function shortenAddress(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`;
+}
+
+function TraceNode({ node, depth }: { node: TraceTreeNode; depth: number }) {
+  return (
+    <div className={depth > 0 ? 'ml-5 border-l border-muted pl-3' : ''}>
+      <div className="flex items-center flex-wrap gap-2 py-1.5">
+        {depth > 0 && <CornerDownRight className="h-3 w-3 text-muted-foreground" />}
+        <Badge variant="outline" className="font-mono text-xs" title={node.address}>
+          {shortenAddress(node.address)}
+        </Badge>
+        <span className="text-sm font-medium">{node.amount.toFixed(4)} SOL</span>
+        {node.hop && (
+          <a
+            href={`https://solscan.io/tx/${node.hop.signature}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-muted-foreground hover:underline font-mono"
+          >
+            {shortenAddress(node.hop.signature)}
+          </a>
+        )}
+        {node.entity && (
+          <Badge className="text-xs">
+            {node.entity.name} ({node.entity.type})
+          </Badge>
+        )}
+        {node.terminal && !node.entity && (
+          <Badge variant="secondary" className="text-xs">
+            {TERMINAL_LABELS[node.terminal]}
+            {node.children.length > 0 && node.terminalAmount !== undefined && `: ${node.terminalAmount.toFixed(4)} SOL`}
+          </Badge>
+        )}
+      </div>
+      {node.children.map((child, index) => (
+        <TraceNode key={`${child.hop?.signature}-${child.hop?.legIndex}-${index}`} node={child} depth={depth + 1} />
+      ))}
+    </div>
+  );
+}
+
+export default function ForwardTraceView({ address }: ForwardTraceViewProps) {
+  const [signature, setSignature] = useState('');
+  const [amount, setAmount] = useState('');
+  const [depth, setDepth] = useState(5);
+  const [model, setModel] = useState<TaintModel>('haircut');
+  const [ingest, setIngest] = useState(false);
+  const [request, setRequest] = useState<TraceRequest | null>(null);
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['/api/wallet-analysis/trace-forward', address, request],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        signature: request!.signature,
+        depth: String(request!.depth),
+        model: request!.model,
+        ingest: String(request!.ingest),
+      });
+      if (address) params.set('address', address);
+      if (request!.amount) params.set('amount', request!.amount);
+
+      const response = await fetch(`/api/wallet-analysis/trace-forward?${params.toString()}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to trace funds forward');
+      }
+      return response.json() as Promise<TraceResult>;
+    },
+    enabled: !!request,
+  });
+
+  const handleTrace = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!signature.trim()) return;
+    setRequest({ signature: signature.trim(), amount: amount.trim(), depth, model, ingest });
+  };
+
+  const tree = data ? buildTraceTree(data) : null;
+  const reachedEntities = data ? data.paths.filter(path => path.terminal === 'entity') : [];
+  const entityAmount = reachedEntities.reduce((sum, path) => sum + path.attributedAmount, 0);
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleTrace} className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-2">
+          <Input
+            placeholder="Starting transaction signature"
+            value={signature}
+            onChange={(e) => setSignature(e.target.value)}
+            className="font-mono text-xs"
+          />
+          <Input
+            placeholder="Amount (SOL, optional)"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            type="number"
+            min="0"
+            step="any"
+            className="md:max-w-[200px]"
+          />
+          <Button type="submit" disabled={!signature.trim() || isLoading}>
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Search className="h-4 w-4 mr-2" />}
+            Trace
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="flex flex-col space-y-2">
+            <label htmlFor="forward-depth-slider" className="text-sm font-medium">
+              Maximum Hops: {depth}
+            </label>
+            <Slider
+              id="forward-depth-slider"
+              min={1}
+              max={10}
+              step={1}
+              defaultValue={[depth]}
+              onValueChange={(value) => setDepth(value[0])}
+            />
+          </div>
+          <div className="flex flex-col space-y-2">
+            <label className="text-sm font-medium">Taint Model</label>
+            <Select value={model} onValueChange={(value) => setModel(value as TaintModel)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Taint model" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="haircut">Haircut (pro rata)</SelectItem>
+                <SelectItem value="fifo">FIFO</SelectItem>
+                <SelectItem value="lifo">LIFO</SelectItem>
+                <SelectItem value="poison">Poison</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center space-x-2 pt-6">
+            <Switch id="forward-ingest" checked={ingest} onCheckedChange={setIngest} />
+            <label htmlFor="forward-ingest" className="text-sm">Fetch history of intermediate wallets</label>
+          </div>
+        </div>
+      </form>
+
+      {isError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {error instanceof Error ? error.message : 'Failed to trace funds forward'}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin mr-2" />
+          <p>Following the funds...</p>
+        </div>
+      )}
+
+      {data && tree && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">
+              Flow of {data.totalAmount.toFixed(4)} SOL ({data.paths.length} paths)
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {reachedEntities.length > 0
+                ? `${entityAmount.toFixed(4)} SOL reached ${reachedEntities.length} labeled exchange, bridge or mixer wallet${reachedEntities.length === 1 ? '' : 's'}.`
+                : 'No labeled exchange, bridge or mixer was reached.'}
+              {data.truncated && ' The trace was cut short by the path limit.'}
+            </p>
+          </CardHeader>
+          <CardContent>
+            {tree.children.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                The sender has no outgoing SOL transfers in this transaction.
+              </p>
+            ) : (
+              <TraceNode node={tree} depth={0} />
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
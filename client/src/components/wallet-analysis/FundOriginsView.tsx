@@ -5,7 +5,9 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Slider } from '@/components/ui/slider';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Loader2, AlertCircle, ArrowRight } from 'lucide-react';
+import type { TaintModel, TracePath } from '@shared/tracing';
 
 interface FundOriginsViewProps {
   address: string;
@@ -22,16 +24,24 @@ interface FundSource {
   transactionCount: number;
   isDirectSource: boolean;
   confidence: number;
-  path?: string[];
+  path?: TracePath[];
 }
 
+const TAINT_MODEL_LABELS: Record<TaintModel, string> = {
+  haircut: 'Haircut (pro rata)',
+  fifo: 'FIFO',
+  lifo: 'LIFO',
+  poison: 'Poison',
+};
+
 export default function FundOriginsView({ address }: FundOriginsViewProps) {
   const [depth, setDepth] = useState(3);
+  const [model, setModel] = useState<TaintModel>('haircut');
 
   const { data, isLoading, isError, error, refetch } = useQuery({
-    queryKey: ['/api/wallet-analysis/fund-origins', address, depth],
+    queryKey: ['/api/wallet-analysis/fund-origins', address, depth, model],
     queryFn: async () => {
-      const response = await fetch(`/api/wallet-analysis/fund-origins/${address}?depth=${depth}`);
+      const response = await fetch(`/api/wallet-analysis/fund-origins/${address}?depth=${depth}&model=${model}`);
       if (!response.ok) {
         throw new Error('Failed to trace fund origins');
       }
@@ -100,6 +110,23 @@ export default function FundOriginsView({ address }: FundOriginsViewProps) {
         </p>
       </div>
 
+      <div className="flex flex-col space-y-2">
+        <label className="text-sm font-medium">Taint Model</label>
+        <Select value={model} onValueChange={(value) => setModel(value as TaintModel)}>
+          <SelectTrigger className="w-full max-w-xs">
+            <SelectValue placeholder="Taint model" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TAINT_MODEL_LABELS) as TaintModel[]).map((key) => (
+              <SelectItem key={key} value={key}>{TAINT_MODEL_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Decides which received funds an intermediate wallet is considered to have passed on.
+        </p>
+      </div>
+
       {directSources.length > 0 && (
         <Card>
           <CardHeader>
@@ -169,17 +196,26 @@ export default function FundOriginsView({ address }: FundOriginsViewProps) {
                       {source.sourceAddress || `Source ID: ${source.sourceWalletId}`}
                     </TableCell>
                     <TableCell>
-                      {source.path ? (
-                        <div className="flex items-center flex-wrap gap-1">
-                          {source.path.map((address, index) => (
-                            <React.Fragment key={index}>
-                              <Badge variant="outline" className="text-xs font-mono">
-                                {address.slice(0, 4)}...{address.slice(-4)}
-                              </Badge>
-                              {index < source.path!.length - 1 && (
-                                <ArrowRight className="h-3 w-3 mx-0.5" />
-                              )}
-                            </React.Fragment>
+                      {source.path && source.path.length > 0 ? (
+                        <div className="space-y-2">
+                          {source.path.map((tracePath, pathIndex) => (
+                            <div key={pathIndex} className="space-y-1">
+                              <div className="flex items-center flex-wrap gap-1">
+                                {tracePath.addresses.map((pathAddress, index) => (
+                                  <React.Fragment key={index}>
+                                    <Badge variant="outline" className="text-xs font-mono">
+                                      {pathAddress.slice(0, 4)}...{pathAddress.slice(-4)}
+                                    </Badge>
+                                    {index < tracePath.addresses.length - 1 && (
+                                      <ArrowRight className="h-3 w-3 mx-0.5" />
+                                    )}
+                                  </React.Fragment>
+                                ))}
+                              </div>
+                              <p className="text-xs text-muted-foreground">
+                                {tracePath.attributedAmount.toFixed(4)} SOL via {tracePath.signatures.length} transaction{tracePath.signatures.length === 1 ? '' : 's'}
+                              </p>
+                            </div>
                           ))}
                         </div>
                       ) : (
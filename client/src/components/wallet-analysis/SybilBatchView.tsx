@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { apiRequest } from '@/lib/queryClient';
+import { EntityCluster, SybilDetectionJob, SybilResult } from '@/types/solana';
+import { isValidSolanaAddress } from '@/lib/utils';
+import EntityClustering from '@/components/visualization/EntityClustering';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { Loader2, AlertCircle, Users, XCircle } from 'lucide-react';
+
+const MAX_ADDRESSES = 500;
+const POLL_INTERVAL_MS = 2000;
+
+// Addresses separated by whitespace, commas or semicolons, without duplicates
+function parseAddresses(input: string): string[] {
+  return Array.from(new Set(input.split(/[\s,;]+/).filter(Boolean)));
+}
+
+function toEntityClusters(result: SybilResult): EntityCluster[] {
+  return result.clusters.map((cluster, index) => ({
+    id: `sybil-${index}`,
+    name: `Likely farmer #${index + 1}`,
+    type: 'related',
+    addresses: cluster.addresses,
+    totalVolume: 0,
+    transactionCount: 0,
+    description: `${Math.round(cluster.confidence * 100)}% confidence: ${Object.entries(cluster.signals)
+      .map(([signal, count]) => `${signal} (${count})`)
+      .join(', ')}`,
+    confidence: cluster.confidence,
+    evidence: cluster.evidence.map(item => item.detail),
+  }));
+}
+
+export default function SybilBatchView() {
+  const [, setLocation] = useLocation();
+  const [input, setInput] = useState('');
+  const [minScore, setMinScore] = useState(0.6);
+
+  const addresses = parseAddresses(input);
+  const invalid = addresses.filter(address => !isValidSolanaAddress(address));
+
+  // Detection runs as a background job, polled until it finishes
+  const [jobId, setJobId] = useState<number | null>(null);
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/jobs/sybil', { addresses, minScore });
+      return response.json() as Promise<SybilDetectionJob>;
+    },
+    onSuccess: (job) => setJobId(job.id),
+  });
+
+  const { data: job, error: jobError } = useQuery({
+    queryKey: [`/api/jobs/sybil/${jobId}`],
+    queryFn: async () => {
+      const response = await fetch(`/api/jobs/sybil/${jobId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch sybil detection job');
+      }
+      return response.json() as Promise<SybilDetectionJob>;
+    },
+    enabled: jobId !== null,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return !status || status === 'pending' || status === 'running' ? POLL_INTERVAL_MS : false;
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/jobs/sybil/${id}/cancel`);
+      return response.json() as Promise<SybilDetectionJob>;
+    },
+  });
+
+  const running = jobId !== null && (!job || job.status === 'pending' || job.status === 'running');
+  const error = startMutation.error || jobError ||
+    (job?.status === 'failed' ? new Error(job.error || 'Failed to analyze the addresses') : null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (addresses.length < 2 || addresses.length > MAX_ADDRESSES || invalid.length > 0) return;
+    startMutation.mutate();
+  };
+
+  const result = job?.status === 'completed' ? job.result : null;
+  const clusteredCount = result ? result.clusters.reduce((sum, cluster) => sum + cluster.addresses.length, 0) : 0;
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Textarea
+          placeholder="Claimant addresses, one per line"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          className="font-mono text-xs min-h-[120px]"
+        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+          <div className="flex flex-col space-y-2">
+            <label htmlFor="sybil-score-slider" className="text-sm font-medium">
+              Minimum Link Score: {minScore.toFixed(2)}
+            </label>
+            <Slider
+              id="sybil-score-slider"
+              min={0.3}
+              max={0.95}
+              step={0.05}
+              defaultValue={[minScore]}
+              onValueChange={(value) => setMinScore(value[0])}
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={addresses.length < 2 || addresses.length > MAX_ADDRESSES || invalid.length > 0 || startMutation.isPending || running}
+          >
+            {startMutation.isPending || running ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Users className="h-4 w-4 mr-2" />}
+            Analyze {addresses.length} addresses
+          </Button>
+        </div>
+        {invalid.length > 0 && (
+          <p className="text-xs text-destructive">
+            {invalid.length} invalid address{invalid.length === 1 ? '' : 'es'}: {invalid.slice(0, 3).join(', ')}
+            {invalid.length > 3 && ', ...'}
+          </p>
+        )}
+        {addresses.length > MAX_ADDRESSES && (
+          <p className="text-xs text-destructive">At most {MAX_ADDRESSES} addresses can be analyzed at once.</p>
+        )}
+      </form>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {error instanceof Error ? error.message : 'Failed to analyze the addresses'}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {running && (
+        <div className="space-y-3 py-6">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm">
+              {job && job.parameters.ingest && job.addressesIngested < job.addresses.length
+                ? `Fetching histories: ${job.addressesIngested} of ${job.addresses.length} addresses`
+                : 'Comparing addresses...'}
+            </p>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => job && cancelMutation.mutate(job.id)}
+              disabled={!job || cancelMutation.isPending}
+              className="flex items-center gap-1.5"
+            >
+              <XCircle size={14} />
+              Cancel
+            </Button>
+          </div>
+          <Progress value={job ? Math.round((job.addressesIngested / job.addresses.length) * 100) : 0} className="h-2" />
+        </div>
+      )}
+
+      {job?.status === 'cancelled' && (
+        <p className="text-sm text-muted-foreground">
+          Cancelled after fetching {job.addressesIngested} of {job.addresses.length} histories.
+        </p>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {clusteredCount} of {result.addresses} addresses fall into {result.clusters.length} cluster
+            {result.clusters.length === 1 ? '' : 's'}; {result.unlinked.length} are unlinked.
+            {result.failed.length > 0 && ` ${result.failed.length} histories could not be fetched and were scored on stored data only.`}
+            {result.partialHistory.length > 0 && ` ${result.partialHistory.length} histories were too long to reach their first transaction.`}
+          </p>
+          <EntityClustering
+            entityClusters={toEntityClusters(result)}
+            isLoading={false}
+            onClusterSelect={(cluster) => setLocation(`/visualization/${cluster.addresses[0]}`)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
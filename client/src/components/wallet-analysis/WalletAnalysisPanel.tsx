@@ -6,12 +6,14 @@ import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import { Loader2, AlertCircle, Coins, GitCommit, Network, Share2 } from 'lucide-react';
+import { Loader2, AlertCircle, Coins, GitCommit, Network, Share2, Route, PieChart } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import FundingSourcesView from './FundingSourcesView';
 import ActivityPatternsView from './ActivityPatternsView';
 import EntityConnectionsView from './EntityConnectionsView';
 import FundOriginsView from './FundOriginsView';
+import ForwardTraceView from './ForwardTraceView';
+import ExposureView from './ExposureView';
 
 export type WalletAnalysisProps = {
   initialAddress?: string;
@@ -119,7 +121,7 @@ export default function WalletAnalysisPanel({ initialAddress = '' }: WalletAnaly
 
           {walletInfo && (
             <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-              <TabsList className="grid grid-cols-2 md:grid-cols-4 w-full">
+              <TabsList className="grid grid-cols-3 md:grid-cols-6 w-full">
                 <TabsTrigger value="funding-sources" className="flex items-center">
                   <Coins className="mr-2 h-4 w-4" />
                   <span className="hidden md:inline">Funding Sources</span>
@@ -135,11 +137,21 @@ export default function WalletAnalysisPanel({ initialAddress = '' }: WalletAnaly
                   <span className="hidden md:inline">Entity Connections</span>
                   <span className="md:hidden">Entities</span>
                 </TabsTrigger>
+                <TabsTrigger value="exposure" className="flex items-center">
+                  <PieChart className="mr-2 h-4 w-4" />
+                  <span className="hidden md:inline">Exposure</span>
+                  <span className="md:hidden">Exposure</span>
+                </TabsTrigger>
                 <TabsTrigger value="fund-origins" className="flex items-center">
                   <Share2 className="mr-2 h-4 w-4" />
                   <span className="hidden md:inline">Fund Origins</span>
                   <span className="md:hidden">Origins</span>
                 </TabsTrigger>
+                <TabsTrigger value="forward-trace" className="flex items-center">
+                  <Route className="mr-2 h-4 w-4" />
+                  <span className="hidden md:inline">Forward Trace</span>
+                  <span className="md:hidden">Trace</span>
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="funding-sources" className="mt-4">
@@ -154,9 +166,17 @@ export default function WalletAnalysisPanel({ initialAddress = '' }: WalletAnaly
                 {activeAddress && <EntityConnectionsView address={activeAddress} />}
               </TabsContent>
               
+              <TabsContent value="exposure" className="mt-4">
+                {activeAddress && <ExposureView address={activeAddress} />}
+              </TabsContent>
+              
               <TabsContent value="fund-origins" className="mt-4">
                 {activeAddress && <FundOriginsView address={activeAddress} />}
               </TabsContent>
+
+              <TabsContent value="forward-trace" className="mt-4">
+                {activeAddress && <ForwardTraceView address={activeAddress} />}
+              </TabsContent>
             </Tabs>
           )}
 
@@ -1,7 +1,10 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { solanaAPI } from "@/lib/solanaAPI";
 import { detectTransactionType } from "@/lib/utils";
+import { getNetFlow, getNetFlowsByMint, getTransferVolume, NATIVE_SOL_MINT, SOL_DECIMALS } from "@shared/transfers";
+import type { AccountClassification } from "@shared/accounts";
+import type { EntityGraphNode } from "@shared/entities";
 import { 
   SolanaTransactionDetail, 
   WalletNode, 
@@ -9,13 +12,15 @@ import {
   VisualizationGraph,
   WalletSummary,
   EntityCluster,
-  TimelineDataPoint
+  TimelineDataPoint,
+  TransferLeg
 } from "@/types/solana";
 
 interface UseSolanaDataProps {
   address?: string;
   transactionLimit?: number;
   filterWalletAddress?: string | null;
+  collapsedEntity?: EntityGraphNode | null; // Entity whose member wallets are drawn as one node
   filters?: {
     startDate?: Date;
     endDate?: Date;
@@ -23,6 +28,7 @@ interface UseSolanaDataProps {
     maxAmount?: number;
     transactionTypes?: string[];
     programs?: string[];
+    mints?: string[];
   };
 }
 
@@ -31,21 +37,27 @@ interface UseSolanaDataResult {
   walletSummary: WalletSummary | null;
   entityClusters: EntityCluster[];
   timelineData: TimelineDataPoint[];
+  availableMints: string[]; // Every mint moved in the loaded transactions, regardless of filters
   isLoading: boolean;
   error: Error | null;
   processedSignatures: Set<string>;
 }
 
+// Stable default so the graph is not rebuilt on every render
+const NO_CLASSIFICATIONS: Record<string, AccountClassification> = {};
+
 export function useSolanaData({
   address = "",
   transactionLimit = 50,
   filterWalletAddress = null,
+  collapsedEntity = null,
   filters = {}
 }: UseSolanaDataProps = {}): UseSolanaDataResult {
   const [graph, setGraph] = useState<VisualizationGraph>({ nodes: [], edges: [] });
   const [walletSummary, setWalletSummary] = useState<WalletSummary | null>(null);
   const [entityClusters, setEntityClusters] = useState<EntityCluster[]>([]);
   const [timelineData, setTimelineData] = useState<TimelineDataPoint[]>([]);
+  const [availableMints, setAvailableMints] = useState<string[]>([]);
   const [processedSignatures, setProcessedSignatures] = useState<Set<string>>(new Set());
 
   // Query for account info
@@ -109,6 +121,17 @@ export function useSolanaData({
     }
   });
 
+  // On-chain classification of every account in the loaded transactions
+  const accountKeys = useMemo(
+    () => Array.from(new Set<string>(transactionDetails.flatMap((tx: any) => tx?.accountKeys || []))).sort(),
+    [transactionDetails]
+  );
+  const { data: accountClassifications = NO_CLASSIFICATIONS } = useQuery<Record<string, AccountClassification>>({
+    queryKey: ["/api/solana/accounts/classify", accountKeys],
+    enabled: accountKeys.length > 0,
+    queryFn: () => solanaAPI.classifyAccounts(accountKeys),
+  });
+
   // Process transaction details to build graph and other visualizations
   useEffect(() => {
     if (!wallet || !transactionDetails || transactionDetails.length === 0) return;
@@ -130,15 +153,35 @@ export function useSolanaData({
       lastActivity: new Date(),
     });
     
+    // Token accounts are drawn as part of the wallet owning them, from the classifications and the transfer legs
+    const tokenAccountOwners = new Map<string, string>();
+    Object.values(accountClassifications).forEach(account => {
+      if (account.tokenAccount) tokenAccountOwners.set(account.address, account.tokenAccount.owner);
+    });
+    transactionDetails.forEach(tx => (tx?.transfers || []).forEach((leg: TransferLeg) => {
+      if (leg.fromTokenAccount) tokenAccountOwners.set(leg.fromTokenAccount, leg.from);
+      if (leg.toTokenAccount) tokenAccountOwners.set(leg.toTokenAccount, leg.to);
+    }));
+    const collapsedTokenAccounts = new Map<string, Set<string>>();
+    tokenAccountOwners.forEach((owner, tokenAccount) => {
+      if (tokenAccount === owner) return;
+      if (!collapsedTokenAccounts.has(owner)) collapsedTokenAccounts.set(owner, new Set());
+      collapsedTokenAccounts.get(owner)!.add(tokenAccount);
+    });
+    
     // Track wallet interactions for summary
     const interactions = new Map<string, { count: number, lastActivity: Date, type: string }>();
     
     // Track transaction dates for timeline
-    const txDates = new Map<string, { total: number, byType: Record<string, number> }>();
+    const txDates = new Map<string, { total: number, byType: Record<string, number>, volume: number }>();
+    let transactionVolume = 0;
+    const mintFilter = filters.mints && filters.mints.length > 0 ? filters.mints : null;
+    const mintsSeen = new Set<string>([NATIVE_SOL_MINT]);
     
     // Process each transaction
     transactionDetails.forEach(tx => {
       if (!tx) return;
+      (tx.transfers || []).forEach((leg: TransferLeg) => mintsSeen.add(leg.mint));
       
       const txType = detectTransactionType(tx);
       const timestamp = tx.blockTime ? new Date(tx.blockTime * 1000) : new Date();
@@ -159,18 +202,37 @@ export function useSolanaData({
       
       // Update timeline data
       const dateKey = timestamp.toDateString();
-      const dateData = txDates.get(dateKey) || { total: 0, byType: {} };
+      const txValue = getTransferVolume(tx.transfers);
+      transactionVolume += Math.abs(getNetFlow(tx.transfers, mainAddress));
+      
+      const dateData = txDates.get(dateKey) || { total: 0, byType: {}, volume: 0 };
       dateData.total++;
+      dateData.volume += txValue;
       dateData.byType[txType] = (dateData.byType[txType] || 0) + 1;
       txDates.set(dateKey, dateData);
       
-      // Process account keys to create nodes and edges
-      tx.accountKeys.forEach((account: string) => {
+      // Process account keys to create nodes and edges, with token accounts replaced by their owners
+      const accounts = new Set<string>(tx.accountKeys.map((key: string) => tokenAccountOwners.get(key) || key));
+      accounts.forEach(account => {
         if (account === mainAddress) return; // Skip main wallet, already added
         
+        // Net amount of each mint moved between the main wallet and this account in this transaction.
+        // Instruction-level legs keep CPI hops (e.g. via Jupiter or Raydium) with their direct counterparty.
+        const flows = getNetFlowsByMint(
+          (tx.instructionTransfers || tx.transfers || []).filter((leg: TransferLeg) => leg.from === account || leg.to === account),
+          mainAddress
+        ).filter(flow => flow.amount !== 0);
+        
+        // With a mint filter only accounts that moved a selected mint are shown
+        const edgeFlows = mintFilter
+          ? flows.filter(flow => mintFilter.includes(flow.mint))
+          : flows.length > 0 ? flows : [{ mint: NATIVE_SOL_MINT, decimals: SOL_DECIMALS, amount: 0, usdValue: undefined }];
+        if (edgeFlows.length === 0) return;
+        
         if (!nodes.has(account)) {
           // Determine if this is a program or wallet
-          const isProgramAccount = tx.instructions.some((ix: any) => ix.programId === account);
+          const isProgramAccount = accountClassifications[account]?.type === 'program' ||
+            tx.instructions.some((ix: any) => ix.programId === account);
           
           nodes.set(account, {
             id: account,
@@ -190,15 +252,21 @@ export function useSolanaData({
           nodes.set(account, node);
         }
         
-        // Create edge between main wallet and this account
-        const edgeId = `${mainAddress}-${account}-${tx.signature}`;
-        edges.push({
-          id: edgeId,
-          source: mainAddress,
-          target: account,
-          type: txType,
-          signature: tx.signature,
-          timestamp: timestamp,
+        // Create one edge per mint between main wallet and this account
+        edgeFlows.forEach(flow => {
+          edges.push({
+            id: `${mainAddress}-${account}-${tx.signature}-${flow.mint}`,
+            source: mainAddress,
+            target: account,
+            type: txType,
+            signature: tx.signature,
+            timestamp: timestamp,
+            value: Math.abs(flow.amount),
+            mint: flow.mint,
+            decimals: flow.decimals,
+            uiAmount: Math.abs(flow.amount),
+            usdValue: flow.usdValue !== undefined ? Math.abs(flow.usdValue) : undefined,
+          });
         });
         
         // Update interactions for wallet summary
@@ -220,6 +288,12 @@ export function useSolanaData({
       });
     });
     
+    // Keep the token accounts of each drawn wallet for its details
+    nodes.forEach(node => {
+      const tokenAccounts = collapsedTokenAccounts.get(node.address);
+      if (tokenAccounts) node.tokenAccounts = Array.from(tokenAccounts);
+    });
+    
     // Build wallet summary
     if (wallet) {
       // Sort interactions by count
@@ -242,7 +316,7 @@ export function useSolanaData({
         balance: wallet.balance,
         transactionCount: transactions?.length || 0,
         lastActivity,
-        transactionVolume: 0, // Required field
+        transactionVolume,
         risk: 0, // Required field
         label: `Wallet ${mainAddress.substring(0, 6)}...`,
         type: 'user-wallet'
@@ -255,11 +329,12 @@ export function useSolanaData({
         date: new Date(dateStr),
         totalTransactions: data.total,
         transactionsByType: data.byType as Record<any, number>,
-        volume: 0, // Add missing required field for type compatibility
+        volume: data.volume,
       }))
       .sort((a, b) => a.date.getTime() - b.date.getTime());
     
     setTimelineData(timeline);
+    setAvailableMints(Array.from(mintsSeen));
     
     // Build entity clusters
     // This is a simple implementation - in a real app, we would use more sophisticated clustering algorithms
@@ -332,13 +407,18 @@ export function useSolanaData({
     
     setEntityClusters(clusters);
     
+    // An opened entity is drawn as one node standing for all of its member wallets
+    const collapsed = collapsedEntity
+      ? collapseEntity(Array.from(nodes.values()), edges, collapsedEntity)
+      : { nodes: Array.from(nodes.values()), edges };
+    
     // Filter nodes and edges if filterWalletAddress is provided
-    let filteredNodes = Array.from(nodes.values());
-    let filteredEdges = edges;
+    let filteredNodes = collapsed.nodes;
+    let filteredEdges = collapsed.edges;
     
     if (filterWalletAddress) {
       // Only show nodes that are either the main wallet, the filtered wallet, or connected to the filtered wallet
-      filteredEdges = edges.filter(edge => 
+      filteredEdges = collapsed.edges.filter(edge => 
         edge.source === filterWalletAddress || edge.target === filterWalletAddress
       );
       
@@ -363,15 +443,55 @@ export function useSolanaData({
       edges: filteredEdges
     });
     
-  }, [address, wallet, transactionDetails, filters, filterWalletAddress]);
+  }, [address, wallet, transactionDetails, accountClassifications, filters, filterWalletAddress, collapsedEntity]);
 
   return {
     graph,
     walletSummary,
     entityClusters,
     timelineData,
+    availableMints,
     isLoading: isLoadingWallet || isLoadingTransactions || isLoadingDetails,
     error: (walletError || transactionsError || detailsError) as Error | null,
     processedSignatures
   };
 }
+
+/**
+ * Draw an entity's member wallets as one node, kept at the position and address of the first member in the graph
+ * so the main wallet stays first; transfers between members are left out
+ */
+function collapseEntity(nodes: WalletNode[], edges: TransactionEdge[], entity: EntityGraphNode): VisualizationGraph {
+  const members = new Set(entity.members);
+  const memberNodes = nodes.filter(node => members.has(node.address));
+  if (memberNodes.length === 0) return { nodes, edges };
+
+  const id = memberNodes[0].id;
+  const tokenAccounts = memberNodes.flatMap(node => node.tokenAccounts || []);
+  const entityNode: WalletNode = {
+    ...memberNodes[0],
+    type: 'wallet',
+    label: entity.name,
+    subtype: 'entity',
+    balance: memberNodes.some(node => node.balance !== undefined)
+      ? memberNodes.reduce((sum, node) => sum + (node.balance || 0), 0)
+      : undefined,
+    transactionCount: memberNodes.reduce((sum, node) => sum + (node.transactionCount || 0), 0),
+    lastActivity: memberNodes.reduce<Date | undefined>(
+      (last, node) => node.lastActivity && (!last || node.lastActivity > last) ? node.lastActivity : last,
+      undefined
+    ),
+    tokenAccounts: tokenAccounts.length > 0 ? tokenAccounts : undefined,
+    entity: { ...entity, members: memberNodes.map(node => node.address) },
+  };
+
+  const collapsedId = (nodeId: string) => members.has(nodeId) ? id : nodeId;
+  return {
+    nodes: nodes
+      .filter(node => node === memberNodes[0] || !members.has(node.address))
+      .map(node => node === memberNodes[0] ? entityNode : node),
+    edges: edges
+      .filter(edge => !(members.has(edge.source) && members.has(edge.target)))
+      .map(edge => ({ ...edge, source: collapsedId(edge.source), target: collapsedId(edge.target) })),
+  };
+}
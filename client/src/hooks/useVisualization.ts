@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef } from "react";
 import * as d3 from "d3";
 import { VisualizationGraph, WalletNode, TransactionEdge } from "@/types/solana";
-import { shortenAddress, openInSolscan } from "@/lib/utils";
+import { shortenAddress, openInSolscan, getMintColor, formatSolAmount, formatUsdAmount } from "@/lib/utils";
+import { getMintSymbol } from "@shared/transfers";
 
 interface UseVisualizationProps {
   graph: VisualizationGraph;
@@ -46,20 +47,23 @@ export function useVisualization({
     darkLighter: "#383A59"
   };
   
-  // Get edge color based on type
-  const getEdgeColor = (type: string): string => {
-    switch (type) {
-      case "transfer": return colors.secondary;
-      case "swap": return colors.warning;
-      case "nft": return colors.error;
-      case "defi": return colors.info;
-      default: return colors.darkLighter;
-    }
+  // Get edge color based on the token it moves; edges without value stay muted and critical paths stand out
+  const getEdgeColor = (edge: TransactionEdge): string => {
+    if (edge.isCritical) return colors.error;
+    if (!edge.uiAmount) return colors.darkLighter;
+    return getMintColor(edge.mint);
+  };
+  
+  // Hover label, e.g. "250.00 USDC ($250.00) · transfer"
+  const getEdgeLabel = (edge: TransactionEdge): string => {
+    const usd = edge.usdValue !== undefined ? ` (${formatUsdAmount(edge.usdValue)})` : "";
+    return `${formatSolAmount(edge.uiAmount)} ${getMintSymbol(edge.mint)}${usd} · ${edge.type}`;
   };
   
   // Get node color based on type
   const getNodeColor = (node: WalletNode, isMain: boolean): string => {
     if (isMain) return colors.primary;
+    if (node.entity) return colors.info;
     if (node.type === "program") return colors.secondary;
     return colors.darkLighter;
   };
@@ -67,6 +71,7 @@ export function useVisualization({
   // Get node size based on transaction count
   const getNodeSize = (node: WalletNode, isMain: boolean): number => {
     if (isMain) return 30;
+    if (node.entity) return 25;
     if (node.type === "program") return 20;
     return 15 + (node.transactionCount || 0) / 2;
   };
@@ -121,9 +126,9 @@ export function useVisualization({
       .enter()
       .append("line")
       .attr("class", "link")
-      .attr("stroke", d => getEdgeColor(d.type))
-      .attr("stroke-width", 2)
-      .attr("stroke-opacity", 0.7)
+      .attr("stroke", d => getEdgeColor(d))
+      .attr("stroke-width", (d: TransactionEdge) => d.isCritical ? 3.5 : 2)
+      .attr("stroke-opacity", (d: TransactionEdge) => d.isCritical ? 1 : 0.7)
       .attr("marker-end", "url(#arrowhead)")
       .on("click", (_event, d) => {
         setSelectedEdge(d);
@@ -136,6 +141,8 @@ export function useVisualization({
         }
       });
     
+    links.append("title").text((d: TransactionEdge) => getEdgeLabel(d));
+    
     // Create nodes
     const nodes = g.selectAll(".node")
       .data(graph.nodes)
@@ -147,6 +154,12 @@ export function useVisualization({
         if (onNodeClick) onNodeClick(d);
       })
       .on("dblclick", (_event, d) => {
+        // A collapsed entity opens its entity page
+        if (d.entity) {
+          window.open(`/entity/${d.entity.id}`, '_blank');
+          return;
+        }
+        
         // Open in Solscan on double-click using the appropriate type
         // If it's a program/contract, use the appropriate path
         const type = d.type === 'program' ? 'contract' : 'address';
@@ -164,7 +177,7 @@ export function useVisualization({
       .attr("text-anchor", "middle")
       .attr("fill", d => d.type === "program" ? "#1E1E2E" : "white")
       .attr("font-size", d => d.address === mainNode?.address ? "10px" : "8px")
-      .text(d => shortenAddress(d.address, 4));
+      .text(d => d.entity ? d.entity.name : shortenAddress(d.address, 4));
     
     // Create simulation
     const simulation = d3.forceSimulation(graph.nodes)
@@ -3,6 +3,10 @@ import {
   SolanaTransaction, 
   SolanaTransactionDetail 
 } from "@/types/solana";
+import type { AccountClassification } from "@shared/accounts";
+
+// Accounts the server classifies per request
+const CLASSIFY_BATCH_SIZE = 1000;
 
 class SolanaAPI {
   private baseUrl: string = "/api/solana";
@@ -76,6 +80,32 @@ class SolanaAPI {
       throw error;
     }
   }
+
+  async classifyAccounts(addresses: string[]): Promise<Record<string, AccountClassification>> {
+    try {
+      const accounts: Record<string, AccountClassification> = {};
+      
+      for (let i = 0; i < addresses.length; i += CLASSIFY_BATCH_SIZE) {
+        const response = await fetch(`${this.baseUrl}/accounts/classify`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ addresses: addresses.slice(i, i + CLASSIFY_BATCH_SIZE) }),
+        });
+        
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.message || "Failed to classify accounts");
+        }
+        
+        Object.assign(accounts, (await response.json()).accounts);
+      }
+      
+      return accounts;
+    } catch (error) {
+      console.error("Error classifying Solana accounts:", error);
+      throw error;
+    }
+  }
 }
 
 // Export a singleton instance
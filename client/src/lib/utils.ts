@@ -6,6 +6,8 @@ import {
   TransactionType, 
   SolanaTransactionDetail 
 } from "@/types/solana";
+import { SWAP_PROGRAMS } from "@shared/instructions";
+import { NATIVE_SOL_MINT } from "@shared/transfers";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -30,12 +32,35 @@ export function formatSolAmount(amount: number): string {
   });
 }
 
+// Fixed colors for common mints; others get a stable color from the palette
+const MINT_COLORS: Record<string, string> = {
+  [NATIVE_SOL_MINT]: "#14F195",
+  So11111111111111111111111111111111111111112: "#14F195",
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: "#2775CA",
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: "#26A17B",
+};
+const MINT_PALETTE = ["#FFB800", "#00C2FF", "#FF5353", "#F472B6", "#A78BFA", "#FB923C"];
+
+export function getMintColor(mint: string): string {
+  if (MINT_COLORS[mint]) return MINT_COLORS[mint];
+
+  let hash = 0;
+  for (let i = 0; i < mint.length; i++) {
+    hash = (hash * 31 + mint.charCodeAt(i)) >>> 0;
+  }
+  return MINT_PALETTE[hash % MINT_PALETTE.length];
+}
+
+export function formatUsdAmount(amount: number): string {
+  return amount.toLocaleString(undefined, { style: "currency", currency: "USD" });
+}
+
 export function detectTransactionType(tx: SolanaTransactionDetail): TransactionType {
   if (!tx) return 'other';
   
-  // Check for program IDs to determine transaction type
-  // These are simplified checks - in a production app we would have more comprehensive logic
-  const programIds = tx.instructions.map(ix => ix.programId);
+  // Check for program IDs to determine transaction type, including CPI calls
+  const instructions = [...tx.instructions, ...(tx.innerInstructions || [])];
+  const programIds = instructions.map(ix => ix.programId);
   
   const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
   const METAPLEX_ID = 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s';
@@ -45,7 +70,10 @@ export function detectTransactionType(tx: SolanaTransactionDetail): TransactionT
   
   if (programIds.includes(METAPLEX_ID)) {
     return 'nft';
-  } else if (programIds.includes(RAYDIUM_ID) || programIds.includes(SERUM_ID) || programIds.includes(JUPITER_ID)) {
+  } else if (
+    programIds.includes(RAYDIUM_ID) || programIds.includes(SERUM_ID) || programIds.includes(JUPITER_ID) ||
+    instructions.some(ix => ix.program && SWAP_PROGRAMS.includes(ix.program))
+  ) {
     return 'swap';
   } else if (programIds.includes(TOKEN_PROGRAM_ID)) {
     return 'transfer';
@@ -15,6 +15,8 @@ import FundingSourcesView from "@/components/wallet-analysis/FundingSourcesView"
 import ActivityPatternsView from "@/components/wallet-analysis/ActivityPatternsView";
 import EntityConnectionsView from "@/components/wallet-analysis/EntityConnectionsView";
 import FundOriginsView from "@/components/wallet-analysis/FundOriginsView";
+import ForwardTraceView from "@/components/wallet-analysis/ForwardTraceView";
+import SybilBatchView from "@/components/wallet-analysis/SybilBatchView";
 
 // Import transaction clustering components
 import TransactionClusteringPanel from "@/components/transaction-clustering/TransactionClusteringPanel";
@@ -261,6 +263,8 @@ export default function Analytics() {
                         <TabsTrigger value="activity-patterns">Activity Patterns</TabsTrigger>
                         <TabsTrigger value="entity-connections">Entity Connections</TabsTrigger>
                         <TabsTrigger value="fund-origins">Fund Origins</TabsTrigger>
+                        <TabsTrigger value="forward-trace">Forward Trace</TabsTrigger>
+                        <TabsTrigger value="sybil-batch">Airdrop Farms</TabsTrigger>
                       </TabsList>
                       
                       <div className="mt-4">
@@ -287,6 +291,18 @@ export default function Analytics() {
                             {address && <FundOriginsView address={address} />}
                           </div>
                         </TabsContent>
+                        
+                        <TabsContent value="forward-trace">
+                          <div className="py-1">
+                            {address && <ForwardTraceView address={address} />}
+                          </div>
+                        </TabsContent>
+                        
+                        <TabsContent value="sybil-batch">
+                          <div className="py-1">
+                            <SybilBatchView />
+                          </div>
+                        </TabsContent>
                       </div>
                     </Tabs>
                   </div>
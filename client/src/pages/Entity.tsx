@@ -0,0 +1,376 @@
+import { useState } from "react";
+import { useParams, useLocation, Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate, formatSolAmount, formatUsdAmount, isValidSolanaAddress, shortenAddress } from "@/lib/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, Building2, GitBranch, Plus, Trash2 } from "lucide-react";
+import { ENTITY_RISK_LEVELS, EntityFlow, EntityMember, EntityProfile } from "@shared/entities";
+
+// USD only covers priced transfers; flows with none priced say so instead of showing $0
+function formatFlow(flow: EntityFlow): string {
+  if (flow.transfers === 0) return `${formatSolAmount(flow.sol)} SOL`;
+  if (flow.unpriced === flow.transfers) return `${formatSolAmount(flow.sol)} SOL (unpriced)`;
+
+  const unpriced = flow.unpriced > 0 ? `, ${flow.unpriced} unpriced` : "";
+  return `${formatSolAmount(flow.sol)} SOL (${formatUsdAmount(flow.usd)}${unpriced})`;
+}
+
+function formatActivity(time: string | null): string {
+  return time ? formatDate(new Date(time)) : "—";
+}
+
+function getRiskColor(score: number | null): string {
+  if (score === null) return "text-gray-400";
+  if (score >= ENTITY_RISK_LEVELS.high) return "text-solana-error";
+  if (score >= ENTITY_RISK_LEVELS.medium) return "text-solana-warning";
+  return "text-solana-secondary";
+}
+
+function StatCard({ title, value, detail }: { title: string; value: string; detail?: string }) {
+  return (
+    <Card className="bg-solana-dark-light border-solana-dark-lighter">
+      <CardHeader className="pb-2">
+        <CardDescription className="text-gray-400">{title}</CardDescription>
+        <CardTitle className="text-white text-lg">{value}</CardTitle>
+      </CardHeader>
+      {detail && (
+        <CardContent className="pt-0 text-xs text-gray-400">{detail}</CardContent>
+      )}
+    </Card>
+  );
+}
+
+function MemberEvidence({ member }: { member: EntityMember }) {
+  return (
+    <div className="space-y-1">
+      {member.evidence.map(label => (
+        <div key={label.id} className="text-xs">
+          <Badge variant="outline" className="mr-1 capitalize">{label.sourceType}</Badge>
+          {label.verified && <Badge className="mr-1 bg-solana-secondary text-solana-dark">verified</Badge>}
+          {label.role && <Badge variant="outline" className="mr-1">{label.role}</Badge>}
+          <span className="text-gray-400">
+            {label.dataset ? `${label.dataset}${label.datasetVersion ? ` v${label.datasetVersion}` : ""}` : label.source || ""}
+            {` · ${Math.round(label.confidence * 100)}%`}
+          </span>
+          {label.evidence && <p className="text-gray-300 mt-0.5">{label.evidence}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function Entity() {
+  const { entityId } = useParams<{ entityId: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [memberAddress, setMemberAddress] = useState("");
+  const [memberEvidence, setMemberEvidence] = useState("");
+
+  const profileKey = `/api/entity-labeling/entities/${entityId}/profile`;
+  const { data: profile, isLoading, error } = useQuery<EntityProfile>({
+    queryKey: [profileKey],
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/entity-labeling/entities/${entityId}/members`, {
+        address: memberAddress,
+        evidence: memberEvidence || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setMemberAddress("");
+      setMemberEvidence("");
+      queryClient.invalidateQueries({ queryKey: [profileKey] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to add member wallet",
+        description: error.message,
+      });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (address: string) => {
+      await apiRequest("DELETE", `/api/entity-labeling/entities/${entityId}/members/${address}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [profileKey] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to remove member wallet",
+        description: error.message,
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-1/3" />
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <Alert variant="destructive" className="bg-solana-dark-light border-solana-error">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription>{(error as Error | null)?.message || "Entity not found"}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const { entity, risk } = profile;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center gap-2">
+            <Building2 className="h-6 w-6 text-solana-primary" />
+            <h1 className="text-2xl font-bold text-white">{entity.name}</h1>
+            <Badge variant={entity.type === "exchange" ? "destructive" : "outline"}>{entity.type}</Badge>
+            {entity.verificationStatus && <Badge variant="outline">{entity.verificationStatus}</Badge>}
+            {!entity.isPublic && <Badge variant="outline">private</Badge>}
+          </div>
+          {entity.description && <p className="text-gray-400 mt-1">{entity.description}</p>}
+        </div>
+        <Button
+          className="bg-solana-primary hover:bg-solana-primary/90"
+          disabled={profile.members.length === 0}
+          onClick={() => setLocation(`/rpc-visualization/${profile.members[0].address}?entity=${entity.id}`)}
+        >
+          <GitBranch className="h-4 w-4 mr-2" />
+          Open in Graph
+        </Button>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard title="Inflow" value={formatFlow(profile.inflow)} detail={`${profile.inflow.transfers} transfers`} />
+        <StatCard title="Outflow" value={formatFlow(profile.outflow)} detail={`${profile.outflow.transfers} transfers`} />
+        <StatCard
+          title="Member Wallets"
+          value={String(profile.members.length)}
+          detail={`${formatFlow(profile.internal)} moved between members`}
+        />
+        <StatCard
+          title="Activity"
+          value={`${formatActivity(profile.firstActivity)} – ${formatActivity(profile.lastActivity)}`}
+          detail={`${profile.transactionsAnalyzed} transactions of ${profile.walletsAnalyzed} wallets`}
+        />
+      </div>
+
+      {/* Daily volume */}
+      <Card className="bg-solana-dark-light border-solana-dark-lighter">
+        <CardHeader>
+          <CardTitle className="text-white">Daily Volume</CardTitle>
+          <CardDescription className="text-gray-400">SOL received from and sent outside the entity</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={profile.dailyVolume.map(day => ({ date: day.date, inflow: day.inflow.sol, outflow: day.outflow.sol }))}
+                margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="#383A59" />
+                <XAxis dataKey="date" stroke="#808080" />
+                <YAxis stroke="#808080" />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1E1E2E', borderColor: '#383A59' }}
+                  labelStyle={{ color: '#FFFFFF' }}
+                  itemStyle={{ color: '#FFFFFF' }}
+                />
+                <Legend />
+                <Bar dataKey="inflow" fill="#14F195" name="Inflow (SOL)" />
+                <Bar dataKey="outflow" fill="#FF5353" name="Outflow (SOL)" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Counterparties */}
+        <Card className="bg-solana-dark-light border-solana-dark-lighter">
+          <CardHeader>
+            <CardTitle className="text-white">Top Counterparties</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {profile.topCounterparties.length === 0 ? (
+              <p className="text-sm text-gray-400">No transfers with other wallets in the stored history.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Wallets</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {profile.topCounterparties.map(counterparty => (
+                    <TableRow key={counterparty.entityId ?? "unlabeled"}>
+                      <TableCell>
+                        {counterparty.entityId !== null ? (
+                          <Link href={`/entity/${counterparty.entityId}`} className="text-solana-secondary hover:underline">
+                            {counterparty.name}
+                          </Link>
+                        ) : (
+                          <span className="text-gray-400">{counterparty.name}</span>
+                        )}
+                        <span className="text-xs text-gray-500 ml-1">{counterparty.type}</span>
+                      </TableCell>
+                      <TableCell>{formatFlow(counterparty.inflow)}</TableCell>
+                      <TableCell>{formatFlow(counterparty.outflow)}</TableCell>
+                      <TableCell>{counterparty.addresses}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Risk */}
+        <Card className="bg-solana-dark-light border-solana-dark-lighter">
+          <CardHeader>
+            <CardTitle className="text-white">Risk</CardTitle>
+            <CardDescription className="text-gray-400">
+              {risk.scoredWallets > 0
+                ? <>Highest member score <span className={getRiskColor(risk.maxScore)}>{risk.maxScore}</span>, average {Math.round(risk.averageScore || 0)}</>
+                : "No member wallet has been scored yet"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2 text-xs">
+              <Badge variant="destructive">{risk.levels.high} high</Badge>
+              <Badge className="bg-solana-warning text-solana-dark">{risk.levels.medium} medium</Badge>
+              <Badge variant="outline">{risk.levels.low} low</Badge>
+              <Badge variant="outline">{risk.levels.unscored} unscored</Badge>
+            </div>
+            {risk.rules.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Wallets</TableHead>
+                    <TableHead>Max Points</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {risk.rules.map(rule => (
+                    <TableRow key={rule.ruleId}>
+                      <TableCell>{rule.description}</TableCell>
+                      <TableCell>{rule.wallets}</TableCell>
+                      <TableCell>{rule.maxPoints.toFixed(1)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Members */}
+      <Card className="bg-solana-dark-light border-solana-dark-lighter">
+        <CardHeader>
+          <CardTitle className="text-white">Member Wallets</CardTitle>
+          <CardDescription className="text-gray-400">
+            Each wallet with the label assertions that put it in this entity
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Wallet address"
+              value={memberAddress}
+              onChange={event => setMemberAddress(event.target.value)}
+              className="bg-solana-dark border-solana-dark-lighter"
+            />
+            <Input
+              placeholder="Evidence (optional)"
+              value={memberEvidence}
+              onChange={event => setMemberEvidence(event.target.value)}
+              className="bg-solana-dark border-solana-dark-lighter"
+            />
+            <Button
+              onClick={() => addMemberMutation.mutate()}
+              disabled={!isValidSolanaAddress(memberAddress) || addMemberMutation.isPending}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Address</TableHead>
+                <TableHead>Risk</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead>Sent</TableHead>
+                <TableHead>Last Activity</TableHead>
+                <TableHead>Evidence</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {profile.members.map(member => (
+                <TableRow key={member.address}>
+                  <TableCell className="font-mono">
+                    <Link href={`/rpc-visualization/${member.address}`} className="text-solana-secondary hover:underline">
+                      {shortenAddress(member.address)}
+                    </Link>
+                    {member.walletType && member.walletType !== "wallet" && (
+                      <span className="text-xs text-gray-500 ml-1">{member.walletType}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className={getRiskColor(member.riskScore)}>{member.riskScore ?? "—"}</TableCell>
+                  <TableCell>{formatFlow(member.inflow)}</TableCell>
+                  <TableCell>{formatFlow(member.outflow)}</TableCell>
+                  <TableCell>{formatActivity(member.lastActivity)}</TableCell>
+                  <TableCell><MemberEvidence member={member} /></TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeMemberMutation.mutate(member.address)}
+                      disabled={removeMemberMutation.isPending}
+                      title="Remove from entity"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
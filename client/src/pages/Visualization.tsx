@@ -1,11 +1,13 @@
-import { useState, useRef, useEffect } from "react";
-import { useParams, useLocation } from "wouter";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { useParams, useLocation, useSearch, Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useWallet } from "@/hooks/useWallet";
 import { useSolanaData } from "@/hooks/useSolanaData";
 import { WalletNode, TransactionEdge, VisualizationFilters, TransactionType } from "@/types/solana";
 import FilterSidebar from "@/components/visualization/FilterSidebar";
 import FlowVisualization from "@/components/visualization/FlowVisualization";
 import TransactionTimeline from "@/components/visualization/TransactionTimeline";
+import BackfillProgress from "@/components/visualization/BackfillProgress";
 import WalletSummary from "@/components/visualization/WalletSummary";
 import EntityClustering from "@/components/visualization/EntityClustering";
 import TutorialPrompt from "@/components/visualization/TutorialPrompt";
@@ -17,7 +19,9 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { AlertCircle, Users, MessageSquare, Share2 } from "lucide-react";
+import { AlertCircle, Users, MessageSquare, Share2, Building2 } from "lucide-react";
+import { CycleReport } from "@shared/tracing";
+import type { EntityGraphNode, EntityProfile } from "@shared/entities";
 
 export default function Visualization() {
   const { walletAddress } = useParams<{ walletAddress?: string }>();
@@ -39,7 +43,8 @@ export default function Visualization() {
     dateRange: { startDate: null, endDate: null },
     amountRange: { minAmount: 0.05, maxAmount: 100 },
     transactionTypes: ["transfer", "swap", "nft"] as Array<"transfer" | "swap" | "nft" | "defi" | "other">,
-    programs: ["tokenProgram", "serum", "metaplex"]
+    programs: ["tokenProgram", "serum", "metaplex"],
+    mints: []
   };
   const [filters, setFilters] = useState<VisualizationFilters>(initialFilters);
   const [appliedFilters, setAppliedFilters] = useState<VisualizationFilters>(initialFilters);
@@ -53,20 +58,41 @@ export default function Visualization() {
     isValidAddress 
   } = useWallet({ address });
 
+  // Entity opened from its entity page, drawn as one node
+  const entityId = new URLSearchParams(useSearch()).get("entity");
+  const { data: entityProfile } = useQuery<EntityProfile>({
+    queryKey: [`/api/entity-labeling/entities/${entityId}/profile`],
+    enabled: !!entityId,
+  });
+  const collapsedEntity = useMemo<EntityGraphNode | null>(() => entityProfile ? {
+    id: entityProfile.entity.id,
+    name: entityProfile.entity.name,
+    type: entityProfile.entity.type,
+    members: entityProfile.members.map(member => member.address),
+  } : null, [entityProfile]);
+
   // Get visualization data
   const {
     graph,
     walletSummary,
     entityClusters,
     timelineData,
+    availableMints,
     isLoading: isLoadingData,
     error: dataError
   } = useSolanaData({ 
     address, 
     filterWalletAddress: showOnlyInteractionsWithWallet,
+    collapsedEntity,
     filters: appliedFilters 
   });
 
+  // Circular flows through the stored history, drawn as critical paths
+  const { data: cycleReport } = useQuery<CycleReport>({
+    queryKey: [`/api/transaction-clustering/${address}/cycles`],
+    enabled: !!address && isValidAddress,
+  });
+
   const isLoading = isLoadingWallet || isLoadingData;
   const error = walletError || dataError;
 
@@ -292,6 +318,7 @@ export default function Visualization() {
           onFiltersChange={handleFiltersChange}
           onFilterApply={handleFilterApply}
           onFilterReset={handleFilterReset}
+          availableMints={availableMints}
         />
 
         {/* Main visualization area */}
@@ -333,6 +360,28 @@ export default function Visualization() {
                 </TabsList>
                 
                 <TabsContent value="visualization" className="m-0 p-0">
+                  {collapsedEntity && (
+                    <Alert className="bg-solana-dark-light border-solana-info mb-4">
+                      <Building2 className="h-4 w-4" />
+                      <AlertTitle>{collapsedEntity.name}</AlertTitle>
+                      <AlertDescription className="flex items-center justify-between">
+                        <span>{collapsedEntity.members.length} member wallets are drawn as one node.</span>
+                        <span className="flex gap-2">
+                          <Link href={`/entity/${collapsedEntity.id}`} className="text-solana-secondary hover:underline">
+                            Entity page
+                          </Link>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 text-xs"
+                            onClick={() => setLocation(`/rpc-visualization/${address}`)}
+                          >
+                            Expand
+                          </Button>
+                        </span>
+                      </AlertDescription>
+                    </Alert>
+                  )}
                   {/* Flow Visualization */}
                   <div className="bg-solana-dark-light rounded-lg p-4 relative min-h-[480px]">
                     {isLoading ? (
@@ -354,6 +403,7 @@ export default function Visualization() {
                         selectedEdge={selectedEdge}
                         filteredWalletAddress={showOnlyInteractionsWithWallet}
                         svgRef={svgRef}
+                        cycles={cycleReport?.cycles}
                       />
                     )}
                   </div>
@@ -364,6 +414,9 @@ export default function Visualization() {
                     isLoading={isLoading} 
                   />
 
+                  {/* Full-history backfill progress */}
+                  {isValidAddress && <BackfillProgress address={address} />}
+
                   {/* Wallet Summary and Entity Clustering cards */}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <WalletSummary 
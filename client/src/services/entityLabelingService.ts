@@ -1,71 +1,26 @@
 import { SolanaTransactionDetail } from "@/types/solana";
+import { getNetFlow } from "@shared/transfers";
+import type { ResolvedLabel } from "@shared/labels";
+import type { AccountClassification } from "@shared/accounts";
 
 export interface EntityLabel {
   address: string;
   name: string;
-  type: 'exchange' | 'dex' | 'project' | 'protocol' | 'contract' | 'other';
+  type: string; // Entity type from the label packs, or 'exchange', 'dex' or 'contract' when detected
+  role?: string; // Part the address plays in the entity, e.g. 'deposit'
   description?: string;
   website?: string;
   tags?: string[];
+  source?: string;
+  dataset?: string; // Label pack the label was imported from
+  conflicting?: number; // Assertions of other entities the resolver ranked lower
   confidence: number; // 0-100 confidence score
   detectionMethod: 'dataset' | 'pattern' | 'manual';
   lastUpdated: Date;
 }
 
-// Known exchange and project addresses dataset
-// This would be much more comprehensive in a real app
-const KNOWN_ENTITIES: EntityLabel[] = [
-  {
-    address: '9n5V42cxUFSH5foGrTKyRC5wHddyJDyWoL75QSp1RUsv',
-    name: 'Solana Swap Program',
-    type: 'protocol',
-    description: 'Solana token swap program',
-    tags: ['swap', 'dex'],
-    confidence: 100,
-    detectionMethod: 'dataset',
-    lastUpdated: new Date('2023-01-01')
-  },
-  {
-    address: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
-    name: 'SPL Token Program',
-    type: 'protocol',
-    description: 'Solana Program Library Token Program',
-    tags: ['token', 'spl'],
-    confidence: 100,
-    detectionMethod: 'dataset',
-    lastUpdated: new Date('2023-01-01')
-  },
-  {
-    address: 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL',
-    name: 'Associated Token Account Program',
-    type: 'protocol',
-    description: 'Solana Associated Token Account Program',
-    tags: ['token', 'spl'],
-    confidence: 100,
-    detectionMethod: 'dataset',
-    lastUpdated: new Date('2023-01-01')
-  },
-  {
-    address: 'So11111111111111111111111111111111111111112',
-    name: 'Wrapped SOL',
-    type: 'protocol',
-    description: 'Wrapped SOL token',
-    tags: ['token', 'wrapped'],
-    confidence: 100,
-    detectionMethod: 'dataset',
-    lastUpdated: new Date('2023-01-01')
-  },
-  {
-    address: 'Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo',
-    name: 'Memo Program',
-    type: 'protocol',
-    description: 'Solana Memo Program',
-    tags: ['utility'],
-    confidence: 100,
-    detectionMethod: 'dataset',
-    lastUpdated: new Date('2023-01-01')
-  }
-];
+// Addresses the server looks up per request
+const LOOKUP_BATCH_SIZE = 1000;
 
 // Exchange pattern fingerprints
 const EXCHANGE_PATTERNS = [
@@ -95,12 +50,37 @@ const EXCHANGE_PATTERNS = [
   }
 ];
 
+/**
+ * Look up the effective labels the server resolves for a set of addresses
+ */
+export async function fetchKnownLabels(addresses: string[]): Promise<Record<string, ResolvedLabel>> {
+  const labels: Record<string, ResolvedLabel> = {};
+  
+  for (let i = 0; i < addresses.length; i += LOOKUP_BATCH_SIZE) {
+    const response = await fetch('/api/entity-labeling/lookup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ addresses: addresses.slice(i, i + LOOKUP_BATCH_SIZE) }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to look up entity labels');
+    }
+    Object.assign(labels, (await response.json()).labels);
+  }
+  
+  return labels;
+}
+
 /**
  * Primary function to identify and label entities
+ * @param knownLabels Server labels for the transactions' addresses, see fetchKnownLabels
+ * @param accountClassifications Server classification of the accounts, see solanaAPI.classifyAccounts
  */
 export function identifyEntities(
   transactions: SolanaTransactionDetail[], 
-  mainWalletAddress: string
+  mainWalletAddress: string,
+  knownLabels: Record<string, ResolvedLabel> = {},
+  accountClassifications: Record<string, AccountClassification> = {}
 ): EntityLabel[] {
   const labels: EntityLabel[] = [];
   const addressSet = new Set<string>();
@@ -117,13 +97,26 @@ export function identifyEntities(
   
   // Look for known entities
   addressSet.forEach(address => {
-    // Check against known entity dataset
-    const knownEntity = KNOWN_ENTITIES.find(entity => entity.address === address);
-    if (knownEntity) {
-      labels.push({...knownEntity});
+    // Check against the labels resolved on the server
+    const resolved = knownLabels[address];
+    if (resolved) {
+      const knownLabel = resolved.label;
+      labels.push({
+        address,
+        name: knownLabel.entity,
+        type: knownLabel.type,
+        role: knownLabel.role || undefined,
+        source: knownLabel.source || undefined,
+        dataset: knownLabel.dataset || undefined,
+        confidence: Math.round(knownLabel.confidence * 100),
+        conflicting: resolved.conflicting.length || undefined,
+        detectionMethod: knownLabel.sourceType === 'dataset' ? 'dataset' :
+          knownLabel.sourceType === 'heuristic' ? 'pattern' : 'manual',
+        lastUpdated: new Date()
+      });
     } else {
       // Try to detect patterns
-      const detectedEntity = detectEntityType(address, transactions, mainWalletAddress);
+      const detectedEntity = detectEntityType(address, transactions, mainWalletAddress, accountClassifications[address]);
       if (detectedEntity) {
         labels.push(detectedEntity);
       }
@@ -139,8 +132,23 @@ export function identifyEntities(
 function detectEntityType(
   address: string,
   transactions: SolanaTransactionDetail[],
-  mainWalletAddress: string
+  mainWalletAddress: string,
+  classification?: AccountClassification
 ): EntityLabel | null {
+  // Programs are known from their on-chain account, however few transactions they appear in
+  if (classification?.type === 'program') {
+    return {
+      address,
+      name: `Smart Contract`,
+      type: 'contract',
+      description: `Executable program account (${classification.classification})`,
+      tags: ['program', 'contract', 'auto-detected'],
+      confidence: 100,
+      detectionMethod: 'pattern',
+      lastUpdated: new Date()
+    };
+  }
+  
   // Filter transactions involving this address
   const relevantTxs = transactions.filter(tx => tx.accountKeys.includes(address));
   
@@ -176,20 +184,6 @@ function detectEntityType(
     };
   }
   
-  // Check for program/contract patterns
-  if (isLikelyProgram(address, relevantTxs)) {
-    return {
-      address,
-      name: `Smart Contract`,
-      type: 'contract',
-      description: 'Detected as a likely smart contract or program',
-      tags: ['program', 'contract', 'auto-detected'],
-      confidence: 80,
-      detectionMethod: 'pattern',
-      lastUpdated: new Date()
-    };
-  }
-  
   return null;
 }
 
@@ -286,36 +280,21 @@ function calculateDexPatternScore(
 }
 
 /**
- * Check if an address is likely a program/contract
- */
-function isLikelyProgram(
-  address: string,
-  transactions: SolanaTransactionDetail[]
-): boolean {
-  // Check if address appears in programId fields
-  return transactions.some(tx => 
-    tx.instructions.some(ix => ix.programId === address)
-  );
-}
-
-/**
- * Simplified check for incoming transaction to an address
- * In a real app, this would analyze the transaction instructions in detail
+ * Check whether an address received SOL in a transaction
  */
 function isIncomingTransaction(
   tx: SolanaTransactionDetail,
   address: string
 ): boolean {
-  return tx.accountKeys.includes(address) && Math.random() > 0.4;
+  return getNetFlow(tx.transfers, address) > 0;
 }
 
 /**
- * Simplified check for outgoing transaction from an address
- * In a real app, this would analyze the transaction instructions in detail
+ * Check whether an address sent SOL in a transaction
  */
 function isOutgoingTransaction(
   tx: SolanaTransactionDetail,
   address: string
 ): boolean {
-  return tx.accountKeys.includes(address) && Math.random() > 0.6;
-}
\ No newline at end of file
+  return getNetFlow(tx.transfers, address) < 0;
+}
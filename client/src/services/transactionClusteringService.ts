@@ -1,5 +1,6 @@
 import { SolanaTransactionDetail, TransactionEdge, WalletNode } from "@/types/solana";
 import { detectTransactionType } from "@/lib/utils";
+import { getNetFlow, getTransferVolume } from "@shared/transfers";
 
 export interface TransactionCluster {
   id: string;
@@ -466,14 +467,10 @@ function calculateWalletRelationshipConfidence(
 }
 
 /**
- * Helper function to estimate the SOL value of a transaction
+ * SOL value of a transaction, from its decoded transfer legs
  */
 function estimateTransactionValue(tx: SolanaTransactionDetail): number {
-  // This is a simplified implementation
-  // In a real app, we would parse the transaction instructions in detail
-  
-  // For this demo, we'll just use a random value between 0 and 20 SOL
-  return Math.random() * 20;
+  return getTransferVolume(tx.transfers);
 }
 
 /**
@@ -501,10 +498,7 @@ function isReceiveTransaction(
   tx: SolanaTransactionDetail,
   mainWalletAddress: string
 ): boolean {
-  // This is a simplified implementation
-  // In a real app, we would analyze the transaction instructions in detail
-  
-  return tx.accountKeys.includes(mainWalletAddress) && Math.random() > 0.7;
+  return getNetFlow(tx.transfers, mainWalletAddress) > 0;
 }
 
 /**
@@ -514,8 +508,5 @@ function isDisperseTransaction(
   tx: SolanaTransactionDetail,
   mainWalletAddress: string
 ): boolean {
-  // This is a simplified implementation
-  // In a real app, we would analyze the transaction instructions in detail
-  
-  return tx.accountKeys.includes(mainWalletAddress) && Math.random() > 0.5;
-}
\ No newline at end of file
+  return getNetFlow(tx.transfers, mainWalletAddress) < 0;
+}
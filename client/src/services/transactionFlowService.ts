@@ -1,5 +1,8 @@
 import { SolanaTransactionDetail, VisualizationGraph, WalletNode, TransactionEdge } from "@/types/solana";
 import { detectTransactionType } from "@/lib/utils";
+import { getNetFlowsByMint, getTransferVolume, NATIVE_SOL_MINT, SOL_DECIMALS } from "@shared/transfers";
+import type { ResolvedLabel } from "@shared/labels";
+import type { AccountClassification } from "@shared/accounts";
 import { clusterTransactions, TransactionCluster } from "./transactionClusteringService";
 import { identifyEntities, EntityLabel } from "./entityLabelingService";
 import { analyzeWallet, WalletAnalysisResult, FundingSource, ActivityPattern } from "./walletAnalysisService";
@@ -32,7 +35,6 @@ export interface TransactionFlowResult {
     totalTransactions: number;
     uniqueAddresses: number;
     totalVolume: number;
-    riskScore: number;
     unusualTransactionsCount: number;
   };
 }
@@ -48,15 +50,21 @@ export interface TransactionFlowFilters {
   onlyHighValue?: boolean;
   onlyCriticalPaths?: boolean;
   entityTypes?: string[];
+  mints?: string[];
 }
 
 /**
  * Main service function to generate transaction flow visualization and analysis data
+ * @param behaviorPatterns Server-detected cycles and structuring, see fetchBehaviorPatterns
+ * @param accountClassifications Server classification of the accounts, see solanaAPI.classifyAccounts
  */
 export function generateTransactionFlow(
   transactions: SolanaTransactionDetail[],
   mainWalletAddress: string,
-  filters: TransactionFlowFilters = {}
+  filters: TransactionFlowFilters = {},
+  knownLabels: Record<string, ResolvedLabel> = {},
+  behaviorPatterns: ActivityPattern[] = [],
+  accountClassifications: Record<string, AccountClassification> = {}
 ): TransactionFlowResult {
   // Apply filters to transactions
   const filteredTransactions = applyFilters(transactions, filters);
@@ -66,13 +74,13 @@ export function generateTransactionFlow(
   }
   
   // Generate the core visualization graph
-  const graph = buildTransactionGraph(filteredTransactions, mainWalletAddress);
+  const graph = buildTransactionGraph(filteredTransactions, mainWalletAddress, filters.mints);
   
   // Run wallet analysis
-  const walletAnalysis = analyzeWallet(filteredTransactions, mainWalletAddress);
+  const walletAnalysis = analyzeWallet(filteredTransactions, mainWalletAddress, behaviorPatterns);
   
   // Run entity labeling
-  const entityLabels = identifyEntities(filteredTransactions, mainWalletAddress);
+  const entityLabels = identifyEntities(filteredTransactions, mainWalletAddress, knownLabels, accountClassifications);
   
   // Run transaction clustering
   const clusteringResult = clusterTransactions(filteredTransactions, mainWalletAddress);
@@ -139,6 +147,12 @@ function applyFilters(
       if (!filters.transactionTypes.includes(txType)) return false;
     }
     
+    // Mint filter
+    if (filters.mints && filters.mints.length > 0) {
+      const hasMint = (tx.transfers || []).some(leg => filters.mints!.includes(leg.mint));
+      if (!hasMint) return false;
+    }
+    
     // Address filter
     if (filters.addressFilter) {
       const hasAddress = tx.accountKeys.some(address => 
@@ -156,7 +170,8 @@ function applyFilters(
  */
 function buildTransactionGraph(
   transactions: SolanaTransactionDetail[],
-  mainWalletAddress: string
+  mainWalletAddress: string,
+  mints?: string[]
 ): VisualizationGraph {
   const nodes = new Map<string, WalletNode>();
   const edges: TransactionEdge[] = [];
@@ -183,6 +198,17 @@ function buildTransactionGraph(
     tx.accountKeys.forEach(account => {
       if (account === mainWalletAddress) return; // Skip main wallet, already added
       
+      // Net amount of each mint moved between the main wallet and this account in this transaction
+      const flows = getNetFlowsByMint(
+        (tx.transfers || []).filter(leg => leg.from === account || leg.to === account),
+        mainWalletAddress
+      ).filter(flow => flow.amount !== 0);
+      
+      const edgeFlows = mints && mints.length > 0
+        ? flows.filter(flow => mints.includes(flow.mint))
+        : flows.length > 0 ? flows : [{ mint: NATIVE_SOL_MINT, decimals: SOL_DECIMALS, amount: 0, usdValue: undefined }];
+      if (edgeFlows.length === 0) return;
+      
       if (!nodes.has(account)) {
         // Determine if this is a program or wallet
         const isProgramAccount = tx.instructions.some(ix => 
@@ -207,15 +233,26 @@ function buildTransactionGraph(
         nodes.set(account, node);
       }
       
-      // Create edge between main wallet and this account
-      const edgeId = `${mainWalletAddress}-${account}-${tx.signature}`;
-      edges.push({
-        id: edgeId,
-        source: mainWalletAddress,
-        target: account,
-        type: txType,
-        signature: tx.signature,
-        timestamp: timestamp,
+      // Node volume stays in SOL so it is comparable across nodes
+      const node = nodes.get(account)!;
+      const solFlow = flows.find(flow => flow.mint === NATIVE_SOL_MINT);
+      node.totalVolume = (node.totalVolume || 0) + Math.abs(solFlow?.amount || 0);
+      
+      // Create one edge per mint between main wallet and this account
+      edgeFlows.forEach(flow => {
+        edges.push({
+          id: `${mainWalletAddress}-${account}-${tx.signature}-${flow.mint}`,
+          source: mainWalletAddress,
+          target: account,
+          type: txType,
+          signature: tx.signature,
+          timestamp: timestamp,
+          value: Math.abs(flow.amount),
+          mint: flow.mint,
+          decimals: flow.decimals,
+          uiAmount: Math.abs(flow.amount),
+          usdValue: flow.usdValue !== undefined ? Math.abs(flow.usdValue) : undefined,
+        });
       });
     });
   });
@@ -268,13 +305,13 @@ function identifyCriticalPaths(
     });
   }
   
-  // 3. Find potential mixing patterns (funds moving through multiple wallets)
+  // 3. Find potential mixing patterns (structuring detected through multiple wallets)
   const mixingPatterns = walletAnalysis.activityPatterns
     .filter(pattern => 
       pattern.type === 'behavior' && 
-      pattern.name.includes('Dispersion') &&
       pattern.risk > 60
-    );
+    )
+    .sort((a, b) => b.risk - a.risk);
   
   if (mixingPatterns.length > 0) {
     criticalPaths.push({
@@ -349,14 +386,12 @@ function calculateMetrics(
   totalTransactions: number;
   uniqueAddresses: number;
   totalVolume: number;
-  riskScore: number;
   unusualTransactionsCount: number;
 } {
   return {
     totalTransactions: transactions.length,
     uniqueAddresses: graph.nodes.length,
     totalVolume: walletAnalysis.totalInflow + walletAnalysis.totalOutflow,
-    riskScore: walletAnalysis.riskScore,
     unusualTransactionsCount: clusteringResult.unusualTransactions.length
   };
 }
@@ -372,7 +407,6 @@ function createEmptyResult(): TransactionFlowResult {
       activityPatterns: [],
       totalInflow: 0,
       totalOutflow: 0,
-      riskScore: 0,
       analysisTimestamp: Date.now()
     },
     entityLabels: [],
@@ -383,19 +417,14 @@ function createEmptyResult(): TransactionFlowResult {
       totalTransactions: 0,
       uniqueAddresses: 0,
       totalVolume: 0,
-      riskScore: 0,
       unusualTransactionsCount: 0
     }
   };
 }
 
 /**
- * Helper function to estimate the SOL value of a transaction
+ * SOL value of a transaction, from its decoded transfer legs
  */
 function estimateTransactionValue(tx: SolanaTransactionDetail): number {
-  // This is a simplified implementation
-  // In a real app, we would parse the transaction instructions in detail
-  
-  // For this demo, we'll just use a random value between 0 and 20 SOL
-  return Math.random() * 20;
-}
\ No newline at end of file
+  return getTransferVolume(tx.transfers);
+}
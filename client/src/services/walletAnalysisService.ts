@@ -1,5 +1,8 @@
 import { SolanaTransactionDetail } from "@/types/solana";
 import { detectTransactionType } from "@/lib/utils";
+import { getNetFlow, getTransferVolume } from "@shared/transfers";
+import type { CycleReport } from "@shared/tracing";
+import type { StructuringPattern, StructuringResult } from "@shared/structuring";
 
 export interface FundingSource {
   address: string;
@@ -31,16 +34,84 @@ export interface WalletAnalysisResult {
   totalInflow: number;
   totalOutflow: number;
   primaryActivity?: string;
-  riskScore: number; // 0-100, higher means higher risk
   analysisTimestamp: number;
 }
 
+// Structuring shapes as activity patterns
+const STRUCTURING_PATTERN_NAMES: Record<StructuringPattern, string> = {
+  peel_chain: 'Peel Chain',
+  fan_out: 'Fan-Out to Fresh Wallets',
+  fan_in: 'Fan-In from Fresh Wallets',
+  split_merge: 'Split and Merge',
+};
+const STRUCTURING_PATTERN_RISK: Record<StructuringPattern, number> = {
+  peel_chain: 80,
+  fan_out: 70,
+  fan_in: 70,
+  split_merge: 85,
+};
+
+/**
+ * Fetch the circular flows and structuring shapes the server finds in the wallet's stored history,
+ * as behavior patterns for analyzeWallet
+ */
+export async function fetchBehaviorPatterns(walletAddress: string): Promise<ActivityPattern[]> {
+  const [cyclesResponse, structuringResponse] = await Promise.all([
+    fetch(`/api/transaction-clustering/${walletAddress}/cycles`),
+    fetch(`/api/wallet-analysis/structuring/${walletAddress}`),
+  ]);
+  if (!cyclesResponse.ok || !structuringResponse.ok) {
+    throw new Error('Failed to fetch behavior patterns');
+  }
+
+  const cycleReport: CycleReport = await cyclesResponse.json();
+  const structuring: StructuringResult = await structuringResponse.json();
+  const patterns: ActivityPattern[] = [];
+
+  if (cycleReport.cycles.length > 0) {
+    const times = cycleReport.cycles
+      .flatMap(cycle => cycle.hops.map(hop => hop.blockTime))
+      .filter((time): time is number => time !== null);
+    const counterparties = new Set(cycleReport.cycles.flatMap(cycle => cycle.addresses.slice(1, -1)));
+
+    patterns.push({
+      type: 'behavior',
+      name: 'Circular Fund Movement',
+      description: `${cycleReport.cycles.length} times funds left this wallet and came back through ${counterparties.size} other addresses`,
+      frequency: cycleReport.cycles.length,
+      risk: 60,
+      confidence: 90,
+      examples: cycleReport.cycles.flatMap(cycle => cycle.signatures).slice(0, 5),
+      firstSeen: times.length > 0 ? Math.min(...times) : Date.now(),
+      lastSeen: times.length > 0 ? Math.max(...times) : Date.now()
+    });
+  }
+
+  structuring.findings.forEach(finding => {
+    patterns.push({
+      type: 'behavior',
+      name: STRUCTURING_PATTERN_NAMES[finding.pattern],
+      description: finding.description,
+      frequency: finding.signatures.length,
+      risk: STRUCTURING_PATTERN_RISK[finding.pattern],
+      confidence: Math.round(finding.confidence * 100),
+      examples: finding.signatures.slice(0, 5),
+      firstSeen: finding.startTime,
+      lastSeen: finding.endTime
+    });
+  });
+
+  return patterns;
+}
+
 /**
  * Primary function to analyze wallet activity and funding sources
+ * @param behaviorPatterns Server-detected cycles and structuring, see fetchBehaviorPatterns
  */
 export function analyzeWallet(
   transactions: SolanaTransactionDetail[],
-  walletAddress: string
+  walletAddress: string,
+  behaviorPatterns: ActivityPattern[] = []
 ): WalletAnalysisResult {
   if (!transactions || transactions.length === 0) {
     return {
@@ -48,7 +119,6 @@ export function analyzeWallet(
       activityPatterns: [],
       totalInflow: 0,
       totalOutflow: 0,
-      riskScore: 0,
       analysisTimestamp: Date.now()
     };
   }
@@ -57,7 +127,7 @@ export function analyzeWallet(
   const fundingSources = identifyFundingSources(transactions, walletAddress);
   
   // Track activity patterns
-  const activityPatterns = identifyActivityPatterns(transactions, walletAddress);
+  const activityPatterns = [...identifyActivityPatterns(transactions, walletAddress), ...behaviorPatterns];
   
   // Calculate total inflow and outflow
   const { inflow, outflow } = calculateFlows(transactions, walletAddress);
@@ -65,16 +135,12 @@ export function analyzeWallet(
   // Determine primary activity
   const primaryActivity = determinePrimaryActivity(transactions);
   
-  // Calculate overall risk score
-  const riskScore = calculateRiskScore(fundingSources, activityPatterns);
-  
   return {
     fundingSources,
     activityPatterns,
     totalInflow: inflow,
     totalOutflow: outflow,
     primaryActivity,
-    riskScore,
     analysisTimestamp: Date.now()
   };
 }
@@ -103,7 +169,7 @@ function identifyFundingSources(
       
       if (!sender) return;
       
-      const amount = estimateTransactionValue(tx);
+      const amount = getNetFlow(tx.transfers, walletAddress);
       const timestamp = tx.blockTime ? tx.blockTime * 1000 : Date.now();
       
       if (fundingSources.has(sender)) {
@@ -158,10 +224,6 @@ function identifyActivityPatterns(
   const endpointPatterns = findEndpointPatterns(transactions, walletAddress);
   patterns.push(...endpointPatterns);
   
-  // Look for behavioral patterns (specific transaction sequences)
-  const behaviorPatterns = findBehavioralPatterns(transactions, walletAddress);
-  patterns.push(...behaviorPatterns);
-  
   return patterns;
 }
 
@@ -313,167 +375,6 @@ function findEndpointPatterns(
   return patterns;
 }
 
-/**
- * Find behavioral patterns (specific transaction sequences)
- */
-function findBehavioralPatterns(
-  transactions: SolanaTransactionDetail[],
-  walletAddress: string
-): ActivityPattern[] {
-  const patterns: ActivityPattern[] = [];
-  
-  // Sort transactions by time
-  const sortedTxs = [...transactions].filter(tx => tx.blockTime)
-    .sort((a, b) => (a.blockTime || 0) - (b.blockTime || 0));
-  
-  if (sortedTxs.length < 5) return patterns;
-  
-  // Look for receive-then-disperse pattern
-  const dispersePatterns = findReceiveDispersePatterns(sortedTxs, walletAddress);
-  if (dispersePatterns) patterns.push(dispersePatterns);
-  
-  // Look for circular transactions
-  const circularPatterns = findCircularTransactions(sortedTxs, walletAddress);
-  if (circularPatterns) patterns.push(circularPatterns);
-  
-  return patterns;
-}
-
-/**
- * Find receive-then-disperse patterns
- */
-function findReceiveDispersePatterns(
-  sortedTxs: SolanaTransactionDetail[],
-  walletAddress: string
-): ActivityPattern | null {
-  const receiveDispersePairs: {receive: SolanaTransactionDetail, disperse: SolanaTransactionDetail[]}[] = [];
-  
-  // Look for receive transactions followed closely by multiple disperse transactions
-  for (let i = 0; i < sortedTxs.length - 1; i++) {
-    const receiveTx = sortedTxs[i];
-    
-    if (isIncomingTransaction(receiveTx, walletAddress)) {
-      const receiveTime = receiveTx.blockTime || 0;
-      const disperseTxs: SolanaTransactionDetail[] = [];
-      
-      // Look for disperse transactions within 1 hour
-      for (let j = i + 1; j < sortedTxs.length; j++) {
-        const tx = sortedTxs[j];
-        const txTime = tx.blockTime || 0;
-        
-        // If more than 1 hour has passed, break
-        if (txTime - receiveTime > 3600) break;
-        
-        if (isOutgoingTransaction(tx, walletAddress)) {
-          disperseTxs.push(tx);
-        }
-      }
-      
-      // If we find a significant disperse pattern (3+ outgoing txs after a receive)
-      if (disperseTxs.length >= 3) {
-        receiveDispersePairs.push({
-          receive: receiveTx,
-          disperse: disperseTxs
-        });
-        
-        // Skip to after this pattern
-        i += disperseTxs.length;
-      }
-    }
-  }
-  
-  if (receiveDispersePairs.length >= 2) {
-    // Multiple receive-disperse patterns found
-    const totalInstances = receiveDispersePairs.length;
-    const totalDisperseTxs = receiveDispersePairs.reduce(
-      (sum, pair) => sum + pair.disperse.length, 0
-    );
-    
-    const examples = receiveDispersePairs.slice(0, 2).flatMap(
-      pair => [pair.receive.signature, ...pair.disperse.slice(0, 2).map(tx => tx.signature)]
-    );
-    
-    return {
-      type: 'behavior',
-      name: 'Fund Dispersion Pattern',
-      description: `${totalInstances} instances of receiving funds and quickly dispersing to multiple addresses`,
-      frequency: totalInstances,
-      risk: 70, // High risk behavior
-      confidence: 85,
-      examples,
-      firstSeen: receiveDispersePairs[0].receive.blockTime! * 1000,
-      lastSeen: receiveDispersePairs[receiveDispersePairs.length - 1].disperse[
-        receiveDispersePairs[receiveDispersePairs.length - 1].disperse.length - 1
-      ].blockTime! * 1000
-    };
-  }
-  
-  return null;
-}
-
-/**
- * Find circular transaction patterns
- */
-function findCircularTransactions(
-  sortedTxs: SolanaTransactionDetail[],
-  walletAddress: string
-): ActivityPattern | null {
-  // Map of address -> transactions involving that address
-  const addressTxMap: Map<string, SolanaTransactionDetail[]> = new Map();
-  
-  // Populate the map
-  sortedTxs.forEach(tx => {
-    tx.accountKeys.forEach(address => {
-      if (address !== walletAddress) {
-        if (!addressTxMap.has(address)) {
-          addressTxMap.set(address, []);
-        }
-        addressTxMap.get(address)!.push(tx);
-      }
-    });
-  });
-  
-  // Look for addresses involved in multiple transactions
-  const circularCandidates: {address: string, txs: SolanaTransactionDetail[]}[] = [];
-  
-  addressTxMap.forEach((txs, address) => {
-    if (txs.length >= 2) {
-      // Check if there are both incoming and outgoing transactions
-      const hasIncoming = txs.some(tx => isIncomingTransaction(tx, walletAddress));
-      const hasOutgoing = txs.some(tx => isOutgoingTransaction(tx, walletAddress));
-      
-      if (hasIncoming && hasOutgoing) {
-        circularCandidates.push({address, txs});
-      }
-    }
-  });
-  
-  if (circularCandidates.length >= 2) {
-    // Sort by number of transactions
-    circularCandidates.sort((a, b) => b.txs.length - a.txs.length);
-    
-    const topCandidate = circularCandidates[0];
-    const examples = topCandidate.txs.slice(0, 5).map(tx => tx.signature);
-    
-    // Sort transactions by time
-    topCandidate.txs.sort((a, b) => (a.blockTime || 0) - (b.blockTime || 0));
-    
-    return {
-      type: 'behavior',
-      name: 'Circular Fund Movement',
-      description: `Funds repeatedly move between this wallet and ${circularCandidates.length} other addresses`,
-      frequency: circularCandidates.reduce((sum, c) => sum + c.txs.length, 0),
-      risk: 60, // Medium-high risk
-      confidence: 75,
-      examples,
-      firstSeen: topCandidate.txs[0].blockTime! * 1000,
-      lastSeen: topCandidate.txs[topCandidate.txs.length - 1].blockTime! * 1000
-    };
-  }
-  
-  return null;
-}
-
 /**
  * Calculate total inflow and outflow for a wallet
  */
@@ -485,12 +386,12 @@ function calculateFlows(
   let outflow = 0;
   
   transactions.forEach(tx => {
-    const value = estimateTransactionValue(tx);
+    const netFlow = getNetFlow(tx.transfers, walletAddress);
     
-    if (isIncomingTransaction(tx, walletAddress)) {
-      inflow += value;
-    } else if (isOutgoingTransaction(tx, walletAddress)) {
-      outflow += value;
+    if (netFlow > 0) {
+      inflow += netFlow;
+    } else if (netFlow < 0) {
+      outflow += -netFlow;
     }
   });
   
@@ -531,72 +432,33 @@ function determinePrimaryActivity(transactions: SolanaTransactionDetail[]): stri
 }
 
 /**
- * Calculate overall risk score based on funding sources and activity patterns
- */
-function calculateRiskScore(
-  fundingSources: FundingSource[],
-  activityPatterns: ActivityPattern[]
-): number {
-  // Base risk score
-  let riskScore = 20;
-  
-  // Adjust based on funding sources
-  if (fundingSources.length === 0) {
-    // No funding sources identified - could be suspicious
-    riskScore += 10;
-  } else if (fundingSources.length > 10) {
-    // Many funding sources - could be suspicious
-    riskScore += 15;
-  }
-  
-  // Add risk from activity patterns
-  const patternRisk = activityPatterns.reduce((sum, pattern) => {
-    return sum + (pattern.risk * (pattern.confidence / 100));
-  }, 0);
-  
-  riskScore += Math.min(patternRisk / activityPatterns.length, 50);
-  
-  // Cap risk score at 100
-  return Math.min(Math.round(riskScore), 100);
-}
-
-/**
- * Simplified check for incoming transaction to an address
- * In a real app, this would analyze the transaction instructions in detail
+ * Check whether an address received SOL in a transaction
  */
 function isIncomingTransaction(
   tx: SolanaTransactionDetail,
   address: string
 ): boolean {
-  return tx.accountKeys.includes(address) && Math.random() > 0.4;
-}
-
-/**
- * Simplified check for outgoing transaction from an address
- * In a real app, this would analyze the transaction instructions in detail
- */
-function isOutgoingTransaction(
-  tx: SolanaTransactionDetail,
-  address: string
-): boolean {
-  return tx.accountKeys.includes(address) && Math.random() > 0.6;
+  return getNetFlow(tx.transfers, address) > 0;
 }
 
 /**
- * Find the sender in a transaction
+ * Find the sender in a transaction: the largest transfer leg into the recipient,
+ * falling back to the first other account when no transfers were decoded
  */
 function findSender(
   tx: SolanaTransactionDetail,
   recipientAddress: string
 ): string | null {
-  // This is a simplified implementation
-  // In a real app, we would analyze the transaction instructions in detail
+  const incomingLegs = (tx.transfers || [])
+    .filter(leg => leg.to === recipientAddress)
+    .sort((a, b) => b.uiAmount - a.uiAmount);
+  
+  if (incomingLegs.length > 0) return incomingLegs[0].from;
   
   const accounts = tx.accountKeys.filter(account => account !== recipientAddress);
   
   if (accounts.length === 0) return null;
   
-  // Just return the first non-recipient account for simplicity
   return accounts[0];
 }
 
@@ -619,12 +481,8 @@ function findCounterparty(
 }
 
 /**
- * Helper function to estimate the SOL value of a transaction
+ * SOL value of a transaction, from its decoded transfer legs
  */
 function estimateTransactionValue(tx: SolanaTransactionDetail): number {
-  // This is a simplified implementation
-  // In a real app, we would parse the transaction instructions in detail
-  
-  // For this demo, we'll just use a random value between 0 and 20 SOL
-  return Math.random() * 20;
-}
\ No newline at end of file
+  return getTransferVolume(tx.transfers);
+}
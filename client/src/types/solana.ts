@@ -1,8 +1,21 @@
+import type { TransferLeg } from "@shared/transfers";
+import type { InstructionArgValue } from "@shared/instructions";
+import type { EntityGraphNode } from "@shared/entities";
+import type { SybilParameters, SybilResult } from "@shared/sybil";
+
+export type { TransferLeg, InstructionArgValue, SybilResult };
+
 // Solana transaction related types
 export interface SolanaInstruction {
   programId: string;
   accounts: string[];
   data: string;
+  // Filled in by the server-side decoder registry
+  program?: string;
+  name?: string;
+  args?: Record<string, InstructionArgValue>;
+  index?: number;
+  innerIndex?: number;
 }
 
 export interface SolanaTransactionDetail {
@@ -12,6 +25,9 @@ export interface SolanaTransactionDetail {
   accountKeys: string[];
   instructions: SolanaInstruction[];
   logMessages?: string[];
+  innerInstructions?: SolanaInstruction[]; // CPI instructions, each tagged with its top-level index
+  transfers?: TransferLeg[]; // SOL and SPL token movements decoded from balance deltas
+  instructionTransfers?: TransferLeg[]; // Un-netted transfers from System/SPL Token instructions, including CPI
 }
 
 export interface SolanaTransaction {
@@ -43,6 +59,8 @@ export interface WalletNode {
   lastActivity?: Date;
   riskScore?: number;
   subtype?: string;
+  tokenAccounts?: string[]; // Token accounts of this wallet, drawn as part of it
+  entity?: EntityGraphNode; // Set when the node stands for a collapsed entity, with the members drawn as part of it
 }
 
 export interface TransactionEdge {
@@ -52,10 +70,15 @@ export interface TransactionEdge {
   type: string;
   signature: string;
   timestamp: Date;
-  value?: number;
+  value?: number; // Same as uiAmount, kept for older consumers
+  mint: string; // NATIVE_SOL_MINT for SOL, otherwise the SPL mint address
+  decimals: number;
+  uiAmount: number;
+  usdValue?: number; // Value at block time, when the server price source knows the mint
   successful?: boolean;
   isUnusual?: boolean;
   isHighValue?: boolean;
+  isCritical?: boolean; // Part of a circular flow back to the analyzed wallet
 }
 
 export interface VisualizationGraph {
@@ -80,6 +103,7 @@ export interface TransactionFilters extends DateRange, AmountRange {
   onlyUnusual?: boolean;
   onlyHighValue?: boolean;
   onlyCriticalPaths?: boolean;
+  mints?: string[]; // Only show flows of these mints; empty or missing shows all
 }
 
 export interface VisualizationFilters extends TransactionFilters {
@@ -103,12 +127,13 @@ export interface WalletSummary {
 export interface EntityCluster {
   id: string;
   name: string;
-  type: 'exchange' | 'dex' | 'project' | 'wallet' | 'unknown';
+  type: 'exchange' | 'dex' | 'project' | 'wallet' | 'related' | 'unknown';
   addresses: string[];
   totalVolume: number;
   transactionCount: number;
   description?: string;
   confidence: number;
+  evidence?: string[]; // Why the addresses are grouped, strongest first
 }
 
 // Timeline data
@@ -117,4 +142,38 @@ export interface TimelineDataPoint {
   totalTransactions: number;
   transactionsByType: Record<TransactionType, number>;
   volume: number;
-}
\ No newline at end of file
+}
+
+// Background backfill job, as returned by /api/jobs/:id
+export interface BackfillJob {
+  id: number;
+  walletAddress: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  beforeSignature: string | null;
+  untilSignature: string | null;
+  signaturesProcessed: number;
+  transactionsStored: number;
+  failedSignatures: number;
+  retrySignatures: { signature: string; slot: number; memo: string | null }[];
+  estimatedTotal: number | null;
+  error: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Background sybil detection job, as returned by /api/jobs/sybil/:id
+export interface SybilDetectionJob {
+  id: number;
+  addresses: string[];
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  parameters: SybilParameters;
+  addressesIngested: number;
+  result: SybilResult | null;
+  error: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { dbscan, louvain, WeightedEdge } from './clustering';
+
+const distance = (a: number, b: number) => Math.abs(a - b);
+
+// Communities in a stable order for comparison
+function sorted(communities: string[][]): string[][] {
+  return communities.map(community => [...community].sort()).sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+// Every pair of the nodes linked with the given weight
+function clique(nodes: string[], weight: number): WeightedEdge[] {
+  return nodes.flatMap((a, i) => nodes.slice(i + 1).map(b => ({ a, b, weight })));
+}
+
+test('dbscan groups dense runs of points and leaves isolated points as noise', () => {
+  const { labels, corePoints } = dbscan([1, 2, 3, 10, 11, 12, 50], distance, 1.5, 3);
+
+  assert.deepEqual(labels, [0, 0, 0, 1, 1, 1, -1]);
+  // Only the middle of each run has enough neighbors; the ends join as border points
+  assert.deepEqual(corePoints, [false, true, false, false, true, false, false]);
+});
+
+test('dbscan chains core points into one cluster', () => {
+  const { labels } = dbscan([0, 1, 2, 3, 4, 5], distance, 1, 3);
+  assert.deepEqual(labels, [0, 0, 0, 0, 0, 0]);
+});
+
+test('dbscan labels everything as noise when no point is dense enough', () => {
+  const { labels, corePoints } = dbscan([0, 10, 20], distance, 1, 2);
+  assert.deepEqual(labels, [-1, -1, -1]);
+  assert.deepEqual(corePoints, [false, false, false]);
+});
+
+test('louvain separates two cliques joined by a weak edge', () => {
+  const left = ['A1', 'A2', 'A3', 'A4'];
+  const right = ['B1', 'B2', 'B3', 'B4'];
+  const edges = [...clique(left, 5), ...clique(right, 5), { a: 'A1', b: 'B1', weight: 1 }];
+
+  assert.deepEqual(sorted(louvain([...left, ...right], edges)), [left, right]);
+});
+
+test('louvain keeps unconnected nodes apart and ignores edges to unknown nodes', () => {
+  const edges = [...clique(['A', 'B', 'C'], 1), { a: 'C', b: 'Unknown', weight: 10 }];
+  assert.deepEqual(sorted(louvain(['A', 'B', 'C', 'D'], edges)), [['A', 'B', 'C'], ['D']]);
+});
+
+test('louvain splits a chain of cliques into smaller communities at a higher resolution', () => {
+  const groups = [['A1', 'A2', 'A3'], ['B1', 'B2', 'B3'], ['C1', 'C2', 'C3'], ['D1', 'D2', 'D3']];
+  const edges = [
+    ...groups.flatMap(group => clique(group, 1)),
+    { a: 'A3', b: 'B1', weight: 1 },
+    { a: 'B3', b: 'C1', weight: 1 },
+    { a: 'C3', b: 'D1', weight: 1 },
+  ];
+  const nodes = groups.flat();
+
+  const coarse = louvain(nodes, edges, 0.1);
+  const fine = louvain(nodes, edges, 1);
+  assert.ok(coarse.length < fine.length);
+  assert.deepEqual(sorted(fine), groups);
+});
@@ -0,0 +1,203 @@
+// Generic clustering algorithms used by the transaction clustering service
+
+const NOISE = -1;
+const MAX_LOCAL_MOVE_PASSES = 100;
+const EPSILON = 1e-12;
+
+/**
+ * DBSCAN density-based clustering.
+ * Returns a cluster label per point, or -1 for noise points that belong to no cluster.
+ * @param eps Maximum distance between two neighboring points
+ * @param minPoints Neighbors (including the point itself) a point needs to be a core point
+ */
+export function dbscan<T>(
+  points: T[],
+  distance: (a: T, b: T) => number,
+  eps: number,
+  minPoints: number
+): { labels: number[]; corePoints: boolean[] } {
+  const labels: (number | undefined)[] = points.map(() => undefined);
+  const corePoints = points.map(() => false);
+  const neighborsOf = (index: number) =>
+    points.map((_, other) => other).filter(other => distance(points[index], points[other]) <= eps);
+
+  let cluster = 0;
+  points.forEach((_, index) => {
+    if (labels[index] !== undefined) return;
+
+    const neighbors = neighborsOf(index);
+    if (neighbors.length < minPoints) {
+      labels[index] = NOISE;
+      return;
+    }
+
+    // Expand the cluster from this core point
+    corePoints[index] = true;
+    labels[index] = cluster;
+    const queue = neighbors.filter(other => other !== index);
+    while (queue.length > 0) {
+      const other = queue.shift()!;
+      if (labels[other] === NOISE) labels[other] = cluster; // Border point
+      if (labels[other] !== undefined) continue;
+
+      labels[other] = cluster;
+      const otherNeighbors = neighborsOf(other);
+      if (otherNeighbors.length >= minPoints) {
+        corePoints[other] = true;
+        queue.push(...otherNeighbors);
+      }
+    }
+    cluster++;
+  });
+
+  return { labels: labels.map(label => label ?? NOISE), corePoints };
+}
+
+export interface WeightedEdge {
+  a: string;
+  b: string;
+  weight: number;
+}
+
+// Adjacency of an undirected weighted graph; a self-loop holds the weight once
+type Adjacency = Map<number, number>[];
+
+function addWeight(adjacency: Adjacency, i: number, j: number, weight: number): void {
+  adjacency[i].set(j, (adjacency[i].get(j) || 0) + weight);
+  if (i !== j) adjacency[j].set(i, (adjacency[j].get(i) || 0) + weight);
+}
+
+/**
+ * Louvain community detection: greedy modularity optimization by local node moves,
+ * followed by aggregating each community into a single node, until nothing moves.
+ * @param resolution Values above 1 favor smaller communities, below 1 larger ones
+ */
+export function louvain(nodes: string[], edges: WeightedEdge[], resolution: number = 1): string[][] {
+  const index = new Map<string, number>();
+  nodes.forEach((node, i) => index.set(node, i));
+
+  let adjacency: Adjacency = nodes.map(() => new Map<number, number>());
+  edges.forEach(edge => {
+    const i = index.get(edge.a);
+    const j = index.get(edge.b);
+    if (i !== undefined && j !== undefined) addWeight(adjacency, i, j, edge.weight);
+  });
+
+  // Community of every original node, as an index into the current aggregated graph
+  let membership = nodes.map((_, i) => i);
+  for (;;) {
+    const communities = moveNodes(adjacency, resolution);
+    const count = Math.max(-1, ...communities) + 1;
+    membership = membership.map(node => communities[node]);
+    if (count === adjacency.length) break;
+    adjacency = aggregate(adjacency, communities, count);
+  }
+
+  const grouped = new Map<number, string[]>();
+  membership.forEach((community, i) => {
+    grouped.set(community, [...(grouped.get(community) || []), nodes[i]]);
+  });
+  return Array.from(grouped.values());
+}
+
+// One Louvain phase: move single nodes to the neighboring community with the best modularity gain
+function moveNodes(adjacency: Adjacency, resolution: number): number[] {
+  const degrees = adjacency.map((neighbors, i) => {
+    let degree = 0;
+    neighbors.forEach((weight, j) => {
+      degree += j === i ? 2 * weight : weight;
+    });
+    return degree;
+  });
+  const totalDegree = degrees.reduce((sum, degree) => sum + degree, 0); // Twice the total edge weight
+  const communities = adjacency.map((_, i) => i);
+  if (totalDegree === 0) return communities;
+
+  const communityDegrees = degrees.slice();
+  let moved = true;
+  for (let pass = 0; moved && pass < MAX_LOCAL_MOVE_PASSES; pass++) {
+    moved = false;
+    adjacency.forEach((neighbors, i) => {
+      const current = communities[i];
+      const links = new Map<number, number>();
+      neighbors.forEach((weight, j) => {
+        if (j !== i) links.set(communities[j], (links.get(communities[j]) || 0) + weight);
+      });
+
+      communityDegrees[current] -= degrees[i];
+      const gain = (community: number) =>
+        (links.get(community) || 0) - resolution * communityDegrees[community] * degrees[i] / totalDegree;
+
+      let best = current;
+      let bestGain = gain(current);
+      links.forEach((_, community) => {
+        const candidateGain = gain(community);
+        if (candidateGain > bestGain + EPSILON) {
+          best = community;
+          bestGain = candidateGain;
+        }
+      });
+
+      communityDegrees[best] += degrees[i];
+      if (best !== current) {
+        communities[i] = best;
+        moved = true;
+      }
+    });
+  }
+
+  // Renumber communities to 0..count-1
+  const ids = new Map<number, number>();
+  return communities.map(community => {
+    if (!ids.has(community)) ids.set(community, ids.size);
+    return ids.get(community)!;
+  });
+}
+
+// Collapse each community into one node; edges inside a community become its self-loop
+function aggregate(adjacency: Adjacency, communities: number[], count: number): Adjacency {
+  const aggregated: Adjacency = Array.from({ length: count }, () => new Map<number, number>());
+  adjacency.forEach((neighbors, i) => {
+    neighbors.forEach((weight, j) => {
+      if (j >= i) addWeight(aggregated, communities[i], communities[j], weight);
+    });
+  });
+  return aggregated;
+}
+
+/**
+ * Disjoint sets of addresses, tracking the weakest link used to join each set
+ */
+export class UnionFind {
+  private parent = new Map<string, string>();
+  private weakestLink = new Map<string, number>();
+
+  find(address: string): string {
+    const parent = this.parent.get(address);
+    if (!parent || parent === address) {
+      this.parent.set(address, address);
+      return address;
+    }
+    const root = this.find(parent);
+    this.parent.set(address, root);
+    return root;
+  }
+
+  union(a: string, b: string, strength: number): boolean {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA === rootB) return false;
+
+    this.parent.set(rootB, rootA);
+    this.weakestLink.set(rootA, Math.min(
+      strength,
+      this.weakestLink.get(rootA) ?? 1,
+      this.weakestLink.get(rootB) ?? 1
+    ));
+    return true;
+  }
+
+  getConfidence(address: string): number {
+    return this.weakestLink.get(this.find(address)) ?? 1;
+  }
+}
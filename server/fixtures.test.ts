@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection, FetchFn, PublicKey } from '@solana/web3.js';
+import { FixtureRecorder } from './fixtures';
+
+// server/db.ts refuses to load without a connection string; nothing here queries it
+process.env.DATABASE_URL ??= 'postgres://fixtures@localhost/fixtures';
+
+const { getTransactionTransfers } = await import('./solana');
+const { instructionDecoderService } = await import('./services/instructionDecoder');
+
+const SENDER = 'AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const SOL_TRANSFER = '3mfwNzaiG4N7tsTEjyKKCHKLhiguMQZYmEggKqmv1PSbYEXCHJaCg5o2GNA7D4BuzSB1DodqiiiM2XM6Mzs5jGW5';
+const TOKEN_TRANSFER = 'BzyJFJreJbFJNHSDivuBocEQE2RsF25Jar5zwLNn5FMpkTihnyM6uDSdaush8uMZqYynmGhWc7ye5m9W2aYfwKT';
+
+/**
+ * A connection that answers every request from the bundle; the endpoint is never contacted
+ */
+function replayConnection(bundle: string): Connection {
+  const recorder = new FixtureRecorder('replay', `fixtures/${bundle}.json`);
+  return new Connection('http://127.0.0.1:1', {
+    commitment: 'confirmed',
+    fetch: recorder.wrapFetch<FetchFn>('rpc', fetch),
+  });
+}
+
+async function replayTransaction(bundle: string, signature: string) {
+  const connection = replayConnection(bundle);
+  const signatures = await connection.getSignaturesForAddress(new PublicKey(SENDER), { limit: 10 });
+  assert.ok(signatures.some(info => info.signature === signature));
+
+  const tx = await connection.getTransaction(signature, { maxSupportedTransactionVersion: 0 });
+  assert.ok(tx);
+  return tx;
+}
+
+test('replays a legacy SOL transfer', async () => {
+  const tx = await replayTransaction('sol-transfer', SOL_TRANSFER);
+  assert.equal(tx.version, undefined);
+
+  const legs = getTransactionTransfers(tx);
+  assert.equal(legs.length, 1);
+  assert.equal(legs[0].from, SENDER);
+  assert.equal(legs[0].to, '9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu');
+  assert.equal(legs[0].amount, '1500000000');
+  assert.equal(legs[0].uiAmount, 1.5);
+
+  const { instructions, instructionTransfers } = instructionDecoderService.decodeTransactionDetail(tx);
+  assert.equal(instructions.length, 1);
+  assert.equal(instructions[0].program, 'system');
+  assert.equal(instructions[0].name, 'transfer');
+  assert.equal(instructionTransfers.length, 1);
+  assert.equal(instructionTransfers[0].amount, '1500000000');
+});
+
+test('replays a v0 SPL transferChecked', async () => {
+  const tx = await replayTransaction('token-transfer-v0', TOKEN_TRANSFER);
+  assert.equal(tx.version, 0);
+
+  const tokenLegs = getTransactionTransfers(tx).filter(leg => leg.mint === USDC);
+  assert.equal(tokenLegs.length, 1);
+  assert.equal(tokenLegs[0].from, SENDER);
+  assert.equal(tokenLegs[0].to, 'GyGKxMyg1p9SsHfm15MkNUu1u9TN2JtTspcdmrtGUdse');
+  assert.equal(tokenLegs[0].amount, '25000000');
+  assert.equal(tokenLegs[0].uiAmount, 25);
+
+  const { instructions, instructionTransfers } = instructionDecoderService.decodeTransactionDetail(tx);
+  assert.equal(instructions.length, 1);
+  assert.equal(instructions[0].name, 'transferChecked');
+  assert.equal(instructions[0].args.amount, '25000000');
+  assert.equal(instructionTransfers.length, 1);
+  assert.equal(instructionTransfers[0].mint, USDC);
+  assert.equal(instructionTransfers[0].from, SENDER);
+  assert.equal(instructionTransfers[0].to, 'GyGKxMyg1p9SsHfm15MkNUu1u9TN2JtTspcdmrtGUdse');
+});
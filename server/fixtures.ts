@@ -0,0 +1,192 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const BUNDLE_VERSION = 1;
+const SAVE_DELAY_MS = 500;
+const DEFAULT_BUNDLE_PATH = 'fixtures/default.json';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+export type FixtureSource = 'rpc' | 'solscan';
+
+/**
+ * A recorded HTTP response, keyed by a hash of the request it answers
+ */
+interface FixtureEntry {
+  source: FixtureSource;
+  request: string; // Human-readable request description, e.g. "getTransaction [...]" or "GET <url>"
+  status: number;
+  body: string;
+}
+
+interface FixtureBundle {
+  version: number;
+  recordedAt: string;
+  entries: Record<string, FixtureEntry>;
+}
+
+type FetchLike = (url: any, init?: any) => Promise<any>;
+
+/**
+ * FixtureRecorder sits between the HTTP clients and the network:
+ * - "record" mode forwards every JSON-RPC and Solscan request and writes the response to a bundle
+ * - "replay" mode answers every request from the bundle and never touches the network
+ * - Selected with FIXTURE_MODE and FIXTURE_BUNDLE; "off" (default) is a pass-through
+ */
+export class FixtureRecorder {
+  private bundle: FixtureBundle;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(readonly mode: FixtureMode, readonly bundlePath: string) {
+    this.bundle = this.loadBundle();
+
+    if (mode !== 'off') {
+      console.log(`Fixture ${mode} mode using ${bundlePath} (${this.size} entries)`);
+    }
+  }
+
+  get size(): number {
+    return Object.keys(this.bundle.entries).length;
+  }
+
+  get enabled(): boolean {
+    return this.mode !== 'off';
+  }
+
+  /**
+   * Wrap a fetch implementation so its requests are recorded or replayed
+   */
+  wrapFetch<F extends FetchLike>(source: FixtureSource, realFetch: F): F {
+    const wrapped = async (url: any, init?: any) => {
+      if (this.mode === 'off') return realFetch(url, init);
+
+      const { key, request } = this.describeRequest(source, String(url), init);
+
+      if (this.mode === 'replay') {
+        const entry = this.bundle.entries[key];
+        if (!entry) {
+          throw new Error(`No recorded fixture for ${request}`);
+        }
+        return new Response(this.restoreRequestIds(source, entry.body, init), { status: entry.status });
+      }
+
+      const response = await realFetch(url, init);
+      const body = await response.text();
+      this.bundle.entries[key] = { source, request, status: response.status, body };
+      this.scheduleSave();
+
+      return new Response(body, { status: response.status });
+    };
+
+    return wrapped as F;
+  }
+
+  /**
+   * Summary for /api/health
+   */
+  getStatus(): { mode: FixtureMode; bundle: string | null; entries: number } {
+    return {
+      mode: this.mode,
+      bundle: this.enabled ? this.bundlePath : null,
+      entries: this.size,
+    };
+  }
+
+  /**
+   * Write pending recordings to disk immediately
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (this.mode !== 'record') return;
+
+    this.bundle.recordedAt = new Date().toISOString();
+    fs.mkdirSync(path.dirname(this.bundlePath), { recursive: true });
+    const tempPath = `${this.bundlePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.bundle, null, 2));
+    fs.renameSync(tempPath, this.bundlePath);
+  }
+
+  private loadBundle(): FixtureBundle {
+    const empty: FixtureBundle = { version: BUNDLE_VERSION, recordedAt: new Date().toISOString(), entries: {} };
+    if (this.mode === 'off' || !fs.existsSync(this.bundlePath)) {
+      if (this.mode === 'replay') {
+        throw new Error(`Fixture bundle not found: ${this.bundlePath}`);
+      }
+      return empty;
+    }
+
+    const bundle: FixtureBundle = JSON.parse(fs.readFileSync(this.bundlePath, 'utf8'));
+    if (bundle.version !== BUNDLE_VERSION) {
+      throw new Error(`Unsupported fixture bundle version ${bundle.version} in ${this.bundlePath}`);
+    }
+    return bundle;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+  }
+
+  /**
+   * Request identity without the endpoint URL or JSON-RPC ids, so a bundle recorded
+   * against one RPC provider replays against any configured endpoint
+   */
+  private describeRequest(source: FixtureSource, url: string, init?: any): { key: string; request: string } {
+    let request: string;
+
+    if (source === 'rpc') {
+      const payload = JSON.parse(init?.body || 'null');
+      const calls = (Array.isArray(payload) ? payload : [payload]).map((call: any) => ({
+        method: call?.method,
+        params: call?.params,
+      }));
+      request = calls.map(call => `${call.method} ${JSON.stringify(call.params)}`).join(' | ');
+    } else {
+      request = `${init?.method || 'GET'} ${url}`;
+    }
+
+    const key = createHash('sha256').update(`${source}:${request}`).digest('hex');
+    return { key, request };
+  }
+
+  /**
+   * JSON-RPC clients match responses to requests by id, so replayed bodies get the live ids
+   */
+  private restoreRequestIds(source: FixtureSource, body: string, init?: any): string {
+    if (source !== 'rpc') return body;
+
+    const payload = JSON.parse(init?.body || 'null');
+    const response = JSON.parse(body);
+
+    if (Array.isArray(payload) && Array.isArray(response)) {
+      response.forEach((item: any, index: number) => {
+        item.id = payload[index]?.id;
+      });
+    } else if (payload && response && !Array.isArray(response)) {
+      response.id = payload.id;
+    }
+
+    return JSON.stringify(response);
+  }
+}
+
+function getFixtureMode(): FixtureMode {
+  const mode = process.env.FIXTURE_MODE;
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+export const fixtureRecorder = new FixtureRecorder(
+  getFixtureMode(),
+  path.resolve(process.env.FIXTURE_BUNDLE || DEFAULT_BUNDLE_PATH)
+);
+
+// Make sure the last recordings reach disk when the server stops
+if (fixtureRecorder.mode === 'record') {
+  process.on('exit', () => fixtureRecorder.flush());
+  ['SIGINT', 'SIGTERM'].forEach(signal => {
+    process.once(signal, () => process.exit(0));
+  });
+}
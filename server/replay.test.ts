@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection, FetchFn, PublicKey } from '@solana/web3.js';
+import type { Transaction, Wallet } from '@shared/schema';
+import { FixtureRecorder } from './fixtures';
+
+// server/db.ts refuses to load without a connection string; storage reads are replaced below
+process.env.DATABASE_URL ??= 'postgres://fixtures@localhost/fixtures';
+
+const { storage } = await import('./storage');
+const { transactionIngestionService } = await import('./services/transactionIngestion');
+const { walletAnalysisService } = await import('./services/walletAnalysis');
+const { transactionClusteringService } = await import('./services/transactionClustering');
+const { labelResolutionService } = await import('./services/labelResolution');
+
+const SENDER = 'AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9';
+const RECIPIENT = '9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu';
+const SOL_TRANSFER = '3mfwNzaiG4N7tsTEjyKKCHKLhiguMQZYmEggKqmv1PSbYEXCHJaCg5o2GNA7D4BuzSB1DodqiiiM2XM6Mzs5jGW5';
+const TOKEN_TRANSFER = 'BzyJFJreJbFJNHSDivuBocEQE2RsF25Jar5zwLNn5FMpkTihnyM6uDSdaush8uMZqYynmGhWc7ye5m9W2aYfwKT';
+
+const transactions: Transaction[] = [];
+const wallets: Wallet[] = [];
+
+// An in-memory stand-in for the tables the services read and write
+function useMemoryStorage() {
+  const involving = (address: string) => transactions.filter(tx =>
+    tx.sourceAddress === address ||
+    tx.destinationAddress === address ||
+    ((tx.metadata as { accountKeys?: string[] }).accountKeys || []).includes(address)
+  );
+
+  (storage as any).getAddressTransactions = async (address: string) => involving(address);
+  (storage as any).getWalletTransactions = async (address: string) => involving(address);
+  (storage as any).getWalletByAddress = async (address: string) => wallets.find(wallet => wallet.address === address);
+  (storage as any).createWallet = async (wallet: Partial<Wallet>) => {
+    const created = { id: wallets.length + 1, ...wallet } as Wallet;
+    wallets.push(created);
+    return created;
+  };
+  (storage as any).saveCluster = async (cluster: object) => ({ ...cluster, createdAt: new Date(0) });
+  (storage as any).replaceFundingSources = async (walletId: number, model: string, sources: object[]) =>
+    sources.map((source, index) => ({ id: index + 1, model, ...source }));
+  (labelResolutionService as any).resolve = async () => ({});
+}
+
+// Replay a bundle's transaction and store it the way ingestion does
+async function ingestBundle(bundle: string, signature: string) {
+  const recorder = new FixtureRecorder('replay', `fixtures/${bundle}.json`);
+  const connection = new Connection('http://127.0.0.1:1', {
+    commitment: 'confirmed',
+    fetch: recorder.wrapFetch<FetchFn>('rpc', fetch),
+  });
+
+  const signatures = await connection.getSignaturesForAddress(new PublicKey(SENDER), { limit: 10 });
+  const info = signatures.find(candidate => candidate.signature === signature);
+  const tx = await connection.getTransaction(signature, { maxSupportedTransactionVersion: 0 });
+  assert.ok(info && tx);
+  transactions.push({ id: transactions.length + 1, ...transactionIngestionService.normalizeTransaction(info, tx) } as Transaction);
+}
+
+useMemoryStorage();
+await ingestBundle('sol-transfer', SOL_TRANSFER);
+await ingestBundle('token-transfer-v0', TOKEN_TRANSFER);
+
+test('traces the recipient of the replayed SOL transfer back to the sender', async () => {
+  const sources = await walletAnalysisService.traceFundOrigins(RECIPIENT, 1, 1, 'fifo');
+
+  assert.equal(sources.length, 1);
+  assert.equal(sources[0].sourceAddress, SENDER);
+  assert.equal(sources[0].totalAmount, 1.5);
+  assert.equal(sources[0].firstTransactionSignature, SOL_TRANSFER);
+  assert.equal(sources[0].isDirectSource, true);
+  assert.equal(sources[0].confidence, 1);
+});
+
+test('clusters the replayed transfers of the sender under a stable id', async () => {
+  const options = { algorithm: 'heuristic' as const, minTransactions: 2 };
+  const clusters = await transactionClusteringService.clusterTransactions(SENDER, undefined, options);
+
+  // Sent in the same block, both transfers fall into one temporal cluster
+  assert.equal(clusters.length, 1);
+  assert.match(clusters[0].description, /Temporal cluster/);
+  assert.deepEqual(clusters[0].transactions.map(tx => tx.signature).sort(), [SOL_TRANSFER, TOKEN_TRANSFER].sort());
+
+  const again = await transactionClusteringService.clusterTransactions(SENDER, undefined, options);
+  assert.deepEqual(again.map(cluster => cluster.id), clusters.map(cluster => cluster.id));
+});
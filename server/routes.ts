@@ -2,7 +2,8 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { insertUserSchema, insertWalletSchema, insertVisualizationSchema } from "@shared/schema";
-import { Connection, PublicKey } from "@solana/web3.js";
+import { RiskAssessment } from "@shared/risk";
+import { PublicKey } from "@solana/web3.js";
 import { z } from "zod";
 import session from "express-session";
 import passport from "passport";
@@ -12,7 +13,14 @@ import bcrypt from "bcryptjs";
 import WebSocket from "ws";
 import path from "path";
 import fs from "fs";
-import { getSolanaConnection, getSignaturesForAddress, getTransactionsInBatches } from "./solana";
+import { getSolanaConnection, getRpcPoolStatus, getSignaturesForAddress, getTransactionsInBatches, getTransactionAccountKeys, getTransactionTransfers } from "./solana";
+import { instructionDecoderService } from "./services/instructionDecoder";
+import { rpcCacheService } from "./services/rpcCache";
+import { priceService } from "./services/priceSource";
+import { walletFingerprintService } from "./services/walletFingerprint";
+import { riskScoringService } from "./services/riskScoring";
+import { accountClassificationService, classifyAccount } from "./services/accountClassification";
+import { fixtureRecorder } from "./fixtures";
 
 // Import wallet analysis, transaction clustering, and entity labeling routes
 import walletAnalysisRoutes from './routes/walletAnalysis';
@@ -20,9 +28,22 @@ import transactionClusteringRoutes from './routes/transactionClustering';
 import entityLabelingRoutes from './routes/entityLabeling';
 import teamRoutes from './routes/teamRoutes';
 import annotationRoutes from './routes/annotationRoutes';
+import ingestionRoutes from './routes/ingestion';
+import jobRoutes from './routes/jobs';
+import { backfillJobService } from './services/backfillJobs';
+import { depositDiscoveryService } from './services/depositDiscovery';
+import { sybilDetectionService } from './services/sybilDetection';
 
 const SessionStore = MemoryStore(session);
 
+// Accounts classified per request
+const MAX_CLASSIFY_ADDRESSES = 1000;
+
+const classifyAccountsSchema = z.object({
+  addresses: z.array(z.string()).min(1).max(MAX_CLASSIFY_ADDRESSES),
+  refresh: z.boolean().optional(),
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
@@ -246,13 +267,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Initialize Solana connection
-  const solanaConnection = new Connection(
-    process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
-    "confirmed"
-  );
-  
-  console.log("Initialized Solana connection to RPC endpoint");
+  // Solana connection backed by the RPC pool (failover across configured endpoints)
+  const solanaConnection = getSolanaConnection();
 
   // Auth routes
   app.post("/api/auth/register", async (req, res) => {
@@ -370,6 +386,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Wallets that behave like this one, by behavioral fingerprint
+  app.get("/api/wallets/:address/similar", async (req, res) => {
+    try {
+      const { address } = req.params;
+      
+      // Validate address is a valid Solana public key
+      try {
+        new PublicKey(address);
+      } catch (error) {
+        return res.status(400).json({ message: "Invalid Solana address" });
+      }
+      
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 100)) {
+        return res.status(400).json({ message: "limit must be between 1 and 100" });
+      }
+      
+      const similar = await walletFingerprintService.findSimilarWallets(address, { limit });
+      if (!similar) {
+        return res.status(404).json({ message: "No ingested history for this wallet" });
+      }
+      
+      return res.json({ address, similar });
+    } catch (error) {
+      console.error("Error finding similar wallets:", error);
+      return res.status(500).json({ message: "Error finding similar wallets" });
+    }
+  });
+
+  // Stored itemized risk score of a wallet, from its last assessment
+  app.get("/api/wallets/:address/risk", async (req, res) => {
+    try {
+      const { address } = req.params;
+      
+      // Validate address is a valid Solana public key
+      try {
+        new PublicKey(address);
+      } catch (error) {
+        return res.status(400).json({ message: "Invalid Solana address" });
+      }
+      
+      const wallet = await storage.getWalletByAddress(address);
+      const assessment = (wallet?.metadata as { risk?: RiskAssessment } | null)?.risk;
+      if (!assessment) {
+        return res.status(404).json({ message: "This wallet has not been scored yet" });
+      }
+      
+      return res.json(assessment);
+    } catch (error) {
+      console.error("Error fetching wallet risk:", error);
+      return res.status(500).json({ message: "Error fetching wallet risk" });
+    }
+  });
+
+  // Score a wallet's risk from its stored history and store the result on the wallet
+  app.post("/api/wallets/:address/risk", async (req, res) => {
+    try {
+      const { address } = req.params;
+      
+      // Validate address is a valid Solana public key
+      try {
+        new PublicKey(address);
+      } catch (error) {
+        return res.status(400).json({ message: "Invalid Solana address" });
+      }
+      
+      const assessment = await riskScoringService.assessWallet(address);
+      return res.json(assessment);
+    } catch (error) {
+      console.error("Error scoring wallet risk:", error);
+      return res.status(500).json({ message: "Error scoring wallet risk" });
+    }
+  });
+
   // Solana data routes using direct RPC endpoint
   app.get("/api/solana/account/:address", async (req, res) => {
     try {
@@ -387,22 +477,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Get account info directly from Solana RPC
         const accountInfo = await solanaConnection.getAccountInfo(publicKey);
         const balance = await solanaConnection.getBalance(publicKey);
+        const classification = classifyAccount(address, accountInfo);
         
         // Format account info
         const account = {
           address,
           balance: balance / 10**9, // Convert lamports to SOL
-          executable: accountInfo?.executable || false,
-          owner: accountInfo?.owner?.toBase58() || null,
-          type: 'account',
+          executable: classification.executable,
+          owner: classification.owner,
+          type: classification.type,
+          classification,
           programData: accountInfo?.data ? Buffer.from(accountInfo.data).toString('base64') : null
         };
         
-        // Check if this is a token account
-        if (accountInfo?.owner?.toBase58() === 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA') {
-          account.type = 'tokenAccount';
-        }
-        
         return res.json(account);
       } catch (error) {
         console.error("Error fetching account from Solana RPC:", error);
@@ -417,6 +504,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Classify a batch of accounts from on-chain metadata; results are stored on the wallets
+  app.post("/api/solana/accounts/classify", async (req, res) => {
+    try {
+      const validation = classifyAccountsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid classification request", details: validation.error });
+      }
+      
+      const { addresses, refresh } = validation.data;
+      const invalid = addresses.find(address => {
+        try {
+          new PublicKey(address);
+          return false;
+        } catch (error) {
+          return true;
+        }
+      });
+      if (invalid) {
+        return res.status(400).json({ message: `Invalid Solana address ${invalid}` });
+      }
+      
+      const accounts = await accountClassificationService.classifyAddresses(addresses, { refresh });
+      return res.json({ accounts });
+    } catch (error) {
+      console.error("Error classifying accounts:", error);
+      return res.status(500).json({ message: "Error classifying accounts" });
+    }
+  });
+
   app.get("/api/solana/transactions/:address", async (req, res) => {
     try {
       const { address } = req.params;
@@ -516,14 +632,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const transaction = txResult.transaction;
       
-      // Use getAccountKeys() for versioned transactions
-      const accountKeys = transaction.transaction.message.staticAccountKeys || 
-                          transaction.transaction.message.getAccountKeys?.().keySegments().flat() || [];
-      
-      // Handle instructions for both legacy and versioned transactions
-      const instructions = 'instructions' in transaction.transaction.message ?
-        transaction.transaction.message.instructions :
-        [];
+      // Decode top-level and inner instructions for both legacy and versioned transactions
+      const { instructions, innerInstructions, instructionTransfers } =
+        instructionDecoderService.decodeTransactionDetail(transaction);
         
       return res.json({
         signature,
@@ -531,16 +642,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         slot: transaction.slot,
         fee: transaction.meta?.fee || 0,
         status: transaction.meta?.err ? 'failed' : 'success',
-        instructions: instructions.map((ix: any) => ({
-          programId: accountKeys[ix.programIdIndex]?.toBase58() || '',
-          accounts: ix.accounts.map((acc: number) => 
-            accountKeys[acc]?.toBase58() || ''
-          ),
-          data: ix.data,
-        })),
-        accountKeys: accountKeys.map((key: any) => 
-          key.toBase58()
-        ),
+        instructions,
+        innerInstructions,
+        accountKeys: getTransactionAccountKeys(transaction),
+        transfers: await priceService.priceTransfers(getTransactionTransfers(transaction), transaction.blockTime),
+        instructionTransfers: await priceService.priceTransfers(instructionTransfers, transaction.blockTime),
       });
     } catch (error: any) {
       console.error("Error fetching transaction details:", error.message || error);
@@ -585,14 +691,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
               
               if (!tx) return null;
               
-              // Use getAccountKeys() for versioned transactions
-              const accountKeys = tx.transaction.message.staticAccountKeys || 
-                             tx.transaction.message.getAccountKeys?.().keySegments().flat() || [];
-              
-              // Handle instructions for both legacy and versioned transactions
-              const instructions = 'instructions' in tx.transaction.message ?
-                tx.transaction.message.instructions :
-                [];
+              // Decode top-level and inner instructions for both legacy and versioned transactions
+              const { instructions, innerInstructions, instructionTransfers } =
+                instructionDecoderService.decodeTransactionDetail(tx);
                 
               return {
                 signature: sig.signature,
@@ -600,14 +701,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 slot: tx.slot,
                 fee: tx.meta?.fee || 0,
                 status: tx.meta?.err ? 'failed' : 'success',
-                instructions: instructions.map((ix: any) => ({
-                  programId: accountKeys[ix.programIdIndex]?.toBase58() || '',
-                  accounts: ix.accounts.map((acc: number) => 
-                    accountKeys[acc]?.toBase58() || ''
-                  ),
-                  data: ix.data
-                })),
-                accountKeys: accountKeys.map(key => key?.toBase58() || '')
+                instructions,
+                innerInstructions,
+                accountKeys: getTransactionAccountKeys(tx),
+                transfers: await priceService.priceTransfers(getTransactionTransfers(tx), tx.blockTime),
+                instructionTransfers: await priceService.priceTransfers(instructionTransfers, tx.blockTime)
               };
             } catch (error) {
               console.error(`Error fetching transaction details for signature ${sig.signature}:`, error);
@@ -843,9 +941,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         solana: {
           status: solanaStatus,
           blockHeight,
-          rpc: process.env.SOLANA_RPC_URL ? "custom" : "default"
+          rpc: process.env.SOLANA_RPC_URL || process.env.SOLANA_RPC_URLS ? "custom" : "default",
+          endpoints: getRpcPoolStatus(),
+          cache: rpcCacheService.getStats()
         },
-        solscan: solscanStatus
+        solscan: solscanStatus,
+        fixtures: fixtureRecorder.getStatus(),
+        prices: priceService.getSourceName(),
+        riskRuleset: riskScoringService.getRulesetVersion()
       });
     } catch (error: any) {
       return res.json({ 
@@ -989,6 +1092,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/entity-labeling', entityLabelingRoutes);
   app.use('/api/teams', teamRoutes);
   app.use('/api/annotations', annotationRoutes);
+  
+  // Register transaction ingestion routes
+  app.use('/api/ingestion', ingestionRoutes);
+  
+  // Register background job routes and pick up jobs interrupted by a restart
+  app.use('/api/jobs', jobRoutes);
+  backfillJobService.resumeInterruptedJobs().catch(error => {
+    console.error('Error resuming backfill jobs:', error);
+  });
+  depositDiscoveryService.resumeInterruptedJobs().catch(error => {
+    console.error('Error resuming deposit discovery jobs:', error);
+  });
+  sybilDetectionService.resumeInterruptedJobs().catch(error => {
+    console.error('Error resuming sybil detection jobs:', error);
+  });
 
   return httpServer;
 }
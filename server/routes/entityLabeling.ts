@@ -1,53 +1,312 @@
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { z } from 'zod';
 import { getSolanaConnection } from '../solana';
+import { entityLabelingService } from '../services/entityLabeling';
+import { labelDatasetService } from '../services/labelDatasets';
+import { labelResolutionService } from '../services/labelResolution';
+import { DEFAULT_MAX_WALLETS, DEFAULT_TRANSACTIONS_PER_WALLET, entityProfileService } from '../services/entityProfile';
+import { KnownLabel, LabelPack } from '@shared/labels';
 
 const router = Router();
 
-// Known entities dataset (simplified version)
-const KNOWN_ENTITIES = [
-  {
-    address: '9n5V42cxUFSH5foGrTKyRC5wHddyJDyWoL75QSp1RUsv',
-    name: 'Solana Swap Program',
-    type: 'protocol',
-    description: 'Solana token swap program',
-    tags: ['swap', 'dex'],
-    website: 'https://solana.com',
-    confidence: 100,
-    detectionMethod: 'dataset'
-  },
-  {
-    address: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
-    name: 'SPL Token Program',
-    type: 'protocol',
-    description: 'Solana Program Library Token Program',
-    tags: ['token', 'spl'],
-    website: 'https://spl.solana.com',
-    confidence: 100,
-    detectionMethod: 'dataset'
-  },
-  {
-    address: 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL',
-    name: 'Associated Token Account Program',
-    type: 'protocol',
-    description: 'Solana Associated Token Account Program',
-    tags: ['token', 'spl'],
-    website: 'https://spl.solana.com',
-    confidence: 100,
-    detectionMethod: 'dataset'
-  },
-  {
-    address: 'So11111111111111111111111111111111111111112',
-    name: 'Wrapped SOL',
-    type: 'protocol',
-    description: 'Wrapped SOL token',
-    tags: ['token', 'wrapped'],
-    website: 'https://solana.com',
-    confidence: 100,
-    detectionMethod: 'dataset'
+const MAX_LABEL_CSV_SIZE = '50mb';
+const MAX_LOOKUP_ADDRESSES = 1000;
+
+// Pack details; JSON imports carry the labels in the body, CSV imports send the file as the body
+const labelPackSchema = z.object({
+  name: z.string().min(1).max(100),
+  version: z.string().min(1).max(100).optional(),
+  source: z.string().max(200).optional(),
+  description: z.string().optional(),
+});
+
+const labelImportQuerySchema = z.object({
+  force: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+});
+
+const labelLookupSchema = z.object({
+  addresses: z.array(z.string().min(32).max(44)).min(1).max(MAX_LOOKUP_ADDRESSES),
+  at: z.coerce.date().optional(),
+});
+
+const labelAssertionSchema = z.object({
+  address: z.string().min(32).max(44),
+  name: z.string().min(1).max(100),
+  type: z.string().min(1).max(50),
+  description: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  evidence: z.string().max(2000).optional(),
+  teamId: z.number().int().positive().optional(), // Keeps the label in the team's private overlay
+});
+
+// Each analyzed wallet is one history query; raising the defaults requires a login
+const MAX_PROFILE_WALLETS = 200;
+const MAX_PROFILE_TRANSACTIONS_PER_WALLET = 1000;
+
+const entityProfileQuerySchema = z.object({
+  maxWallets: z.coerce.number().int().min(1).max(MAX_PROFILE_WALLETS).optional(),
+  transactionsPerWallet: z.coerce.number().int().min(1).max(MAX_PROFILE_TRANSACTIONS_PER_WALLET).optional(),
+  topCounterparties: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const entityMemberSchema = z.object({
+  address: z.string().min(32).max(44),
+  confidence: z.number().min(0).max(1).optional(),
+  evidence: z.string().max(2000).optional(),
+  teamId: z.number().int().positive().optional(), // Keeps the membership in the team's private overlay
+});
+
+// Team whose overlay hides a label the analyst cannot retire
+const labelRetractionQuerySchema = z.object({
+  teamId: z.coerce.number().int().positive().optional(),
+});
+
+// Teams whose private label overlays the requesting user sees
+async function getViewerTeamIds(req: Request): Promise<number[]> {
+  return req.isAuthenticated() ? labelResolutionService.getViewerTeamIds((req.user as any).id) : [];
+}
+
+// How the client's entity labels describe an assertion's source
+function detectionMethod(label: KnownLabel): 'dataset' | 'pattern' | 'manual' {
+  if (label.sourceType === 'dataset') return 'dataset';
+  return label.sourceType === 'heuristic' ? 'pattern' : 'manual';
+}
+
+/**
+ * Route to list the imported label packs
+ */
+router.get('/datasets', async (req: Request, res: Response) => {
+  try {
+    res.json(await labelDatasetService.getDatasets());
+  } catch (error) {
+    console.error('Error listing label datasets:', error);
+    res.status(500).json({ error: 'Failed to list label datasets' });
+  }
+});
+
+/**
+ * Route to import a label pack, either a JSON pack or a CSV file (Content-Type: text/csv)
+ * with the pack details as query parameters. Re-importing a pack retires labels it no longer has
+ */
+router.post('/datasets', express.text({ type: 'text/csv', limit: MAX_LABEL_CSV_SIZE }), async (req: Request, res: Response) => {
+  try {
+    // A re-import retires every label missing from the new version, so only maintainers may import
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    if (!labelDatasetService.isMaintainer((req.user as any).username)) {
+      return res.status(403).json({ error: 'Only label maintainers can import label packs' });
+    }
+
+    const query = labelImportQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: 'Invalid import parameters', details: query.error });
+    }
+
+    const isCsv = typeof req.body === 'string';
+    const details = labelPackSchema.safeParse(isCsv ? req.query : req.body);
+    if (!details.success) {
+      return res.status(400).json({ error: 'Invalid label pack details', details: details.error });
+    }
+
+    let pack: LabelPack;
+    if (isCsv) {
+      try {
+        pack = labelDatasetService.parseCsv(req.body, details.data);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid label CSV' });
+      }
+    } else {
+      pack = { ...details.data, labels: req.body.labels };
+    }
+
+    const errors = labelDatasetService.validatePack(pack);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid label pack', details: errors });
+    }
+
+    const result = await labelDatasetService.importPack(pack, { importedBy: (req.user as any).id, force: query.data.force });
+    res.json(result);
+  } catch (error) {
+    console.error('Error importing label dataset:', error);
+    res.status(500).json({ error: 'Failed to import label dataset' });
+  }
+});
+
+/**
+ * Route to resolve the effective labels of a batch of addresses, with the assertions for and against them
+ */
+router.post('/lookup', async (req: Request, res: Response) => {
+  try {
+    const validation = labelLookupSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid lookup request', details: validation.error });
+    }
+
+    const { addresses, at } = validation.data;
+    const teamIds = await getViewerTeamIds(req);
+    res.json({ labels: await labelResolutionService.resolve(addresses, { teamIds, at }) });
+  } catch (error) {
+    console.error('Error looking up labels:', error);
+    res.status(500).json({ error: 'Failed to look up labels' });
+  }
+});
+
+/**
+ * Route to look up the known entity of an address, with the labels behind it
+ */
+router.get('/lookup/:address', async (req: Request, res: Response) => {
+  try {
+    const address = req.params.address;
+    try {
+      new PublicKey(address);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid Solana address format' });
+    }
+
+    const teamIds = await getViewerTeamIds(req);
+    const entity = await entityLabelingService.lookupKnownEntity(address, teamIds);
+    if (!entity) {
+      return res.status(404).json({ error: 'No known entity for this address' });
+    }
+
+    const resolution = (await labelResolutionService.resolve([address], { teamIds }))[address];
+    res.json({ ...entity, resolution });
+  } catch (error) {
+    console.error('Error looking up entity:', error);
+    res.status(500).json({ error: 'Failed to look up entity' });
+  }
+});
+
+/**
+ * Route to list the public entities of a type
+ */
+router.get('/entities/:type', async (req: Request, res: Response) => {
+  try {
+    const entities = await entityLabelingService.getEntitiesByType(req.params.type);
+    res.json(entities.filter(entity => entity.isPublic));
+  } catch (error) {
+    console.error('Error listing entities:', error);
+    res.status(500).json({ error: 'Failed to list entities' });
+  }
+});
+
+/**
+ * Route to get an entity's profile aggregated across its member wallets
+ */
+router.get('/entities/:entityId/profile', async (req: Request, res: Response) => {
+  try {
+    const validation = entityProfileQuerySchema.safeParse(req.query);
+    
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid profile parameters', details: validation.error });
+    }
+    
+    const { maxWallets, transactionsPerWallet } = validation.data;
+    const raisesLimits = (maxWallets !== undefined && maxWallets > DEFAULT_MAX_WALLETS) ||
+      (transactionsPerWallet !== undefined && transactionsPerWallet > DEFAULT_TRANSACTIONS_PER_WALLET);
+    if (raisesLimits && !req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Log in to raise maxWallets or transactionsPerWallet above the defaults' });
+    }
+    
+    const userId = req.isAuthenticated() ? (req.user as any).id as number : undefined;
+    const profile = await entityProfileService.getProfile(parseInt(req.params.entityId), {
+      ...validation.data,
+      userId,
+      teamIds: await getViewerTeamIds(req),
+    });
+    if (!profile) {
+      return res.status(404).json({ error: 'Entity not found' });
+    }
+    
+    res.json(profile);
+  } catch (error) {
+    console.error('Error building entity profile:', error);
+    res.status(500).json({ error: 'Failed to build entity profile' });
+  }
+});
+
+/**
+ * Route to add a member wallet to an entity as an analyst assertion
+ */
+router.post('/entities/:entityId/members', async (req: Request, res: Response) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    const validation = entityMemberSchema.safeParse(req.body);
+    
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid member data', details: validation.error });
+    }
+    
+    const { address, confidence, evidence, teamId } = validation.data;
+    
+    // Validate the address format
+    try {
+      new PublicKey(address);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid Solana address format' });
+    }
+    
+    const userId = (req.user as any).id as number;
+    const teamIds = await labelResolutionService.getViewerTeamIds(userId);
+    if (teamId !== undefined && !teamIds.includes(teamId)) {
+      return res.status(403).json({ error: 'Not a member of this team' });
+    }
+    
+    const entity = await entityProfileService.getEntity(parseInt(req.params.entityId), userId, teamIds);
+    if (!entity) {
+      return res.status(404).json({ error: 'Entity not found' });
+    }
+    
+    const assertion = await labelResolutionService.addMember(entity, { address, confidence, evidence, userId, teamId });
+    
+    res.status(201).json(assertion);
+  } catch (error) {
+    console.error('Error adding entity member:', error);
+    res.status(500).json({ error: 'Failed to add entity member' });
+  }
+});
+
+/**
+ * Route to remove a member wallet from an entity; the analyst's own and their teams' assertions are retired,
+ * and any others can only be hidden from one of the analyst's teams with ?teamId=
+ */
+router.delete('/entities/:entityId/members/:address', async (req: Request, res: Response) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    const validation = labelRetractionQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid removal parameters', details: validation.error });
+    }
+    
+    const userId = (req.user as any).id as number;
+    const result = await labelResolutionService.removeMember(
+      parseInt(req.params.entityId),
+      req.params.address,
+      userId,
+      await labelResolutionService.getViewerTeamIds(userId),
+      validation.data.teamId
+    );
+    if (result === 'not-found') {
+      return res.status(404).json({ error: 'Entity member not found' });
+    }
+    if (result === 'forbidden') {
+      return res.status(403).json({ error: 'The wallet is also labeled by others; pass a teamId to hide it from your team' });
+    }
+    
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error removing entity member:', error);
+    res.status(500).json({ error: 'Failed to remove entity member' });
   }
-];
+});
 
 /**
  * Route to label entities in a wallet's transaction history
@@ -115,14 +374,23 @@ router.get('/:address', async (req: Request, res: Response) => {
     }
     
     // Find known entities
+    const knownLabels = await labelResolutionService.resolve(Array.from(uniqueAddresses), {
+      teamIds: await getViewerTeamIds(req)
+    });
     const entityLabels = Array.from(uniqueAddresses)
       .map(addr => {
         // Check if it's a known entity
-        const knownEntity = KNOWN_ENTITIES.find(entity => entity.address === addr);
+        const knownLabel = knownLabels[addr]?.label;
         
-        if (knownEntity) {
+        if (knownLabel) {
           return {
-            ...knownEntity,
+            address: addr,
+            name: knownLabel.entity,
+            type: knownLabel.type,
+            source: knownLabel.source,
+            dataset: knownLabel.dataset,
+            confidence: Math.round(knownLabel.confidence * 100),
+            detectionMethod: detectionMethod(knownLabel),
             lastUpdated: new Date()
           };
         }
@@ -216,18 +484,21 @@ router.get('/entity/:entityAddress', async (req: Request, res: Response) => {
     }
     
     // Check if it's a known entity
-    const knownEntity = KNOWN_ENTITIES.find(entity => entity.address === entityAddress);
+    const resolution = (await labelResolutionService.resolve([entityAddress], {
+      teamIds: await getViewerTeamIds(req)
+    }))[entityAddress];
     
-    if (knownEntity) {
+    if (resolution) {
       return res.json({
-        ...knownEntity,
-        lastUpdated: new Date(),
-        additionalInfo: {
-          transactionVolume: Math.floor(Math.random() * 1000000),
-          activeWallets: Math.floor(Math.random() * 10000),
-          firstSeen: new Date(Date.now() - 365 * 24 * 3600 * 1000),
-          lastSeen: new Date()
-        }
+        address: entityAddress,
+        name: resolution.label.entity,
+        type: resolution.label.type,
+        source: resolution.label.source,
+        dataset: resolution.label.dataset,
+        confidence: Math.round(resolution.label.confidence * 100),
+        detectionMethod: detectionMethod(resolution.label),
+        resolution,
+        lastUpdated: new Date()
       });
     }
     
@@ -274,27 +545,23 @@ router.get('/entity/:entityAddress', async (req: Request, res: Response) => {
 });
 
 /**
- * Route to add or update a manual entity label
+ * Route to assert a manual entity label; it is kept next to the address's other labels
+ * rather than replacing them, and goes to a team's private overlay when a team is given.
+ * Requires a login so the assertion has an owner who can retract it.
  */
 router.post('/', async (req: Request, res: Response) => {
   try {
-    // Validate request body
-    const entitySchema = z.object({
-      address: z.string().min(32).max(44),
-      name: z.string().min(1).max(100),
-      type: z.enum(['exchange', 'dex', 'project', 'protocol', 'contract', 'other']),
-      description: z.string().optional(),
-      website: z.string().url().optional(),
-      tags: z.array(z.string()).optional()
-    });
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
     
-    const validation = entitySchema.safeParse(req.body);
+    const validation = labelAssertionSchema.safeParse(req.body);
     
     if (!validation.success) {
       return res.status(400).json({ error: 'Invalid entity data', details: validation.error });
     }
     
-    const { address } = req.body;
+    const { address, name, type, description, confidence, evidence, teamId } = validation.data;
     
     // Validate the address format
     try {
@@ -303,19 +570,87 @@ router.post('/', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid Solana address format' });
     }
     
-    // In a real implementation, we would store this in a database
-    // For now, just return a success response
+    const userId = (req.user as any).id as number;
+    if (teamId !== undefined && !(await labelResolutionService.getViewerTeamIds(userId)).includes(teamId)) {
+      return res.status(403).json({ error: 'Not a member of this team' });
+    }
     
-    res.json({
-      ...req.body,
-      confidence: 100,
-      detectionMethod: 'manual',
-      lastUpdated: new Date()
+    const assertion = await labelResolutionService.assertLabel({
+      address,
+      entity: { name, type, description },
+      confidence,
+      evidence,
+      userId,
+      teamId,
     });
+    
+    res.status(201).json(assertion);
   } catch (error) {
     console.error('Error adding/updating entity label:', error);
     res.status(500).json({ error: 'Failed to save entity label' });
   }
 });
 
+/**
+ * Route to mark a label assertion as verified by the requesting analyst
+ */
+router.post('/assertions/:id/verify', async (req: Request, res: Response) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    const userId = (req.user as any).id as number;
+    const assertion = await labelResolutionService.verifyLabel(
+      parseInt(req.params.id),
+      userId,
+      await labelResolutionService.getViewerTeamIds(userId)
+    );
+    if (!assertion) {
+      return res.status(404).json({ error: 'Label assertion not found' });
+    }
+    
+    res.json(assertion);
+  } catch (error) {
+    console.error('Error verifying label assertion:', error);
+    res.status(500).json({ error: 'Failed to verify label assertion' });
+  }
+});
+
+/**
+ * Route to withdraw a label assertion; the analyst's own and their teams' assertions are retired, not deleted.
+ * Other labels, e.g. from a label pack, can only be hidden from one of the analyst's teams with ?teamId=
+ */
+router.delete('/assertions/:id', async (req: Request, res: Response) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    const validation = labelRetractionQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid retraction parameters', details: validation.error });
+    }
+    
+    const userId = (req.user as any).id as number;
+    const result = await labelResolutionService.retractLabel(
+      parseInt(req.params.id),
+      userId,
+      await labelResolutionService.getViewerTeamIds(userId),
+      validation.data.teamId
+    );
+    if (result === 'not-found') {
+      return res.status(404).json({ error: 'Label assertion not found' });
+    }
+    if (result === 'forbidden') {
+      return res.status(403).json({ error: 'Only your own or your team\'s label assertions can be withdrawn; pass a teamId to hide this one from your team' });
+    }
+    
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error retracting label assertion:', error);
+    res.status(500).json({ error: 'Failed to retract label assertion' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { Router, Request, Response } from 'express';
+import { PublicKey } from '@solana/web3.js';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { transactionIngestionService } from '../services/transactionIngestion';
+
+const router = Router();
+
+// Validation schema for ingestion request
+const ingestRequestSchema = z.object({
+  maxSignatures: z.number().min(1).max(10000).optional(),
+});
+
+/**
+ * Route to ingest a wallet's transactions into the database
+ * Only signatures newer than the wallet's high-water mark are pulled
+ */
+router.post('/:address', async (req: Request, res: Response) => {
+  try {
+    const address = req.params.address;
+
+    // Validate the address
+    try {
+      new PublicKey(address);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid Solana address format' });
+    }
+
+    const validation = ingestRequestSchema.safeParse(req.body || {});
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid ingestion options', details: validation.error });
+    }
+
+    const result = await transactionIngestionService.ingestWallet(address, validation.data);
+    res.json(result);
+  } catch (error) {
+    console.error('Error ingesting wallet transactions:', error);
+    res.status(500).json({ error: 'Failed to ingest wallet transactions' });
+  }
+});
+
+/**
+ * Route to get the ingestion high-water mark for a wallet
+ */
+router.get('/:address', async (req: Request, res: Response) => {
+  try {
+    const address = req.params.address;
+
+    // Validate input
+    if (!address || address.length < 32) {
+      return res.status(400).json({ error: 'Invalid wallet address' });
+    }
+
+    const cursor = await storage.getIngestionCursor(address);
+
+    if (!cursor) {
+      return res.status(404).json({ error: 'Wallet has not been ingested yet' });
+    }
+
+    res.json(cursor);
+  } catch (error) {
+    console.error('Error getting ingestion cursor:', error);
+    res.status(500).json({ error: 'Failed to retrieve ingestion status' });
+  }
+});
+
+export default router;
@@ -0,0 +1,305 @@
+import { Router, Request, Response } from 'express';
+import { PublicKey } from '@solana/web3.js';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { backfillJobService } from '../services/backfillJobs';
+import { depositDiscoveryService } from '../services/depositDiscovery';
+import { sybilDetectionService } from '../services/sybilDetection';
+
+const router = Router();
+
+// Validation schema for backfill request
+const backfillRequestSchema = z.object({
+  address: z.string(),
+  untilSignature: z.string().optional(),
+});
+
+// Validation schema for deposit discovery request, defaults in DEFAULT_DEPOSIT_DISCOVERY_PARAMETERS
+const depositDiscoveryRequestSchema = z.object({
+  address: z.string(),
+  maxSweepDelayHours: z.number().positive().max(24 * 30).optional(),
+  minSweeps: z.number().int().min(1).optional(),
+  minConfidence: z.number().min(0).max(1).optional(),
+  maxCandidates: z.number().int().min(1).max(5000).optional(),
+  ingestCandidates: z.boolean().optional(),
+  candidateSignatures: z.number().int().min(1).max(5000).optional(),
+});
+
+// Validation schema for batch sybil detection, defaults in DEFAULT_SYBIL_PARAMETERS
+const sybilRequestSchema = z.object({
+  addresses: z.array(z.string()).min(2).max(500),
+  minScore: z.number().min(0).max(1).optional(),
+  creationWindowHours: z.number().positive().optional(),
+  transactionsPerWallet: z.number().int().min(1).max(1000).optional(),
+  maxFeePayerWallets: z.number().int().min(1).optional(),
+  maxFundedWallets: z.number().int().min(1).optional(),
+  ingest: z.boolean().optional(),
+});
+
+/**
+ * Route to start a full-history backfill for a wallet
+ * Returns the wallet's already active job instead of starting a second one
+ */
+router.post('/backfill', async (req: Request, res: Response) => {
+  try {
+    const validation = backfillRequestSchema.safeParse(req.body || {});
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid backfill request', details: validation.error });
+    }
+
+    // Validate the address
+    try {
+      new PublicKey(validation.data.address);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid Solana address format' });
+    }
+
+    const job = await backfillJobService.startBackfill(validation.data.address, {
+      untilSignature: validation.data.untilSignature,
+    });
+    res.status(202).json(job);
+  } catch (error) {
+    console.error('Error starting backfill job:', error);
+    res.status(500).json({ error: 'Failed to start backfill job' });
+  }
+});
+
+/**
+ * Route to start discovering the deposit addresses that sweep into an exchange hot wallet
+ * Returns the hot wallet's already active job instead of starting a second one
+ */
+router.post('/deposit-discovery', async (req: Request, res: Response) => {
+  try {
+    const validation = depositDiscoveryRequestSchema.safeParse(req.body || {});
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid deposit discovery request', details: validation.error });
+    }
+
+    const { address, ...parameters } = validation.data;
+
+    // Validate the address
+    try {
+      new PublicKey(address);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid Solana address format' });
+    }
+
+    const job = await depositDiscoveryService.startDiscovery(address, parameters);
+    if (!job) {
+      return res.status(400).json({ error: 'The address is not labeled as an exchange wallet' });
+    }
+    res.status(202).json(job);
+  } catch (error) {
+    console.error('Error starting deposit discovery job:', error);
+    res.status(500).json({ error: 'Failed to start deposit discovery job' });
+  }
+});
+
+/**
+ * Route to list the deposit discovery jobs of a hot wallet, newest first
+ */
+router.get('/deposit-discovery', async (req: Request, res: Response) => {
+  try {
+    const address = req.query.address as string;
+
+    // Validate input
+    if (!address || address.length < 32) {
+      return res.status(400).json({ error: 'Invalid wallet address' });
+    }
+
+    const jobs = await storage.getDepositDiscoveryJobsByWallet(address);
+    res.json(jobs);
+  } catch (error) {
+    console.error('Error listing deposit discovery jobs:', error);
+    res.status(500).json({ error: 'Failed to list deposit discovery jobs' });
+  }
+});
+
+/**
+ * Route to get a deposit discovery job's progress and, once completed, the deposit addresses found
+ */
+router.get('/deposit-discovery/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await storage.getDepositDiscoveryJob(id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error getting deposit discovery job:', error);
+    res.status(500).json({ error: 'Failed to retrieve job' });
+  }
+});
+
+/**
+ * Route to cancel a pending or running deposit discovery job
+ */
+router.post('/deposit-discovery/:id/cancel', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await depositDiscoveryService.cancelJob(id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error cancelling deposit discovery job:', error);
+    res.status(500).json({ error: 'Failed to cancel job' });
+  }
+});
+
+/**
+ * Route to start checking whether a batch of addresses (e.g. airdrop claimants) is controlled by one farmer
+ * Body: addresses (2-500), minScore, creationWindowHours, transactionsPerWallet, maxFeePayerWallets,
+ * maxFundedWallets and ingest.
+ */
+router.post('/sybil', async (req: Request, res: Response) => {
+  try {
+    const validation = sybilRequestSchema.safeParse(req.body || {});
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid sybil detection request', details: validation.error });
+    }
+
+    // Validate the addresses
+    const invalid = validation.data.addresses.filter(address => {
+      try {
+        new PublicKey(address);
+        return false;
+      } catch (error) {
+        return true;
+      }
+    });
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: 'Invalid Solana address format', details: invalid });
+    }
+
+    const { addresses, ...parameters } = validation.data;
+    const job = await sybilDetectionService.startDetection(addresses, parameters);
+    res.status(202).json(job);
+  } catch (error) {
+    console.error('Error starting sybil detection job:', error);
+    res.status(500).json({ error: 'Failed to start sybil detection job' });
+  }
+});
+
+/**
+ * Route to get a sybil detection job's progress and, once completed, the clusters of likely-linked
+ * addresses with the evidence for each link
+ */
+router.get('/sybil/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await storage.getSybilDetectionJob(id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error getting sybil detection job:', error);
+    res.status(500).json({ error: 'Failed to retrieve job' });
+  }
+});
+
+/**
+ * Route to cancel a pending or running sybil detection job
+ */
+router.post('/sybil/:id/cancel', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await sybilDetectionService.cancelJob(id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error cancelling sybil detection job:', error);
+    res.status(500).json({ error: 'Failed to cancel job' });
+  }
+});
+
+/**
+ * Route to list the backfill jobs of a wallet, newest first
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const address = req.query.address as string;
+
+    // Validate input
+    if (!address || address.length < 32) {
+      return res.status(400).json({ error: 'Invalid wallet address' });
+    }
+
+    const jobs = await storage.getBackfillJobsByWallet(address);
+    res.json(jobs);
+  } catch (error) {
+    console.error('Error listing backfill jobs:', error);
+    res.status(500).json({ error: 'Failed to list backfill jobs' });
+  }
+});
+
+/**
+ * Route to get a job's status and progress
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await storage.getBackfillJob(id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error getting backfill job:', error);
+    res.status(500).json({ error: 'Failed to retrieve job' });
+  }
+});
+
+/**
+ * Route to cancel a pending or running job
+ */
+router.post('/:id/cancel', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await backfillJobService.cancelJob(id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error cancelling backfill job:', error);
+    res.status(500).json({ error: 'Failed to cancel job' });
+  }
+});
+
+export default router;
@@ -1,10 +1,93 @@
 import { Router, Request, Response } from 'express';
-import { Connection, PublicKey } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
 import { z } from 'zod';
-import { getSolanaConnection } from '../solana';
+import type { Transaction } from '@shared/schema';
+import { NATIVE_SOL_MINT } from '@shared/transfers';
+import { storage } from '../storage';
+import {
+  transactionClusteringService,
+  TransactionCluster,
+  CLUSTERING_ALGORITHMS,
+} from '../services/transactionClustering';
+import { transactionIngestionService } from '../services/transactionIngestion';
+import { cycleDetectionService } from '../services/cycleDetection';
+import { anomalyScoringService } from '../services/anomalyScoring';
+import { addressClusteringService } from '../services/addressClustering';
+import { getTransferLegs } from '../services/fundTracing';
+import { priceService } from '../services/priceSource';
 
 const router = Router();
 
+// List form of a cluster: member transactions as signatures, details via /:address/cluster/:clusterId
+function toClusterSummary(cluster: TransactionCluster) {
+  return {
+    id: cluster.id,
+    description: cluster.description,
+    type: cluster.type,
+    score: cluster.score,
+    transactions: cluster.transactions.map(tx => tx.signature),
+    wallets: cluster.wallets,
+    parameters: cluster.parameters,
+    createdAt: cluster.createdAt,
+  };
+}
+
+const HIGH_VALUE_TRANSACTIONS = 5;
+
+/**
+ * Signatures of the transactions that moved the most value in or out of the address.
+ * Priced transactions rank by USD value and come first; unpriced ones follow by SOL moved.
+ */
+async function rankByValue(address: string, transactions: Transaction[]): Promise<string[]> {
+  const ranked: { signature: string; usdValue: number | null; solAmount: number }[] = [];
+
+  for (const tx of transactions) {
+    if (tx.status !== 'success') continue;
+
+    const legs = getTransferLegs(tx)
+      .filter(leg => leg.from !== leg.to && (leg.from === address || leg.to === address));
+    if (legs.length === 0) continue;
+
+    const blockTime = tx.blockTime ? Math.floor(tx.blockTime.getTime() / 1000) : null;
+    const priced = await priceService.priceTransfers(legs, blockTime);
+    const usdValue = priced.every(leg => leg.usdValue !== undefined)
+      ? priced.reduce((sum, leg) => sum + leg.usdValue!, 0)
+      : null;
+    const solAmount = legs
+      .filter(leg => leg.mint === NATIVE_SOL_MINT)
+      .reduce((sum, leg) => sum + leg.uiAmount, 0);
+
+    ranked.push({ signature: tx.signature, usdValue, solAmount });
+  }
+
+  return ranked
+    .filter(entry => entry.usdValue !== null || entry.solAmount > 0)
+    .sort((a, b) => {
+      if (a.usdValue !== null && b.usdValue !== null) return b.usdValue - a.usdValue;
+      if (a.usdValue !== null) return -1;
+      if (b.usdValue !== null) return 1;
+      return b.solAmount - a.solAmount;
+    })
+    .slice(0, HIGH_VALUE_TRANSACTIONS)
+    .map(entry => entry.signature);
+}
+
+// Circular flow search parameters, see CycleOptions
+const cycleQuerySchema = z.object({
+  mint: z.string().min(1).optional(),
+  maxHops: z.coerce.number().int().min(2).max(8).optional(),
+  timeWindowHours: z.coerce.number().positive().optional(),
+  tolerance: z.coerce.number().min(0).max(1).optional(),
+  minAmount: z.coerce.number().min(0).optional(),
+});
+
+// Baseline anomaly scoring parameters, see AnomalyOptions
+const anomalyQuerySchema = z.object({
+  minScore: z.coerce.number().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+  baselineSize: z.coerce.number().int().min(10).max(500).optional(),
+});
+
 // Validation schema for clustering request
 const clusteringRequestSchema = z.object({
   address: z.string().min(32).max(44),
@@ -15,9 +98,24 @@ const clusteringRequestSchema = z.object({
   includeUnusual: z.boolean().default(true),
 });
 
+// Clustering algorithm and its parameters, see CLUSTERING_ALGORITHMS for their meaning
+const clusteringQuerySchema = z.object({
+  algorithm: z.enum(CLUSTERING_ALGORITHMS).default('heuristic'),
+  timeWindowHours: z.coerce.number().positive().optional(),
+  minTransactions: z.coerce.number().int().min(2).optional(),
+  similarityThreshold: z.coerce.number().min(0).max(1).optional(),
+  eps: z.coerce.number().positive().optional(),
+  minPoints: z.coerce.number().int().min(1).optional(),
+  timeScaleHours: z.coerce.number().positive().optional(),
+  amountScale: z.coerce.number().positive().optional(),
+  counterpartyWeight: z.coerce.number().min(0).optional(),
+  resolution: z.coerce.number().positive().optional(),
+});
+
 /**
  * Route to get transaction clusters for a wallet
- * This identifies patterns, unusual activity, and groups related transactions
+ * This identifies patterns, unusual activity, and groups related transactions.
+ * Query: algorithm (heuristic, dbscan or louvain) and that algorithm's parameters.
  */
 router.get('/:address', async (req: Request, res: Response) => {
   try {
@@ -30,144 +128,51 @@ router.get('/:address', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid wallet address' });
     }
     
-    // Connect to Solana
-    const connection = getSolanaConnection();
+    const validation = clusteringQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid clustering parameters', details: validation.error });
+    }
     
     // Validate the address
-    let publicKey: PublicKey;
     try {
-      publicKey = new PublicKey(address);
+      new PublicKey(address);
     } catch (error) {
       return res.status(400).json({ error: 'Invalid Solana address format' });
     }
     
-    // Get transaction signatures
-    const signatures = await connection.getSignaturesForAddress(publicKey, { limit });
-    
-    if (!signatures || signatures.length === 0) {
-      return res.json({
-        address,
-        clusters: [],
-        unusualTransactions: [],
-        highValueTransactions: [],
-        relatedWallets: {}
-      });
-    }
-    
-    // Get transaction details
-    const transactions = await Promise.all(
-      signatures.map(sig => connection.getTransaction(sig.signature, { maxSupportedTransactionVersion: 0 }))
+    // Cluster the stored history, ingesting first so recent activity is included
+    await transactionIngestionService.ingestWallet(address, { maxSignatures: limit });
+    const clusters = await transactionClusteringService.clusterTransactions(
+      address,
+      (req.user as any)?.id,
+      validation.data
     );
     
-    // Filter out null transactions
-    const validTransactions = transactions.filter(tx => tx !== null);
-    
-    // Format transactions for processing - handle errors more gracefully
-    let formattedTransactions = [];
-    // Check if we have valid transactions before trying to process them
-    if (validTransactions && validTransactions.length > 0) {
-      try {
-        formattedTransactions = validTransactions.map(tx => {
-          // Use getAccountKeys() for versioned transactions
-          const accountKeys = tx!.transaction.message.staticAccountKeys || 
-                            tx!.transaction.message.getAccountKeys?.().keySegments().flat() || [];
-          
-          // Handle instructions for both legacy and versioned transactions
-          const instructions = 'instructions' in tx!.transaction.message ?
-            tx!.transaction.message.instructions :
-            [];
-            
-          return {
-            signature: tx!.transaction.signatures[0],
-            blockTime: tx!.blockTime,
-            slot: tx!.slot,
-            accountKeys: accountKeys.map(key => key.toString()),
-            instructions: instructions.map(ix => ({
-              programId: accountKeys[ix.programIdIndex].toString(),
-              accounts: ix.accounts.map(idx => accountKeys[idx].toString()),
-              data: ix.data
-            })),
-            logMessages: tx!.meta?.logMessages || []
-          };
+    // Wallets grouped with this one by ownership evidence, scored by the group's confidence
+    const relatedWallets: Record<string, number> = {};
+    const { groups } = await addressClusteringService.clusterAddresses([address], { persist: false });
+    groups
+      .filter(group => group.addresses.includes(address))
+      .forEach(group => {
+        group.addresses.forEach(member => {
+          if (member === address) return;
+          relatedWallets[member] = Math.max(relatedWallets[member] || 0, Math.round(group.confidence * 100));
         });
-      } catch (error) {
-        console.error('Error processing transactions:', error);
-        // Continue with empty transactions rather than failing
-      }
-    }
-    
-    // In a real implementation, we would use the transactionClusteringService
-    // For now, return a placeholder response with realistic data structure
-    
-    // Create sample clusters based on actual transaction data
-    const temporalCluster = {
-      id: `temporal-${Date.now()}`,
-      name: 'Rapid Transaction Burst',
-      description: 'Multiple transactions within a short time window',
-      transactions: formattedTransactions.slice(0, Math.min(5, formattedTransactions.length))
-        .map(tx => tx.signature),
-      wallets: Array.from(new Set(
-        formattedTransactions.slice(0, Math.min(5, formattedTransactions.length))
-          .flatMap(tx => tx.accountKeys)
-      )),
-      confidence: 85,
-      type: 'temporal',
-      createdAt: new Date()
-    };
-    
-    const valueCluster = {
-      id: `value-${Date.now()}`,
-      name: 'High Value Transactions',
-      description: 'Transactions with significant SOL value',
-      transactions: formattedTransactions.slice(
-        Math.min(5, formattedTransactions.length), 
-        Math.min(8, formattedTransactions.length)
-      ).map(tx => tx.signature),
-      wallets: Array.from(new Set(
-        formattedTransactions.slice(
-          Math.min(5, formattedTransactions.length), 
-          Math.min(8, formattedTransactions.length)
-        ).flatMap(tx => tx.accountKeys)
-      )),
-      confidence: 75,
-      type: 'value',
-      createdAt: new Date()
-    };
-    
-    // Convert relatedWallets Map to an object for the response
-    const relatedWalletsObj: Record<string, number> = {};
-    
-    // Add some sample related wallets from the actual transaction data
-    const uniqueAddresses = new Set<string>();
-    formattedTransactions.forEach(tx => {
-      tx.accountKeys.forEach(addr => {
-        if (addr !== address) {
-          uniqueAddresses.add(addr);
-        }
       });
-    });
     
-    // Convert to array, take first 5, and assign confidence scores
-    Array.from(uniqueAddresses).slice(0, 5).forEach(addr => {
-      relatedWalletsObj[addr] = Math.floor(Math.random() * 40) + 60; // Random score between 60-100
-    });
-    
-    // Sample unusual transactions (first 2 transactions)
-    const unusualTransactions = formattedTransactions.length >= 2 
-      ? formattedTransactions.slice(0, 2).map(tx => tx.signature)
-      : [];
+    // Transactions deviating most from the wallet's own baseline
+    const { anomalies } = await anomalyScoringService.scoreWallet(address, { limit: 10 });
+    const unusualTransactions = anomalies.map(anomaly => anomaly.signature);
     
-    // Sample high value transactions (last 2 transactions)
-    const highValueTransactions = formattedTransactions.length >= 2
-      ? formattedTransactions.slice(-2).map(tx => tx.signature)
-      : [];
+    const transactions = await storage.getAddressTransactions(address, limit);
+    const highValueTransactions = await rankByValue(address, transactions);
     
     res.json({
       address,
-      clusters: [temporalCluster, valueCluster],
+      clusters: clusters.map(toClusterSummary),
       unusualTransactions,
       highValueTransactions,
-      relatedWallets: relatedWalletsObj
+      relatedWallets
     });
   } catch (error) {
     console.error('Error in transaction clustering:', error);
@@ -191,95 +196,8 @@ router.get('/:address/cluster/:clusterId', async (req: Request, res: Response) =
       return res.status(400).json({ error: 'Invalid cluster ID' });
     }
     
-    // In a real implementation, we would fetch detailed cluster data
-    // For now, return a placeholder response based on the cluster type
-    
-    let cluster;
-    if (clusterId.startsWith('temporal')) {
-      cluster = {
-        id: clusterId,
-        name: 'Rapid Transaction Burst',
-        description: '8 transactions within 5 minutes on 2023-04-15',
-        transactions: [
-          '5JFKbLUiaGsPcj87DkiGHHUGYqGrN3vpxdp93g3UGrvH3NvT7TcthZFTXS3aRGNjFiNVQiCTSvgQQu1wG9nVdFn9',
-          '2HLxJXSBnM1JSgAZFEsAdAKzqBfYH5LtUfxQtDMEtvpdj6EhxjCjTRvKkZRDXrMZ6erSPYdJRWXWN3Pcm7cC6dap',
-          '3uivJfQ4pzxRAhBEwgFcrZSFuJTgZhwgRxGZCNKnVVgQJJtx8ARMuA6BZpRAjmYsUpfxQEQqwKNZ6FvVQwJVyY3e'
-        ],
-        wallets: [
-          address,
-          '9XyR3q3XnXPApcHEa3kV7RER2WLjQVFKEKPB4CwGTZdP',
-          '2JvPg2Kw1bGEk8GpK7yBYeGQ5o2thd4XKXj87XJQ9vUV'
-        ],
-        confidence: 85,
-        type: 'temporal',
-        createdAt: new Date(Date.now() - 24 * 3600 * 1000), // 1 day ago
-        analysisDetails: {
-          timeWindow: '5 minutes',
-          averageTimeBetweenTransactions: '38 seconds',
-          startTime: new Date(Date.now() - 24 * 3600 * 1000 - 5 * 60 * 1000),
-          endTime: new Date(Date.now() - 24 * 3600 * 1000),
-          transactionTypes: {
-            transfer: 5,
-            swap: 2,
-            other: 1
-          }
-        }
-      };
-    } else if (clusterId.startsWith('value')) {
-      cluster = {
-        id: clusterId,
-        name: 'High Value Transactions',
-        description: '3 transactions with values exceeding 50 SOL',
-        transactions: [
-          '5w5HtfZ5Zo4TVS2SBXDSXuatmRQJ5Bq6mSKHJ3JWqMBTLufiJazw5g6H4r8mBJ2krBLrpwwRkLQrqPuGR7FjDVX7',
-          '4PBnVaU76jz5h3RJgekAGvH3t7Ec1Vb4BmmAeBMpxvxEZFpdF64EgEgXXsVbSygRsN8PGTq7MedSbkn7mL7URKMR'
-        ],
-        wallets: [
-          address,
-          'HJtNXKofomxjuWpWLMzTbAb4dQQYF74wYPCQNBrHfUMd',
-          'DSHLCu5ivgmLQwwFfM8A11mHNsVQNsP2LExXDpsF3xjQ'
-        ],
-        confidence: 90,
-        type: 'value',
-        createdAt: new Date(Date.now() - 48 * 3600 * 1000), // 2 days ago
-        analysisDetails: {
-          totalValue: 175.32,
-          averageValue: 58.44,
-          highestValue: 82.15,
-          lowestValue: 50.02,
-          valueDistribution: {
-            '50-60': 1,
-            '60-70': 1,
-            '80+': 1
-          }
-        }
-      };
-    } else if (clusterId.startsWith('entity')) {
-      cluster = {
-        id: clusterId,
-        name: 'Frequent Entity Interaction',
-        description: '12 interactions with the same entity',
-        transactions: [
-          '3xYJvbXqiRf1ePQQyEsQMwJyp1zHYBdxCbxcYZZYgUfaBzXv6FPv9mxxs1KpzyPixZGK95HxGBcfKKkXeNrQNQww',
-          '3Rdr7m3sZJeQYVDRqxXQCzTr1xiiS4jxrNCzgNDLVfUKcKcExSKbwkVLmPXPjvwRwjf8k9tWHPgkKtFfyhjN8c8Q'
-        ],
-        wallets: [
-          address,
-          'EXnGBBSamqzM1LL5vED32xibD1Jgc8xDQQ5fzEgFJjXD'
-        ],
-        confidence: 80,
-        type: 'entity',
-        createdAt: new Date(Date.now() - 72 * 3600 * 1000), // 3 days ago
-        analysisDetails: {
-          entityAddress: 'EXnGBBSamqzM1LL5vED32xibD1Jgc8xDQQ5fzEgFJjXD',
-          entityType: 'likely exchange',
-          interactionFrequency: 'every 2.3 days',
-          firstInteraction: new Date(Date.now() - 30 * 24 * 3600 * 1000),
-          lastInteraction: new Date(Date.now() - 3 * 24 * 3600 * 1000),
-          totalTransactions: 12
-        }
-      };
-    } else {
+    const cluster = await transactionClusteringService.getCluster(clusterId);
+    if (!cluster || cluster.walletAddress !== address) {
       return res.status(404).json({ error: 'Cluster not found' });
     }
     
@@ -291,7 +209,34 @@ router.get('/:address/cluster/:clusterId', async (req: Request, res: Response) =
 });
 
 /**
- * Route to get unusual transactions
+ * Route to detect circular flows: value that leaves the wallet and returns to it within a time window.
+ * Query: mint, maxHops, timeWindowHours, tolerance (share each hop may lose to fees or slippage), minAmount
+ */
+router.get('/:address/cycles', async (req: Request, res: Response) => {
+  try {
+    const address = req.params.address;
+    
+    // Validate input
+    if (!address || address.length < 32) {
+      return res.status(400).json({ error: 'Invalid wallet address' });
+    }
+    
+    const validation = cycleQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid cycle detection parameters', details: validation.error });
+    }
+    
+    const report = await cycleDetectionService.detectCycles(address, validation.data);
+    res.json(report);
+  } catch (error) {
+    console.error('Error detecting circular flows:', error);
+    res.status(500).json({ error: 'Failed to detect circular flows' });
+  }
+});
+
+/**
+ * Route to rank transactions by how far they deviate from the wallet's own rolling baseline.
+ * Query: minScore, limit, baselineSize (preceding transactions each one is compared against)
  */
 router.get('/:address/unusual', async (req: Request, res: Response) => {
   try {
@@ -302,39 +247,24 @@ router.get('/:address/unusual', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid wallet address' });
     }
     
-    // In a real implementation, we would fetch unusual transaction data
-    // For now, return a placeholder response
+    const validation = anomalyQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid anomaly scoring parameters', details: validation.error });
+    }
+    
+    const { limit, ...options } = validation.data;
+    const report = await anomalyScoringService.scoreWallet(address, { ...options, limit });
+    
     res.json({
       address,
-      unusualTransactions: [
-        {
-          signature: '5w5HtfZ5Zo4TVS2SBXDSXuatmRQJ5Bq6mSKHJ3JWqMBTLufiJazw5g6H4r8mBJ2krBLrpwwRkLQrqPuGR7FjDVX7',
-          timestamp: Date.now() - 2 * 24 * 3600 * 1000,
-          type: 'receive-then-disperse',
-          description: 'Funds received and quickly dispersed to 5 addresses',
-          riskScore: 75,
-          involvedAddresses: [
-            address,
-            'HJtNXKofomxjuWpWLMzTbAb4dQQYF74wYPCQNBrHfUMd',
-            'DSHLCu5ivgmLQwwFfM8A11mHNsVQNsP2LExXDpsF3xjQ',
-            '3rjCMxkTCxsmuR16syDqW4o97JM4bWJCTUxEcjavXhG5',
-            'HfLVSWuqHNJ5jUNqDySJzkGCk3AZPUEHfXLkYJMjXhL1',
-            'VmqFNfqQUHeuDuyZty5yQdf8e79fBDvgWoBdYvcSkWM'
-          ]
-        },
-        {
-          signature: '3zRXmpvQCmGJ7ZZCErTCVGMirRKwmHZcWqdBrEuQyxJNEZGebKmBmSvgKRQv92JjZhqZprJvkY6iB4foNYxREXr',
-          timestamp: Date.now() - 5 * 24 * 3600 * 1000,
-          type: 'circular-transaction',
-          description: 'Funds moved in a circular pattern through 3 addresses',
-          riskScore: 65,
-          involvedAddresses: [
-            address,
-            'EXnGBBSamqzM1LL5vED32xibD1Jgc8xDQQ5fzEgFJjXD',
-            '9XyR3q3XnXPApcHEa3kV7RER2WLjQVFKEKPB4CwGTZdP'
-          ]
-        }
-      ]
+      transactionsScored: report.transactionsScored,
+      unusualTransactions: report.anomalies.map(anomaly => ({
+        ...anomaly,
+        timestamp: anomaly.blockTime,
+        type: anomaly.deviations[0].feature,
+        riskScore: Math.min(100, Math.round(anomaly.score * 10)),
+        involvedAddresses: anomaly.counterparty ? [address, anomaly.counterparty] : [address],
+      })),
     });
   } catch (error) {
     console.error('Error getting unusual transactions:', error);
@@ -1,7 +1,15 @@
 import { Router, Request, Response } from 'express';
-import { Connection, PublicKey } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
 import { z } from 'zod';
-import { getSolanaConnection } from '../solana';
+import { storage } from '../storage';
+import { walletAnalysisService } from '../services/walletAnalysis';
+import { fundTracingService, getTransferLegs } from '../services/fundTracing';
+import { addressClusteringService } from '../services/addressClustering';
+import { structuringDetectionService } from '../services/structuringDetection';
+import { exposureService } from '../services/exposure';
+import { TAINT_MODELS, TERMINAL_ENTITY_TYPES } from '@shared/tracing';
+import { NATIVE_SOL_MINT } from '@shared/transfers';
+import { RiskAssessment } from '@shared/risk';
 
 const router = Router();
 
@@ -13,127 +21,317 @@ const analyzeWalletSchema = z.object({
   limit: z.number().min(1).max(100).default(50),
 });
 
+// Validation schema for fund origin tracing
+const traceQuerySchema = z.object({
+  depth: z.coerce.number().int().min(1).max(6).default(3),
+  model: z.enum(TAINT_MODELS).default('haircut'),
+});
+
 /**
- * Route to get wallet analysis data
- * This includes funding sources, activity patterns, and connection analysis
+ * Route to trace where a wallet's funds originate from
+ * Query: depth (hops, 1-6) and model (poison, haircut, fifo, lifo)
  */
-router.get('/:address', async (req: Request, res: Response) => {
+router.get('/fund-origins/:address', async (req: Request, res: Response) => {
   try {
     const address = req.params.address;
-    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
-    
-    // Validate input
-    if (!address || address.length < 32) {
-      return res.status(400).json({ error: 'Invalid wallet address' });
-    }
-    
-    // Connect to Solana
-    const connection = getSolanaConnection();
-    
+
     // Validate the address
-    let publicKey: PublicKey;
     try {
-      publicKey = new PublicKey(address);
+      new PublicKey(address);
     } catch (error) {
       return res.status(400).json({ error: 'Invalid Solana address format' });
     }
-    
-    // Get transaction signatures
-    const signatures = await connection.getSignaturesForAddress(publicKey, { limit });
-    
-    if (!signatures || signatures.length === 0) {
-      return res.json({
-        address,
-        fundingSources: [],
-        activityPatterns: [],
-        totalInflow: 0,
-        totalOutflow: 0,
-        riskScore: 0,
-        analysisTimestamp: Date.now()
-      });
+
+    const validation = traceQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid trace parameters', details: validation.error });
     }
-    
-    // Get transaction details
-    const transactions = await Promise.all(
-      signatures.map(sig => connection.getTransaction(sig.signature, { maxSupportedTransactionVersion: 0 }))
+
+    const { depth, model } = validation.data;
+    const fundingSources = await walletAnalysisService.traceFundOrigins(
+      address,
+      (req.user as any)?.id,
+      depth,
+      model
     );
-    
-    // Filter out null transactions
-    const validTransactions = transactions.filter(tx => tx !== null);
-    
-    // Format transactions for processing - handle errors more gracefully
-    let formattedTransactions = [];
-    // Check if we have valid transactions before trying to process them
-    if (validTransactions && validTransactions.length > 0) {
+    res.json(fundingSources);
+  } catch (error) {
+    console.error('Error tracing fund origins:', error);
+    res.status(500).json({ error: 'Failed to trace fund origins' });
+  }
+});
+
+// Validation schema for forward tracing from a transaction
+const traceForwardQuerySchema = z.object({
+  signature: z.string().min(64).max(100),
+  address: z.string().optional(),
+  amount: z.coerce.number().positive().optional(),
+  depth: z.coerce.number().int().min(1).max(10).default(5),
+  model: z.enum(TAINT_MODELS).default('haircut'),
+  minAmount: z.coerce.number().min(0).default(0.001),
+  ingest: z.enum(['true', 'false']).default('false'),
+});
+
+/**
+ * Route to follow funds forward from a transaction ("where did the money go")
+ * Query: signature, optional sender address and amount, depth, model, minAmount and ingest.
+ * Paths stop at wallets of labeled exchanges, bridges and mixers.
+ */
+router.get('/trace-forward', async (req: Request, res: Response) => {
+  try {
+    const validation = traceForwardQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid trace parameters', details: validation.error });
+    }
+
+    const { signature, address, amount, depth, model, minAmount, ingest } = validation.data;
+
+    // Validate the sender address if one was given
+    if (address) {
       try {
-        formattedTransactions = validTransactions.map(tx => {
-          // Use getAccountKeys() for versioned transactions
-          const accountKeys = tx!.transaction.message.staticAccountKeys || 
-                              tx!.transaction.message.getAccountKeys?.().keySegments().flat() || [];
-          
-          // Handle instructions for both legacy and versioned transactions
-          const instructions = 'instructions' in tx!.transaction.message ?
-            tx!.transaction.message.instructions :
-            [];
-            
-          return {
-            signature: tx!.transaction.signatures[0],
-            blockTime: tx!.blockTime,
-            slot: tx!.slot,
-            accountKeys: accountKeys.map(key => key.toString()),
-            instructions: instructions.map(ix => ({
-              programId: accountKeys[ix.programIdIndex].toString(),
-              accounts: ix.accounts.map(idx => accountKeys[idx].toString()),
-              data: ix.data
-            })),
-            logMessages: tx!.meta?.logMessages || []
-          };
-        });
+        new PublicKey(address);
       } catch (error) {
-        console.error('Error processing transactions:', error);
-        // Continue with empty transactions rather than failing
+        return res.status(400).json({ error: 'Invalid Solana address format' });
       }
     }
-    
-    // In a real implementation, we would use the walletAnalysisService to analyze the transactions
-    // For now, we'll return a placeholder response with realistic data structure
-    
-    const response = {
+
+    const trace = await fundTracingService.traceFromTransaction(signature, {
       address,
-      fundingSources: [
-        {
-          address: formattedTransactions[0]?.accountKeys[1] || "unknown",
-          initialTransactionSignature: formattedTransactions[0]?.signature || "unknown",
-          initialTransactionTimestamp: formattedTransactions[0]?.blockTime ? formattedTransactions[0].blockTime * 1000 : Date.now(),
-          totalAmount: Math.random() * 100,
-          lastSeen: Date.now(),
-          frequency: Math.floor(Math.random() * 10),
-          confidence: 85
-        }
-      ],
-      activityPatterns: [
-        {
-          type: 'temporal',
-          name: 'Regular Time Activity',
-          description: 'Transactions consistently occur during specific hours',
-          frequency: Math.floor(Math.random() * 20),
-          risk: 20,
-          confidence: 70,
-          examples: formattedTransactions.slice(0, 3).map(tx => tx.signature),
-          firstSeen: formattedTransactions[0]?.blockTime ? formattedTransactions[0].blockTime * 1000 : Date.now(),
-          lastSeen: formattedTransactions[formattedTransactions.length - 1]?.blockTime 
-            ? formattedTransactions[formattedTransactions.length - 1].blockTime * 1000 
-            : Date.now()
-        }
-      ],
-      totalInflow: Math.random() * 500,
-      totalOutflow: Math.random() * 400,
-      primaryActivity: 'transfer',
-      riskScore: Math.floor(Math.random() * 40),
+      amount,
+      depth,
+      model,
+      minAmount,
+      ingest: ingest === 'true',
+      stopAtEntityTypes: TERMINAL_ENTITY_TYPES,
+    });
+
+    if (!trace) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    res.json(trace);
+  } catch (error) {
+    console.error('Error tracing funds forward:', error);
+    res.status(500).json({ error: 'Failed to trace funds forward' });
+  }
+});
+
+// Validation schema for address clustering
+const addressClusterQuerySchema = z.object({
+  minConfidence: z.coerce.number().min(0).max(1).default(0.5),
+  rounds: z.coerce.number().int().min(0).max(3).default(1),
+});
+
+/**
+ * Route to group the wallets likely controlled by the same actor as an address
+ * Query: minConfidence and rounds (history expansion rounds). Nothing is saved; POST saves the groups.
+ */
+router.get('/address-clusters/:address', async (req: Request, res: Response) => {
+  try {
+    const address = req.params.address;
+
+    // Validate the address
+    try {
+      new PublicKey(address);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid Solana address format' });
+    }
+
+    const validation = addressClusterQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid clustering parameters', details: validation.error });
+    }
+
+    const { minConfidence, rounds } = validation.data;
+    const result = await addressClusteringService.clusterAddresses([address], {
+      minConfidence,
+      expansionRounds: rounds,
+    });
+    res.json(result);
+  } catch (error) {
+    console.error('Error clustering addresses:', error);
+    res.status(500).json({ error: 'Failed to cluster addresses' });
+  }
+});
+
+/**
+ * Route to group the wallets likely controlled by the same actor as an address and save
+ * each group as a 'related' entity
+ * Body: the query parameters of the GET route.
+ */
+router.post('/address-clusters/:address', async (req: Request, res: Response) => {
+  try {
+    const address = req.params.address;
+
+    // Validate the address
+    try {
+      new PublicKey(address);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid Solana address format' });
+    }
+
+    const validation = addressClusterQuerySchema.safeParse(req.body || {});
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid clustering parameters', details: validation.error });
+    }
+
+    const { minConfidence, rounds } = validation.data;
+    const result = await addressClusteringService.clusterAddresses([address], {
+      minConfidence,
+      expansionRounds: rounds,
+      persist: true,
+      userId: (req.user as any)?.id,
+    });
+    res.json(result);
+  } catch (error) {
+    console.error('Error saving address clusters:', error);
+    res.status(500).json({ error: 'Failed to save address clusters' });
+  }
+});
+
+// Validation schema for structuring detection, see StructuringOptions
+const structuringQuerySchema = z.object({
+  mint: z.string().min(1).optional(),
+  depth: z.coerce.number().int().min(1).max(4).default(3),
+  freshWalletTransactions: z.coerce.number().int().min(1).optional(),
+  minPeelHops: z.coerce.number().int().min(2).optional(),
+  maxPeelShare: z.coerce.number().gt(0).lt(1).optional(),
+  minFanWallets: z.coerce.number().int().min(2).optional(),
+  fanWindowHours: z.coerce.number().positive().optional(),
+});
+
+/**
+ * Route to detect peel chains, fan-outs, fan-ins and split-merges in the ingested graph around an address
+ * Query: depth, mint and the detector thresholds. Nothing is saved; POST the same parameters to save the findings.
+ */
+router.get('/structuring/:address', async (req: Request, res: Response) => {
+  try {
+    const address = req.params.address;
+
+    // Validate the address
+    try {
+      new PublicKey(address);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid Solana address format' });
+    }
+
+    const validation = structuringQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid structuring parameters', details: validation.error });
+    }
+
+    const result = await structuringDetectionService.detectStructuring(address, validation.data);
+    res.json(result);
+  } catch (error) {
+    console.error('Error detecting structuring patterns:', error);
+    res.status(500).json({ error: 'Failed to detect structuring patterns' });
+  }
+});
+
+/**
+ * Route to detect structuring around an address and save the findings as activity patterns of every
+ * participating wallet, where the peel-chain risk rule picks them up
+ * Body: the query parameters of the GET route.
+ */
+router.post('/structuring/:address', async (req: Request, res: Response) => {
+  try {
+    const address = req.params.address;
+
+    // Validate the address
+    try {
+      new PublicKey(address);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid Solana address format' });
+    }
+
+    const validation = structuringQuerySchema.safeParse(req.body || {});
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid structuring parameters', details: validation.error });
+    }
+
+    const result = await structuringDetectionService.detectStructuring(address, {
+      ...validation.data,
+      persist: true,
+      userId: (req.user as any)?.id,
+    });
+    res.json(result);
+  } catch (error) {
+    console.error('Error saving structuring patterns:', error);
+    res.status(500).json({ error: 'Failed to save structuring patterns' });
+  }
+});
+
+// Validation schema for the wallet analysis summary
+const walletSummaryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).default(50),
+});
+
+/**
+ * Route to get wallet analysis data
+ * Funding sources and activity patterns are the ones stored for the wallet (by fund origin tracing and persisted
+ * structuring findings); inflow and outflow are SOL totals over the `limit` most recent stored transactions.
+ * The risk assessment is the stored one, null until the wallet has been scored.
+ */
+router.get('/:address', async (req: Request, res: Response) => {
+  try {
+    const address = req.params.address;
+
+    // Validate the address
+    try {
+      new PublicKey(address);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid Solana address format' });
+    }
+
+    const validation = walletSummaryQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid wallet analysis parameters', details: validation.error });
+    }
+
+    const wallet = await storage.getWalletByAddress(address);
+    const storedSources = wallet ? await storage.getFundingSources(wallet.id) : [];
+    const activityPatterns = wallet ? await storage.getWalletActivityPatterns(wallet.id) : [];
+
+    const fundingSources = await Promise.all(storedSources.map(async source => {
+      const sourceWallet = await storage.getWallet(source.sourceWalletId);
+      return { ...source, sourceAddress: sourceWallet?.address || null };
+    }));
+
+    const transactions = (await storage.getAddressTransactions(address, validation.data.limit))
+      .filter(tx => tx.status !== 'failed');
+
+    let totalInflow = 0;
+    let totalOutflow = 0;
+    const types = new Map<string, number>();
+    transactions.forEach(tx => {
+      if (tx.type) types.set(tx.type, (types.get(tx.type) || 0) + 1);
+      getTransferLegs(tx).forEach(leg => {
+        if (leg.mint !== NATIVE_SOL_MINT || leg.from === leg.to) return;
+        if (leg.to === address) totalInflow += leg.uiAmount;
+        if (leg.from === address) totalOutflow += leg.uiAmount;
+      });
+    });
+
+    // The most common transaction type, null without stored history
+    const primaryActivity = Array.from(types.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([type]) => type)[0] || null;
+
+    // Last stored assessment; POST /api/wallets/:address/risk rescores
+    const risk = (wallet?.metadata as { risk?: RiskAssessment } | null)?.risk || null;
+
+    res.json({
+      address,
+      fundingSources,
+      activityPatterns,
+      totalInflow,
+      totalOutflow,
+      primaryActivity,
+      transactionsAnalyzed: transactions.length,
+      riskScore: wallet?.riskScore ?? null,
+      risk,
       analysisTimestamp: Date.now()
-    };
-    
-    res.json(response);
+    });
   } catch (error) {
     console.error('Error in wallet analysis:', error);
     res.status(500).json({ error: 'Failed to analyze wallet' });
@@ -249,4 +447,45 @@ router.get('/:address/activity-patterns', async (req: Request, res: Response) =>
   }
 });
 
+// Validation schema for exposure reports, see ExposureOptions
+const exposureQuerySchema = z.object({
+  depth: z.coerce.number().int().min(1).max(6).default(3),
+  model: z.enum(TAINT_MODELS).default('haircut'),
+  mint: z.string().min(1).optional(),
+  categories: z.string().optional(), // Comma-separated entity types
+  minAmount: z.coerce.number().min(0).optional(),
+});
+
+/**
+ * Route to attribute a wallet's inflows and outflows to entity categories, directly and within depth hops
+ * Query: depth (hops, 1-6), model (poison, haircut, fifo, lifo), mint, categories, minAmount
+ */
+router.get('/:address/exposure', async (req: Request, res: Response) => {
+  try {
+    const address = req.params.address;
+
+    // Validate the address
+    try {
+      new PublicKey(address);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid Solana address format' });
+    }
+
+    const validation = exposureQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid exposure parameters', details: validation.error });
+    }
+
+    const { categories, ...options } = validation.data;
+    const report = await exposureService.calculateExposure(address, {
+      ...options,
+      categories: categories ? categories.split(',').map(category => category.trim()).filter(Boolean) : undefined,
+    });
+    res.json(report);
+  } catch (error) {
+    console.error('Error calculating exposure:', error);
+    res.status(500).json({ error: 'Failed to calculate exposure' });
+  }
+});
+
 export default router;
\ No newline at end of file
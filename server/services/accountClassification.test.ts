@@ -0,0 +1,203 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+import type { AccountClassification } from '@shared/accounts';
+
+// server/db.ts refuses to load without a connection string; classifyAccount never queries it
+process.env.DATABASE_URL ??= 'postgres://fixtures@localhost/fixtures';
+
+const { classifyAccount } = await import('./accountClassification');
+
+const ADDRESS = new PublicKey(Buffer.alloc(32, 1)).toBase58();
+const AUTHORITY = new PublicKey(Buffer.alloc(32, 2));
+const OTHER = new PublicKey(Buffer.alloc(32, 3));
+const UNKNOWN_PROGRAM = new PublicKey(Buffer.alloc(32, 4)).toBase58();
+
+// An account with the given owner and data built by writing into a zeroed buffer
+function account(owner: string, size: number, write: (data: Buffer) => void = () => undefined, executable = false): AccountInfo<Buffer> {
+  const data = Buffer.alloc(size);
+  write(data);
+  return { owner: new PublicKey(owner), data, executable, lamports: 1_000_000 };
+}
+
+// SPL Token mint: optional mint authority, supply, decimals, initialized flag, optional freeze authority
+function writeMint(data: Buffer): void {
+  data.writeUInt32LE(1, 0);
+  AUTHORITY.toBuffer().copy(data, 4);
+  data.writeBigUInt64LE(1_000_000n, 36);
+  data[44] = 6;
+  data[45] = 1;
+}
+
+// SPL Token account: mint, owner, amount
+function writeTokenAccount(data: Buffer): void {
+  OTHER.toBuffer().copy(data, 0);
+  AUTHORITY.toBuffer().copy(data, 32);
+  data.writeBigUInt64LE(42n, 64);
+}
+
+// A bincode enum tag followed by two pubkeys at the given offsets
+function writeAuthorities(state: number, first: number, second: number) {
+  return (data: Buffer) => {
+    data.writeUInt32LE(state, 0);
+    AUTHORITY.toBuffer().copy(data, first);
+    OTHER.toBuffer().copy(data, second);
+  };
+}
+
+// LoaderV4State: deploy slot, authority, status
+function writeLoaderV4(status: number) {
+  return (data: Buffer) => {
+    data.writeBigUInt64LE(123n, 0);
+    AUTHORITY.toBuffer().copy(data, 8);
+    data.writeBigUInt64LE(BigInt(status), 40);
+  };
+}
+
+const cases: { name: string; info: AccountInfo<Buffer> | null; expected: Partial<AccountClassification> }[] = [
+  {
+    name: 'an address without an account',
+    info: null,
+    expected: { type: 'wallet', classification: 'unfunded', exists: false, owner: null },
+  },
+  {
+    name: 'a system account',
+    info: account('11111111111111111111111111111111', 0),
+    expected: { type: 'wallet', classification: 'system-account', ownerProgram: 'system' },
+  },
+  {
+    name: 'a native program',
+    info: account('NativeLoader1111111111111111111111111111111', 0, undefined, true),
+    expected: { type: 'program', classification: 'native-program', executable: true },
+  },
+  {
+    name: 'a program of the non-upgradeable loader',
+    info: account('BPFLoader2111111111111111111111111111111111', 64, undefined, true),
+    expected: { type: 'program', classification: 'immutable-program' },
+  },
+  {
+    name: 'an upgradeable program',
+    info: account('BPFLoaderUpgradeab1e11111111111111111111111', 36, data => {
+      data.writeUInt32LE(2, 0);
+      OTHER.toBuffer().copy(data, 4);
+    }, true),
+    expected: {
+      type: 'program',
+      classification: 'upgradeable-program',
+      program: { loader: 'bpf-loader-upgradeable', upgradeable: true, upgradeAuthority: null, programData: OTHER.toBase58(), deploySlot: null },
+    },
+  },
+  {
+    name: 'an upgradeable program data account',
+    info: account('BPFLoaderUpgradeab1e11111111111111111111111', 45, data => data.writeUInt32LE(3, 0)),
+    expected: { type: 'program-data', classification: 'program-data' },
+  },
+  {
+    name: 'an upgradeable loader buffer',
+    info: account('BPFLoaderUpgradeab1e11111111111111111111111', 37, data => data.writeUInt32LE(1, 0)),
+    expected: { type: 'account', classification: 'program-buffer' },
+  },
+  {
+    name: 'a finalized loader-v4 program',
+    info: account('LoaderV411111111111111111111111111111111111', 48, writeLoaderV4(2), true),
+    expected: {
+      type: 'program',
+      classification: 'immutable-program',
+      program: { loader: 'loader-v4', upgradeable: false, upgradeAuthority: null, programData: null, deploySlot: 123 },
+    },
+  },
+  {
+    name: 'a deployed loader-v4 program',
+    info: account('LoaderV411111111111111111111111111111111111', 48, writeLoaderV4(1), true),
+    expected: {
+      type: 'program',
+      classification: 'upgradeable-program',
+      program: { loader: 'loader-v4', upgradeable: true, upgradeAuthority: AUTHORITY.toBase58(), programData: null, deploySlot: 123 },
+    },
+  },
+  {
+    name: 'an SPL Token mint',
+    info: account('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', 82, writeMint),
+    expected: {
+      type: 'mint',
+      classification: 'spl-token-mint',
+      mint: { tokenProgram: 'spl-token', mintAuthority: AUTHORITY.toBase58(), supply: '1000000', decimals: 6, freezeAuthority: null },
+    },
+  },
+  {
+    name: 'an SPL Token account',
+    info: account('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', 165, writeTokenAccount),
+    expected: {
+      type: 'token-account',
+      classification: 'spl-token-account',
+      tokenAccount: { tokenProgram: 'spl-token', mint: OTHER.toBase58(), owner: AUTHORITY.toBase58(), amount: '42' },
+    },
+  },
+  {
+    name: 'an SPL Token multisig',
+    info: account('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', 355),
+    expected: { type: 'account', classification: 'spl-token-multisig' },
+  },
+  {
+    name: 'a Token-2022 mint with extensions',
+    info: account('TokenzQdBNbLqP5VEhdkAS6EPFLC1PQnx4Gz6d3pYjm', 234, data => {
+      writeMint(data);
+      data[165] = 1;
+    }),
+    expected: { type: 'mint', classification: 'token-2022-mint' },
+  },
+  {
+    name: 'a Token-2022 account with extensions',
+    info: account('TokenzQdBNbLqP5VEhdkAS6EPFLC1PQnx4Gz6d3pYjm', 170, data => {
+      writeTokenAccount(data);
+      data[165] = 2;
+    }),
+    expected: { type: 'token-account', classification: 'token-2022-account' },
+  },
+  {
+    name: 'a stake account',
+    info: account('Stake11111111111111111111111111111111111111', 200, writeAuthorities(2, 12, 44)),
+    expected: {
+      type: 'stake',
+      classification: 'stake-account',
+      stake: { staker: AUTHORITY.toBase58(), withdrawer: OTHER.toBase58() },
+    },
+  },
+  {
+    name: 'an uninitialized stake account',
+    info: account('Stake11111111111111111111111111111111111111', 200),
+    expected: { type: 'stake', classification: 'stake-account', stake: { staker: null, withdrawer: null } },
+  },
+  {
+    name: 'a vote account',
+    info: account('Vote111111111111111111111111111111111111111', 3762, writeAuthorities(2, 4, 36)),
+    expected: {
+      type: 'vote',
+      classification: 'vote-account',
+      vote: { node: AUTHORITY.toBase58(), withdrawer: OTHER.toBase58() },
+    },
+  },
+  {
+    name: 'a program of an unknown loader',
+    info: account(UNKNOWN_PROGRAM, 0, undefined, true),
+    expected: { type: 'program', classification: 'program', ownerProgram: null },
+  },
+  {
+    name: 'data owned by another program',
+    info: account(UNKNOWN_PROGRAM, 100),
+    expected: { type: 'account', classification: 'program-owned', owner: UNKNOWN_PROGRAM },
+  },
+];
+
+cases.forEach(({ name, info, expected }) => {
+  test(`classifies ${name}`, () => {
+    const classification = classifyAccount(ADDRESS, info);
+    const fields = Object.keys(expected) as (keyof AccountClassification)[];
+
+    assert.equal(classification.address, ADDRESS);
+    assert.deepEqual(
+      Object.fromEntries(fields.map(field => [field, classification[field]])),
+      expected
+    );
+  });
+});
@@ -0,0 +1,267 @@
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import { storage } from '../storage';
+import { Wallet } from '@shared/schema';
+import { AccountClassification, ACCOUNT_OWNERS, ProgramAccountInfo } from '@shared/accounts';
+import { getSolanaConnection } from '../solana';
+
+const ACCOUNTS_PER_REQUEST = 100; // Maximum accounts per getMultipleAccountsInfo call
+const DEFAULT_MAX_AGE_HOURS = 24; // Stored classifications older than this are read again
+
+// Account layouts
+const MINT_SIZE = 82;
+const TOKEN_ACCOUNT_SIZE = 165;
+const TOKEN_MULTISIG_SIZE = 355;
+const TOKEN_2022_ACCOUNT_TYPE_OFFSET = 165; // Extended Token-2022 accounts: 1 = mint, 2 = token account
+const UPGRADEABLE_LOADER_PROGRAM = 2;
+const UPGRADEABLE_LOADER_PROGRAM_DATA = 3;
+const UPGRADEABLE_LOADER_BUFFER = 1;
+const LOADER_V4_FINALIZED = 2;
+
+/**
+ * AccountClassificationService tells wallets, programs and token accounts apart from on-chain metadata:
+ * - Reads getAccountInfo in batches: executable flag, owner program and data layout
+ * - Programs: loader version and, for upgradeable ones, the upgrade authority from the program data account
+ * - SPL Token and Token-2022 mints and token accounts by layout, token accounts with their owner wallet
+ * - Stake and vote accounts with their authorities
+ * - Writes wallets.type, classification, executable and owner, and the details under metadata.account,
+ *   for addresses that already have a wallet row; other addresses are classified without being stored
+ * - Stored classifications are reused for DEFAULT_MAX_AGE_HOURS
+ */
+export class AccountClassificationService {
+  private connection: Connection;
+
+  constructor() {
+    this.connection = getSolanaConnection();
+  }
+
+  /**
+   * Classify addresses, reading the chain only for those not classified recently
+   */
+  async classifyAddresses(
+    addresses: string[],
+    options: { refresh?: boolean; maxAgeHours?: number } = {}
+  ): Promise<Record<string, AccountClassification>> {
+    const maxAge = (options.maxAgeHours ?? DEFAULT_MAX_AGE_HOURS) * 60 * 60 * 1000;
+    const wallets = new Map<string, Wallet>();
+    (await storage.getWalletsByAddresses(Array.from(new Set(addresses)))).forEach(wallet => wallets.set(wallet.address, wallet));
+
+    const classifications: Record<string, AccountClassification> = {};
+    const stale: string[] = [];
+    Array.from(new Set(addresses)).forEach(address => {
+      const stored = getStoredClassification(wallets.get(address));
+      if (stored && !options.refresh && Date.now() - Date.parse(stored.classifiedAt) < maxAge) {
+        classifications[address] = stored;
+      } else {
+        stale.push(address);
+      }
+    });
+
+    for (let i = 0; i < stale.length; i += ACCOUNTS_PER_REQUEST) {
+      const chunk = stale.slice(i, i + ACCOUNTS_PER_REQUEST);
+      const infos = await this.connection.getMultipleAccountsInfo(chunk.map(address => new PublicKey(address)));
+      const chunkClassifications = chunk.map((address, index) => classifyAccount(address, infos[index]));
+      await this.addUpgradeAuthorities(chunkClassifications);
+
+      for (const classification of chunkClassifications) {
+        const wallet = wallets.get(classification.address);
+        if (wallet) await this.saveClassification(classification, wallet);
+        classifications[classification.address] = classification;
+      }
+    }
+
+    return classifications;
+  }
+
+  async classifyAddress(address: string, options: { refresh?: boolean } = {}): Promise<AccountClassification> {
+    return (await this.classifyAddresses([address], options))[address];
+  }
+
+  /**
+   * Upgradeable programs keep their upgrade authority in a separate program data account
+   */
+  private async addUpgradeAuthorities(classifications: AccountClassification[]): Promise<void> {
+    const programs = classifications.filter(item => item.program?.programData);
+    if (programs.length === 0) return;
+
+    const infos = await this.connection.getMultipleAccountsInfo(
+      programs.map(item => new PublicKey(item.program!.programData!))
+    );
+    programs.forEach((item, index) => {
+      const programData = parseProgramData(infos[index]);
+      if (!programData) return;
+
+      item.program = { ...item.program!, ...programData, upgradeable: programData.upgradeAuthority !== null };
+      item.classification = programData.upgradeAuthority ? 'upgradeable-program' : 'immutable-program';
+    });
+  }
+
+  private async saveClassification(classification: AccountClassification, wallet: Wallet): Promise<void> {
+    const account = {
+      type: classification.type,
+      classification: classification.classification,
+      executable: classification.executable,
+      owner: classification.owner,
+    };
+
+    await storage.mergeWalletMetadata(wallet.id, 'account', classification, account);
+  }
+}
+
+function getStoredClassification(wallet?: Wallet): AccountClassification | undefined {
+  return (wallet?.metadata as Record<string, any> | null)?.account;
+}
+
+/**
+ * Classify one account from its getAccountInfo result
+ */
+export function classifyAccount(address: string, info: AccountInfo<Buffer> | null): AccountClassification {
+  const base = {
+    address,
+    exists: !!info,
+    executable: info?.executable || false,
+    owner: info ? info.owner.toBase58() : null,
+    ownerProgram: info ? ACCOUNT_OWNERS[info.owner.toBase58()] || null : null,
+    classifiedAt: new Date().toISOString(),
+  };
+  if (!info) return { ...base, type: 'wallet', classification: 'unfunded' };
+
+  const data = info.data;
+  switch (base.ownerProgram) {
+    case 'system':
+      return { ...base, type: 'wallet', classification: 'system-account' };
+
+    case 'native-loader':
+      return { ...base, type: 'program', classification: 'native-program', program: programInfo('native-loader') };
+
+    case 'bpf-loader-deprecated':
+    case 'bpf-loader':
+      return { ...base, type: 'program', classification: 'immutable-program', program: programInfo(base.ownerProgram) };
+
+    case 'bpf-loader-upgradeable': {
+      const state = data.length >= 4 ? data.readUInt32LE(0) : -1;
+      if (state === UPGRADEABLE_LOADER_PROGRAM && data.length >= 36) {
+        // Upgrade authority is filled in from the program data account
+        const program = { ...programInfo('bpf-loader-upgradeable'), upgradeable: true, programData: readPubkey(data, 4) };
+        return { ...base, type: 'program', classification: 'upgradeable-program', program };
+      }
+      if (state === UPGRADEABLE_LOADER_PROGRAM_DATA) {
+        return { ...base, type: 'program-data', classification: 'program-data' };
+      }
+      if (state === UPGRADEABLE_LOADER_BUFFER) {
+        return { ...base, type: 'account', classification: 'program-buffer' };
+      }
+      return { ...base, type: 'account', classification: 'program-owned' };
+    }
+
+    case 'loader-v4': {
+      // LoaderV4State: slot (u64), authority or next version (pubkey), status (u64)
+      if (data.length < 48) return { ...base, type: 'account', classification: 'program-owned' };
+      const finalized = Number(data.readBigUInt64LE(40)) === LOADER_V4_FINALIZED;
+      const program: ProgramAccountInfo = {
+        ...programInfo('loader-v4'),
+        upgradeable: !finalized,
+        upgradeAuthority: finalized ? null : readPubkey(data, 8),
+        deploySlot: Number(data.readBigUInt64LE(0)),
+      };
+      return { ...base, type: 'program', classification: finalized ? 'immutable-program' : 'upgradeable-program', program };
+    }
+
+    case 'spl-token':
+    case 'spl-token-2022':
+      return classifyTokenAccount(base, data);
+
+    case 'stake':
+      return {
+        ...base,
+        type: 'stake',
+        classification: 'stake-account',
+        // StakeStateV2 Initialized or Stake: meta starts with the rent reserve, then the staker and withdrawer
+        stake: hasState(data, [1, 2], 76)
+          ? { staker: readPubkey(data, 12), withdrawer: readPubkey(data, 44) }
+          : { staker: null, withdrawer: null },
+      };
+
+    case 'vote':
+      return {
+        ...base,
+        type: 'vote',
+        classification: 'vote-account',
+        // VoteStateVersions V1_14_11 and Current start with the node identity and the withdrawer
+        vote: hasState(data, [1, 2], 68)
+          ? { node: readPubkey(data, 4), withdrawer: readPubkey(data, 36) }
+          : { node: null, withdrawer: null },
+      };
+  }
+
+  if (info.executable) return { ...base, type: 'program', classification: 'program', program: programInfo(base.owner!) };
+  return { ...base, type: 'account', classification: 'program-owned' };
+}
+
+function classifyTokenAccount(base: Omit<AccountClassification, 'type' | 'classification'>, data: Buffer): AccountClassification {
+  const tokenProgram = base.ownerProgram!;
+  const prefix = tokenProgram === 'spl-token-2022' ? 'token-2022' : 'spl-token';
+  const extendedType = tokenProgram === 'spl-token-2022' && data.length > TOKEN_2022_ACCOUNT_TYPE_OFFSET
+    ? data[TOKEN_2022_ACCOUNT_TYPE_OFFSET]
+    : undefined;
+
+  if (data.length === MINT_SIZE || extendedType === 1) {
+    return {
+      ...base,
+      type: 'mint',
+      classification: `${prefix}-mint`,
+      mint: {
+        tokenProgram,
+        mintAuthority: data.readUInt32LE(0) === 1 ? readPubkey(data, 4) : null,
+        supply: data.readBigUInt64LE(36).toString(),
+        decimals: data[44],
+        freezeAuthority: data.readUInt32LE(46) === 1 ? readPubkey(data, 50) : null,
+      },
+    };
+  }
+
+  if (data.length === TOKEN_ACCOUNT_SIZE || extendedType === 2) {
+    return {
+      ...base,
+      type: 'token-account',
+      classification: `${prefix}-account`,
+      tokenAccount: {
+        tokenProgram,
+        mint: readPubkey(data, 0),
+        owner: readPubkey(data, 32),
+        amount: data.readBigUInt64LE(64).toString(),
+      },
+    };
+  }
+
+  if (data.length === TOKEN_MULTISIG_SIZE) return { ...base, type: 'account', classification: `${prefix}-multisig` };
+  return { ...base, type: 'account', classification: 'program-owned' };
+}
+
+/**
+ * UpgradeableLoaderState::ProgramData: deploy slot (u64), then an optional upgrade authority
+ */
+function parseProgramData(info: AccountInfo<Buffer> | null): Pick<ProgramAccountInfo, 'upgradeAuthority' | 'deploySlot'> | null {
+  if (!info || !hasState(info.data, [UPGRADEABLE_LOADER_PROGRAM_DATA], 13)) return null;
+
+  const data = info.data;
+  return {
+    deploySlot: Number(data.readBigUInt64LE(4)),
+    upgradeAuthority: data[12] === 1 && data.length >= 45 ? readPubkey(data, 13) : null,
+  };
+}
+
+function programInfo(loader: string): ProgramAccountInfo {
+  return { loader, upgradeable: false, upgradeAuthority: null, programData: null, deploySlot: null };
+}
+
+// Bincode enums start with a u32 tag
+function hasState(data: Buffer, states: number[], minLength: number): boolean {
+  return data.length >= minLength && states.includes(data.readUInt32LE(0));
+}
+
+function readPubkey(data: Buffer, offset: number): string {
+  return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
+
+// Export a singleton instance
+export const accountClassificationService = new AccountClassificationService();
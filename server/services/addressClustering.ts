@@ -0,0 +1,404 @@
+import { storage } from '../storage';
+import { Entity, Transaction, Wallet } from '@shared/schema';
+import { NATIVE_SOL_MINT, TransferLeg } from '@shared/transfers';
+import { DecodedInstruction } from '@shared/instructions';
+import { UnionFind } from '../clustering';
+
+const DEFAULT_TRANSACTIONS_PER_WALLET = 500;
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+const DEFAULT_MAX_FEE_PAYER_WALLETS = 10;
+const DEFAULT_MAX_FUNDED_WALLETS = 25;
+const DEFAULT_EXPANSION_ROUNDS = 1;
+const DEFAULT_MAX_WALLETS = 50;
+const MAX_EVIDENCE_PER_GROUP = 100;
+const ACCOUNT_OWNER_AUTHORITY = 2; // SPL Token AuthorityType::AccountOwner
+const TOKEN_PROGRAMS = ['spl-token', 'spl-token-2022'];
+
+// Marks entities written by this service, so re-runs update them instead of adding new ones
+export const ADDRESS_CLUSTERING_SOURCE = 'address-clustering';
+
+export type AddressClusterSignal = 'co-signer' | 'fee-payer' | 'token-owner' | 'rent-refund' | 'shared-funding';
+
+/**
+ * Weight of a single piece of evidence that two addresses share an owner:
+ * - co-signer: both signed the same transaction, besides the fee payer
+ * - fee-payer: one paid the fees of a transaction the other signed
+ * - token-owner: one handed ownership of a token account to the other
+ * - rent-refund: closing one's token account refunded the rent to the other
+ * - shared-funding: both were fresh wallets first funded by the same sender
+ */
+export const SIGNAL_WEIGHTS: Record<AddressClusterSignal, number> = {
+  'co-signer': 0.95,
+  'fee-payer': 0.85,
+  'token-owner': 0.8,
+  'rent-refund': 0.75,
+  'shared-funding': 0.5,
+};
+
+export interface ClusterEvidence {
+  signal: AddressClusterSignal;
+  addresses: [string, string];
+  signature: string;
+  detail: string;
+}
+
+export interface AddressGroup {
+  addresses: string[];
+  confidence: number; // Weakest link of the strongest spanning tree over the group
+  signals: Partial<Record<AddressClusterSignal, number>>; // Evidence count per signal
+  evidence: ClusterEvidence[]; // Strongest signals first, capped at MAX_EVIDENCE_PER_GROUP
+  entityId?: number; // Set once the group is written to entities
+}
+
+export interface AddressClusteringOptions {
+  transactionsPerWallet?: number;
+  minConfidence?: number; // Address pairs linked more weakly than this are not merged
+  maxFeePayerWallets?: number; // Fee payers serving more wallets are treated as relayers and ignored
+  maxFundedWallets?: number; // Funders of more fresh wallets are treated as services (e.g. exchanges) and ignored
+  expansionRounds?: number; // Rounds of loading the history of newly linked wallets
+  maxWallets?: number; // Upper bound on wallets whose history is loaded
+  persist?: boolean; // Write the groups to entities and walletEntityRelations, default false
+  userId?: number;
+}
+
+export interface AddressClusteringResult {
+  seeds: string[];
+  transactionsAnalyzed: number;
+  walletsLoaded: number;
+  groups: AddressGroup[];
+}
+
+// Fields written to transaction metadata by transactionIngestionService.normalizeTransaction
+interface TransactionMetadata {
+  signers?: string[];
+  fundedAccounts?: string[];
+  instructions?: DecodedInstruction[];
+  innerInstructions?: DecodedInstruction[];
+  transfers?: TransferLeg[];
+}
+
+type ClusteringSettings = Required<Omit<AddressClusteringOptions, 'userId'>>;
+
+/**
+ * AddressClusteringService groups wallets likely controlled by one actor:
+ * - Collects ownership evidence from the ingested transactions of the seed wallets
+ * - Merges address pairs with union-find, strongest links first
+ * - Loads the history of newly linked wallets for a configurable number of rounds
+ * - Writes each group to a 'related' entity with its confidence and evidence trail
+ *
+ * Signers and funded accounts are only recorded for transactions ingested after they were
+ * added to the metadata; older rows contribute the instruction-based signals only.
+ */
+export class AddressClusteringService {
+  /**
+   * Cluster the wallets connected to the given seeds
+   * @param seeds Wallet addresses to start from; only groups containing a seed are returned
+   */
+  async clusterAddresses(seeds: string[], options: AddressClusteringOptions = {}): Promise<AddressClusteringResult> {
+    const settings: ClusteringSettings = {
+      transactionsPerWallet: options.transactionsPerWallet || DEFAULT_TRANSACTIONS_PER_WALLET,
+      minConfidence: options.minConfidence ?? DEFAULT_MIN_CONFIDENCE,
+      maxFeePayerWallets: options.maxFeePayerWallets || DEFAULT_MAX_FEE_PAYER_WALLETS,
+      maxFundedWallets: options.maxFundedWallets || DEFAULT_MAX_FUNDED_WALLETS,
+      expansionRounds: options.expansionRounds ?? DEFAULT_EXPANSION_ROUNDS,
+      maxWallets: options.maxWallets || DEFAULT_MAX_WALLETS,
+      persist: options.persist ?? false,
+    };
+
+    const transactions = new Map<string, Transaction>();
+    const loadedWallets = new Set<string>();
+    let groups: AddressGroup[] = [];
+    let frontier = seeds;
+
+    for (let round = 0; round <= settings.expansionRounds && frontier.length > 0; round++) {
+      for (const address of frontier) {
+        loadedWallets.add(address);
+        const history = await storage.getAddressTransactions(address, settings.transactionsPerWallet);
+        history.forEach(tx => transactions.set(tx.signature, tx));
+      }
+
+      groups = this.buildGroups(Array.from(transactions.values()), settings)
+        .filter(group => group.addresses.some(address => seeds.includes(address)));
+
+      // Next round loads the wallets that joined a seed's group
+      frontier = groups
+        .flatMap(group => group.addresses)
+        .filter(address => !loadedWallets.has(address))
+        .slice(0, Math.max(0, settings.maxWallets - loadedWallets.size));
+    }
+
+    if (settings.persist) {
+      for (const group of groups) {
+        group.entityId = (await this.saveGroup(group, seeds, options.userId)).id;
+      }
+    }
+
+    return {
+      seeds,
+      transactionsAnalyzed: transactions.size,
+      walletsLoaded: loadedWallets.size,
+      groups,
+    };
+  }
+
+  /**
+   * Collect evidence from the transactions and merge addresses into groups of two or more
+   */
+  private buildGroups(transactions: Transaction[], settings: ClusteringSettings): AddressGroup[] {
+    const ordered = [...transactions].sort((a, b) => (a.slot ?? 0) - (b.slot ?? 0));
+    const evidence = this.collectEvidence(ordered, settings);
+
+    // Combine the evidence per address pair into a link strength
+    const byPair = new Map<string, ClusterEvidence[]>();
+    evidence.forEach(item => {
+      const key = [...item.addresses].sort().join(':');
+      const items = byPair.get(key) || [];
+      items.push(item);
+      byPair.set(key, items);
+    });
+
+    const links = Array.from(byPair.entries())
+      .map(([key, items]) => ({
+        key,
+        addresses: items[0].addresses,
+        strength: 1 - items.reduce((remaining, item) => remaining * (1 - SIGNAL_WEIGHTS[item.signal]), 1),
+      }))
+      .sort((a, b) => b.strength - a.strength || a.key.localeCompare(b.key));
+
+    const sets = new UnionFind();
+    links
+      .filter(link => link.strength >= settings.minConfidence)
+      .forEach(link => sets.union(link.addresses[0], link.addresses[1], link.strength));
+
+    const members = new Map<string, string[]>();
+    links.forEach(link => link.addresses.forEach(address => {
+      const root = sets.find(address);
+      const list = members.get(root) || [];
+      if (!list.includes(address)) list.push(address);
+      members.set(root, list);
+    }));
+
+    return Array.from(members.entries())
+      .filter(([, addresses]) => addresses.length > 1)
+      .map(([root, addresses]) => {
+        const groupEvidence = evidence.filter(item => sets.find(item.addresses[0]) === root && sets.find(item.addresses[1]) === root);
+        const signals: Partial<Record<AddressClusterSignal, number>> = {};
+        groupEvidence.forEach(item => {
+          signals[item.signal] = (signals[item.signal] || 0) + 1;
+        });
+
+        return {
+          addresses,
+          confidence: sets.getConfidence(root),
+          signals,
+          evidence: [...groupEvidence]
+            .sort((a, b) => SIGNAL_WEIGHTS[b.signal] - SIGNAL_WEIGHTS[a.signal])
+            .slice(0, MAX_EVIDENCE_PER_GROUP),
+        };
+      })
+      .sort((a, b) => b.addresses.length - a.addresses.length);
+  }
+
+  private collectEvidence(transactions: Transaction[], settings: ClusteringSettings): ClusterEvidence[] {
+    const evidence: ClusterEvidence[] = [];
+    const tokenOwners = this.collectTokenOwners(transactions);
+    const resolve = (address: string) => tokenOwners.get(address) || address;
+
+    const feePayerLinks: ClusterEvidence[] = [];
+    const feePayerWallets = new Map<string, Set<string>>();
+    const fundings = new Map<string, { wallet: string; signature: string }[]>();
+
+    transactions.forEach(tx => {
+      const metadata = (tx.metadata || {}) as TransactionMetadata;
+      const funded = new Set(metadata.fundedAccounts || []);
+      const allSigners = metadata.signers || [];
+      const feePayer = allSigners[0];
+
+      // Keypairs of accounts created in the transaction also sign, but are not wallets
+      const signers = allSigners.filter(signer => !funded.has(signer) && !tokenOwners.has(signer));
+      const coSigners = signers.filter(signer => signer !== feePayer);
+
+      if (feePayer && signers.includes(feePayer)) {
+        coSigners.forEach(signer => {
+          feePayerLinks.push({
+            signal: 'fee-payer',
+            addresses: [feePayer, signer],
+            signature: tx.signature,
+            detail: `${feePayer} paid the fee of a transaction signed by ${signer}`,
+          });
+          const served = feePayerWallets.get(feePayer) || new Set<string>();
+          served.add(signer);
+          feePayerWallets.set(feePayer, served);
+        });
+      }
+
+      for (let i = 1; i < coSigners.length; i++) {
+        evidence.push({
+          signal: 'co-signer',
+          addresses: [coSigners[0], coSigners[i]],
+          signature: tx.signature,
+          detail: `${coSigners[0]} and ${coSigners[i]} signed the same transaction`,
+        });
+      }
+
+      const instructions = [...(metadata.instructions || []), ...(metadata.innerInstructions || [])]
+        .filter(ix => TOKEN_PROGRAMS.includes(ix.program));
+
+      instructions.forEach(ix => {
+        if (ix.name === 'closeAccount' && ix.args.owner && ix.args.destination) {
+          const owner = resolve(String(ix.args.owner));
+          const destination = resolve(String(ix.args.destination));
+          if (owner !== destination) {
+            evidence.push({
+              signal: 'rent-refund',
+              addresses: [owner, destination],
+              signature: tx.signature,
+              detail: `Closing token account ${ix.args.account} of ${owner} refunded its rent to ${destination}`,
+            });
+          }
+        } else if (
+          ix.name === 'setAuthority' &&
+          ix.args.authorityType === ACCOUNT_OWNER_AUTHORITY &&
+          ix.args.currentAuthority &&
+          ix.args.newAuthority
+        ) {
+          const previousOwner = String(ix.args.currentAuthority);
+          const newOwner = String(ix.args.newAuthority);
+          if (previousOwner !== newOwner) {
+            evidence.push({
+              signal: 'token-owner',
+              addresses: [previousOwner, newOwner],
+              signature: tx.signature,
+              detail: `${previousOwner} transferred ownership of token account ${ix.args.account} to ${newOwner}`,
+            });
+          }
+        }
+      });
+
+      // A SOL transfer into an account with no prior balance is the first funding of a fresh wallet
+      (metadata.transfers || []).forEach(leg => {
+        if (
+          leg.mint !== NATIVE_SOL_MINT ||
+          leg.from === leg.to ||
+          !funded.has(leg.to) ||
+          allSigners.includes(leg.to) ||
+          tokenOwners.has(leg.to)
+        ) {
+          return;
+        }
+        const walletsFunded = fundings.get(leg.from) || [];
+        if (!walletsFunded.some(entry => entry.wallet === leg.to)) {
+          walletsFunded.push({ wallet: leg.to, signature: tx.signature });
+        }
+        fundings.set(leg.from, walletsFunded);
+      });
+    });
+
+    // Relayers pay fees for many unrelated wallets
+    feePayerLinks
+      .filter(link => (feePayerWallets.get(link.addresses[0])?.size || 0) <= settings.maxFeePayerWallets)
+      .forEach(link => evidence.push(link));
+
+    // Exchanges and faucets fund many unrelated wallets
+    fundings.forEach((fundedWallets, funder) => {
+      if (fundedWallets.length < 2 || fundedWallets.length > settings.maxFundedWallets) return;
+
+      for (let i = 1; i < fundedWallets.length; i++) {
+        evidence.push({
+          signal: 'shared-funding',
+          addresses: [fundedWallets[i - 1].wallet, fundedWallets[i].wallet],
+          signature: fundedWallets[i].signature,
+          detail: `${fundedWallets[i - 1].wallet} and ${fundedWallets[i].wallet} were both first funded by ${funder}`,
+        });
+      }
+    });
+
+    return evidence;
+  }
+
+  /**
+   * Owner of every token account seen in the transactions, so token accounts resolve to wallets
+   */
+  private collectTokenOwners(transactions: Transaction[]): Map<string, string> {
+    const owners = new Map<string, string>();
+
+    transactions.forEach(tx => {
+      const metadata = (tx.metadata || {}) as TransactionMetadata;
+
+      [...(metadata.instructions || []), ...(metadata.innerInstructions || [])].forEach(ix => {
+        const isTokenAccountInit = TOKEN_PROGRAMS.includes(ix.program) && ix.name.startsWith('initializeAccount');
+        const isAssociatedAccount = ix.program === 'spl-associated-token-account' && ix.name.startsWith('create');
+        if ((isTokenAccountInit || isAssociatedAccount) && ix.args.account && ix.args.owner) {
+          owners.set(String(ix.args.account), String(ix.args.owner));
+        }
+      });
+
+      (metadata.transfers || []).forEach(leg => {
+        if (leg.fromTokenAccount) owners.set(leg.fromTokenAccount, leg.from);
+        if (leg.toTokenAccount) owners.set(leg.toTokenAccount, leg.to);
+      });
+    });
+
+    return owners;
+  }
+
+  /**
+   * Write a group to a 'related' entity, reusing the entity an earlier run created for any of its wallets
+   */
+  private async saveGroup(group: AddressGroup, seeds: string[], userId?: number): Promise<Entity> {
+    const members: { wallet: Wallet; entities: Entity[] }[] = [];
+    for (const address of group.addresses) {
+      let wallet = await storage.getWalletByAddress(address);
+      if (!wallet) {
+        wallet = await storage.createWallet({ address, userId });
+      }
+      members.push({ wallet, entities: await storage.getWalletEntities(wallet.id) });
+    }
+
+    const existing = members
+      .flatMap(member => member.entities)
+      .filter(entity => (entity.metadata as { source?: string } | null)?.source === ADDRESS_CLUSTERING_SOURCE)
+      .sort((a, b) => a.id - b.id)[0];
+
+    const signalNames = Object.keys(group.signals).join(', ');
+    const description = `${group.addresses.length} wallets likely controlled by one actor (${signalNames})`;
+    const metadata = {
+      source: ADDRESS_CLUSTERING_SOURCE,
+      confidence: group.confidence,
+      signals: group.signals,
+      evidence: group.evidence,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const primary = group.addresses.find(address => seeds.includes(address)) || group.addresses[0];
+    const entity = existing
+      ? (await storage.updateEntity(existing.id, { description, metadata })) || existing
+      : await storage.createEntity({
+          name: `Related wallets ${primary.slice(0, 4)}...${primary.slice(-4)}`,
+          type: 'related',
+          description,
+          userId,
+          isPublic: true,
+          color: '#9945FF',
+          metadata,
+        });
+
+    for (const member of members) {
+      if (!member.entities.some(candidate => candidate.id === entity.id)) {
+        await storage.addWalletToEntity({
+          walletId: member.wallet.id,
+          entityId: entity.id,
+          sourceType: 'heuristic',
+          source: ADDRESS_CLUSTERING_SOURCE,
+          evidence: description,
+          confidence: group.confidence,
+        });
+      }
+    }
+
+    return entity;
+  }
+}
+
+// Export a singleton instance
+export const addressClusteringService = new AddressClusteringService();
@@ -0,0 +1,267 @@
+import { storage } from '../storage';
+import { Transaction } from '@shared/schema';
+import { NATIVE_SOL_MINT } from '@shared/transfers';
+import { getTransferLegs } from './fundTracing';
+
+const DEFAULT_TRANSACTION_LIMIT = 1000;
+const DEFAULT_BASELINE_SIZE = 50;
+const DEFAULT_MIN_BASELINE = 10;
+const DEFAULT_MIN_SCORE = 3;
+const MAX_Z_SCORE = 10;
+const MIN_LOG_SPREAD = 0.25; // Orders of magnitude; keeps near-constant baselines from flagging tiny changes
+const MIN_LOG_AMOUNT = 1e-9; // Floor for zero amounts before taking the log
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MIN_VOLUME_DAYS = 2; // Active days the baseline needs before daily volume is scored
+const MIN_HOUR_BASELINE_DAYS = 3; // Shorter baselines cannot tell an unusual hour from one not reached yet
+
+/**
+ * What a transaction is compared on, each against the wallet's preceding transactions:
+ * - size: SOL moved, in log space
+ * - daily-volume: SOL moved on the transaction's UTC day so far, against earlier active days, in log space
+ * - counterparty-novelty: a never-seen counterparty, against how often the wallet meets new ones
+ * - active-hour: the UTC hour of day, against how often the wallet is active at that hour
+ * - dormancy: time since the previous transaction, in log space
+ */
+export const ANOMALY_FEATURES = ['size', 'daily-volume', 'counterparty-novelty', 'active-hour', 'dormancy'] as const;
+export type AnomalyFeature = typeof ANOMALY_FEATURES[number];
+
+export interface FeatureDeviation {
+  feature: AnomalyFeature;
+  value: number; // SOL for size and daily-volume, 1 or 0 for novelty, hour of day, hours for dormancy
+  expected: number; // Typical value (for novelty and active-hour: the baseline rate of the observed value)
+  zScore: number; // Positive when the value is unusual for the wallet, capped at MAX_Z_SCORE
+}
+
+export interface TransactionAnomaly {
+  signature: string;
+  blockTime: number; // Milliseconds since epoch
+  amount: number; // SOL moved by the wallet
+  counterparty: string | null;
+  score: number; // Root sum of squares of the positive z-scores
+  deviations: FeatureDeviation[]; // Largest deviation first
+  baseline: { transactions: number; from: number; to: number };
+  description: string;
+}
+
+export interface AnomalyOptions {
+  transactionLimit?: number;
+  baselineSize?: number; // Preceding transactions each transaction is compared against
+  minBaseline?: number; // Transactions with a shorter history are not scored
+  minScore?: number;
+  limit?: number;
+}
+
+export interface AnomalyReport {
+  address: string;
+  transactionsScored: number;
+  anomalies: TransactionAnomaly[]; // Highest score first
+}
+
+// A wallet's view of one transaction
+interface WalletEvent {
+  tx: Transaction;
+  time: number;
+  amount: number;
+  counterparty: string | null;
+  novel: boolean; // Counterparty not seen in any earlier transaction
+}
+
+/**
+ * AnomalyScoringService scores transactions against the wallet's own rolling baseline:
+ * - Every transaction is compared with the wallet's preceding transactions only
+ * - The baseline follows transactions rather than calendar time, so dormant wallets keep theirs
+ * - Features deviating towards the unusual side add up into one score
+ */
+export class AnomalyScoringService {
+  async scoreWallet(address: string, options: AnomalyOptions = {}): Promise<AnomalyReport> {
+    const baselineSize = options.baselineSize || DEFAULT_BASELINE_SIZE;
+    const minBaseline = options.minBaseline || DEFAULT_MIN_BASELINE;
+    const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+
+    const transactions = (await storage.getAddressTransactions(address, options.transactionLimit || DEFAULT_TRANSACTION_LIMIT))
+      .filter(tx => tx.status !== 'failed' && tx.blockTime)
+      .sort((a, b) => a.blockTime!.getTime() - b.blockTime!.getTime() || (a.slot ?? 0) - (b.slot ?? 0));
+    const events = toWalletEvents(address, transactions);
+
+    const anomalies: TransactionAnomaly[] = [];
+    let transactionsScored = 0;
+    events.forEach((event, index) => {
+      const baseline = events.slice(Math.max(0, index - baselineSize), index);
+      if (baseline.length < minBaseline) return;
+
+      transactionsScored++;
+      const anomaly = scoreEvent(event, events[index - 1], baseline, events);
+      if (anomaly.score >= minScore) anomalies.push(anomaly);
+    });
+
+    return {
+      address,
+      transactionsScored,
+      anomalies: anomalies
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.limit || anomalies.length),
+    };
+  }
+}
+
+function toWalletEvents(address: string, transactions: Transaction[]): WalletEvent[] {
+  const seen = new Set<string>();
+
+  return transactions.map(tx => {
+    let amount = 0;
+    const counterparties = new Map<string, number>();
+    getTransferLegs(tx).forEach(leg => {
+      if (leg.mint !== NATIVE_SOL_MINT || leg.from === leg.to) return;
+      if (leg.from !== address && leg.to !== address) return;
+
+      amount += leg.uiAmount;
+      const other = leg.from === address ? leg.to : leg.from;
+      counterparties.set(other, (counterparties.get(other) || 0) + leg.uiAmount);
+    });
+
+    // The counterparty the most value moved with
+    let counterparty: string | null = null;
+    counterparties.forEach((value, other) => {
+      if (counterparty === null || value > counterparties.get(counterparty)!) counterparty = other;
+    });
+
+    const novel = counterparty !== null && !seen.has(counterparty);
+    counterparties.forEach((_, other) => seen.add(other));
+
+    return { tx, time: tx.blockTime!.getTime(), amount, counterparty, novel };
+  });
+}
+
+function scoreEvent(event: WalletEvent, previous: WalletEvent, baseline: WalletEvent[], events: WalletEvent[]): TransactionAnomaly {
+  const deviations: FeatureDeviation[] = [];
+
+  // Size
+  const sizes = baseline.map(item => log(item.amount));
+  deviations.push({
+    feature: 'size',
+    value: event.amount,
+    expected: Math.pow(10, mean(sizes)),
+    zScore: logZScore(log(event.amount), sizes),
+  });
+
+  // Daily volume: this day so far against the baseline's active days. The first of them is left
+  // out since the baseline window may start partway through it
+  const day = Math.floor(event.time / DAY_MS);
+  const firstDay = Math.floor(baseline[0].time / DAY_MS);
+  const dailyVolumes = new Map<number, number>();
+  baseline.forEach(item => {
+    const itemDay = Math.floor(item.time / DAY_MS);
+    if (itemDay !== day && itemDay !== firstDay) dailyVolumes.set(itemDay, (dailyVolumes.get(itemDay) || 0) + item.amount);
+  });
+  const volumeToday = events
+    .filter(item => Math.floor(item.time / DAY_MS) === day && item.time <= event.time)
+    .reduce((sum, item) => sum + item.amount, 0);
+  if (dailyVolumes.size >= MIN_VOLUME_DAYS) {
+    const volumes = Array.from(dailyVolumes.values()).map(log);
+    deviations.push({
+      feature: 'daily-volume',
+      value: volumeToday,
+      expected: Math.pow(10, mean(volumes)),
+      zScore: logZScore(log(volumeToday), volumes),
+    });
+  }
+
+  // Counterparty novelty: how often the baseline met new counterparties, smoothed
+  if (event.counterparty !== null) {
+    const noveltyRate = (baseline.filter(item => item.novel).length + 1) / (baseline.length + 2);
+    deviations.push({
+      feature: 'counterparty-novelty',
+      value: event.novel ? 1 : 0,
+      expected: noveltyRate,
+      zScore: event.novel ? rateZScore(noveltyRate) : 0,
+    });
+  }
+
+  // Active hour: share of the baseline at this hour, smoothed over the day
+  if (baseline[baseline.length - 1].time - baseline[0].time >= MIN_HOUR_BASELINE_DAYS * DAY_MS) {
+    const hour = new Date(event.time).getUTCHours();
+    const hourRate = (baseline.filter(item => new Date(item.time).getUTCHours() === hour).length + 1) / (baseline.length + 24);
+    deviations.push({
+      feature: 'active-hour',
+      value: hour,
+      expected: hourRate,
+      zScore: hourRate < 1 / 24 ? rateZScore(hourRate) : 0, // Only hours quieter than a uniform day count
+    });
+  }
+
+  // Dormancy: gap since the previous transaction against the baseline's gaps
+  const gaps: number[] = [];
+  for (let i = 1; i < baseline.length; i++) {
+    gaps.push(log((baseline[i].time - baseline[i - 1].time) / HOUR_MS));
+  }
+  if (gaps.length > 0) {
+    const gapHours = (event.time - previous.time) / HOUR_MS;
+    deviations.push({
+      feature: 'dormancy',
+      value: gapHours,
+      expected: Math.pow(10, mean(gaps)),
+      zScore: logZScore(log(gapHours), gaps),
+    });
+  }
+
+  const score = Math.sqrt(deviations.reduce((sum, item) => sum + Math.pow(Math.max(0, item.zScore), 2), 0));
+  const sorted = deviations.sort((a, b) => b.zScore - a.zScore);
+
+  return {
+    signature: event.tx.signature,
+    blockTime: event.time,
+    amount: event.amount,
+    counterparty: event.counterparty,
+    score,
+    deviations: sorted,
+    baseline: { transactions: baseline.length, from: baseline[0].time, to: baseline[baseline.length - 1].time },
+    description: sorted
+      .filter(item => item.zScore >= 2)
+      .map(describeDeviation)
+      .join('; ') || 'No single feature stands out',
+  };
+}
+
+function describeDeviation(deviation: FeatureDeviation): string {
+  switch (deviation.feature) {
+    case 'size':
+      return `Moved ${deviation.value.toFixed(4)} SOL, typically ${deviation.expected.toFixed(4)} SOL`;
+    case 'daily-volume':
+      return `${deviation.value.toFixed(4)} SOL moved that day, typically ${deviation.expected.toFixed(4)} SOL per active day`;
+    case 'counterparty-novelty':
+      return `New counterparty, while ${Math.round(deviation.expected * 100)}% of earlier transactions had one`;
+    case 'active-hour':
+      return `Active at ${deviation.value}:00 UTC, an hour with ${Math.round(deviation.expected * 100)}% of earlier activity`;
+    case 'dormancy':
+      return `First transaction in ${formatHours(deviation.value)}, typically ${formatHours(deviation.expected)} apart`;
+  }
+}
+
+function formatHours(hours: number): string {
+  return hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${hours.toFixed(1)} hours`;
+}
+
+function log(value: number): number {
+  return Math.log10(Math.max(value, MIN_LOG_AMOUNT));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Upward deviation in log space, with a floor on the spread
+function logZScore(value: number, baseline: number[]): number {
+  const average = mean(baseline);
+  const spread = Math.max(MIN_LOG_SPREAD, Math.sqrt(mean(baseline.map(item => Math.pow(item - average, 2)))));
+  return Math.min(MAX_Z_SCORE, (value - average) / spread);
+}
+
+// Binomial z-score of observing an event the baseline sees at the given rate
+function rateZScore(rate: number): number {
+  if (rate >= 1) return 0;
+  return Math.min(MAX_Z_SCORE, (1 - rate) / Math.sqrt(rate * (1 - rate)));
+}
+
+// Export a singleton instance
+export const anomalyScoringService = new AnomalyScoringService();
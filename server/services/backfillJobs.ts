@@ -0,0 +1,215 @@
+import { PublicKey, ConfirmedSignatureInfo } from '@solana/web3.js';
+import { storage } from '../storage';
+import { BackfillJob } from '@shared/schema';
+import { getSignaturesForAddress } from '../solana';
+import { transactionIngestionService } from './transactionIngestion';
+import { walletFingerprintService } from './walletFingerprint';
+import { riskScoringService } from './riskScoring';
+
+const SIGNATURE_PAGE_SIZE = 1000; // Maximum page size supported by getSignaturesForAddress
+const PROGRESS_CHUNK_SIZE = 100; // Signatures stored between cursor saves and cancellation checks
+const RETRY_ROUNDS = 3; // Attempts at the failed signatures once the history has been walked
+const ACTIVE_STATUSES: BackfillJob['status'][] = ['pending', 'running'];
+
+/**
+ * BackfillJobService walks a wallet's entire signature history in the background:
+ * - Pages backwards with `before` cursors, starting below what ingestion already covers
+ * - Persists the cursor after every chunk so jobs resume where they stopped after a restart
+ * - Supports cancellation between chunks and reports progress on the job row
+ * - Records signatures whose details could not be fetched and retries them before completing;
+ *   a job that still has some left fails, and the next backfill of the wallet picks them up
+ * - Refreshes the wallet's fingerprint and risk score once it completes
+ */
+export class BackfillJobService {
+  // Cancellation flags of jobs running in this process
+  private activeJobs = new Map<number, { cancelled: boolean }>();
+
+  /**
+   * Create a backfill job for a wallet and start it, or return the wallet's active job.
+   * Signatures the previous job could not fetch are carried over, the cursor is already below them.
+   */
+  async startBackfill(walletAddress: string, options: { untilSignature?: string } = {}): Promise<BackfillJob> {
+    const existing = await storage.getBackfillJobsByWallet(walletAddress);
+    const active = existing.find(job => ACTIVE_STATUSES.includes(job.status));
+    if (active) return active;
+
+    const job = await storage.createBackfillJob({
+      walletAddress,
+      untilSignature: options.untilSignature || null,
+      retrySignatures: existing[0]?.retrySignatures || [],
+    });
+
+    this.launch(job.id);
+    return job;
+  }
+
+  /**
+   * Request cancellation. Running jobs stop after their current chunk.
+   */
+  async cancelJob(id: number): Promise<BackfillJob | undefined> {
+    const job = await storage.getBackfillJob(id);
+    if (!job || !ACTIVE_STATUSES.includes(job.status)) return job;
+
+    const control = this.activeJobs.get(id);
+    if (control) {
+      control.cancelled = true;
+      return job;
+    }
+
+    // Not running in this process (e.g. pending after a restart), cancel directly
+    return storage.updateBackfillJob(id, { status: 'cancelled', completedAt: new Date() });
+  }
+
+  /**
+   * Restart jobs that were pending or running when the server stopped
+   */
+  async resumeInterruptedJobs(): Promise<number> {
+    const jobs = await storage.getBackfillJobsByStatus(ACTIVE_STATUSES);
+    jobs.forEach(job => this.launch(job.id));
+
+    if (jobs.length > 0) {
+      console.log(`Resuming ${jobs.length} backfill job(s)`);
+    }
+    return jobs.length;
+  }
+
+  private launch(id: number): void {
+    if (this.activeJobs.has(id)) return;
+
+    const control = { cancelled: false };
+    this.activeJobs.set(id, control);
+
+    this.runJob(id, control)
+      .catch(async error => {
+        console.error(`Error running backfill job ${id}:`, error);
+        await storage.updateBackfillJob(id, {
+          status: 'failed',
+          error: error.message || 'Unknown error',
+          completedAt: new Date(),
+        }).catch(() => undefined);
+      })
+      .finally(() => this.activeJobs.delete(id));
+  }
+
+  private async runJob(id: number, control: { cancelled: boolean }): Promise<void> {
+    let job = await storage.getBackfillJob(id);
+    if (!job) return;
+
+    job = (await storage.updateBackfillJob(id, {
+      status: 'running',
+      startedAt: job.startedAt || new Date(),
+      error: null,
+    }))!;
+
+    const publicKey = new PublicKey(job.walletAddress);
+    const cursor = await storage.getIngestionCursor(job.walletAddress);
+
+    // Incremental ingestion already covers everything newer than the cursor's oldest signature
+    let before = job.beforeSignature || cursor?.oldestSignature || undefined;
+    let newest: ConfirmedSignatureInfo | undefined;
+
+    while (true) {
+      const page: ConfirmedSignatureInfo[] = await getSignaturesForAddress(publicKey, {
+        limit: SIGNATURE_PAGE_SIZE,
+        before,
+        until: job.untilSignature || undefined,
+      });
+      newest = newest || page[0];
+
+      for (let i = 0; i < page.length; i += PROGRESS_CHUNK_SIZE) {
+        if (control.cancelled) {
+          await storage.updateBackfillJob(id, { status: 'cancelled', completedAt: new Date() });
+          return;
+        }
+
+        const chunk = page.slice(i, i + PROGRESS_CHUNK_SIZE);
+        const { transactionsStored, failedSignatures } = await transactionIngestionService.storeSignatures(chunk);
+        const oldest = chunk[chunk.length - 1];
+        before = oldest.signature;
+
+        const signaturesProcessed: number = job.signaturesProcessed + chunk.length;
+        const morePagesLikely = page.length === SIGNATURE_PAGE_SIZE;
+        const retrySignatures: BackfillJob['retrySignatures'] = [
+          ...job.retrySignatures,
+          ...chunk
+            .filter(info => failedSignatures.includes(info.signature))
+            .map(info => ({ signature: info.signature, slot: info.slot, memo: info.memo })),
+        ];
+
+        job = (await storage.updateBackfillJob(id, {
+          beforeSignature: before,
+          signaturesProcessed,
+          transactionsStored: job.transactionsStored + transactionsStored,
+          failedSignatures: retrySignatures.length,
+          retrySignatures,
+          estimatedTotal: signaturesProcessed + (page.length - i - chunk.length) + (morePagesLikely ? SIGNATURE_PAGE_SIZE : 0),
+        }))!;
+
+        await this.extendIngestionCursor(job.walletAddress, oldest, newest, transactionsStored);
+      }
+
+      if (page.length < SIGNATURE_PAGE_SIZE) break;
+    }
+
+    for (let round = 0; round < RETRY_ROUNDS && job.retrySignatures.length > 0; round++) {
+      if (control.cancelled) {
+        await storage.updateBackfillJob(id, { status: 'cancelled', completedAt: new Date() });
+        return;
+      }
+
+      const { transactionsStored, failedSignatures } = await transactionIngestionService.storeSignatures(
+        job.retrySignatures.map(info => ({ ...info, err: null }))
+      );
+      const retrySignatures: BackfillJob['retrySignatures'] = job.retrySignatures.filter(info => failedSignatures.includes(info.signature));
+      job = (await storage.updateBackfillJob(id, {
+        transactionsStored: job.transactionsStored + transactionsStored,
+        failedSignatures: retrySignatures.length,
+        retrySignatures,
+      }))!;
+    }
+
+    if (job.retrySignatures.length > 0) {
+      throw new Error(`Details of ${job.retrySignatures.length} signatures could not be fetched; backfill again to retry them`);
+    }
+
+    await storage.updateBackfillJob(id, {
+      status: 'completed',
+      estimatedTotal: job.signaturesProcessed,
+      completedAt: new Date(),
+    });
+    console.log(`Backfill job ${id} completed: ${job.signaturesProcessed} signatures for ${job.walletAddress}`);
+
+    await walletFingerprintService.updateFingerprint(job.walletAddress)
+      .catch(error => console.error(`Error fingerprinting ${job.walletAddress}:`, error));
+
+    // Rescore with the full history, which also settles the wallet's first-seen time
+    await riskScoringService.assessWallet(job.walletAddress)
+      .catch(error => console.error(`Error scoring risk of ${job.walletAddress}:`, error));
+  }
+
+  /**
+   * Move the wallet's ingestion cursor down to the deepest backfilled signature, so
+   * incremental ingestion and later backfills skip what this job already stored
+   */
+  private async extendIngestionCursor(
+    walletAddress: string,
+    oldest: ConfirmedSignatureInfo,
+    newest: ConfirmedSignatureInfo | undefined,
+    transactionsStored: number
+  ): Promise<void> {
+    const cursor = await storage.getIngestionCursor(walletAddress);
+
+    await storage.saveIngestionCursor({
+      walletAddress,
+      newestSignature: cursor?.newestSignature || newest?.signature || null,
+      newestSlot: cursor?.newestSlot ?? newest?.slot ?? null,
+      oldestSignature: oldest.signature,
+      oldestSlot: oldest.slot,
+      transactionCount: (cursor?.transactionCount || 0) + transactionsStored,
+      lastIngestedAt: new Date(),
+    });
+  }
+}
+
+// Export a singleton instance
+export const backfillJobService = new BackfillJobService();
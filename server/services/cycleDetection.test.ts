@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Transaction } from '@shared/schema';
+
+// server/db.ts refuses to load without a connection string; storage reads are replaced below
+process.env.DATABASE_URL ??= 'postgres://fixtures@localhost/fixtures';
+
+const { storage } = await import('../storage');
+const { cycleDetectionService } = await import('./cycleDetection');
+const { NATIVE_SOL_MINT } = await import('@shared/transfers');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A SOL transfer at the given hour
+function transfer(from: string, to: string, amount: number, hour: number): Transaction {
+  return {
+    signature: `${from}-${to}-${hour}`,
+    sourceAddress: from,
+    destinationAddress: to,
+    amount,
+    blockTime: new Date(1_700_000_000_000 + hour * HOUR_MS),
+    slot: hour,
+    status: 'success',
+    type: 'transfer',
+    programId: null,
+    metadata: {
+      transfers: [{ from, to, mint: NATIVE_SOL_MINT, amount: String(amount * 1e9), decimals: 9, uiAmount: amount }],
+    },
+  } as Transaction;
+}
+
+test('keeps searching the remaining start transfers after one branch hits the wallet limit', async () => {
+  const transactions = [
+    transfer('Origin', 'Hub', 1, 1),
+    transfer('Hub', 'Spoke1', 1, 2),
+    transfer('Hub', 'Spoke2', 1, 2),
+    transfer('Hub', 'Spoke3', 1, 2),
+    transfer('Origin', 'Hub', 5, 4),
+    transfer('Hub', 'Origin', 5, 5),
+  ];
+  (storage as any).getAddressTransactions = async (address: string) =>
+    transactions.filter(tx => tx.sourceAddress === address || tx.destinationAddress === address);
+
+  // Origin, Hub and Spoke1 fill the limit while following the first transfer
+  const report = await cycleDetectionService.detectCycles('Origin', { maxWallets: 3 });
+  assert.equal(report.truncated, true);
+  assert.equal(report.cycles.length, 1);
+  assert.deepEqual(report.cycles[0].addresses, ['Origin', 'Hub', 'Origin']);
+  assert.equal(report.cycles[0].sentAmount, 5);
+});
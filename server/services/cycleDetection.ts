@@ -0,0 +1,192 @@
+import { storage } from '../storage';
+import { NATIVE_SOL_MINT } from '@shared/transfers';
+import { CycleReport, FlowCycle, TraceHop } from '@shared/tracing';
+import { getTransferLegs } from './fundTracing';
+
+const DEFAULT_MAX_HOPS = 4;
+const DEFAULT_TIME_WINDOW_HOURS = 72;
+const DEFAULT_TOLERANCE = 0.1;
+const DEFAULT_MIN_AMOUNT = 0.001;
+const DEFAULT_MAX_CYCLES = 100;
+const DEFAULT_MAX_WALLETS = 100;
+const DEFAULT_TRANSACTIONS_PER_WALLET = 500;
+
+export interface CycleOptions {
+  mint?: string;
+  maxHops?: number; // Transfers per cycle, including the one back to the origin
+  timeWindowHours?: number; // Time from leaving the origin to coming back
+  tolerance?: number; // Share of the sent value a hop may lose (fees, slippage) or gain
+  minAmount?: number; // Smallest transfer out of the origin that is followed
+  maxCycles?: number;
+  maxWallets?: number; // Wallets whose history is loaded during the search
+  transactionsPerWallet?: number;
+}
+
+interface CycleSearch extends Required<Omit<CycleOptions, 'minAmount'>> {
+  origin: string;
+  legs: Map<string, Promise<TraceHop[] | null>>;
+  usedLegs: Set<string>; // Legs already on a reported cycle
+  cycles: FlowCycle[];
+  truncated: boolean; // Some branch went unexplored or the cycle limit was reached
+  done: boolean; // The cycle limit was reached, nothing more is searched
+}
+
+/**
+ * CycleDetectionService finds value that leaves a wallet and returns to it:
+ * - Depth-first search over stored transfers of one mint, in time order
+ * - Every hop must carry the sent value within the tolerance, inside the time window
+ * - Each starting transfer and each transfer leg ends up on at most one cycle
+ * - Transfers back and forth inside a single transaction are routing, not cycles
+ */
+export class CycleDetectionService {
+  /**
+   * Detect circular flows starting and ending at an address
+   */
+  async detectCycles(address: string, options: CycleOptions = {}): Promise<CycleReport> {
+    const search: CycleSearch = {
+      mint: options.mint || NATIVE_SOL_MINT,
+      maxHops: Math.max(2, options.maxHops || DEFAULT_MAX_HOPS),
+      timeWindowHours: options.timeWindowHours || DEFAULT_TIME_WINDOW_HOURS,
+      tolerance: options.tolerance ?? DEFAULT_TOLERANCE,
+      maxCycles: options.maxCycles || DEFAULT_MAX_CYCLES,
+      maxWallets: options.maxWallets || DEFAULT_MAX_WALLETS,
+      transactionsPerWallet: options.transactionsPerWallet || DEFAULT_TRANSACTIONS_PER_WALLET,
+      origin: address,
+      legs: new Map(),
+      usedLegs: new Set(),
+      cycles: [],
+      truncated: false,
+      done: false,
+    };
+    const minAmount = options.minAmount ?? DEFAULT_MIN_AMOUNT;
+
+    const starts = (await this.getOutgoingLegs(address, search)) || [];
+    for (const start of starts) {
+      if (search.done) break;
+      if (start.amount < minAmount || search.usedLegs.has(legKey(start))) continue;
+      await this.extend(search, [start], new Set([address, start.to]));
+    }
+
+    return {
+      address,
+      mint: search.mint,
+      maxHops: search.maxHops,
+      timeWindowHours: search.timeWindowHours,
+      tolerance: search.tolerance,
+      cycles: search.cycles,
+      truncated: search.truncated,
+    };
+  }
+
+  /**
+   * Follow a partial cycle one hop further; returns true once a cycle was reported for it
+   */
+  private async extend(search: CycleSearch, path: TraceHop[], visited: Set<string>): Promise<boolean> {
+    const first = path[0];
+    const last = path[path.length - 1];
+    const deadline = first.blockTime! + search.timeWindowHours * 60 * 60 * 1000;
+    const minAmount = first.amount * (1 - search.tolerance);
+    const maxAmount = first.amount * (1 + search.tolerance);
+
+    const legs = await this.getOutgoingLegs(last.to, search);
+    if (!legs) return false;
+
+    for (const leg of legs) {
+      if (leg.blockTime! < last.blockTime! || leg.blockTime! > deadline) continue;
+      if (leg.amount < minAmount || leg.amount > maxAmount) continue;
+      if (search.usedLegs.has(legKey(leg))) continue;
+
+      if (leg.to === search.origin) {
+        const hops = [...path, leg];
+        if (new Set(hops.map(hop => hop.signature)).size < 2) continue;
+
+        this.report(search, hops);
+        return true;
+      }
+
+      if (visited.has(leg.to) || path.length + 1 >= search.maxHops) continue;
+
+      visited.add(leg.to);
+      const found = await this.extend(search, [...path, leg], visited);
+      visited.delete(leg.to);
+      if (found || search.done) return found;
+    }
+
+    return false;
+  }
+
+  private report(search: CycleSearch, hops: TraceHop[]): void {
+    const sentAmount = hops[0].amount;
+    const returnedAmount = hops[hops.length - 1].amount;
+
+    search.cycles.push({
+      origin: search.origin,
+      addresses: [search.origin, ...hops.map(hop => hop.to)],
+      hops,
+      signatures: Array.from(new Set(hops.map(hop => hop.signature))),
+      elapsedMs: hops[hops.length - 1].blockTime! - hops[0].blockTime!,
+      sentAmount,
+      returnedAmount,
+      netRetained: sentAmount - returnedAmount,
+    });
+    hops.forEach(hop => search.usedLegs.add(legKey(hop)));
+
+    if (search.cycles.length >= search.maxCycles) {
+      search.done = true;
+      search.truncated = true;
+    }
+  }
+
+  /**
+   * Timed transfers of the searched mint out of a wallet, oldest first.
+   * Returns null for wallets not loaded yet once the wallet limit is reached; only
+   * branches through them are given up, the search goes on over loaded wallets.
+   */
+  private getOutgoingLegs(address: string, search: CycleSearch): Promise<TraceHop[] | null> {
+    let legs = search.legs.get(address);
+    if (!legs) {
+      if (search.legs.size >= search.maxWallets) {
+        search.truncated = true;
+        return Promise.resolve(null);
+      }
+      legs = this.loadOutgoingLegs(address, search);
+      search.legs.set(address, legs);
+    }
+    return legs;
+  }
+
+  private async loadOutgoingLegs(address: string, search: CycleSearch): Promise<TraceHop[]> {
+    const transactions = await storage.getAddressTransactions(address, search.transactionsPerWallet);
+
+    const hops: TraceHop[] = [];
+    transactions
+      .filter(tx => tx.status !== 'failed' && tx.blockTime)
+      .forEach(tx => {
+        getTransferLegs(tx).forEach((leg, legIndex) => {
+          if (leg.mint !== search.mint || leg.from !== address || leg.to === address || leg.uiAmount <= 0) return;
+
+          hops.push({
+            signature: tx.signature,
+            legIndex,
+            from: leg.from,
+            to: leg.to,
+            amount: leg.uiAmount,
+            transferAmount: leg.uiAmount,
+            blockTime: tx.blockTime!.getTime(),
+            slot: tx.slot,
+          });
+        });
+      });
+
+    return hops.sort((a, b) =>
+      a.blockTime! - b.blockTime! || (a.slot ?? 0) - (b.slot ?? 0) || a.legIndex - b.legIndex
+    );
+  }
+}
+
+function legKey(hop: TraceHop): string {
+  return `${hop.signature}:${hop.legIndex}`;
+}
+
+// Export a singleton instance
+export const cycleDetectionService = new CycleDetectionService();
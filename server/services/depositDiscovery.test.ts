@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DepositDiscoveryJob, Entity, Transaction, WalletEntityRelation } from '@shared/schema';
+
+// server/db.ts refuses to load without a connection string; storage reads are replaced below
+process.env.DATABASE_URL ??= 'postgres://fixtures@localhost/fixtures';
+
+const { storage } = await import('../storage');
+const { transactionIngestionService } = await import('./transactionIngestion');
+const { labelResolutionService } = await import('./labelResolution');
+const { depositDiscoveryService, scoreDepositAddress, DEFAULT_DEPOSIT_DISCOVERY_PARAMETERS } = await import('./depositDiscovery');
+const { DEPOSIT_ROLE } = await import('@shared/deposits');
+const { NATIVE_SOL_MINT } = await import('@shared/transfers');
+
+const HOT_WALLET = 'HotWallet';
+const MINUTE_MS = 60 * 1000;
+const HOUR_MINUTES = 60;
+
+// A SOL transfer at the given minute
+function transfer(from: string, to: string, minute: number): Transaction {
+  return {
+    signature: `${from}-${to}-${minute}`,
+    sourceAddress: from,
+    destinationAddress: to,
+    amount: 1,
+    blockTime: new Date(1_700_000_000_000 + minute * MINUTE_MS),
+    slot: minute,
+    status: 'success',
+    type: 'transfer',
+    programId: null,
+    metadata: {
+      transfers: [{ from, to, mint: NATIVE_SOL_MINT, amount: '1000000000', decimals: 9, uiAmount: 1 }],
+    },
+  } as Transaction;
+}
+
+// Users pay into the address, which forwards each payment to the hot wallet ten minutes later
+function sweptDeposits(address: string, count: number): Transaction[] {
+  return Array.from({ length: count }, (_, index) => [
+    transfer(`User${index}`, address, index * HOUR_MINUTES),
+    transfer(address, HOT_WALLET, index * HOUR_MINUTES + 10),
+  ]).flat();
+}
+
+test('scores an address whose every receipt is promptly swept into the hot wallet', () => {
+  const scored = scoreDepositAddress('Deposit', HOT_WALLET, sweptDeposits('Deposit', 3), 24);
+
+  assert.ok(scored);
+  assert.equal(scored.receipts, 3);
+  assert.equal(scored.sweptReceipts, 3);
+  assert.equal(scored.regularity, 1);
+  assert.equal(scored.exclusivity, 1);
+  assert.equal(scored.delayConsistency, 1);
+  assert.equal(scored.medianDelaySeconds, 600);
+  assert.deepEqual(scored.mints, [NATIVE_SOL_MINT]);
+  // Three of the five sweeps needed for full support
+  assert.equal(scored.confidence, 0.8);
+});
+
+test('counts only sweeps within the delay window and other outgoing transfers against exclusivity', () => {
+  const scored = scoreDepositAddress('Deposit', HOT_WALLET, [
+    transfer('User0', 'Deposit', 0),
+    transfer('Deposit', HOT_WALLET, 60),
+    transfer('User1', 'Deposit', 600),
+    transfer('Deposit', HOT_WALLET, 600 + 30 * HOUR_MINUTES),
+    transfer('Deposit', 'Elsewhere', 700),
+  ], 24);
+
+  assert.ok(scored);
+  assert.equal(scored.sweptReceipts, 1);
+  assert.equal(scored.regularity, 0.5);
+  assert.equal(scored.exclusivity, 2 / 3);
+  assert.equal(scored.confidence, 0.2);
+});
+
+test('does not score an address that never sent to the hot wallet', () => {
+  const transactions = [transfer('User0', 'Wallet', 0), transfer('Wallet', 'Elsewhere', 10)];
+  assert.equal(scoreDepositAddress('Wallet', HOT_WALLET, transactions, 24), null);
+});
+
+test('retires the labels of deposits an earlier run found that stopped sweeping', async () => {
+  const entity = { id: 1, name: 'Exchange', type: 'exchange' } as Entity;
+  const relation = (id: number) =>
+    ({ id, entityId: entity.id, role: DEPOSIT_ROLE, source: 'deposit-sweep' }) as WalletEntityRelation;
+  const previous = {
+    id: 1,
+    status: 'completed',
+    entityId: entity.id,
+    result: { deposits: [{ address: 'Active', labeled: true }, { address: 'Stopped', labeled: true }] },
+  } as DepositDiscoveryJob;
+  const job = { id: 2, status: 'pending', entityId: entity.id, hotWalletAddress: HOT_WALLET, parameters: DEFAULT_DEPOSIT_DISCOVERY_PARAMETERS } as DepositDiscoveryJob;
+
+  // Active still sweeps every receipt, Stopped now keeps what it receives
+  const transactions = [
+    ...sweptDeposits('Active', 5),
+    transfer('Stopped', HOT_WALLET, 0),
+    transfer('Stopped', HOT_WALLET, 10),
+    ...Array.from({ length: 10 }, (_, index) => transfer(`Payer${index}`, 'Stopped', 100 + index)),
+  ];
+  const relations: Record<string, WalletEntityRelation> = { Active: relation(10), Stopped: relation(11) };
+  const retired: number[] = [];
+
+  (storage as any).getDepositDiscoveryJob = async () => job;
+  (storage as any).getDepositDiscoveryJobsByWallet = async () => [job, previous];
+  (storage as any).updateDepositDiscoveryJob = async (id: number, fields: Partial<DepositDiscoveryJob>) => Object.assign(job, fields);
+  (storage as any).getEntity = async () => entity;
+  (storage as any).getAddressTransactions = async (address: string) =>
+    transactions.filter(tx => tx.sourceAddress === address || tx.destinationAddress === address);
+  (storage as any).getAddressLabels = async (addresses: string[]) =>
+    addresses.filter(address => relations[address]).map(address => ({ address, relation: relations[address], entity }));
+  (storage as any).updateWalletEntityRelation = async () => undefined;
+  (storage as any).retireWalletEntityRelations = async (ids: number[]) => { retired.push(...ids); };
+  (transactionIngestionService as any).ingestWallet = async () => undefined;
+  (labelResolutionService as any).resolve = async () => ({});
+
+  await (depositDiscoveryService as any).runJob(job.id, { cancelled: false });
+
+  assert.equal(job.status, 'completed');
+  assert.deepEqual(job.result!.deposits.filter(deposit => deposit.labeled).map(deposit => deposit.address), ['Active']);
+  assert.deepEqual(job.result!.retired, ['Stopped']);
+  assert.deepEqual(retired, [11]);
+});
@@ -0,0 +1,343 @@
+import { storage } from '../storage';
+import { DepositDiscoveryJob, Entity, Transaction, WalletEntityRelation } from '@shared/schema';
+import { DepositAddress, DepositDiscoveryParameters, DepositDiscoveryResult, DEPOSIT_ROLE } from '@shared/deposits';
+import { getTransferLegs } from './fundTracing';
+import { transactionIngestionService } from './transactionIngestion';
+import { labelResolutionService } from './labelResolution';
+
+const HOT_WALLET_TRANSACTIONS = 2000;
+const DEPOSIT_SWEEP_SOURCE = 'deposit-sweep';
+const FULL_SUPPORT_SWEEPS = 5; // Swept receipts needed before the sample size stops lowering confidence
+const MAX_EVIDENCE_SIGNATURES = 10;
+const ACTIVE_STATUSES: DepositDiscoveryJob['status'][] = ['pending', 'running'];
+
+export const DEFAULT_DEPOSIT_DISCOVERY_PARAMETERS: DepositDiscoveryParameters = {
+  maxSweepDelayHours: 24,
+  minSweeps: 2,
+  minConfidence: 0.5,
+  maxCandidates: 200,
+  ingestCandidates: true,
+  candidateSignatures: 200,
+};
+
+interface Movement {
+  time: number;
+  mint: string;
+  signature: string;
+}
+
+/**
+ * DepositDiscoveryService finds an exchange's per-user deposit addresses from one of its labeled wallets:
+ * - The hot wallet's newest transactions are ingested first
+ * - Candidates are the addresses sending to the hot wallet in its stored history, unlabeled or already deposits
+ * - Each candidate's history is ingested, then its receipts are matched to sweeps into the hot wallet
+ * - Confidence grows with the share of receipts swept promptly, the consistency of the delay,
+ *   how exclusively the address sends to the hot wallet and the number of sweeps seen
+ * - Addresses reaching minConfidence are labeled as 'deposit' heuristic assertions of the exchange entity
+ * - A completed run withdraws the labels earlier runs from the same hot wallet made for addresses it no longer labels
+ * - Runs as a background job with progress, cancellation and resumption like backfill jobs
+ */
+export class DepositDiscoveryService {
+  // Cancellation flags of jobs running in this process
+  private activeJobs = new Map<number, { cancelled: boolean }>();
+
+  /**
+   * Start discovery from a hot wallet, or return its active job; undefined when the wallet has no public exchange label
+   */
+  async startDiscovery(
+    hotWalletAddress: string,
+    parameters: Partial<DepositDiscoveryParameters> = {}
+  ): Promise<DepositDiscoveryJob | undefined> {
+    const existing = await storage.getDepositDiscoveryJobsByWallet(hotWalletAddress);
+    const active = existing.find(job => ACTIVE_STATUSES.includes(job.status));
+    if (active) return active;
+
+    const resolved = (await labelResolutionService.resolve([hotWalletAddress]))[hotWalletAddress];
+    if (!resolved || resolved.label.type !== 'exchange') return undefined;
+
+    const job = await storage.createDepositDiscoveryJob({
+      hotWalletAddress,
+      entityId: resolved.label.entityId,
+      parameters: { ...DEFAULT_DEPOSIT_DISCOVERY_PARAMETERS, ...parameters },
+    });
+
+    this.launch(job.id);
+    return job;
+  }
+
+  /**
+   * Request cancellation. Running jobs stop after their current candidate.
+   */
+  async cancelJob(id: number): Promise<DepositDiscoveryJob | undefined> {
+    const job = await storage.getDepositDiscoveryJob(id);
+    if (!job || !ACTIVE_STATUSES.includes(job.status)) return job;
+
+    const control = this.activeJobs.get(id);
+    if (control) {
+      control.cancelled = true;
+      return job;
+    }
+
+    return storage.updateDepositDiscoveryJob(id, { status: 'cancelled', completedAt: new Date() });
+  }
+
+  /**
+   * Restart jobs that were pending or running when the server stopped; they start over,
+   * which only refreshes the labels already stored
+   */
+  async resumeInterruptedJobs(): Promise<number> {
+    const jobs = await storage.getDepositDiscoveryJobsByStatus(ACTIVE_STATUSES);
+    jobs.forEach(job => this.launch(job.id));
+
+    if (jobs.length > 0) {
+      console.log(`Resuming ${jobs.length} deposit discovery job(s)`);
+    }
+    return jobs.length;
+  }
+
+  private launch(id: number): void {
+    if (this.activeJobs.has(id)) return;
+
+    const control = { cancelled: false };
+    this.activeJobs.set(id, control);
+
+    this.runJob(id, control)
+      .catch(async error => {
+        console.error(`Error running deposit discovery job ${id}:`, error);
+        await storage.updateDepositDiscoveryJob(id, {
+          status: 'failed',
+          error: error.message || 'Unknown error',
+          completedAt: new Date(),
+        }).catch(() => undefined);
+      })
+      .finally(() => this.activeJobs.delete(id));
+  }
+
+  private async runJob(id: number, control: { cancelled: boolean }): Promise<void> {
+    let job = await storage.getDepositDiscoveryJob(id);
+    if (!job) return;
+
+    const entity = await storage.getEntity(job.entityId);
+    if (!entity) throw new Error(`Entity ${job.entityId} no longer exists`);
+
+    job = (await storage.updateDepositDiscoveryJob(id, {
+      status: 'running',
+      startedAt: job.startedAt || new Date(),
+      candidatesChecked: 0,
+      depositsFound: 0,
+      error: null,
+    }))!;
+
+    const { hotWalletAddress, parameters } = job;
+
+    // Candidates come from the hot wallet's stored history, so bring it up to date first
+    await transactionIngestionService.ingestWallet(hotWalletAddress, { maxSignatures: HOT_WALLET_TRANSACTIONS });
+    if (control.cancelled) {
+      await storage.updateDepositDiscoveryJob(id, { status: 'cancelled', completedAt: new Date() });
+      return;
+    }
+
+    const candidates = await this.findCandidates(hotWalletAddress, entity, parameters);
+    await storage.updateDepositDiscoveryJob(id, { candidatesFound: candidates.length });
+
+    const deposits: DepositAddress[] = [];
+    for (let i = 0; i < candidates.length; i++) {
+      if (control.cancelled) {
+        await storage.updateDepositDiscoveryJob(id, { status: 'cancelled', completedAt: new Date() });
+        return;
+      }
+
+      const address = candidates[i];
+      if (parameters.ingestCandidates) {
+        await transactionIngestionService.ingestWallet(address, { maxSignatures: parameters.candidateSignatures })
+          .catch(error => console.error(`Error ingesting deposit candidate ${address}:`, error));
+      }
+
+      const transactions = await storage.getAddressTransactions(address, parameters.candidateSignatures);
+      const scored = scoreDepositAddress(address, hotWalletAddress, transactions, parameters.maxSweepDelayHours);
+      if (scored && scored.sweptReceipts >= parameters.minSweeps) {
+        const deposit = { ...scored, labeled: scored.confidence >= parameters.minConfidence };
+        if (deposit.labeled) await this.labelDeposit(entity, hotWalletAddress, deposit, parameters);
+        deposits.push(deposit);
+      }
+
+      await storage.updateDepositDiscoveryJob(id, {
+        candidatesChecked: i + 1,
+        depositsFound: deposits.filter(deposit => deposit.labeled).length,
+      });
+    }
+
+    const retired = await this.retireStaleDeposits(id, entity, hotWalletAddress, deposits);
+    const result: DepositDiscoveryResult = {
+      hotWallet: hotWalletAddress,
+      entity: { id: entity.id, name: entity.name },
+      candidates: candidates.length,
+      deposits: deposits.sort((a, b) => b.confidence - a.confidence),
+      retired,
+    };
+    await storage.updateDepositDiscoveryJob(id, { status: 'completed', result, completedAt: new Date() });
+    console.log(`Deposit discovery job ${id} completed: ${result.deposits.filter(deposit => deposit.labeled).length} deposit addresses of ${entity.name}`);
+  }
+
+  /**
+   * Senders to the hot wallet with enough transfers into it, most frequent first. Addresses
+   * labeled as anything but a deposit of this exchange, e.g. its other hot wallets, are left out.
+   */
+  private async findCandidates(hotWallet: string, entity: Entity, parameters: DepositDiscoveryParameters): Promise<string[]> {
+    const transfers = new Map<string, number>();
+    (await storage.getAddressTransactions(hotWallet, HOT_WALLET_TRANSACTIONS))
+      .filter(tx => tx.status !== 'failed')
+      .forEach(tx => getTransferLegs(tx).forEach(leg => {
+        if (leg.to !== hotWallet || leg.from === hotWallet) return;
+        transfers.set(leg.from, (transfers.get(leg.from) || 0) + 1);
+      }));
+
+    const senders = Array.from(transfers.keys()).filter(address => transfers.get(address)! >= parameters.minSweeps);
+    const labels = await labelResolutionService.resolve(senders);
+
+    return senders
+      .filter(address => {
+        const label = labels[address]?.label;
+        return !label || (label.entityId === entity.id && label.role === DEPOSIT_ROLE);
+      })
+      .sort((a, b) => transfers.get(b)! - transfers.get(a)!)
+      .slice(0, parameters.maxCandidates);
+  }
+
+  /**
+   * Store the deposit assertion, refreshing the one an earlier run made
+   */
+  private async labelDeposit(
+    entity: Entity,
+    hotWallet: string,
+    deposit: DepositAddress,
+    parameters: DepositDiscoveryParameters
+  ): Promise<void> {
+    const delay = deposit.medianDelaySeconds !== null ? `, median delay ${(deposit.medianDelaySeconds / 60).toFixed(1)} minutes` : '';
+    const evidence = `${deposit.sweptReceipts} of ${deposit.receipts} receipts swept into ${hotWallet} within ${parameters.maxSweepDelayHours} hours${delay}; ` +
+      `${Math.round(deposit.exclusivity * 100)}% of outgoing transfers go to it. Sweeps: ${deposit.signatures.join(', ')}`;
+
+    const existing = (await storage.getAddressLabels([deposit.address])).find(({ relation }) => isDepositSweep(relation, entity));
+    if (existing) {
+      await storage.updateWalletEntityRelation(existing.relation.id, { confidence: deposit.confidence, evidence });
+      return;
+    }
+
+    const wallet = await storage.getWalletByAddress(deposit.address) ||
+      await storage.createWallet({ address: deposit.address });
+    await storage.addWalletToEntity({
+      walletId: wallet.id,
+      entityId: entity.id,
+      sourceType: 'heuristic',
+      role: DEPOSIT_ROLE,
+      source: DEPOSIT_SWEEP_SOURCE,
+      evidence,
+      confidence: deposit.confidence,
+    });
+  }
+
+  /**
+   * Retire the deposit assertions earlier completed runs from this hot wallet stored for addresses this run
+   * did not label, because they stopped sweeping into it, dropped below minConfidence or were not examined
+   */
+  private async retireStaleDeposits(
+    jobId: number,
+    entity: Entity,
+    hotWallet: string,
+    deposits: DepositAddress[]
+  ): Promise<string[]> {
+    const labeled = new Set(deposits.filter(deposit => deposit.labeled).map(deposit => deposit.address));
+    const previous = new Set<string>();
+    (await storage.getDepositDiscoveryJobsByWallet(hotWallet))
+      .filter(job => job.id !== jobId && job.status === 'completed' && job.entityId === entity.id)
+      .forEach(job => (job.result?.deposits || []).forEach(deposit => {
+        if (deposit.labeled && !labeled.has(deposit.address)) previous.add(deposit.address);
+      }));
+    if (previous.size === 0) return [];
+
+    const stale = (await storage.getAddressLabels(Array.from(previous))).filter(({ relation }) => isDepositSweep(relation, entity));
+    await storage.retireWalletEntityRelations(stale.map(({ relation }) => relation.id));
+    return Array.from(new Set(stale.map(({ address }) => address)));
+  }
+}
+
+function isDepositSweep(relation: WalletEntityRelation, entity: Entity): boolean {
+  return relation.entityId === entity.id && relation.role === DEPOSIT_ROLE && relation.source === DEPOSIT_SWEEP_SOURCE;
+}
+
+/**
+ * Match an address's receipts to sweeps of the same asset into the hot wallet; null when it never sent to it
+ */
+export function scoreDepositAddress(
+  address: string,
+  hotWallet: string,
+  transactions: Transaction[],
+  maxSweepDelayHours: number
+): Omit<DepositAddress, 'labeled'> | null {
+  const receipts: Movement[] = [];
+  const sweeps: Movement[] = [];
+  let outgoing = 0;
+
+  transactions.forEach(tx => {
+    if (tx.status === 'failed' || !tx.blockTime) return;
+    const time = tx.blockTime.getTime();
+
+    getTransferLegs(tx).forEach(leg => {
+      if (leg.from === leg.to) return;
+      if (leg.to === address && leg.from !== hotWallet) {
+        receipts.push({ time, mint: leg.mint, signature: tx.signature });
+      } else if (leg.from === address) {
+        outgoing++;
+        if (leg.to === hotWallet) sweeps.push({ time, mint: leg.mint, signature: tx.signature });
+      }
+    });
+  });
+  if (sweeps.length === 0) return null;
+
+  // Delay from each receipt to the first sweep of the same asset after it
+  const window = maxSweepDelayHours * 60 * 60 * 1000;
+  const delays: number[] = [];
+  receipts.forEach(receipt => {
+    const next = sweeps
+      .filter(sweep => sweep.mint === receipt.mint && sweep.time >= receipt.time && sweep.time - receipt.time <= window)
+      .reduce<Movement | undefined>((first, sweep) => (!first || sweep.time < first.time ? sweep : first), undefined);
+    if (next) delays.push((next.time - receipt.time) / 1000);
+  });
+
+  const mean = delays.length > 0 ? delays.reduce((sum, delay) => sum + delay, 0) / delays.length : 0;
+  const deviation = delays.length > 0
+    ? Math.sqrt(delays.reduce((sum, delay) => sum + (delay - mean) ** 2, 0) / delays.length)
+    : 0;
+  const delayConsistency = 1 / (1 + (mean > 0 ? deviation / mean : 0));
+
+  const regularity = receipts.length > 0 ? delays.length / receipts.length : 0;
+  const exclusivity = sweeps.length / outgoing;
+  const support = Math.min(1, delays.length / FULL_SUPPORT_SWEEPS);
+  const confidence = regularity * exclusivity * (0.5 + 0.5 * delayConsistency) * (0.5 + 0.5 * support);
+
+  return {
+    address,
+    receipts: receipts.length,
+    sweeps: sweeps.length,
+    sweptReceipts: delays.length,
+    regularity,
+    medianDelaySeconds: median(delays),
+    delayConsistency,
+    exclusivity,
+    mints: Array.from(new Set(sweeps.map(sweep => sweep.mint))),
+    confidence: Math.round(confidence * 100) / 100,
+    signatures: Array.from(new Set(
+      [...sweeps].sort((a, b) => b.time - a.time).map(sweep => sweep.signature)
+    )).slice(0, MAX_EVIDENCE_SIGNATURES),
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Export a singleton instance
+export const depositDiscoveryService = new DepositDiscoveryService();
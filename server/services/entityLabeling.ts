@@ -1,12 +1,14 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import { storage } from '../storage';
 import { getSolanaConnection } from '../solana';
+import { labelDatasetService } from './labelDatasets';
+import { labelResolutionService } from './labelResolution';
 import { Entity, InsertEntity, InsertWalletEntityRelation, Transaction, Wallet } from '@shared/schema';
 
 /**
  * Service for entity and exchange labeling
  * Features:
- * - Known address lookup
+ * - Known address lookup, backed by the imported label packs
  * - Deposit/withdrawal pattern detection
  * - Entity label management
  */
@@ -49,112 +51,27 @@ export class EntityLabelingService {
     }
   };
   
-  // Reference data for known entities (will be moved to database in production)
-  private knownEntities: Record<string, { 
-    type: string; 
-    name: string; 
-    confidence: number;
-    wallets: string[];
-  }> = {
-    "binance": {
-      type: "exchange",
-      name: "Binance",
-      confidence: 1.0,
-      wallets: [
-        "3h1zGmCwsRJnVk5BuRNMLsPaQu1y2aqXqXDWYCgrp5UG", // Example Binance hot wallet
-        "BSvGoFYVvBGWaEgzuZRGPYWxUsi9AVYPRzw8kYhdQU9R" // Example Binance cold storage
-      ]
-    },
-    "solend": {
-      type: "defi",
-      name: "Solend",
-      confidence: 1.0,
-      wallets: [
-        "7mhcgF1Z3XUNdV8Vni4xJgDBB48TJ4XWpGjS7uQ1hKfo", // Example Solend wallet
-      ]
-    },
-    "magiceden": {
-      type: "nft",
-      name: "Magic Eden",
-      confidence: 1.0,
-      wallets: [
-        "1BWutmTvYPwDtmw9abTkS4Ssr8no61spGAvW1X6NDix", // Example Magic Eden escrow
-      ]
-    }
-  };
-  
   constructor() {
     this.connection = getSolanaConnection();
-    this.initializeKnownEntities();
-  }
-  
-  /**
-   * Initialize known entities in the database
-   */
-  private async initializeKnownEntities() {
-    try {
-      for (const [key, entityData] of Object.entries(this.knownEntities)) {
-        // Check if entity already exists
-        const entities = await storage.getEntitiesByType(entityData.type);
-        const existingEntity = entities.find(e => e.name.toLowerCase() === entityData.name.toLowerCase());
-        
-        if (!existingEntity) {
-          // Create new entity
-          const newEntity: InsertEntity = {
-            name: entityData.name,
-            type: entityData.type,
-            description: `${entityData.name} ${entityData.type}`,
-            icon: null,
-            color: null,
-            userId: null, // System created
-            isPublic: true,
-            website: `https://${key}.com`, // Example website
-            riskLevel: "low",
-            verificationStatus: "verified",
-            metadata: { source: "system" }
-          };
-          
-          const entity = await storage.createEntity(newEntity);
-          
-          // Add wallets to entity
-          for (const address of entityData.wallets) {
-            // Check if wallet exists
-            let wallet = await storage.getWalletByAddress(address);
-            
-            if (!wallet) {
-              // Create wallet
-              wallet = await storage.createWallet({
-                address,
-                label: `${entityData.name} Wallet`,
-                type: entityData.type,
-                userId: null, // System wallet
-                metadata: { source: "system" }
-              });
-            }
-            
-            // Associate wallet with entity
-            await storage.addWalletToEntity({
-              walletId: wallet.id,
-              entityId: entity.id,
-              confidence: entityData.confidence
-            });
-          }
-        }
-      }
-    } catch (error) {
-      console.error("Error initializing known entities:", error);
-    }
+    
+    // Known entities come from the label packs
+    labelDatasetService.importDirectory().catch(error => {
+      console.error("Error importing label datasets:", error);
+    });
   }
   
   /**
    * Look up entity information for a known address
    * @param address The Solana wallet address
-   * @returns Entity information if found, null otherwise
+   * @param teamIds Teams whose private label overlays apply
+   * @returns The entity of the effective label currently in effect, null if there is none
    */
-  async lookupKnownEntity(address: string): Promise<Entity | null> {
+  async lookupKnownEntity(address: string, teamIds: number[] = []): Promise<Entity | null> {
     try {
-      // Check if this address belongs to a known entity
-      return storage.getEntityByAddress(address) || null;
+      const resolved = (await labelResolutionService.resolve([address], { teamIds }))[address];
+      if (!resolved) return null;
+      
+      return (await storage.getEntity(resolved.label.entityId)) || null;
     } catch (error) {
       console.error("Error looking up entity:", error);
       return null;
@@ -555,6 +472,8 @@ export class EntityLabelingService {
           await storage.addWalletToEntity({
             walletId: wallet.id,
             entityId: entity.id,
+            sourceType: 'analyst',
+            confirmedBy: entityData.userId,
             confidence: 1.0
           });
         }
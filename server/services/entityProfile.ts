@@ -0,0 +1,310 @@
+import { storage } from '../storage';
+import { Entity, Transaction, Wallet } from '@shared/schema';
+import { KnownLabel } from '@shared/labels';
+import { RiskAssessment, RiskBreakdownItem, RiskRuleId } from '@shared/risk';
+import { NATIVE_SOL_MINT, TransferLeg } from '@shared/transfers';
+import {
+  ENTITY_RISK_LEVELS,
+  EntityCounterparty,
+  EntityDailyVolume,
+  EntityFlow,
+  EntityMember,
+  EntityProfile,
+  EntityRiskRule,
+  EntityRiskSummary,
+} from '@shared/entities';
+import { getTransferLegs } from './fundTracing';
+import { labelResolutionService } from './labelResolution';
+
+export const DEFAULT_MAX_WALLETS = 50; // Members whose history is read, strongest evidence first
+export const DEFAULT_TRANSACTIONS_PER_WALLET = 200;
+const DEFAULT_TOP_COUNTERPARTIES = 10;
+const UNLABELED_COUNTERPARTY = 'unlabeled';
+
+export interface EntityProfileOptions {
+  userId?: number; // Viewer; owners see their private entities
+  teamIds?: number[]; // Teams whose private overlays the viewer sees
+  maxWallets?: number;
+  transactionsPerWallet?: number;
+  topCounterparties?: number;
+}
+
+interface Activity {
+  first: Date | null;
+  last: Date | null;
+}
+
+/**
+ * EntityProfileService aggregates an entity's activity across all of its member wallets:
+ * - Members are the addresses with an assertion for the entity visible to the viewer, with that evidence
+ * - Transfers between members are internal and left out of inflow, outflow and counterparties
+ * - Counterparties are grouped by the entity their address resolves to, the rest as unlabeled
+ * - Daily volume series and first/last activity over the stored transaction history
+ * - Risk summarizes the assessments stored on the member wallets; nothing is rescored here
+ */
+export class EntityProfileService {
+  /**
+   * The entity's profile; undefined when it does not exist or the viewer cannot see it
+   */
+  async getProfile(entityId: number, options: EntityProfileOptions = {}): Promise<EntityProfile | undefined> {
+    const viewer = { teamIds: options.teamIds || [] };
+    const entity = await this.getEntity(entityId, options.userId, viewer.teamIds);
+    if (!entity) return undefined;
+
+    const labels = await labelResolutionService.getEntityLabels(entityId, viewer);
+
+    const addresses = Object.keys(labels).sort((a, b) => evidenceStrength(labels[b]) - evidenceStrength(labels[a]));
+    const memberSet = new Set(addresses);
+    const analyzed = addresses.slice(0, options.maxWallets || DEFAULT_MAX_WALLETS);
+
+    const wallets = new Map<string, Wallet>();
+    (await storage.getWalletsByAddresses(addresses)).forEach(wallet => wallets.set(wallet.address, wallet));
+
+    const transactions = await this.getTransactions(analyzed, options.transactionsPerWallet || DEFAULT_TRANSACTIONS_PER_WALLET);
+
+    const inflow = emptyFlow();
+    const outflow = emptyFlow();
+    const internal = emptyFlow();
+    const activity: Activity = { first: null, last: null };
+    const memberFlows = new Map<string, { inflow: EntityFlow; outflow: EntityFlow; activity: Activity }>();
+    const counterpartyFlows = new Map<string, { inflow: EntityFlow; outflow: EntityFlow }>();
+    const days = new Map<string, EntityDailyVolume>();
+
+    const memberFlow = (address: string) => {
+      let flow = memberFlows.get(address);
+      if (!flow) {
+        flow = { inflow: emptyFlow(), outflow: emptyFlow(), activity: { first: null, last: null } };
+        memberFlows.set(address, flow);
+      }
+      return flow;
+    };
+    const counterpartyFlow = (address: string) => {
+      let flow = counterpartyFlows.get(address);
+      if (!flow) {
+        flow = { inflow: emptyFlow(), outflow: emptyFlow() };
+        counterpartyFlows.set(address, flow);
+      }
+      return flow;
+    };
+    const day = (date: Date) => {
+      const key = date.toISOString().slice(0, 10);
+      let volume = days.get(key);
+      if (!volume) {
+        volume = { date: key, inflow: emptyFlow(), outflow: emptyFlow() };
+        days.set(key, volume);
+      }
+      return volume;
+    };
+
+    transactions.forEach(tx => {
+      const blockTime = tx.blockTime ? new Date(tx.blockTime) : null;
+
+      getTransferLegs(tx).forEach(leg => {
+        if (leg.from === leg.to) return;
+        const fromMember = memberSet.has(leg.from);
+        const toMember = memberSet.has(leg.to);
+        if (!fromMember && !toMember) return;
+
+        if (blockTime) {
+          recordActivity(activity, blockTime);
+          if (fromMember) recordActivity(memberFlow(leg.from).activity, blockTime);
+          if (toMember) recordActivity(memberFlow(leg.to).activity, blockTime);
+        }
+
+        if (fromMember && toMember) {
+          addLeg(internal, leg);
+          return;
+        }
+
+        if (fromMember) {
+          addLeg(outflow, leg);
+          addLeg(memberFlow(leg.from).outflow, leg);
+          addLeg(counterpartyFlow(leg.to).outflow, leg);
+          if (blockTime) addLeg(day(blockTime).outflow, leg);
+        } else {
+          addLeg(inflow, leg);
+          addLeg(memberFlow(leg.to).inflow, leg);
+          addLeg(counterpartyFlow(leg.from).inflow, leg);
+          if (blockTime) addLeg(day(blockTime).inflow, leg);
+        }
+      });
+    });
+
+    const members: EntityMember[] = addresses.map(address => {
+      const wallet = wallets.get(address);
+      const flow = memberFlows.get(address);
+      return {
+        address,
+        walletType: wallet?.type || null,
+        riskScore: wallet?.riskScore ?? null,
+        inflow: flow ? flow.inflow : emptyFlow(),
+        outflow: flow ? flow.outflow : emptyFlow(),
+        firstActivity: flow ? toISO(flow.activity.first) : null,
+        lastActivity: flow ? toISO(flow.activity.last) : null,
+        evidence: labels[address],
+      };
+    });
+    members.sort((a, b) => compareVolume(b.inflow, b.outflow, a.inflow, a.outflow));
+
+    return {
+      entity: {
+        id: entity.id,
+        name: entity.name,
+        type: entity.type,
+        description: entity.description,
+        riskLevel: entity.riskLevel,
+        verificationStatus: entity.verificationStatus,
+        isPublic: entity.isPublic || false,
+      },
+      members,
+      inflow,
+      outflow,
+      internal,
+      topCounterparties: await this.groupCounterparties(
+        counterpartyFlows,
+        viewer.teamIds,
+        options.topCounterparties || DEFAULT_TOP_COUNTERPARTIES
+      ),
+      firstActivity: toISO(activity.first),
+      lastActivity: toISO(activity.last),
+      dailyVolume: Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date)),
+      risk: summarizeRisk(addresses.map(address => wallets.get(address))),
+      walletsAnalyzed: analyzed.length,
+      transactionsAnalyzed: transactions.length,
+    };
+  }
+
+  /**
+   * Public entities, the owner's own, and entities the viewer's teams have labeled members of
+   */
+  async getEntity(entityId: number, userId: number | undefined, teamIds: number[]): Promise<Entity | undefined> {
+    const entity = await storage.getEntity(entityId);
+    if (!entity) return undefined;
+    if (entity.isPublic || (userId !== undefined && entity.userId === userId)) return entity;
+
+    const labels = await labelResolutionService.getEntityLabels(entityId, { teamIds });
+    return Object.keys(labels).length > 0 ? entity : undefined;
+  }
+
+  /**
+   * Stored history of the analyzed members; a transaction between two members is read once
+   */
+  private async getTransactions(addresses: string[], limit: number): Promise<Transaction[]> {
+    const transactions = new Map<string, Transaction>();
+    for (const address of addresses) {
+      (await storage.getAddressTransactions(address, limit)).forEach(tx => {
+        if (tx.status !== 'failed') transactions.set(tx.signature, tx);
+      });
+    }
+    return Array.from(transactions.values());
+  }
+
+  private async groupCounterparties(
+    flows: Map<string, { inflow: EntityFlow; outflow: EntityFlow }>,
+    teamIds: number[],
+    limit: number
+  ): Promise<EntityCounterparty[]> {
+    const addresses = Array.from(flows.keys());
+    const resolved = addresses.length > 0 ? await labelResolutionService.resolve(addresses, { teamIds }) : {};
+
+    const groups = new Map<string, EntityCounterparty>();
+    addresses.forEach(address => {
+      const label = resolved[address]?.label;
+      const key = label ? String(label.entityId) : UNLABELED_COUNTERPARTY;
+      const group = groups.get(key) || {
+        entityId: label ? label.entityId : null,
+        name: label ? label.entity : 'Unlabeled',
+        type: label ? label.type : UNLABELED_COUNTERPARTY,
+        inflow: emptyFlow(),
+        outflow: emptyFlow(),
+        addresses: 0,
+      };
+
+      const flow = flows.get(address)!;
+      mergeFlow(group.inflow, flow.inflow);
+      mergeFlow(group.outflow, flow.outflow);
+      group.addresses++;
+      groups.set(key, group);
+    });
+
+    return Array.from(groups.values())
+      .sort((a, b) => compareVolume(b.inflow, b.outflow, a.inflow, a.outflow))
+      .slice(0, limit);
+  }
+}
+
+function emptyFlow(): EntityFlow {
+  return { sol: 0, usd: 0, transfers: 0, unpriced: 0 };
+}
+
+function addLeg(flow: EntityFlow, leg: TransferLeg) {
+  if (leg.mint === NATIVE_SOL_MINT) flow.sol += leg.uiAmount;
+  if (leg.usdValue === undefined) flow.unpriced++;
+  else flow.usd += leg.usdValue;
+  flow.transfers++;
+}
+
+function mergeFlow(target: EntityFlow, flow: EntityFlow) {
+  target.sol += flow.sol;
+  target.usd += flow.usd;
+  target.transfers += flow.transfers;
+  target.unpriced += flow.unpriced;
+}
+
+// Priced volume first, then SOL, then transfer count
+function compareVolume(aIn: EntityFlow, aOut: EntityFlow, bIn: EntityFlow, bOut: EntityFlow): number {
+  return (aIn.usd + aOut.usd) - (bIn.usd + bOut.usd) ||
+    (aIn.sol + aOut.sol) - (bIn.sol + bOut.sol) ||
+    (aIn.transfers + aOut.transfers) - (bIn.transfers + bOut.transfers);
+}
+
+function recordActivity(activity: Activity, time: Date) {
+  if (!activity.first || time < activity.first) activity.first = time;
+  if (!activity.last || time > activity.last) activity.last = time;
+}
+
+function toISO(time: Date | null): string | null {
+  return time ? time.toISOString() : null;
+}
+
+// Verified assertions first, then the most confident
+function evidenceStrength(labels: KnownLabel[]): number {
+  return Math.max(...labels.map(label => (label.verified ? 1 : 0) + label.confidence));
+}
+
+function summarizeRisk(wallets: (Wallet | undefined)[]): EntityRiskSummary {
+  const scores = wallets
+    .map(wallet => wallet?.riskScore ?? null)
+    .filter((score): score is number => score !== null);
+
+  const levels = { low: 0, medium: 0, high: 0, unscored: wallets.length - scores.length };
+  scores.forEach(score => {
+    if (score >= ENTITY_RISK_LEVELS.high) levels.high++;
+    else if (score >= ENTITY_RISK_LEVELS.medium) levels.medium++;
+    else levels.low++;
+  });
+
+  const rules = new Map<RiskRuleId, EntityRiskRule>();
+  wallets.forEach(wallet => {
+    const assessment = (wallet?.metadata as { risk?: RiskAssessment } | null)?.risk;
+    const breakdown: RiskBreakdownItem[] = assessment?.breakdown || [];
+    breakdown.forEach(item => {
+      const rule = rules.get(item.ruleId) || { ruleId: item.ruleId, description: item.description, wallets: 0, maxPoints: 0, totalPoints: 0 };
+      rule.wallets++;
+      rule.maxPoints = Math.max(rule.maxPoints, item.points);
+      rule.totalPoints += item.points;
+      rules.set(item.ruleId, rule);
+    });
+  });
+
+  return {
+    maxScore: scores.length > 0 ? Math.max(...scores) : null,
+    averageScore: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null,
+    scoredWallets: scores.length,
+    levels,
+    rules: Array.from(rules.values()).sort((a, b) => b.totalPoints - a.totalPoints),
+  };
+}
+
+// Export a singleton instance
+export const entityProfileService = new EntityProfileService();
@@ -0,0 +1,134 @@
+import { NATIVE_SOL_MINT } from '@shared/transfers';
+import {
+  CategoryExposure,
+  DirectionExposure,
+  EXPOSURE_CATEGORIES,
+  ExposureReport,
+  ExposureRow,
+  ExposureSankey,
+  TaintModel,
+  TraceResult,
+  UNLABELED_CATEGORY,
+} from '@shared/tracing';
+import { fundTracingService } from './fundTracing';
+
+const DEFAULT_DEPTH = 3;
+const DEFAULT_MAX_PATHS = 5000;
+
+export interface ExposureOptions {
+  depth?: number;
+  model?: TaintModel;
+  mint?: string;
+  categories?: string[]; // Entity types value is attributed to, see EXPOSURE_CATEGORIES
+  minAmount?: number;
+  maxPaths?: number;
+}
+
+/**
+ * ExposureService attributes a wallet's inflows and outflows to entity categories:
+ * - Inflows are traced backward and outflows forward under a taint model
+ * - A path ends at the first wallet of a labeled entity in one of the categories,
+ *   and its value is attributed to that entity's type at the path's hop distance
+ * - Paths ending anywhere else count as unlabeled
+ */
+export class ExposureService {
+  async calculateExposure(address: string, options: ExposureOptions = {}): Promise<ExposureReport> {
+    const traceOptions = {
+      depth: options.depth || DEFAULT_DEPTH,
+      model: options.model || 'haircut',
+      mint: options.mint || NATIVE_SOL_MINT,
+      stopAtEntityTypes: options.categories || EXPOSURE_CATEGORIES,
+      minAmount: options.minAmount,
+      maxPaths: options.maxPaths || DEFAULT_MAX_PATHS,
+    };
+
+    const backward = await fundTracingService.trace(address, { ...traceOptions, direction: 'backward' });
+    const forward = await fundTracingService.trace(address, { ...traceOptions, direction: 'forward' });
+    const inflows = summarize(backward);
+    const outflows = summarize(forward);
+
+    return {
+      address,
+      mint: traceOptions.mint,
+      model: traceOptions.model,
+      depth: traceOptions.depth,
+      inflows,
+      outflows,
+      sankey: buildSankey(address, inflows, outflows),
+      truncated: backward.truncated || forward.truncated,
+    };
+  }
+}
+
+function summarize(result: TraceResult): DirectionExposure {
+  const amounts = new Map<string, ExposureRow>();
+  result.paths.forEach(path => {
+    const category = path.terminal === 'entity' && path.entity ? path.entity.type : UNLABELED_CATEGORY;
+    const key = `${category}:${path.hops.length}`;
+    const row = amounts.get(key) || { category, hops: path.hops.length, amount: 0, share: 0 };
+    row.amount += path.attributedAmount;
+    amounts.set(key, row);
+  });
+
+  const total = result.totalAmount;
+  const rows = Array.from(amounts.values()).map(row => ({ ...row, share: total > 0 ? row.amount / total : 0 }));
+
+  const categories = new Map<string, CategoryExposure>();
+  rows.forEach(row => {
+    const category = categories.get(row.category) || { category: row.category, direct: 0, indirect: 0, amount: 0, share: 0 };
+    if (row.hops === 1) {
+      category.direct += row.amount;
+    } else {
+      category.indirect += row.amount;
+    }
+    category.amount += row.amount;
+    category.share += row.share;
+    categories.set(row.category, category);
+  });
+
+  return {
+    total,
+    rows: rows.sort((a, b) => b.amount - a.amount),
+    categories: Array.from(categories.values()).sort((a, b) => b.amount - a.amount),
+  };
+}
+
+/**
+ * Five columns: source categories, inflow hop distances, the wallet, outflow hop distances, destination categories
+ */
+function buildSankey(address: string, inflows: DirectionExposure, outflows: DirectionExposure): ExposureSankey {
+  const nodes: ExposureSankey['nodes'] = [{ id: 'wallet', name: address, column: 2 }];
+  const links = new Map<string, { source: string; target: string; value: number }>();
+
+  const addNode = (id: string, name: string, column: number) => {
+    if (!nodes.some(node => node.id === id)) nodes.push({ id, name, column });
+  };
+  const addLink = (source: string, target: string, value: number) => {
+    const key = `${source}>${target}`;
+    const link = links.get(key) || { source, target, value: 0 };
+    link.value += value;
+    links.set(key, link);
+  };
+  const hopName = (hops: number) => `${hops} hop${hops === 1 ? '' : 's'}`;
+
+  inflows.rows.forEach(row => {
+    addNode(`in:${row.category}`, row.category, 0);
+    addNode(`in:hop:${row.hops}`, hopName(row.hops), 1);
+    addLink(`in:${row.category}`, `in:hop:${row.hops}`, row.amount);
+    addLink(`in:hop:${row.hops}`, 'wallet', row.amount);
+  });
+  outflows.rows.forEach(row => {
+    addNode(`out:hop:${row.hops}`, hopName(row.hops), 3);
+    addNode(`out:${row.category}`, row.category, 4);
+    addLink('wallet', `out:hop:${row.hops}`, row.amount);
+    addLink(`out:hop:${row.hops}`, `out:${row.category}`, row.amount);
+  });
+
+  return {
+    nodes: nodes.sort((a, b) => a.column - b.column),
+    links: Array.from(links.values()),
+  };
+}
+
+// Export a singleton instance
+export const exposureService = new ExposureService();
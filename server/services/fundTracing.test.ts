@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Transaction } from '@shared/schema';
+import type { TaintModel, TracePath } from '@shared/tracing';
+
+// server/db.ts refuses to load without a connection string; storage reads are replaced below
+process.env.DATABASE_URL ??= 'postgres://fixtures@localhost/fixtures';
+
+const { storage } = await import('../storage');
+const { fundTracingService } = await import('./fundTracing');
+const { NATIVE_SOL_MINT } = await import('@shared/transfers');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A SOL transfer in the given slot
+function transfer(from: string, to: string, amount: number, slot: number): Transaction {
+  return {
+    signature: `${from}-${to}-${slot}`,
+    sourceAddress: from,
+    destinationAddress: to,
+    amount,
+    blockTime: new Date(1_700_000_000_000 + slot * HOUR_MS),
+    slot,
+    status: 'success',
+    type: 'transfer',
+    programId: null,
+    metadata: {
+      transfers: [{ from, to, mint: NATIVE_SOL_MINT, amount: String(amount * 1e9), decimals: 9, uiAmount: amount }],
+    },
+  } as Transaction;
+}
+
+// Wallet receives 4 from Alice, then 6 from Bob, then sends 5 to Carol and 3 to Dave
+const transactions = [
+  transfer('Alice', 'Wallet', 4, 1),
+  transfer('Bob', 'Wallet', 6, 2),
+  transfer('Wallet', 'Carol', 5, 3),
+  transfer('Wallet', 'Dave', 3, 4),
+];
+(storage as any).getAddressTransactions = async (address: string) =>
+  transactions.filter(tx => tx.sourceAddress === address || tx.destinationAddress === address);
+
+// Attributed value per wallet at one end of the paths, rounded against float noise
+function totalsBy(paths: TracePath[], end: 'first' | 'last'): Record<string, number> {
+  const totals: Record<string, number> = {};
+  paths.forEach(path => {
+    const address = end === 'first' ? path.addresses[0] : path.addresses[path.addresses.length - 1];
+    totals[address] = Math.round(((totals[address] || 0) + path.attributedAmount) * 1e9) / 1e9;
+  });
+  return totals;
+}
+
+const backwardCases: { model: TaintModel; origins: Record<string, number> }[] = [
+  { model: 'fifo', origins: { Alice: 4, Bob: 1 } }, // Oldest inflow first
+  { model: 'lifo', origins: { Bob: 5 } }, // Newest inflow first
+  { model: 'haircut', origins: { Alice: 2, Bob: 3 } }, // Pro rata to the 4:6 balance
+  { model: 'poison', origins: { Alice: 5, Bob: 5 } }, // Any contact carries the full value
+];
+
+backwardCases.forEach(({ model, origins }) => {
+  test(`attributes Carol's funds to their origins under ${model}`, async () => {
+    const result = await fundTracingService.trace('Carol', { direction: 'backward', model, depth: 3 });
+    assert.equal(result.totalAmount, 5);
+    assert.deepEqual(totalsBy(result.paths, 'first'), origins);
+  });
+});
+
+const forwardCases: { model: TaintModel; destinations: Record<string, number> }[] = [
+  { model: 'fifo', destinations: { Carol: 4 } }, // Spent first, entirely on Carol
+  { model: 'lifo', destinations: { Dave: 2, Wallet: 2 } }, // Carol is paid from Bob's newer funds
+  { model: 'haircut', destinations: { Carol: 2, Dave: 1.2, Wallet: 0.8 } }, // Half, then 3/5 of the remaining balance
+  { model: 'poison', destinations: { Carol: 4, Dave: 4, Wallet: 4 } },
+];
+
+forwardCases.forEach(({ model, destinations }) => {
+  test(`follows Alice's funds to where they ended up under ${model}`, async () => {
+    const result = await fundTracingService.trace('Alice', { direction: 'forward', model, depth: 3 });
+    assert.equal(result.totalAmount, 4);
+    assert.deepEqual(totalsBy(result.paths, 'last'), destinations);
+  });
+});
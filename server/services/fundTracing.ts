@@ -0,0 +1,497 @@
+import { storage } from '../storage';
+import { Transaction } from '@shared/schema';
+import { NATIVE_SOL_MINT, TransferLeg } from '@shared/transfers';
+import {
+  TaintModel, TraceDirection, TraceEntity, TraceHop, TracePath, TraceResult, TraceTermination
+} from '@shared/tracing';
+import { getTransaction } from '../solana';
+import { transactionIngestionService } from './transactionIngestion';
+import { labelResolutionService } from './labelResolution';
+
+const DEFAULT_DEPTH = 3;
+const DEFAULT_MIN_AMOUNT = 0.000001; // Portions smaller than this are not followed further
+const DEFAULT_MAX_PATHS = 500;
+const DEFAULT_TRANSACTIONS_PER_WALLET = 500;
+const EPSILON = 1e-12;
+
+export interface TraceOptions {
+  direction?: TraceDirection;
+  model?: TaintModel;
+  depth?: number; // Maximum number of hops per path
+  mint?: string;
+  minAmount?: number;
+  maxPaths?: number;
+  transactionsPerWallet?: number;
+  stopAtEntityTypes?: string[]; // Paths end at wallets of labeled entities of these types
+  ingest?: boolean; // Ingest each visited wallet's recent history before replaying it
+}
+
+export interface TransactionTraceOptions extends TraceOptions {
+  address?: string; // Sender whose outflows are followed, defaults to the transaction's primary sender
+  amount?: number; // Value to follow, defaults to everything the sender sent
+}
+
+// A transfer leg as seen from one wallet's ledger
+interface LedgerEvent {
+  key: string; // `${signature}:${legIndex}`, identical in the ledgers of both participants
+  signature: string;
+  legIndex: number;
+  from: string;
+  to: string;
+  amount: number;
+  blockTime: number | null;
+  slot: number | null;
+  direction: 'in' | 'out';
+}
+
+// Part of an outflow paid from a specific inflow. A null inflow means the outflow
+// exceeded everything the ledger had received, i.e. the funds predate the known history.
+interface Allocation {
+  inflow: LedgerEvent | null;
+  outflow: LedgerEvent;
+  amount: number;
+}
+
+interface Lot {
+  inflow: LedgerEvent;
+  remaining: number;
+}
+
+/**
+ * The time-ordered transfers of one wallet, replayed under a taint model
+ */
+class WalletLedger {
+  readonly events: LedgerEvent[];
+  private byKey = new Map<string, LedgerEvent>();
+  private byOutflow = new Map<string, Allocation[]>();
+  private byInflow = new Map<string, Allocation[]>();
+  private held = new Map<string, number>();
+
+  constructor(readonly address: string, events: LedgerEvent[], readonly model: TaintModel) {
+    this.events = events;
+    events.forEach(event => this.byKey.set(event.key, event));
+    this.replay();
+  }
+
+  get inflows(): LedgerEvent[] {
+    return this.events.filter(event => event.direction === 'in');
+  }
+
+  get outflows(): LedgerEvent[] {
+    return this.events.filter(event => event.direction === 'out');
+  }
+
+  find(key: string): LedgerEvent | undefined {
+    return this.byKey.get(key);
+  }
+
+  // Which inflows paid for an outflow
+  getFunding(outflowKey: string): Allocation[] {
+    return this.byOutflow.get(outflowKey) || [];
+  }
+
+  // Which outflows spent an inflow
+  getSpending(inflowKey: string): Allocation[] {
+    return this.byInflow.get(inflowKey) || [];
+  }
+
+  // What is left of an inflow after the last known transfer
+  getHeld(inflowKey: string): number {
+    return this.held.get(inflowKey) || 0;
+  }
+
+  private replay(): void {
+    let lots: Lot[] = [];
+
+    this.events.forEach(event => {
+      if (event.direction === 'in') {
+        lots.push({ inflow: event, remaining: event.amount });
+        return;
+      }
+
+      this.consume(lots, event).forEach(allocation => this.record(allocation));
+      lots = lots.filter(lot => lot.remaining > EPSILON);
+    });
+
+    lots.forEach(lot => this.held.set(lot.inflow.key, lot.remaining));
+  }
+
+  private consume(lots: Lot[], outflow: LedgerEvent): Allocation[] {
+    const allocations: Allocation[] = [];
+    const balance = lots.reduce((sum, lot) => sum + lot.remaining, 0);
+    let needed = outflow.amount;
+
+    if (this.model === 'fifo' || this.model === 'lifo') {
+      const ordered = this.model === 'fifo' ? lots : [...lots].reverse();
+      for (const lot of ordered) {
+        if (needed <= EPSILON) break;
+        const amount = Math.min(lot.remaining, needed);
+        lot.remaining -= amount;
+        needed -= amount;
+        allocations.push({ inflow: lot.inflow, outflow, amount });
+      }
+    } else {
+      // Haircut and poison both drain every lot pro rata; poison additionally
+      // attributes the full outflow to each lot that was present
+      const ratio = balance > EPSILON ? Math.min(1, outflow.amount / balance) : 0;
+      lots.forEach(lot => {
+        if (lot.remaining <= EPSILON) return;
+        const amount = lot.remaining * ratio;
+        allocations.push({ inflow: lot.inflow, outflow, amount: this.model === 'poison' ? outflow.amount : amount });
+        lot.remaining -= amount;
+      });
+      needed = Math.max(0, outflow.amount - balance);
+    }
+
+    if (needed > EPSILON) {
+      allocations.push({ inflow: null, outflow, amount: needed });
+    }
+    return allocations;
+  }
+
+  private record(allocation: Allocation): void {
+    const outflowAllocations = this.byOutflow.get(allocation.outflow.key) || [];
+    outflowAllocations.push(allocation);
+    this.byOutflow.set(allocation.outflow.key, outflowAllocations);
+
+    if (allocation.inflow) {
+      const inflowAllocations = this.byInflow.get(allocation.inflow.key) || [];
+      inflowAllocations.push(allocation);
+      this.byInflow.set(allocation.inflow.key, inflowAllocations);
+    }
+  }
+}
+
+// A partially expanded path during the search
+interface TraceState {
+  addresses: string[];
+  hops: TraceHop[];
+  tracked: number;
+}
+
+interface TraceContext {
+  direction: TraceDirection;
+  model: TaintModel;
+  mint: string;
+  depth: number;
+  minAmount: number;
+  maxPaths: number;
+  transactionsPerWallet: number;
+  stopAtEntityTypes: string[];
+  ingest: boolean;
+  ledgers: Map<string, Promise<WalletLedger>>;
+  entities: Map<string, Promise<TraceEntity | undefined>>;
+  paths: TracePath[];
+  truncated: boolean;
+}
+
+/**
+ * FundTracingService follows value through the time-ordered transfer graph of stored transactions:
+ * - Backward tracing attributes a wallet's inflows to the upstream wallets that funded them
+ * - Forward tracing follows a wallet's outflows to where the funds ended up
+ * - Each intermediate wallet is replayed under the selected taint model (poison, haircut, FIFO, LIFO)
+ *   to decide which of its inflows paid for which of its outflows
+ * - Every resulting path carries its attributed amount and the exact transfers it used
+ */
+export class FundTracingService {
+  /**
+   * Trace every inflow (backward) or outflow (forward) of a wallet
+   */
+  async trace(address: string, options: TraceOptions = {}): Promise<TraceResult> {
+    const context = this.createContext(options);
+    const ledger = await this.getLedger(address, context);
+    const roots = context.direction === 'backward' ? ledger.inflows : ledger.outflows;
+
+    return this.traceEvents(address, roots, 1, context);
+  }
+
+  /**
+   * Follow the funds a wallet sent in one transaction forward, hop by hop.
+   * Returns undefined when the transaction cannot be found.
+   */
+  async traceFromTransaction(signature: string, options: TransactionTraceOptions = {}): Promise<TraceResult | undefined> {
+    const context = this.createContext({ ...options, direction: 'forward' });
+
+    let transaction = await storage.getTransactionBySignature(signature);
+    if (!transaction) {
+      const rpcTransaction = await getTransaction(signature);
+      if (!rpcTransaction) return undefined;
+
+      transaction = await storage.upsertTransaction(transactionIngestionService.normalizeTransaction(
+        { signature, slot: rpcTransaction.slot, blockTime: rpcTransaction.blockTime, err: null, memo: null },
+        rpcTransaction
+      ));
+    }
+
+    const sender = options.address || transaction.sourceAddress;
+    const roots = toLedgerEvents(transaction, sender, context.mint).filter(event => event.direction === 'out');
+
+    // Follow only the requested part of what was sent, spread across the outgoing legs
+    const sent = roots.reduce((sum, event) => sum + event.amount, 0);
+    const scale = options.amount && sent > 0 ? Math.min(1, options.amount / sent) : 1;
+
+    const result = await this.traceEvents(sender, roots, scale, context);
+    return { ...result, signature };
+  }
+
+  private createContext(options: TraceOptions): TraceContext {
+    return {
+      direction: options.direction || 'backward',
+      model: options.model || 'haircut',
+      mint: options.mint || NATIVE_SOL_MINT,
+      depth: Math.max(1, options.depth || DEFAULT_DEPTH),
+      minAmount: options.minAmount ?? DEFAULT_MIN_AMOUNT,
+      maxPaths: options.maxPaths || DEFAULT_MAX_PATHS,
+      transactionsPerWallet: options.transactionsPerWallet || DEFAULT_TRANSACTIONS_PER_WALLET,
+      stopAtEntityTypes: options.stopAtEntityTypes || [],
+      ingest: !!options.ingest,
+      ledgers: new Map(),
+      entities: new Map(),
+      paths: [],
+      truncated: false,
+    };
+  }
+
+  private async traceEvents(
+    address: string,
+    roots: LedgerEvent[],
+    scale: number,
+    context: TraceContext
+  ): Promise<TraceResult> {
+    for (const event of roots) {
+      const tracked = event.amount * scale;
+      if (tracked < context.minAmount) continue;
+      const counterparty = context.direction === 'backward' ? event.from : event.to;
+
+      await this.expand({
+        addresses: context.direction === 'backward' ? [counterparty, address] : [address, counterparty],
+        hops: [toHop(event, tracked)],
+        tracked,
+      }, context);
+    }
+
+    return {
+      address,
+      direction: context.direction,
+      model: context.model,
+      mint: context.mint,
+      depth: context.depth,
+      totalAmount: roots.reduce((sum, event) => sum + event.amount, 0) * scale,
+      paths: context.paths.sort((a, b) => b.attributedAmount - a.attributedAmount),
+      truncated: context.truncated,
+    };
+  }
+
+  /**
+   * Extend a path by one hop at its open end, or close it
+   */
+  private async expand(state: TraceState, context: TraceContext): Promise<void> {
+    if (context.paths.length >= context.maxPaths) {
+      context.truncated = true;
+      return;
+    }
+
+    const backward = context.direction === 'backward';
+    const address = backward ? state.addresses[0] : state.addresses[state.addresses.length - 1];
+
+    const entity = await this.getTerminalEntity(address, context);
+    if (entity) {
+      this.emit(state, 'entity', context, entity);
+      return;
+    }
+
+    if (state.hops.length >= context.depth) {
+      this.emit(state, 'depth-limit', context);
+      return;
+    }
+
+    const edge = backward ? state.hops[0] : state.hops[state.hops.length - 1];
+    const ledger = await this.getLedger(address, context);
+    const event = ledger.find(`${edge.signature}:${edge.legIndex}`);
+
+    // The transfer that brought the funds here is not in this wallet's stored history
+    if (!event) {
+      this.emit(state, backward ? 'origin' : 'held', context);
+      return;
+    }
+
+    const allocations = backward ? ledger.getFunding(event.key) : ledger.getSpending(event.key);
+
+    // Funds not explained by an earlier inflow (backward) or still held (forward) end the path here
+    const remainder = backward
+      ? allocations.filter(allocation => !allocation.inflow).reduce((sum, allocation) => sum + allocation.amount, 0)
+      : ledger.getHeld(event.key);
+    const remainderTracked = this.scale(remainder, event.amount, state.tracked, context);
+    if (remainderTracked >= context.minAmount) {
+      this.emit({ ...state, tracked: remainderTracked }, backward ? 'origin' : 'held', context);
+    }
+
+    for (const allocation of allocations) {
+      const next = backward ? allocation.inflow : allocation.outflow;
+      if (!next) continue;
+
+      const tracked = this.scale(allocation.amount, event.amount, state.tracked, context);
+      if (tracked < context.minAmount) continue;
+
+      const counterparty = backward ? next.from : next.to;
+      const hop = toHop(next, tracked);
+      const nextState: TraceState = backward
+        ? { addresses: [counterparty, ...state.addresses], hops: [hop, ...state.hops], tracked }
+        : { addresses: [...state.addresses, counterparty], hops: [...state.hops, hop], tracked };
+
+      if (state.addresses.includes(counterparty)) {
+        this.emit(nextState, 'cycle', context);
+      } else {
+        await this.expand(nextState, context);
+      }
+    }
+  }
+
+  /**
+   * Share of the tracked value carried by part of a transfer. Under poison any contact
+   * carries the full tracked value.
+   */
+  private scale(part: number, whole: number, tracked: number, context: TraceContext): number {
+    if (context.model === 'poison') return part > EPSILON ? tracked : 0;
+    return whole > EPSILON ? (part / whole) * tracked : 0;
+  }
+
+  private emit(state: TraceState, terminal: TraceTermination, context: TraceContext, entity?: TraceEntity): void {
+    if (context.paths.length >= context.maxPaths) {
+      context.truncated = true;
+      return;
+    }
+
+    const signatures: string[] = [];
+    state.hops.forEach(hop => {
+      if (!signatures.includes(hop.signature)) signatures.push(hop.signature);
+    });
+
+    context.paths.push({
+      addresses: state.addresses,
+      hops: state.hops,
+      signatures,
+      attributedAmount: state.tracked,
+      terminal,
+      entity,
+    });
+  }
+
+  private getTerminalEntity(address: string, context: TraceContext): Promise<TraceEntity | undefined> {
+    if (context.stopAtEntityTypes.length === 0) return Promise.resolve(undefined);
+
+    let entity = context.entities.get(address);
+    if (!entity) {
+      // The effective public label in effect now, when labels disagree the label rules pick one
+      entity = labelResolutionService.resolve([address])
+        .then(resolved => {
+          const label = resolved[address]?.label;
+          return label && context.stopAtEntityTypes.includes(label.type)
+            ? { id: label.entityId, name: label.entity, type: label.type }
+            : undefined;
+        });
+      context.entities.set(address, entity);
+    }
+    return entity;
+  }
+
+  private getLedger(address: string, context: TraceContext): Promise<WalletLedger> {
+    let ledger = context.ledgers.get(address);
+    if (!ledger) {
+      ledger = this.loadLedger(address, context);
+      context.ledgers.set(address, ledger);
+    }
+    return ledger;
+  }
+
+  private async loadLedger(address: string, context: TraceContext): Promise<WalletLedger> {
+    if (context.ingest) {
+      // A wallet that cannot be fetched is replayed from whatever is already stored
+      await transactionIngestionService.ingestWallet(address, { maxSignatures: context.transactionsPerWallet })
+        .catch(error => console.error(`Error ingesting ${address} for tracing:`, error));
+    }
+
+    // Most recent transactions first from storage; the ledger is replayed oldest first
+    const transactions = (await storage.getAddressTransactions(address, context.transactionsPerWallet))
+      .filter(tx => tx.status !== 'failed')
+      .reverse();
+
+    const events: LedgerEvent[] = [];
+    transactions.forEach(tx => events.push(...toLedgerEvents(tx, address, context.mint)));
+
+    return new WalletLedger(address, events.sort(compareEvents), context.model);
+  }
+}
+
+// The legs of a stored transaction that move the given mint into or out of an address
+function toLedgerEvents(tx: Transaction, address: string, mint: string): LedgerEvent[] {
+  const events: LedgerEvent[] = [];
+
+  getTransferLegs(tx).forEach((leg, legIndex) => {
+    if (leg.mint !== mint || leg.from === leg.to || leg.uiAmount <= 0) return;
+    if (leg.from !== address && leg.to !== address) return;
+
+    events.push({
+      key: `${tx.signature}:${legIndex}`,
+      signature: tx.signature,
+      legIndex,
+      from: leg.from,
+      to: leg.to,
+      amount: leg.uiAmount,
+      blockTime: tx.blockTime ? tx.blockTime.getTime() : null,
+      slot: tx.slot,
+      direction: leg.to === address ? 'in' : 'out',
+    });
+  });
+
+  return events;
+}
+
+/**
+ * Transfer legs of a stored transaction. Rows ingested before transfer decoding only
+ * have the primary SOL transfer.
+ */
+export function getTransferLegs(tx: Transaction): TransferLeg[] {
+  const metadata = tx.metadata as { transfers?: TransferLeg[] } | null;
+  if (metadata && Array.isArray(metadata.transfers)) {
+    return metadata.transfers;
+  }
+
+  return [{
+    from: tx.sourceAddress,
+    to: tx.destinationAddress,
+    mint: NATIVE_SOL_MINT,
+    amount: '0',
+    decimals: 9,
+    uiAmount: tx.amount || 0,
+  }];
+}
+
+// Slot order, then inflows before outflows of the same transaction so pass-through funds are attributed
+function compareEvents(a: LedgerEvent, b: LedgerEvent): number {
+  const slotDiff = (a.slot ?? 0) - (b.slot ?? 0);
+  if (slotDiff !== 0) return slotDiff;
+
+  const timeDiff = (a.blockTime ?? 0) - (b.blockTime ?? 0);
+  if (timeDiff !== 0) return timeDiff;
+
+  if (a.signature !== b.signature) return a.signature < b.signature ? -1 : 1;
+  if (a.direction !== b.direction) return a.direction === 'in' ? -1 : 1;
+  return a.legIndex - b.legIndex;
+}
+
+function toHop(event: LedgerEvent, amount: number): TraceHop {
+  return {
+    signature: event.signature,
+    legIndex: event.legIndex,
+    from: event.from,
+    to: event.to,
+    amount,
+    transferAmount: event.amount,
+    blockTime: event.blockTime,
+    slot: event.slot,
+  };
+}
+
+// Export a singleton instance
+export const fundTracingService = new FundTracingService();
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+
+// server/db.ts refuses to load without a connection string; nothing here queries it
+process.env.DATABASE_URL ??= 'postgres://fixtures@localhost/fixtures';
+
+const { instructionDecoderService, JUPITER_PROGRAM_ID } = await import('./instructionDecoder');
+
+const ACCOUNTS = Array.from({ length: 12 }, (_, index) => `account${index}`);
+
+// A one-step route plan: Vec length, then (swap variant, percent, input index, output index)
+const ROUTE_PLAN = Buffer.from([1, 0, 0, 0, 7, 100, 0, 1]);
+
+function discriminator(method: string): Buffer {
+  return createHash('sha256').update(`global:${method}`).digest().subarray(0, 8);
+}
+
+function u64(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+}
+
+// slippage_bps u16 followed by platform_fee_bps u8
+function settings(slippageBps: number, platformFeeBps: number): Buffer {
+  const buffer = Buffer.alloc(3);
+  buffer.writeUInt16LE(slippageBps);
+  buffer.writeUInt8(platformFeeBps, 2);
+  return buffer;
+}
+
+function decode(method: string, shared: boolean, args: Buffer[]) {
+  const data = Buffer.concat([
+    discriminator(method),
+    ...(shared ? [Buffer.from([3])] : []), // Shared accounts routes start with a program authority id
+    ROUTE_PLAN,
+    ...args,
+  ]);
+  return instructionDecoderService.decodeInstruction(JUPITER_PROGRAM_ID, ACCOUNTS, data, { index: 0 });
+}
+
+test('decodes Jupiter route', () => {
+  const decoded = decode('route', false, [u64(1_000_000n), u64(990_000n), settings(50, 0)]);
+  assert.equal(decoded.name, 'route');
+  assert.deepEqual(decoded.args, {
+    userAuthority: 'account1',
+    inAmount: '1000000',
+    quotedOutAmount: '990000',
+    slippageBps: 50,
+    platformFeeBps: 0,
+  });
+});
+
+test('decodes Jupiter routeWithTokenLedger without an input amount', () => {
+  const decoded = decode('route_with_token_ledger', false, [u64(990_000n), settings(50, 2)]);
+  assert.equal(decoded.name, 'routeWithTokenLedger');
+  assert.deepEqual(decoded.args, {
+    userAuthority: 'account1',
+    quotedOutAmount: '990000',
+    slippageBps: 50,
+    platformFeeBps: 2,
+  });
+});
+
+test('decodes Jupiter exactOutRoute', () => {
+  const decoded = decode('exact_out_route', false, [u64(500n), u64(510n), settings(100, 0)]);
+  assert.equal(decoded.name, 'exactOutRoute');
+  assert.deepEqual(decoded.args, {
+    userAuthority: 'account1',
+    outAmount: '500',
+    quotedInAmount: '510',
+    slippageBps: 100,
+    platformFeeBps: 0,
+  });
+});
+
+test('decodes Jupiter sharedAccountsRoute', () => {
+  const decoded = decode('shared_accounts_route', true, [u64(2_000_000n), u64(1_980_000n), settings(30, 1)]);
+  assert.equal(decoded.name, 'sharedAccountsRoute');
+  assert.deepEqual(decoded.args, {
+    userAuthority: 'account2',
+    inAmount: '2000000',
+    quotedOutAmount: '1980000',
+    slippageBps: 30,
+    platformFeeBps: 1,
+  });
+});
+
+test('decodes Jupiter sharedAccountsRouteWithTokenLedger without an input amount', () => {
+  const decoded = decode('shared_accounts_route_with_token_ledger', true, [u64(1_980_000n), settings(30, 0)]);
+  assert.equal(decoded.name, 'sharedAccountsRouteWithTokenLedger');
+  assert.deepEqual(decoded.args, {
+    userAuthority: 'account2',
+    quotedOutAmount: '1980000',
+    slippageBps: 30,
+    platformFeeBps: 0,
+  });
+});
+
+test('decodes Jupiter sharedAccountsExactOutRoute', () => {
+  const decoded = decode('shared_accounts_exact_out_route', true, [u64(750n), u64(760n), settings(20, 0)]);
+  assert.equal(decoded.name, 'sharedAccountsExactOutRoute');
+  assert.deepEqual(decoded.args, {
+    userAuthority: 'account2',
+    outAmount: '750',
+    quotedInAmount: '760',
+    slippageBps: 20,
+    platformFeeBps: 0,
+  });
+});
+
+test('leaves truncated Jupiter data unknown', () => {
+  const decoded = decode('route', false, [settings(50, 0)]);
+  assert.equal(decoded.program, 'jupiter');
+  assert.equal(decoded.name, 'unknown');
+});
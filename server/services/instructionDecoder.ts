@@ -0,0 +1,590 @@
+import { createHash } from 'crypto';
+import { PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { DecodedInstruction, InstructionArgValue } from '@shared/instructions';
+import { NATIVE_SOL_MINT, SOL_DECIMALS, TransferLeg, toUiAmount } from '@shared/transfers';
+import { getTransactionAccountKeys } from '../solana';
+
+export const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PQnx4Gz6d3pYjm';
+export const ASSOCIATED_TOKEN_PROGRAM_ID = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+export const MEMO_PROGRAM_ID = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
+export const MEMO_V1_PROGRAM_ID = 'Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo';
+export const RAYDIUM_AMM_PROGRAM_ID = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+export const JUPITER_PROGRAM_ID = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+export const ORCA_WHIRLPOOL_PROGRAM_ID = 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc';
+export const SERUM_DEX_PROGRAM_ID = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Result of a program-specific parser: an instruction name and its typed arguments
+ */
+export interface ParsedInstruction {
+  name: string;
+  args: Record<string, InstructionArgValue>;
+}
+
+/**
+ * A program decoder: parses raw instruction data and the instruction's ordered accounts.
+ * Returns null when the data does not match any known instruction layout.
+ */
+export interface InstructionParser {
+  program: string;
+  parse(data: Buffer, accounts: string[]): ParsedInstruction | null;
+}
+
+// Token account details needed to resolve token transfers to owners and mints
+interface TokenAccountInfo {
+  mint: string;
+  owner?: string;
+  decimals?: number;
+}
+
+/**
+ * InstructionDecoderService maps program IDs to instruction parsers:
+ * - Built-in decoders for System, SPL Token (and Token-2022), ATA, Memo and major DEX programs
+ * - Decodes top-level and inner (CPI) instructions of a fetched transaction
+ * - Derives instruction-level transfer legs so CPI transfers get direct counterparties
+ */
+export class InstructionDecoderService {
+  private parsers = new Map<string, InstructionParser>();
+
+  constructor() {
+    this.registerDecoder(SYSTEM_PROGRAM_ID, systemParser);
+    this.registerDecoder(TOKEN_PROGRAM_ID, createTokenParser('spl-token'));
+    this.registerDecoder(TOKEN_2022_PROGRAM_ID, createTokenParser('spl-token-2022'));
+    this.registerDecoder(ASSOCIATED_TOKEN_PROGRAM_ID, associatedTokenParser);
+    this.registerDecoder(MEMO_PROGRAM_ID, memoParser);
+    this.registerDecoder(MEMO_V1_PROGRAM_ID, memoParser);
+    this.registerDecoder(RAYDIUM_AMM_PROGRAM_ID, raydiumAmmParser);
+    this.registerDecoder(JUPITER_PROGRAM_ID, jupiterParser);
+    this.registerDecoder(ORCA_WHIRLPOOL_PROGRAM_ID, whirlpoolParser);
+    this.registerDecoder(SERUM_DEX_PROGRAM_ID, serumDexParser);
+  }
+
+  /**
+   * Register (or replace) the parser for a program ID
+   */
+  registerDecoder(programId: string, parser: InstructionParser): void {
+    this.parsers.set(programId, parser);
+  }
+
+  /**
+   * Whether a parser is registered for a program ID
+   */
+  hasDecoder(programId: string): boolean {
+    return this.parsers.has(programId);
+  }
+
+  /**
+   * Decode a single instruction. Unknown programs and unmatched layouts yield name "unknown".
+   */
+  decodeInstruction(
+    programId: string,
+    accounts: string[],
+    data: Buffer,
+    position: { index: number; innerIndex?: number; stackHeight?: number }
+  ): DecodedInstruction {
+    const parser = this.parsers.get(programId);
+    let parsed: ParsedInstruction | null = null;
+
+    if (parser) {
+      try {
+        parsed = parser.parse(data, accounts);
+      } catch (error) {
+        // Truncated or malformed data, keep the instruction as unknown
+        parsed = null;
+      }
+    }
+
+    return {
+      programId,
+      program: parser?.program || 'unknown',
+      name: parsed?.name || 'unknown',
+      args: parsed?.args || {},
+      accounts,
+      data: data.toString('base64'),
+      ...position,
+    };
+  }
+
+  /**
+   * Decode all instructions of a transaction. Each top-level instruction is
+   * followed by the inner instructions it invoked, in execution order.
+   */
+  decodeTransaction(tx: VersionedTransactionResponse): DecodedInstruction[] {
+    const accountKeys = getTransactionAccountKeys(tx);
+    const innerByIndex = new Map<number, any[]>();
+    (tx.meta?.innerInstructions || []).forEach(inner => {
+      innerByIndex.set(inner.index, inner.instructions);
+    });
+
+    const decoded: DecodedInstruction[] = [];
+
+    tx.transaction.message.compiledInstructions.forEach((ix, index) => {
+      decoded.push(this.decodeInstruction(
+        accountKeys[ix.programIdIndex] || '',
+        ix.accountKeyIndexes.map(i => accountKeys[i] || ''),
+        Buffer.from(ix.data),
+        { index, stackHeight: 1 }
+      ));
+
+      (innerByIndex.get(index) || []).forEach((inner, innerIndex) => {
+        decoded.push(this.decodeInstruction(
+          accountKeys[inner.programIdIndex] || '',
+          inner.accounts.map((i: number) => accountKeys[i] || ''),
+          decodeBase58(inner.data),
+          { index, innerIndex, stackHeight: inner.stackHeight ?? undefined }
+        ));
+      });
+    });
+
+    return decoded;
+  }
+
+  /**
+   * Decoded instructions split into top-level and inner lists, plus instruction-level transfers
+   */
+  decodeTransactionDetail(tx: VersionedTransactionResponse): {
+    instructions: DecodedInstruction[];
+    innerInstructions: DecodedInstruction[];
+    instructionTransfers: TransferLeg[];
+  } {
+    const decoded = this.decodeTransaction(tx);
+
+    return {
+      instructions: decoded.filter(ix => ix.innerIndex === undefined),
+      innerInstructions: decoded.filter(ix => ix.innerIndex !== undefined),
+      instructionTransfers: this.getInstructionTransfers(tx, decoded),
+    };
+  }
+
+  /**
+   * Transfer legs taken directly from System and SPL Token transfer instructions,
+   * including those executed via CPI. Unlike balance-delta legs these are not
+   * netted, so intermediate hops of a routed swap are preserved.
+   */
+  getInstructionTransfers(tx: VersionedTransactionResponse, decoded: DecodedInstruction[]): TransferLeg[] {
+    if (tx.meta?.err) return [];
+
+    const tokenAccounts = this.getTokenAccountInfo(tx, decoded);
+    const legs: TransferLeg[] = [];
+
+    decoded.forEach(ix => {
+      if (ix.program === 'system' && (ix.name === 'transfer' || ix.name === 'transferWithSeed')) {
+        const amount = String(ix.args.lamports);
+        if (ix.args.source === ix.args.destination) return;
+        legs.push({
+          from: String(ix.args.source),
+          to: String(ix.args.destination),
+          mint: NATIVE_SOL_MINT,
+          amount,
+          decimals: SOL_DECIMALS,
+          uiAmount: toUiAmount(amount, SOL_DECIMALS),
+        });
+      } else if (
+        (ix.program === 'spl-token' || ix.program === 'spl-token-2022') &&
+        (ix.name === 'transfer' || ix.name === 'transferChecked')
+      ) {
+        const source = String(ix.args.source);
+        const destination = String(ix.args.destination);
+        const sourceInfo = tokenAccounts.get(source);
+        const destinationInfo = tokenAccounts.get(destination);
+        const mint = (ix.args.mint as string) || sourceInfo?.mint || destinationInfo?.mint;
+        const decimals = (ix.args.decimals as number) ?? sourceInfo?.decimals ?? destinationInfo?.decimals;
+
+        // Without a mint the amount cannot be interpreted
+        if (!mint || decimals === undefined) return;
+
+        const from = sourceInfo?.owner || String(ix.args.authority);
+        const to = destinationInfo?.owner || destination;
+        if (from === to) return;
+
+        const amount = String(ix.args.amount);
+        legs.push({
+          from,
+          to,
+          mint,
+          amount,
+          decimals,
+          uiAmount: toUiAmount(amount, decimals),
+          fromTokenAccount: source,
+          toTokenAccount: destination,
+        });
+      }
+    });
+
+    return legs;
+  }
+
+  /**
+   * Mint, owner and decimals of every token account referenced by the transaction,
+   * from token balances and from accounts initialized within the transaction
+   */
+  private getTokenAccountInfo(
+    tx: VersionedTransactionResponse,
+    decoded: DecodedInstruction[]
+  ): Map<string, TokenAccountInfo> {
+    const accountKeys = getTransactionAccountKeys(tx);
+    const tokenAccounts = new Map<string, TokenAccountInfo>();
+
+    [...(tx.meta?.preTokenBalances || []), ...(tx.meta?.postTokenBalances || [])].forEach(balance => {
+      tokenAccounts.set(accountKeys[balance.accountIndex], {
+        mint: balance.mint,
+        owner: balance.owner,
+        decimals: balance.uiTokenAmount.decimals,
+      });
+    });
+
+    decoded
+      .filter(ix => ix.name.startsWith('initializeAccount'))
+      .forEach(ix => {
+        const account = String(ix.args.account);
+        if (tokenAccounts.has(account)) return;
+        tokenAccounts.set(account, {
+          mint: String(ix.args.mint),
+          owner: ix.args.owner ? String(ix.args.owner) : undefined,
+        });
+      });
+
+    return tokenAccounts;
+  }
+}
+
+/**
+ * Decode a base58 string (inner instruction data is returned base58 encoded)
+ */
+function decodeBase58(value: string): Buffer {
+  const bytes: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    let carry = BASE58_ALPHABET.indexOf(value[i]);
+    if (carry < 0) throw new Error(`Invalid base58 character: ${value[i]}`);
+
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Leading '1's encode leading zero bytes
+  for (let i = 0; i < value.length && value[i] === '1'; i++) {
+    bytes.push(0);
+  }
+
+  return Buffer.from(bytes.reverse());
+}
+
+/**
+ * First 8 bytes of sha256("global:<name>"), the Anchor instruction discriminator
+ */
+function anchorDiscriminator(name: string): string {
+  return createHash('sha256').update(`global:${name}`).digest().subarray(0, 8).toString('hex');
+}
+
+function readU64(data: Buffer, offset: number): string {
+  return data.readBigUInt64LE(offset).toString();
+}
+
+function readPubkey(data: Buffer, offset: number): string {
+  return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
+
+// System program: u32 instruction tag followed by fixed-size arguments
+const systemParser: InstructionParser = {
+  program: 'system',
+  parse(data, accounts): ParsedInstruction | null {
+    switch (data.readUInt32LE(0)) {
+      case 0:
+        return {
+          name: 'createAccount',
+          args: {
+            source: accounts[0],
+            newAccount: accounts[1],
+            lamports: readU64(data, 4),
+            space: readU64(data, 12),
+            owner: readPubkey(data, 20),
+          },
+        };
+      case 1:
+        return { name: 'assign', args: { account: accounts[0], owner: readPubkey(data, 4) } };
+      case 2:
+        return {
+          name: 'transfer',
+          args: { source: accounts[0], destination: accounts[1], lamports: readU64(data, 4) },
+        };
+      case 3:
+        return { name: 'createAccountWithSeed', args: { source: accounts[0], newAccount: accounts[1] } };
+      case 4:
+        return { name: 'advanceNonceAccount', args: { nonceAccount: accounts[0] } };
+      case 5:
+        return {
+          name: 'withdrawNonceAccount',
+          args: { nonceAccount: accounts[0], destination: accounts[1], lamports: readU64(data, 4) },
+        };
+      case 8:
+        return { name: 'allocate', args: { account: accounts[0], space: readU64(data, 4) } };
+      case 11:
+        return {
+          name: 'transferWithSeed',
+          args: { source: accounts[0], destination: accounts[2], lamports: readU64(data, 4) },
+        };
+      default:
+        return null;
+    }
+  },
+};
+
+// SPL Token and Token-2022 share the same base instruction set (u8 tag)
+function createTokenParser(program: string): InstructionParser {
+  return {
+    program,
+    parse(data, accounts): ParsedInstruction | null {
+      switch (data.readUInt8(0)) {
+        case 0:
+          return { name: 'initializeMint', args: { mint: accounts[0], decimals: data.readUInt8(1) } };
+        case 1:
+          return { name: 'initializeAccount', args: { account: accounts[0], mint: accounts[1], owner: accounts[2] } };
+        case 3:
+          return {
+            name: 'transfer',
+            args: { source: accounts[0], destination: accounts[1], authority: accounts[2], amount: readU64(data, 1) },
+          };
+        case 4:
+          return { name: 'approve', args: { source: accounts[0], delegate: accounts[1], amount: readU64(data, 1) } };
+        case 5:
+          return { name: 'revoke', args: { source: accounts[0] } };
+        case 6:
+          return {
+            name: 'setAuthority',
+            args: {
+              account: accounts[0],
+              authorityType: data.readUInt8(1),
+              currentAuthority: accounts[1],
+              newAuthority: data.readUInt8(2) === 1 ? readPubkey(data, 3) : null, // COption<Pubkey>
+            },
+          };
+        case 7:
+          return { name: 'mintTo', args: { mint: accounts[0], account: accounts[1], amount: readU64(data, 1) } };
+        case 8:
+          return { name: 'burn', args: { account: accounts[0], mint: accounts[1], amount: readU64(data, 1) } };
+        case 9:
+          return { name: 'closeAccount', args: { account: accounts[0], destination: accounts[1], owner: accounts[2] } };
+        case 10:
+          return { name: 'freezeAccount', args: { account: accounts[0], mint: accounts[1] } };
+        case 11:
+          return { name: 'thawAccount', args: { account: accounts[0], mint: accounts[1] } };
+        case 12:
+          return {
+            name: 'transferChecked',
+            args: {
+              source: accounts[0],
+              mint: accounts[1],
+              destination: accounts[2],
+              authority: accounts[3],
+              amount: readU64(data, 1),
+              decimals: data.readUInt8(9),
+            },
+          };
+        case 13:
+          return {
+            name: 'approveChecked',
+            args: { source: accounts[0], mint: accounts[1], delegate: accounts[2], amount: readU64(data, 1) },
+          };
+        case 14:
+          return {
+            name: 'mintToChecked',
+            args: { mint: accounts[0], account: accounts[1], amount: readU64(data, 1), decimals: data.readUInt8(9) },
+          };
+        case 15:
+          return {
+            name: 'burnChecked',
+            args: { account: accounts[0], mint: accounts[1], amount: readU64(data, 1), decimals: data.readUInt8(9) },
+          };
+        case 16:
+          return {
+            name: 'initializeAccount2',
+            args: { account: accounts[0], mint: accounts[1], owner: readPubkey(data, 1) },
+          };
+        case 17:
+          return { name: 'syncNative', args: { account: accounts[0] } };
+        case 18:
+          return {
+            name: 'initializeAccount3',
+            args: { account: accounts[0], mint: accounts[1], owner: readPubkey(data, 1) },
+          };
+        case 20:
+          return { name: 'initializeMint2', args: { mint: accounts[0], decimals: data.readUInt8(1) } };
+        default:
+          return null;
+      }
+    },
+  };
+}
+
+// Associated Token Account program: empty data is the legacy create instruction
+const associatedTokenParser: InstructionParser = {
+  program: 'spl-associated-token-account',
+  parse(data, accounts): ParsedInstruction | null {
+    const names = ['create', 'createIdempotent', 'recoverNested'];
+    const name = data.length === 0 ? 'create' : names[data.readUInt8(0)];
+    if (!name) return null;
+
+    return {
+      name,
+      args: { payer: accounts[0], account: accounts[1], owner: accounts[2], mint: accounts[3] },
+    };
+  },
+};
+
+// Memo program: the whole data buffer is a UTF-8 string
+const memoParser: InstructionParser = {
+  program: 'spl-memo',
+  parse(data): ParsedInstruction | null {
+    return { name: 'memo', args: { memo: data.toString('utf8') } };
+  },
+};
+
+// Raydium AMM v4: u8 tag, the user's token accounts and owner are the last three accounts
+const raydiumAmmParser: InstructionParser = {
+  program: 'raydium-amm',
+  parse(data, accounts): ParsedInstruction | null {
+    const userAccounts = {
+      userSource: accounts[accounts.length - 3],
+      userDestination: accounts[accounts.length - 2],
+      userOwner: accounts[accounts.length - 1],
+    };
+
+    switch (data.readUInt8(0)) {
+      case 9:
+        return {
+          name: 'swapBaseIn',
+          args: { ...userAccounts, amountIn: readU64(data, 1), minimumAmountOut: readU64(data, 9) },
+        };
+      case 11:
+        return {
+          name: 'swapBaseOut',
+          args: { ...userAccounts, maxAmountIn: readU64(data, 1), amountOut: readU64(data, 9) },
+        };
+      default:
+        return null;
+    }
+  },
+};
+
+// Jupiter v6 route instructions end with (amount u64, quoted amount u64, slippage_bps u16, platform_fee_bps u8);
+// the token ledger variants take the input amount from the ledger account and end with the last three only
+const JUPITER_ROUTES: Record<string, { name: string; exactOut: boolean; shared: boolean; tokenLedger: boolean }> = {};
+[
+  { name: 'route', exactOut: false, shared: false, tokenLedger: false },
+  { name: 'routeWithTokenLedger', exactOut: false, shared: false, tokenLedger: true },
+  { name: 'exactOutRoute', exactOut: true, shared: false, tokenLedger: false },
+  { name: 'sharedAccountsRoute', exactOut: false, shared: true, tokenLedger: false },
+  { name: 'sharedAccountsRouteWithTokenLedger', exactOut: false, shared: true, tokenLedger: true },
+  { name: 'sharedAccountsExactOutRoute', exactOut: true, shared: true, tokenLedger: false },
+].forEach(route => {
+  // Anchor hashes the snake_case method name
+  const snakeCase = route.name.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+  JUPITER_ROUTES[anchorDiscriminator(snakeCase)] = route;
+});
+
+const jupiterParser: InstructionParser = {
+  program: 'jupiter',
+  parse(data, accounts): ParsedInstruction | null {
+    const route = JUPITER_ROUTES[data.subarray(0, 8).toString('hex')];
+    if (!route) return null;
+
+    const tail = data.length - (route.tokenLedger ? 11 : 19);
+    if (tail < 8) return null;
+
+    const userAuthority = route.shared ? accounts[2] : accounts[1];
+    const amounts: Record<string, string> = route.tokenLedger
+      ? { quotedOutAmount: readU64(data, tail) }
+      : route.exactOut
+        ? { outAmount: readU64(data, tail), quotedInAmount: readU64(data, tail + 8) }
+        : { inAmount: readU64(data, tail), quotedOutAmount: readU64(data, tail + 8) };
+
+    return {
+      name: route.name,
+      args: {
+        userAuthority,
+        ...amounts,
+        slippageBps: data.readUInt16LE(data.length - 3),
+        platformFeeBps: data.readUInt8(data.length - 1),
+      },
+    };
+  },
+};
+
+const WHIRLPOOL_SWAP = anchorDiscriminator('swap');
+
+// Orca Whirlpool: only the single-pool swap is decoded
+const whirlpoolParser: InstructionParser = {
+  program: 'orca-whirlpool',
+  parse(data, accounts): ParsedInstruction | null {
+    if (data.subarray(0, 8).toString('hex') !== WHIRLPOOL_SWAP) return null;
+
+    return {
+      name: 'swap',
+      args: {
+        tokenAuthority: accounts[1],
+        whirlpool: accounts[2],
+        amount: readU64(data, 8),
+        otherAmountThreshold: readU64(data, 16),
+        amountSpecifiedIsInput: data.readUInt8(40) === 1,
+        aToB: data.readUInt8(41) === 1,
+      },
+    };
+  },
+};
+
+// Serum DEX v3: u8 version followed by a u32 tag
+const SERUM_INSTRUCTIONS: Record<number, string> = {
+  0: 'initializeMarket',
+  1: 'newOrder',
+  2: 'matchOrders',
+  3: 'consumeEvents',
+  4: 'cancelOrder',
+  5: 'settleFunds',
+  6: 'cancelOrderByClientId',
+  10: 'newOrderV3',
+  11: 'cancelOrderV2',
+  12: 'cancelOrderByClientIdV2',
+  14: 'closeOpenOrders',
+  15: 'initOpenOrders',
+  16: 'prune',
+};
+
+const serumDexParser: InstructionParser = {
+  program: 'serum-dex',
+  parse(data, accounts): ParsedInstruction | null {
+    const tag = data.readUInt32LE(1);
+    const name = SERUM_INSTRUCTIONS[tag];
+    if (!name) return null;
+
+    if (tag === 10) {
+      return {
+        name,
+        args: {
+          market: accounts[0],
+          openOrders: accounts[1],
+          side: data.readUInt32LE(5) === 0 ? 'bid' : 'ask',
+          limitPrice: readU64(data, 9),
+          maxCoinQty: readU64(data, 17),
+          maxNativePcQtyIncludingFees: readU64(data, 25),
+        },
+      };
+    }
+
+    return { name, args: { market: accounts[0] } };
+  },
+};
+
+// Export a singleton instance
+export const instructionDecoderService = new InstructionDecoderService();
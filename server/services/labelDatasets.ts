@@ -0,0 +1,314 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { storage } from '../storage';
+import { Entity, LabelDataset, WalletEntityRelation } from '@shared/schema';
+import { LabelImportResult, LabelPack, LabelRecord, LABEL_CSV_COLUMNS } from '@shared/labels';
+
+const DEFAULT_LABEL_DATASETS_DIR = 'data/labels';
+const DEFAULT_CONFIDENCE = 1;
+const MAX_REPORTED_ERRORS = 3; // Per pack skipped at startup
+
+// Provenance fields compared between versions of a label
+interface LabelFields {
+  source: string | null;
+  confidence: number;
+  validFrom: Date | null;
+  validTo: Date | null;
+}
+
+/**
+ * LabelDatasetService keeps address labels in line with imported label packs:
+ * - Packs are CSV files with a LABEL_CSV_COLUMNS header or JSON LabelPacks
+ * - A label becomes a 'dataset' assertion carrying its pack, version, source, confidence and validity
+ * - Re-importing a pack diffs it against the previous version: new labels are added, changed ones
+ *   updated and missing ones retired, so nothing an analysis relied on is deleted
+ * - Packs in LABEL_DATASETS_DIR (default data/labels) are imported at startup
+ * - Only the users named in LABEL_MAINTAINERS may import packs through the API
+ */
+export class LabelDatasetService {
+  /**
+   * Read a CSV label pack; rows are validated by validatePack
+   */
+  parseCsv(content: string, pack: Omit<LabelPack, 'labels'>): LabelPack {
+    const [header, ...rows] = parseCsvRows(content);
+    const columns = (header || []).map(column => column.trim().toLowerCase());
+    const missing = ['address', 'entity', 'type'].filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`Label CSV is missing the ${missing.join(', ')} column${missing.length === 1 ? '' : 's'}`);
+    }
+
+    const value = (row: string[], column: typeof LABEL_CSV_COLUMNS[number]) => {
+      const index = columns.indexOf(column);
+      const cell = index >= 0 ? (row[index] || '').trim() : '';
+      return cell === '' ? undefined : cell;
+    };
+
+    return {
+      ...pack,
+      labels: rows.map(row => ({
+        address: value(row, 'address') || '',
+        entity: value(row, 'entity') || '',
+        type: value(row, 'type') || '',
+        source: value(row, 'source'),
+        confidence: value(row, 'confidence') !== undefined ? Number(value(row, 'confidence')) : undefined,
+        validFrom: value(row, 'valid_from'),
+        validTo: value(row, 'valid_to'),
+      })),
+    };
+  }
+
+  /**
+   * Problems that keep a pack from being imported, one message per invalid label
+   */
+  validatePack(pack: LabelPack): string[] {
+    const errors: string[] = [];
+    if (typeof pack.name !== 'string' || pack.name.trim() === '') errors.push('The pack needs a name');
+    if (!Array.isArray(pack.labels)) return [...errors, 'The pack needs a list of labels'];
+
+    pack.labels.forEach((label, index) => {
+      const problem = validateLabel(label);
+      if (problem) errors.push(`Label ${index + 1}: ${problem}`);
+    });
+    return errors;
+  }
+
+  /**
+   * Import a pack, diffing it against the labels of its previous version
+   */
+  async importPack(pack: LabelPack, options: { importedBy?: number; force?: boolean } = {}): Promise<LabelImportResult> {
+    const errors = this.validatePack(pack);
+    if (errors.length > 0) {
+      throw new Error(`Invalid label pack ${pack.name}: ${errors[0]}`);
+    }
+
+    // The last occurrence of an address-entity pair wins
+    const labels = new Map<string, LabelRecord>();
+    pack.labels.forEach(label => labels.set(`${label.address}|${label.type}|${label.entity.toLowerCase()}`, label));
+
+    const version = pack.version || hashLabels(Array.from(labels.values()));
+    const previous = await storage.getLabelDataset(pack.name);
+    const result: LabelImportResult = {
+      dataset: pack.name,
+      version,
+      previousVersion: previous ? previous.version : null,
+      skipped: false,
+      added: 0,
+      updated: 0,
+      unchanged: 0,
+      retired: 0,
+    };
+    if (previous && previous.version === version && !options.force) {
+      return { ...result, skipped: true };
+    }
+
+    const dataset = await storage.saveLabelDataset({
+      name: pack.name,
+      version,
+      source: pack.source || null,
+      description: pack.description || null,
+      labelCount: labels.size,
+      importedBy: options.importedBy || null,
+    });
+
+    // Labels of the previous version not seen in this one are retired at the end
+    const remaining = new Map<string, { address: string; relation: WalletEntityRelation }>();
+    (await storage.getDatasetLabels(dataset.id)).forEach(row => {
+      remaining.set(`${row.address}|${row.relation.entityId}`, row);
+    });
+
+    const entities = new Map<string, Entity[]>(); // Existing entities by type
+    for (const label of Array.from(labels.values())) {
+      const entity = await this.resolveEntity(label, pack.name, entities);
+      const key = `${label.address}|${entity.id}`;
+      const current = remaining.get(key);
+      remaining.delete(key);
+
+      const fields: LabelFields = {
+        source: label.source || pack.source || null,
+        confidence: label.confidence ?? DEFAULT_CONFIDENCE,
+        validFrom: label.validFrom ? new Date(label.validFrom) : null,
+        validTo: label.validTo ? new Date(label.validTo) : null,
+      };
+      if (current && sameFields(current.relation, fields)) {
+        result.unchanged++;
+      } else if (current) {
+        await storage.updateWalletEntityRelation(current.relation.id, { datasetVersion: version, ...fields });
+        result.updated++;
+      } else {
+        const wallet = await storage.getWalletByAddress(label.address) ||
+          await storage.createWallet({ address: label.address, label: entity.name });
+        await storage.addWalletToEntity({
+          walletId: wallet.id,
+          entityId: entity.id,
+          sourceType: 'dataset',
+          datasetId: dataset.id,
+          datasetVersion: version,
+          ...fields,
+        });
+        result.added++;
+      }
+    }
+
+    const stale = Array.from(remaining.values()).map(row => row.relation.id);
+    await storage.retireWalletEntityRelations(stale);
+    result.retired = stale.length;
+
+    return result;
+  }
+
+  /**
+   * Import every CSV and JSON pack in a directory; invalid packs are reported and skipped
+   */
+  async importDirectory(
+    directory: string = path.resolve(process.env.LABEL_DATASETS_DIR || DEFAULT_LABEL_DATASETS_DIR)
+  ): Promise<LabelImportResult[]> {
+    if (!fs.existsSync(directory)) return [];
+
+    const results: LabelImportResult[] = [];
+    for (const file of fs.readdirSync(directory).sort()) {
+      const extension = path.extname(file).toLowerCase();
+      if (extension !== '.csv' && extension !== '.json') continue;
+
+      const content = fs.readFileSync(path.join(directory, file), 'utf8');
+      const pack: LabelPack = extension === '.json'
+        ? JSON.parse(content)
+        : this.parseCsv(content, { name: path.basename(file, extension) });
+
+      const errors = this.validatePack(pack);
+      if (errors.length > 0) {
+        console.warn(`Skipping label pack ${file}: ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}`);
+        continue;
+      }
+
+      const result = await this.importPack(pack);
+      if (!result.skipped) {
+        console.log(`Imported label pack ${result.dataset} ${result.version}: ${result.added} added, ${result.updated} updated, ${result.retired} retired`);
+      }
+      results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * Whether a user may import label packs: LABEL_MAINTAINERS lists their usernames, comma separated
+   */
+  isMaintainer(username: string): boolean {
+    return (process.env.LABEL_MAINTAINERS || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => name !== '')
+      .includes(username);
+  }
+
+  async getDatasets(): Promise<LabelDataset[]> {
+    return storage.getLabelDatasets();
+  }
+
+  /**
+   * Public entity with the label's name and type, created when no such entity exists
+   */
+  private async resolveEntity(label: LabelRecord, dataset: string, entities: Map<string, Entity[]>): Promise<Entity> {
+    if (!entities.has(label.type)) {
+      entities.set(label.type, await storage.getEntitiesByType(label.type));
+    }
+
+    const existing = entities.get(label.type)!.find(entity => entity.isPublic && entity.name.toLowerCase() === label.entity.toLowerCase());
+    if (existing) return existing;
+
+    const entity = await storage.createEntity({
+      name: label.entity,
+      type: label.type,
+      description: null,
+      icon: null,
+      color: null,
+      userId: null,
+      isPublic: true,
+      metadata: { source: 'label-dataset', dataset },
+    });
+    entities.get(label.type)!.push(entity);
+    return entity;
+  }
+}
+
+function validateLabel(label: LabelRecord): string | null {
+  if (!label || typeof label !== 'object') return 'not an object';
+
+  try {
+    new PublicKey(label.address);
+  } catch (error) {
+    return `invalid address ${label.address || '(empty)'}`;
+  }
+  if (typeof label.entity !== 'string' || label.entity.trim() === '') return 'missing entity name';
+  if (typeof label.type !== 'string' || label.type.trim() === '') return 'missing entity type';
+  if (label.source !== undefined && typeof label.source !== 'string') return 'source must be text';
+  if (label.confidence !== undefined && (typeof label.confidence !== 'number' || !(label.confidence >= 0 && label.confidence <= 1))) {
+    return 'confidence must be between 0 and 1';
+  }
+
+  const validFrom = label.validFrom !== undefined ? Date.parse(label.validFrom) : undefined;
+  const validTo = label.validTo !== undefined ? Date.parse(label.validTo) : undefined;
+  if (validFrom !== undefined && isNaN(validFrom)) return `invalid valid-from date ${label.validFrom}`;
+  if (validTo !== undefined && isNaN(validTo)) return `invalid valid-to date ${label.validTo}`;
+  if (validFrom !== undefined && validTo !== undefined && validFrom >= validTo) return 'valid-from must be before valid-to';
+
+  return null;
+}
+
+function sameFields(relation: WalletEntityRelation, fields: LabelFields): boolean {
+  return relation.source === fields.source &&
+    relation.confidence === fields.confidence &&
+    (relation.validFrom?.getTime() ?? null) === (fields.validFrom?.getTime() ?? null) &&
+    (relation.validTo?.getTime() ?? null) === (fields.validTo?.getTime() ?? null);
+}
+
+// Version for packs that do not state one, stable for the same set of labels
+function hashLabels(labels: LabelRecord[]): string {
+  const lines = labels
+    .map(label => [label.address, label.entity, label.type, label.source, label.confidence, label.validFrom, label.validTo].join(','))
+    .sort();
+  return createHash('sha256').update(lines.join('\n')).digest('hex').slice(0, 12);
+}
+
+// Split CSV text into rows of cells; quoted cells may contain commas, quotes ("") and line breaks
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some(value => value.trim() !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  if (row.some(value => value.trim() !== '')) rows.push(row);
+
+  return rows;
+}
+
+// Export a singleton instance
+export const labelDatasetService = new LabelDatasetService();
@@ -0,0 +1,245 @@
+import { storage } from '../storage';
+import { Entity, WalletEntityRelation } from '@shared/schema';
+import { KnownLabel, LabelSourceType, ResolvedLabel, resolveLabels } from '@shared/labels';
+
+const DEFAULT_CONFIDENCE = 1;
+
+export interface LabelViewer {
+  teamIds: number[]; // Teams whose private overlays the viewer sees
+  at?: Date; // Labels in effect at this time, default now
+}
+
+// Outcome of withdrawing an assertion
+export type LabelRetraction = 'retired' | 'hidden' | 'not-found' | 'forbidden';
+
+export interface LabelAssertionInput {
+  address: string;
+  entity: { name: string; type: string; description?: string };
+  confidence?: number;
+  evidence?: string;
+  userId: number; // The asserting analyst, who can retract it later
+  teamId?: number; // Keeps the assertion in the team's private overlay
+}
+
+/**
+ * LabelResolutionService answers which entity an address belongs to:
+ * - Every label is an assertion with its source, evidence, confidence and time; none overwrites another
+ * - Viewers see public assertions plus the private overlays of their own teams
+ * - LABEL_RULES pick the effective label when assertions disagree
+ * - Withdrawn assertions are retired rather than deleted; labels an analyst did not make are hidden
+ *   from their team with a negative team assertion instead
+ */
+export class LabelResolutionService {
+  async getViewerTeamIds(userId?: number): Promise<number[]> {
+    return userId ? storage.getUserTeamIds(userId) : [];
+  }
+
+  /**
+   * Every assertion visible to the viewer and in effect at the given time, per address
+   */
+  async getLabels(addresses: string[], viewer: LabelViewer = { teamIds: [] }): Promise<Record<string, KnownLabel[]>> {
+    return this.toLabels(await storage.getAddressLabels(addresses, viewer.teamIds), viewer);
+  }
+
+  /**
+   * Every assertion of an entity visible to the viewer and in effect at the given time, per member address
+   */
+  async getEntityLabels(entityId: number, viewer: LabelViewer = { teamIds: [] }): Promise<Record<string, KnownLabel[]>> {
+    return this.toLabels(await storage.getEntityLabels(entityId, viewer.teamIds), viewer);
+  }
+
+  private async toLabels(
+    rows: { address: string; relation: WalletEntityRelation; entity: Entity }[],
+    viewer: LabelViewer
+  ): Promise<Record<string, KnownLabel[]>> {
+    if (rows.length === 0) return {};
+
+    const at = viewer.at || new Date();
+    const datasets = new Map<number, string>();
+    if (rows.some(row => row.relation.datasetId !== null)) {
+      (await storage.getLabelDatasets()).forEach(dataset => datasets.set(dataset.id, dataset.name));
+    }
+
+    // A team's negative assertion hides the entity's other labels for the address from the team
+    const hidden = new Set(rows.filter(row => row.relation.negated).map(row => `${row.address}:${row.entity.id}`));
+
+    const labels: Record<string, KnownLabel[]> = {};
+    rows.forEach(({ address, relation, entity }) => {
+      if (relation.negated || hidden.has(`${address}:${entity.id}`)) return;
+      if (relation.validFrom && relation.validFrom > at) return;
+      if (relation.validTo && relation.validTo <= at) return;
+
+      labels[address] = [...(labels[address] || []), toKnownLabel(address, relation, entity, datasets)];
+    });
+    return labels;
+  }
+
+  /**
+   * The effective label of each address with the assertions for and against it
+   */
+  async resolve(addresses: string[], viewer: LabelViewer = { teamIds: [] }): Promise<Record<string, ResolvedLabel>> {
+    const labels = await this.getLabels(addresses, viewer);
+
+    const resolved: Record<string, ResolvedLabel> = {};
+    Object.keys(labels).forEach(address => {
+      const result = resolveLabels(labels[address]);
+      if (result) resolved[address] = result;
+    });
+    return resolved;
+  }
+
+  /**
+   * Record an analyst's label, in a team's private overlay when a team is given
+   */
+  async assertLabel(input: LabelAssertionInput): Promise<WalletEntityRelation> {
+    return this.addMember(await this.findOrCreateEntity(input), input);
+  }
+
+  /**
+   * Record an analyst's assertion that an address belongs to an existing entity
+   */
+  async addMember(entity: Entity, input: Omit<LabelAssertionInput, 'entity'>): Promise<WalletEntityRelation> {
+    const wallet = await storage.getWalletByAddress(input.address) ||
+      await storage.createWallet({ address: input.address, userId: input.userId });
+
+    return storage.addWalletToEntity({
+      walletId: wallet.id,
+      entityId: entity.id,
+      sourceType: input.teamId ? 'team' : 'analyst',
+      teamId: input.teamId || null,
+      confirmedBy: input.userId,
+      evidence: input.evidence || null,
+      confidence: input.confidence ?? DEFAULT_CONFIDENCE,
+    });
+  }
+
+  /**
+   * Take an address out of an entity, with the same rules as retractLabel: the analyst's own and their teams'
+   * assertions are retired, and when others remain they are hidden from hideForTeamId. Nothing changes when forbidden
+   */
+  async removeMember(
+    entityId: number,
+    address: string,
+    userId: number,
+    teamIds: number[],
+    hideForTeamId?: number
+  ): Promise<LabelRetraction> {
+    const relations = (await storage.getAddressLabels([address], teamIds))
+      .filter(row => row.entity.id === entityId && !row.relation.negated)
+      .map(row => row.relation);
+    if (relations.length === 0) return 'not-found';
+
+    const retractable = relations.filter(relation => relation.teamId !== null || relation.confirmedBy === userId);
+    const others = relations.filter(relation => !retractable.includes(relation));
+    if (others.length > 0 && (hideForTeamId === undefined || !teamIds.includes(hideForTeamId))) return 'forbidden';
+
+    if (retractable.length > 0) await storage.retireWalletEntityRelations(retractable.map(relation => relation.id));
+    if (others.length === 0) return 'retired';
+
+    await this.negate(others[0].walletId, entityId, userId, hideForTeamId!);
+    return 'hidden';
+  }
+
+  /**
+   * Mark an assertion as verified; undefined when the viewer cannot see it
+   */
+  async verifyLabel(id: number, userId: number, teamIds: number[]): Promise<WalletEntityRelation | undefined> {
+    const relation = await this.getVisibleAssertion(id, teamIds);
+    if (!relation) return undefined;
+
+    return storage.updateWalletEntityRelation(id, { verifiedBy: userId, verifiedAt: new Date() });
+  }
+
+  /**
+   * Withdraw an assertion. Analysts retire their own assertions and those of their teams' overlays;
+   * anyone else's, e.g. a label pack's, can only be hidden from a team of theirs by a negative team assertion
+   */
+  async retractLabel(id: number, userId: number, teamIds: number[], hideForTeamId?: number): Promise<LabelRetraction> {
+    const relation = await this.getVisibleAssertion(id, teamIds);
+    if (!relation) return 'not-found';
+
+    if (relation.teamId !== null || relation.confirmedBy === userId) {
+      await storage.retireWalletEntityRelations([id]);
+      return 'retired';
+    }
+    if (hideForTeamId === undefined || !teamIds.includes(hideForTeamId)) return 'forbidden';
+
+    await this.negate(relation.walletId, relation.entityId, userId, hideForTeamId);
+    return 'hidden';
+  }
+
+  private async negate(walletId: number, entityId: number, userId: number, teamId: number): Promise<WalletEntityRelation> {
+    return storage.addWalletToEntity({
+      walletId,
+      entityId,
+      sourceType: 'team',
+      teamId,
+      confirmedBy: userId,
+      negated: true,
+      evidence: null,
+      confidence: DEFAULT_CONFIDENCE,
+    });
+  }
+
+  private async getVisibleAssertion(id: number, teamIds: number[]): Promise<WalletEntityRelation | undefined> {
+    const relation = await storage.getWalletEntityRelation(id);
+    if (!relation || relation.retiredAt) return undefined;
+    if (relation.teamId !== null && !teamIds.includes(relation.teamId)) return undefined;
+    return relation;
+  }
+
+  /**
+   * Reuse a public entity or one of the analyst's own; entities first named in a team overlay stay private
+   */
+  private async findOrCreateEntity(input: LabelAssertionInput): Promise<Entity> {
+    const name = input.entity.name.toLowerCase();
+    const existing = (await storage.getEntitiesByType(input.entity.type)).find(entity =>
+      (entity.isPublic || entity.userId === input.userId) &&
+      entity.name.toLowerCase() === name
+    );
+    if (existing) return existing;
+
+    return storage.createEntity({
+      name: input.entity.name,
+      type: input.entity.type,
+      description: input.entity.description || null,
+      icon: null,
+      color: null,
+      userId: input.userId,
+      isPublic: !input.teamId,
+      metadata: { source: input.teamId ? 'team' : 'analyst' },
+    });
+  }
+}
+
+function toKnownLabel(
+  address: string,
+  relation: WalletEntityRelation,
+  entity: Entity,
+  datasets: Map<number, string>
+): KnownLabel {
+  return {
+    id: relation.id,
+    address,
+    entityId: entity.id,
+    entity: entity.name,
+    type: entity.type,
+    role: relation.role,
+    sourceType: relation.sourceType as LabelSourceType,
+    source: relation.source,
+    teamId: relation.teamId,
+    verified: relation.verifiedAt !== null,
+    verifiedBy: relation.verifiedBy,
+    evidence: relation.evidence,
+    confidence: relation.confidence ?? DEFAULT_CONFIDENCE,
+    assertedBy: relation.confirmedBy,
+    assertedAt: (relation.createdAt || new Date(0)).toISOString(),
+    dataset: relation.datasetId !== null ? datasets.get(relation.datasetId) || null : null,
+    datasetVersion: relation.datasetVersion,
+    validFrom: relation.validFrom ? relation.validFrom.toISOString() : null,
+    validTo: relation.validTo ? relation.validTo.toISOString() : null,
+  };
+}
+
+// Export a singleton instance
+export const labelResolutionService = new LabelResolutionService();
@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { NATIVE_SOL_MINT, TransferLeg } from '@shared/transfers';
+
+const DEFAULT_PRICE_TABLE_PATH = 'data/prices.json';
+const DEFAULT_MAX_PRICE_AGE_HOURS = 48; // A point older than this at block time leaves the transfer unpriced
+
+// Mints priced at a fixed USD value when the price table has no series for them
+const STABLECOIN_MINTS = [
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
+];
+
+// Mints that share another mint's price series
+const PRICE_ALIASES: Record<string, string> = {
+  So11111111111111111111111111111111111111112: NATIVE_SOL_MINT, // Wrapped SOL
+};
+
+/**
+ * Provider of historical USD prices
+ */
+export interface PriceSource {
+  name: string;
+  getUsdPrice(mint: string, timestamp: number): Promise<number | null>; // timestamp in unix seconds
+}
+
+const priceTableSchema = z.record(
+  z.string().min(1),
+  z.array(z.tuple([z.number().int().nonnegative(), z.number().nonnegative()]))
+);
+type PriceTable = z.infer<typeof priceTableSchema>;
+
+/**
+ * Prices from a local JSON file, for offline use. The file maps a mint (or "SOL") to
+ * [unixSeconds, usdPrice] points; a lookup uses the latest point at or before the timestamp,
+ * unless that point is more than maxAgeSeconds older.
+ *
+ *   { "SOL": [[1700000000, 56.1], [1700086400, 58.4]], "<mint>": [...] }
+ */
+export class LocalPriceTable implements PriceSource {
+  name = 'local';
+  private series = new Map<string, [number, number][]>();
+
+  constructor(readonly tablePath: string, readonly maxAgeSeconds = DEFAULT_MAX_PRICE_AGE_HOURS * 60 * 60) {
+    if (!fs.existsSync(tablePath)) {
+      console.warn(`No price table at ${tablePath}; transfers will be reported as unpriced`);
+      return;
+    }
+
+    const table = loadPriceTable(tablePath);
+    if (!table) return;
+    Object.keys(table).forEach(mint => {
+      this.series.set(mint, [...table[mint]].sort((a, b) => a[0] - b[0]));
+    });
+  }
+
+  get size(): number {
+    return this.series.size;
+  }
+
+  async getUsdPrice(mint: string, timestamp: number): Promise<number | null> {
+    const points = this.series.get(PRICE_ALIASES[mint] || mint);
+    if (!points || points.length === 0) {
+      return STABLECOIN_MINTS.includes(mint) ? 1 : null;
+    }
+
+    // Binary search for the last point at or before the timestamp
+    let low = 0;
+    let high = points.length - 1;
+    if (timestamp < points[0][0]) return null;
+
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (points[mid][0] <= timestamp) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return timestamp - points[low][0] <= this.maxAgeSeconds ? points[low][1] : null;
+  }
+}
+
+/**
+ * PriceService values transfer legs in USD at block time:
+ * - The source is selected with PRICE_SOURCE: "local" (default) or "none"
+ * - The local table is read from PRICE_TABLE_PATH (default data/prices.json); points older than
+ *   PRICE_MAX_AGE_HOURS (default 48) at block time do not count
+ * - Other providers can be plugged in with setSource
+ */
+export class PriceService {
+  private source: PriceSource | null;
+
+  constructor() {
+    const sourceName = process.env.PRICE_SOURCE || 'local';
+    this.source = sourceName === 'none'
+      ? null
+      : new LocalPriceTable(
+        path.resolve(process.env.PRICE_TABLE_PATH || DEFAULT_PRICE_TABLE_PATH),
+        (Number(process.env.PRICE_MAX_AGE_HOURS) || DEFAULT_MAX_PRICE_AGE_HOURS) * 60 * 60
+      );
+  }
+
+  /**
+   * Swap the price provider (e.g. for a live price API)
+   */
+  setSource(source: PriceSource | null): void {
+    this.source = source;
+  }
+
+  getSourceName(): string {
+    return this.source?.name || 'none';
+  }
+
+  /**
+   * Copy of the legs with usdValue set wherever a price is known.
+   * A failing source leaves the legs unpriced instead of failing the request.
+   */
+  async priceTransfers(legs: TransferLeg[], blockTime: number | null | undefined): Promise<TransferLeg[]> {
+    if (!this.source || !blockTime) return legs;
+
+    const prices = new Map<string, number | null>();
+    try {
+      for (const mint of Array.from(new Set(legs.map(leg => leg.mint)))) {
+        prices.set(mint, await this.source.getUsdPrice(mint, blockTime));
+      }
+    } catch (error) {
+      console.error('Error fetching USD prices:', error);
+      return legs;
+    }
+
+    return legs.map(leg => {
+      const price = prices.get(leg.mint);
+      return price === null || price === undefined ? leg : { ...leg, usdValue: leg.uiAmount * price };
+    });
+  }
+}
+
+// The price table, or null (everything unpriced) when it cannot be read or does not validate
+function loadPriceTable(tablePath: string): PriceTable | null {
+  try {
+    const validation = priceTableSchema.safeParse(JSON.parse(fs.readFileSync(tablePath, 'utf8')));
+    if (validation.success) return validation.data;
+    console.error(`Invalid price table in ${tablePath}, transfers will be reported as unpriced:`, validation.error.issues);
+  } catch (error) {
+    console.error(`Error reading the price table from ${tablePath}, transfers will be reported as unpriced:`, error);
+  }
+  return null;
+}
+
+// Export a singleton instance
+export const priceService = new PriceService();
@@ -0,0 +1,225 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { Entity } from '@shared/schema';
+import { NATIVE_SOL_MINT } from '@shared/transfers';
+import {
+  evaluateRisk,
+  RiskAssessment,
+  RiskInputs,
+  RiskRuleId,
+  RISK_RULE_IDS,
+  RISK_RULESET_VERSION,
+} from '@shared/risk';
+import { getTransferLegs } from './fundTracing';
+import { anomalyScoringService } from './anomalyScoring';
+import { labelResolutionService } from './labelResolution';
+import { structuringDetectionService } from './structuringDetection';
+
+const DEFAULT_RISK_RULES_PATH = 'data/risk-rules.json';
+const RISK_TRANSACTIONS = 500;
+const DEFAULT_MIXER_HOPS = 3;
+const MAX_MIXER_WALLETS = 50; // Wallets expanded while searching for a mixer; scoring runs inside requests
+const MAX_ANOMALIES = 5;
+
+/**
+ * Weight overrides for compliance review, read from a JSON file. Rules missing from
+ * "weights" keep their default; a weight of 0 disables the rule.
+ *
+ *   { "version": "2026-q4", "weights": { "mixer-proximity": 40, "new-wallet": 0 } }
+ */
+const riskRulesConfigSchema = z.object({
+  version: z.string().optional(),
+  weights: z.record(z.enum(RISK_RULE_IDS), z.number().min(0)).optional(),
+});
+type RiskRulesConfig = z.infer<typeof riskRulesConfigSchema>;
+
+/**
+ * RiskScoringService gathers the risk engine's inputs for a wallet from stored data:
+ * - Flagged exposure: counterparties belonging to flagged or high-risk entities
+ * - Mixer proximity: breadth-first search over stored transfers up to a hop limit
+ * - Baseline anomalies, first-seen time (after a full backfill) and peel chains, which the structuring
+ *   detector saves before each assessment
+ * - Weights come from RISK_RULES_PATH (default data/risk-rules.json) when present and valid
+ * - The score and breakdown are stored on the wallet (riskScore and metadata.risk)
+ */
+export class RiskScoringService {
+  private weights: Partial<Record<RiskRuleId, number>> = {};
+  private rulesetVersion = RISK_RULESET_VERSION;
+
+  constructor() {
+    const configPath = path.resolve(process.env.RISK_RULES_PATH || DEFAULT_RISK_RULES_PATH);
+    if (!fs.existsSync(configPath)) return;
+
+    const config = loadRulesConfig(configPath);
+    if (!config) return;
+    this.weights = config.weights || {};
+
+    if (Object.keys(this.weights).length > 0) {
+      const suffix = config.version || createHash('sha256').update(JSON.stringify(this.weights)).digest('hex').slice(0, 8);
+      this.rulesetVersion = `${RISK_RULESET_VERSION}+${suffix}`;
+    }
+  }
+
+  getRulesetVersion(): string {
+    return this.rulesetVersion;
+  }
+
+  /**
+   * Score an address and store the result on its wallet
+   */
+  async assessWallet(address: string, options: { mixerHops?: number; maxWallets?: number } = {}): Promise<RiskAssessment> {
+    // Save the current structuring findings first, the peel-chain rule reads them from the activity patterns
+    await structuringDetectionService.detectStructuring(address, { persist: true });
+
+    const inputs = await this.gatherInputs(address, options.mixerHops || DEFAULT_MIXER_HOPS, Math.min(options.maxWallets || MAX_MIXER_WALLETS, MAX_MIXER_WALLETS));
+    const assessment = evaluateRisk(address, inputs, { weights: this.weights, rulesetVersion: this.rulesetVersion });
+
+    let wallet = await storage.getWalletByAddress(address);
+    if (!wallet) {
+      wallet = await storage.createWallet({ address });
+    }
+    await storage.mergeWalletMetadata(wallet.id, 'risk', assessment, { riskScore: assessment.score });
+
+    return assessment;
+  }
+
+  private async gatherInputs(address: string, mixerHops: number, maxWallets: number): Promise<RiskInputs> {
+    const transactions = (await storage.getAddressTransactions(address, RISK_TRANSACTIONS))
+      .filter(tx => tx.status !== 'failed');
+
+    // SOL moved with each counterparty
+    let totalVolume = 0;
+    const volumes = new Map<string, number>();
+    transactions.forEach(tx => getTransferLegs(tx).forEach(leg => {
+      if (leg.mint !== NATIVE_SOL_MINT || leg.from === leg.to) return;
+      if (leg.from !== address && leg.to !== address) return;
+
+      const other = leg.from === address ? leg.to : leg.from;
+      totalVolume += leg.uiAmount;
+      volumes.set(other, (volumes.get(other) || 0) + leg.uiAmount);
+    }));
+
+    // Counterparties whose effective public label belongs to a flagged entity
+    const counterpartyLabels = await labelResolutionService.resolve(Array.from(volumes.keys()));
+    const counterpartyEntities = await loadEntities(Object.keys(counterpartyLabels).map(counterparty => counterpartyLabels[counterparty].label.entityId));
+    const flaggedExposure: RiskInputs['flaggedExposure'] = [];
+    Object.keys(counterpartyLabels).forEach(counterparty => {
+      const entity = counterpartyEntities.get(counterpartyLabels[counterparty].label.entityId);
+      if (entity && isFlagged(entity)) flaggedExposure.push({ address: counterparty, entity: entity.name, amount: volumes.get(counterparty) || 0 });
+    });
+
+    const { anomalies } = await anomalyScoringService.scoreWallet(address, { limit: MAX_ANOMALIES });
+
+    const wallet = await storage.getWalletByAddress(address);
+    const patterns = wallet ? await storage.getWalletActivityPatterns(wallet.id) : [];
+
+    return {
+      evaluatedAt: Date.now(),
+      firstSeen: await this.findFirstSeen(address),
+      totalVolume,
+      flaggedExposure,
+      mixerPath: await this.findMixerPath(address, mixerHops, maxWallets),
+      anomalies: anomalies.map(anomaly => ({
+        signature: anomaly.signature,
+        score: anomaly.score,
+        description: anomaly.description,
+      })),
+      peelChains: patterns
+        .filter(pattern => pattern.pattern === 'peel_chain')
+        .map(pattern => ({
+          findingId: pattern.findingId || String(pattern.id),
+          confidence: pattern.confidence ?? 0,
+          description: pattern.description || 'Peel chain',
+        })),
+    };
+  }
+
+  /**
+   * Time of the address's first transaction. Stored rows may start anywhere in its history, so it
+   * is only known once a backfill without a stop point has walked back to the first signature.
+   */
+  private async findFirstSeen(address: string): Promise<number | null> {
+    const jobs = await storage.getBackfillJobsByWallet(address);
+    if (!jobs.some(job => job.status === 'completed' && !job.untilSignature)) return null;
+
+    const [oldest] = await storage.getAddressTransactions(address, 1, 'oldest');
+    return oldest?.blockTime ? oldest.blockTime.getTime() : null;
+  }
+
+  /**
+   * Shortest path over stored transfers from the address to a wallet of a mixer entity
+   */
+  private async findMixerPath(
+    address: string,
+    maxHops: number,
+    maxWallets: number
+  ): Promise<RiskInputs['mixerPath']> {
+    const parents = new Map<string, string>([[address, address]]);
+    let frontier = [address];
+    let expanded = 0;
+
+    for (let hop = 1; hop <= maxHops && frontier.length > 0; hop++) {
+      // Neighbors of the frontier not reached yet, remembering how they were reached
+      const next: string[] = [];
+      for (const wallet of frontier) {
+        if (expanded >= maxWallets) break;
+        expanded++;
+
+        const transactions = await storage.getAddressTransactions(wallet, RISK_TRANSACTIONS);
+        transactions.forEach(tx => getTransferLegs(tx).forEach(leg => {
+          if (leg.from !== wallet && leg.to !== wallet) return;
+
+          const other = leg.from === wallet ? leg.to : leg.from;
+          if (parents.has(other)) return;
+          parents.set(other, wallet);
+          next.push(other);
+        }));
+      }
+
+      const labels = await labelResolutionService.resolve(next);
+      const mixerWallet = next.find(wallet => labels[wallet]?.label.type === 'mixer');
+      if (mixerWallet) {
+        const walletPath = [mixerWallet];
+        while (walletPath[0] !== address) walletPath.unshift(parents.get(walletPath[0])!);
+        return { entity: labels[mixerWallet].label.entity, path: walletPath };
+      }
+
+      frontier = next;
+    }
+
+    return null;
+  }
+}
+
+// The weight file, or null (defaults apply) when it cannot be read or does not validate
+function loadRulesConfig(configPath: string): RiskRulesConfig | null {
+  try {
+    const validation = riskRulesConfigSchema.safeParse(JSON.parse(fs.readFileSync(configPath, 'utf8')));
+    if (validation.success) return validation.data;
+    console.error(`Invalid risk rules in ${configPath}, using the default weights:`, validation.error.issues);
+  } catch (error) {
+    console.error(`Error reading risk rules from ${configPath}, using the default weights:`, error);
+  }
+  return null;
+}
+
+// Entity rows behind resolved labels, for the fields labels do not carry
+async function loadEntities(ids: number[]): Promise<Map<number, Entity>> {
+  const entities = new Map<number, Entity>();
+  for (const id of Array.from(new Set(ids))) {
+    const entity = await storage.getEntity(id);
+    if (entity) entities.set(id, entity);
+  }
+  return entities;
+}
+
+// Entities compliance has marked as risky; mixers are scored by their own rule
+function isFlagged(entity: Entity): boolean {
+  return entity.type !== 'mixer' && (entity.verificationStatus === 'flagged' || entity.riskLevel === 'high');
+}
+
+// Export a singleton instance
+export const riskScoringService = new RiskScoringService();
@@ -0,0 +1,261 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ConfirmedSignatureInfo, PublicKey, VersionedMessage, VersionedTransactionResponse } from '@solana/web3.js';
+import { storage } from '../storage';
+import { fixtureRecorder } from '../fixtures';
+
+const DEFAULT_HEAD_TTL_SECONDS = 30;
+const DEFAULT_CACHE_DIR = '.cache/rpc';
+
+type RpcCacheKind = 'transaction' | 'signatures';
+
+interface CachedValue {
+  value: any;
+  expiresAt: number | null;
+}
+
+/**
+ * Backing store for cached RPC responses, keyed by content hash
+ */
+export interface RpcCacheStore {
+  name: string;
+  get(key: string): Promise<CachedValue | undefined>;
+  set(key: string, kind: RpcCacheKind, value: any, expiresAt: Date | null): Promise<void>;
+}
+
+/**
+ * One JSON file per entry, sharded by the first two hex characters of the key
+ */
+export class FileRpcCacheStore implements RpcCacheStore {
+  name = 'filesystem';
+
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<CachedValue | undefined> {
+    try {
+      const content = await fs.readFile(this.getPath(key), 'utf8');
+      return JSON.parse(content);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async set(key: string, kind: RpcCacheKind, value: any, expiresAt: Date | null): Promise<void> {
+    const filePath = this.getPath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write then rename so concurrent readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    const entry: CachedValue = { value, expiresAt: expiresAt ? expiresAt.getTime() : null };
+    await fs.writeFile(tempPath, JSON.stringify(entry));
+    await fs.rename(tempPath, filePath);
+  }
+
+  private getPath(key: string): string {
+    return path.join(this.directory, key.slice(0, 2), `${key}.json`);
+  }
+}
+
+/**
+ * Entries in the rpc_cache_entries table
+ */
+export class DatabaseRpcCacheStore implements RpcCacheStore {
+  name = 'postgres';
+
+  async get(key: string): Promise<CachedValue | undefined> {
+    const entry = await storage.getRpcCacheEntry(key);
+    if (!entry) return undefined;
+    return { value: entry.value, expiresAt: entry.expiresAt ? entry.expiresAt.getTime() : null };
+  }
+
+  async set(key: string, kind: RpcCacheKind, value: any, expiresAt: Date | null): Promise<void> {
+    await storage.saveRpcCacheEntry({ key, kind, value, expiresAt });
+  }
+}
+
+/**
+ * Hit/miss counters reported on /api/health
+ */
+export interface RpcCacheStats {
+  store: string;
+  enabled: boolean;
+  transactions: { hits: number; misses: number };
+  signatures: { hits: number; misses: number };
+  errors: number;
+}
+
+/**
+ * RpcCacheService keeps raw RPC responses so repeated lookups skip the network:
+ * - getTransaction results are cached by signature and never expire
+ * - Signature pages are cached by (address, before, until, limit); pages at the head
+ *   of the history or containing unfinalized signatures expire after a short TTL
+ * - The store is selected with RPC_CACHE_STORE: "filesystem" (default), "postgres" or "none"
+ * - Disabled while recording or replaying fixtures, so every request reaches the fixture layer
+ */
+export class RpcCacheService {
+  private store: RpcCacheStore | null;
+  private headTtlMs: number;
+  private stats = {
+    transactions: { hits: 0, misses: 0 },
+    signatures: { hits: 0, misses: 0 },
+    errors: 0,
+  };
+
+  constructor() {
+    const storeName = process.env.RPC_CACHE_STORE || 'filesystem';
+
+    if (fixtureRecorder.enabled) {
+      this.store = null;
+    } else if (storeName === 'postgres') {
+      this.store = new DatabaseRpcCacheStore();
+    } else if (storeName === 'none') {
+      this.store = null;
+    } else {
+      this.store = new FileRpcCacheStore(path.resolve(process.env.RPC_CACHE_DIR || DEFAULT_CACHE_DIR));
+    }
+
+    this.headTtlMs = (parseInt(process.env.RPC_CACHE_HEAD_TTL_SECONDS || '') || DEFAULT_HEAD_TTL_SECONDS) * 1000;
+  }
+
+  /**
+   * Swap the backing store (e.g. to move the cache from disk into Postgres)
+   */
+  setStore(store: RpcCacheStore | null): void {
+    this.store = store;
+  }
+
+  /**
+   * Get a transaction by signature, calling fetch on a miss. Missing transactions are not cached.
+   */
+  async getTransaction(
+    signature: string,
+    fetch: () => Promise<VersionedTransactionResponse | null>
+  ): Promise<VersionedTransactionResponse | null> {
+    const key = this.getKey(`transaction:${signature}`);
+    const cached = await this.read(key);
+
+    if (cached) {
+      this.stats.transactions.hits++;
+      return reviveTransaction(cached);
+    }
+
+    this.stats.transactions.misses++;
+    const transaction = await fetch();
+
+    if (transaction) {
+      await this.write(key, 'transaction', serializeTransaction(transaction), null);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Get a page of signatures for an address, calling fetch on a miss
+   */
+  async getSignatures(
+    address: string,
+    options: { limit?: number; before?: string; until?: string },
+    fetch: () => Promise<ConfirmedSignatureInfo[]>
+  ): Promise<ConfirmedSignatureInfo[]> {
+    const key = this.getKey(`signatures:${address}:${options.before || ''}:${options.until || ''}:${options.limit || ''}`);
+    const cached = await this.read(key);
+
+    if (cached) {
+      this.stats.signatures.hits++;
+      return cached;
+    }
+
+    this.stats.signatures.misses++;
+    const signatures = await fetch();
+
+    // Without `before` the page starts at the live head, and unfinalized entries may still change
+    const isHead = !options.before ||
+      signatures.some(info => info.confirmationStatus && info.confirmationStatus !== 'finalized');
+    await this.write(key, 'signatures', signatures, isHead ? new Date(Date.now() + this.headTtlMs) : null);
+
+    return signatures;
+  }
+
+  /**
+   * Counters since startup
+   */
+  getStats(): RpcCacheStats {
+    return {
+      store: this.store?.name || 'none',
+      enabled: !!this.store,
+      transactions: { ...this.stats.transactions },
+      signatures: { ...this.stats.signatures },
+      errors: this.stats.errors,
+    };
+  }
+
+  private getKey(identity: string): string {
+    return createHash('sha256').update(identity).digest('hex');
+  }
+
+  // Cache failures are counted but never fail the request
+  private async read(key: string): Promise<any | undefined> {
+    if (!this.store) return undefined;
+
+    try {
+      const entry = await this.store.get(key);
+      if (!entry || (entry.expiresAt !== null && entry.expiresAt <= Date.now())) return undefined;
+      return entry.value;
+    } catch (error) {
+      this.stats.errors++;
+      console.error('Error reading RPC cache:', error);
+      return undefined;
+    }
+  }
+
+  private async write(key: string, kind: RpcCacheKind, value: any, expiresAt: Date | null): Promise<void> {
+    if (!this.store) return;
+
+    try {
+      await this.store.set(key, kind, value, expiresAt);
+    } catch (error) {
+      this.stats.errors++;
+      console.error('Error writing RPC cache:', error);
+    }
+  }
+}
+
+/**
+ * JSON-safe form of a transaction response: the message is stored in its wire format
+ */
+function serializeTransaction(tx: VersionedTransactionResponse): any {
+  return {
+    slot: tx.slot,
+    blockTime: tx.blockTime,
+    version: tx.version,
+    meta: tx.meta,
+    transaction: {
+      signatures: tx.transaction.signatures,
+      message: Buffer.from(tx.transaction.message.serialize()).toString('base64'),
+    },
+  };
+}
+
+function reviveTransaction(cached: any): VersionedTransactionResponse {
+  const meta = cached.meta;
+  if (meta?.loadedAddresses) {
+    meta.loadedAddresses = {
+      writable: meta.loadedAddresses.writable.map((key: string) => new PublicKey(key)),
+      readonly: meta.loadedAddresses.readonly.map((key: string) => new PublicKey(key)),
+    };
+  }
+
+  return {
+    ...cached,
+    meta,
+    transaction: {
+      signatures: cached.transaction.signatures,
+      message: VersionedMessage.deserialize(Buffer.from(cached.transaction.message, 'base64')),
+    },
+  };
+}
+
+// Export a singleton instance
+export const rpcCacheService = new RpcCacheService();
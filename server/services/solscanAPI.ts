@@ -1,5 +1,9 @@
-import fetch from 'node-fetch';
+import nodeFetch from 'node-fetch';
 import { log } from '../vite';
+import { fixtureRecorder } from '../fixtures';
+
+// Solscan responses are recorded or replayed when a fixture mode is active
+const fetch = fixtureRecorder.wrapFetch('solscan', nodeFetch);
 
 const SOLSCAN_API_BASE = 'https://public-api.solscan.io';
 const SOLSCAN_API_KEY = process.env.SOLSCAN_API_KEY;
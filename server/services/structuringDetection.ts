@@ -0,0 +1,441 @@
+import { createHash } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { storage } from '../storage';
+import { InsertActivityPattern } from '@shared/schema';
+import { NATIVE_SOL_MINT, getMintSymbol } from '@shared/transfers';
+import { TraceHop } from '@shared/tracing';
+import { StructuringFinding, StructuringPattern, StructuringResult, StructuringRole } from '@shared/structuring';
+import { getSignaturesForAddress } from '../solana';
+import { getTransferLegs } from './fundTracing';
+import { labelResolutionService } from './labelResolution';
+
+const DEFAULT_DEPTH = 3;
+const DEFAULT_MAX_WALLETS = 150;
+const DEFAULT_TRANSACTIONS_PER_WALLET = 500;
+const DEFAULT_MIN_AMOUNT = 0.001;
+const DEFAULT_FRESH_WALLET_TRANSACTIONS = 10;
+const DEFAULT_MIN_PEEL_HOPS = 3;
+const DEFAULT_MAX_PEEL_SHARE = 0.3;
+const DEFAULT_MAX_HOP_DELAY_HOURS = 24;
+const DEFAULT_MIN_FAN_WALLETS = 5;
+const DEFAULT_FAN_WINDOW_HOURS = 24;
+const MAX_CONFIDENCE = 0.95;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface StructuringOptions {
+  mint?: string;
+  depth?: number; // Hops from the analyzed wallet whose history is loaded
+  maxWallets?: number;
+  transactionsPerWallet?: number;
+  minAmount?: number; // Smaller transfers are ignored
+  freshWalletTransactions?: number; // An unlabeled wallet with at most this many on-chain transactions counts as fresh
+  minPeelHops?: number; // Forwarding wallets needed for a peel chain
+  maxPeelShare?: number; // Largest share of the received value a peel chain wallet may skim
+  maxHopDelayHours?: number; // Time a peel chain wallet may hold the funds before forwarding
+  minFanWallets?: number; // Distinct fresh wallets needed for a fan-out or fan-in
+  fanWindowHours?: number;
+  persist?: boolean; // Save findings as activity patterns of every participating wallet
+  userId?: number;
+}
+
+type StructuringSettings = Required<Omit<StructuringOptions, 'persist' | 'userId'>>;
+
+// Transfers of one mint around the analyzed wallet, oldest first per wallet
+interface TransferGraph {
+  outgoing: Map<string, TraceHop[]>;
+  incoming: Map<string, TraceHop[]>;
+  transactionCounts: Map<string, number>; // Stored transactions of every loaded wallet
+  fresh: Set<string>; // Loaded wallets with few on-chain transactions and no label
+}
+
+// Transfers between one hub and many fresh wallets
+interface FanGroup {
+  hub: string;
+  counterparties: string[];
+  hops: TraceHop[];
+  confidence: number;
+}
+
+/**
+ * StructuringDetectionService finds laundering shapes in the ingested transfer graph:
+ * - Loads stored history breadth-first from the analyzed wallet, up to a wallet limit
+ * - Wallets are fresh when they have few transactions on chain and no label
+ * - Wallets whose history fills the per-wallet limit are busy services and not reported as fan hubs
+ * - Findings can be persisted as activity patterns linked to each participating wallet
+ */
+export class StructuringDetectionService {
+  /**
+   * Detect peel chains, fan-outs, fan-ins and split-merges around an address
+   */
+  async detectStructuring(address: string, options: StructuringOptions = {}): Promise<StructuringResult> {
+    const settings: StructuringSettings = {
+      mint: options.mint || NATIVE_SOL_MINT,
+      depth: options.depth ?? DEFAULT_DEPTH,
+      maxWallets: options.maxWallets || DEFAULT_MAX_WALLETS,
+      transactionsPerWallet: options.transactionsPerWallet || DEFAULT_TRANSACTIONS_PER_WALLET,
+      minAmount: options.minAmount ?? DEFAULT_MIN_AMOUNT,
+      freshWalletTransactions: options.freshWalletTransactions || DEFAULT_FRESH_WALLET_TRANSACTIONS,
+      minPeelHops: options.minPeelHops || DEFAULT_MIN_PEEL_HOPS,
+      maxPeelShare: options.maxPeelShare ?? DEFAULT_MAX_PEEL_SHARE,
+      maxHopDelayHours: options.maxHopDelayHours || DEFAULT_MAX_HOP_DELAY_HOURS,
+      minFanWallets: options.minFanWallets || DEFAULT_MIN_FAN_WALLETS,
+      fanWindowHours: options.fanWindowHours || DEFAULT_FAN_WINDOW_HOURS,
+    };
+
+    const { graph, truncated } = await this.loadGraph(address, settings);
+    await this.markFreshWallets(graph, settings);
+
+    const fanOuts = this.findFans(graph, settings, 'out');
+    const fanIns = this.findFans(graph, settings, 'in');
+    const splitMerges = this.findSplitMerges(fanOuts, fanIns, settings);
+
+    const findings = [
+      ...this.findPeelChains(graph, settings),
+      ...splitMerges.findings,
+      ...fanOuts.filter(fan => !splitMerges.merged.has(fan)).map(fan => toFanFinding(fan, 'fan_out', settings.mint)),
+      ...fanIns.filter(fan => !splitMerges.merged.has(fan)).map(fan => toFanFinding(fan, 'fan_in', settings.mint)),
+    ].sort((a, b) => b.confidence - a.confidence);
+
+    if (options.persist) {
+      await this.saveFindings(findings, settings.mint, options.userId);
+    }
+
+    return {
+      address,
+      mint: settings.mint,
+      walletsScanned: graph.transactionCounts.size,
+      findings,
+      truncated,
+    };
+  }
+
+  /**
+   * Breadth-first load of stored transfers, following counterparties in both directions
+   */
+  private async loadGraph(
+    address: string,
+    settings: StructuringSettings
+  ): Promise<{ graph: TransferGraph; truncated: boolean }> {
+    const graph: TransferGraph = { outgoing: new Map(), incoming: new Map(), transactionCounts: new Map(), fresh: new Set() };
+    const seenLegs = new Set<string>();
+    let truncated = false;
+
+    let frontier = [address];
+    for (let round = 0; round <= settings.depth && frontier.length > 0 && !truncated; round++) {
+      const next: string[] = [];
+      for (const wallet of frontier) {
+        if (graph.transactionCounts.has(wallet)) continue;
+        if (graph.transactionCounts.size >= settings.maxWallets) {
+          truncated = true;
+          break;
+        }
+
+        const transactions = await storage.getAddressTransactions(wallet, settings.transactionsPerWallet);
+        graph.transactionCounts.set(wallet, transactions.length);
+
+        transactions
+          .filter(tx => tx.status !== 'failed' && tx.blockTime)
+          .forEach(tx => {
+            getTransferLegs(tx).forEach((leg, legIndex) => {
+              if (leg.mint !== settings.mint || leg.from === leg.to || leg.uiAmount < settings.minAmount) return;
+              if (leg.from !== wallet && leg.to !== wallet) return;
+
+              const key = `${tx.signature}:${legIndex}`;
+              if (seenLegs.has(key)) return;
+              seenLegs.add(key);
+
+              const hop: TraceHop = {
+                signature: tx.signature,
+                legIndex,
+                from: leg.from,
+                to: leg.to,
+                amount: leg.uiAmount,
+                transferAmount: leg.uiAmount,
+                blockTime: tx.blockTime!.getTime(),
+                slot: tx.slot,
+              };
+              graph.outgoing.set(hop.from, [...(graph.outgoing.get(hop.from) || []), hop]);
+              graph.incoming.set(hop.to, [...(graph.incoming.get(hop.to) || []), hop]);
+              next.push(hop.from === wallet ? hop.to : hop.from);
+            });
+          });
+      }
+      frontier = next;
+    }
+
+    graph.outgoing.forEach(hops => hops.sort(compareHops));
+    graph.incoming.forEach(hops => hops.sort(compareHops));
+    return { graph, truncated };
+  }
+
+  /**
+   * Mark the loaded wallets with at most freshWalletTransactions on chain. Stored history is only a
+   * lower bound, so wallets with few stored transactions are checked with one signature page each;
+   * labeled wallets (exchanges, services) are never fresh.
+   */
+  private async markFreshWallets(graph: TransferGraph, settings: StructuringSettings): Promise<void> {
+    const candidates = Array.from(graph.transactionCounts.keys())
+      .filter(address => graph.transactionCounts.get(address)! <= settings.freshWalletTransactions);
+    if (candidates.length === 0) return;
+
+    const labels = await labelResolutionService.resolve(candidates);
+    for (const address of candidates) {
+      if (labels[address]) continue;
+
+      try {
+        const signatures = await getSignaturesForAddress(new PublicKey(address), {
+          limit: settings.freshWalletTransactions + 1,
+        });
+        if (signatures.length <= settings.freshWalletTransactions) graph.fresh.add(address);
+      } catch (error) {
+        console.error(`Error checking the history of ${address}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Chains of fresh wallets, each forwarding the bulk of a receipt onward soon after
+   */
+  private findPeelChains(graph: TransferGraph, settings: StructuringSettings): StructuringFinding[] {
+    const isFresh = (address: string) => graph.fresh.has(address);
+    const symbol = getMintSymbol(settings.mint);
+
+    // The link following a hop: the largest slightly smaller transfer out of the fresh recipient
+    const links = new Map<string, TraceHop>();
+    const linkedHops = new Map<string, TraceHop>();
+    graph.outgoing.forEach(hops => hops.forEach(hop => {
+      if (!isFresh(hop.to)) return;
+
+      const forwards = (graph.outgoing.get(hop.to) || []).filter(out =>
+        out.blockTime! >= hop.blockTime! &&
+        out.blockTime! <= hop.blockTime! + settings.maxHopDelayHours * HOUR_MS &&
+        out.amount < hop.amount &&
+        out.amount >= hop.amount * (1 - settings.maxPeelShare)
+      );
+      if (forwards.length === 0) return;
+
+      links.set(hopKey(hop), forwards.reduce((best, out) => out.amount > best.amount ? out : best));
+      linkedHops.set(hopKey(hop), hop);
+    }));
+
+    const linked = new Set(Array.from(links.values()).map(hopKey));
+    const findings: StructuringFinding[] = [];
+
+    links.forEach((_, key) => {
+      if (linked.has(key)) return; // Only start at chain heads
+      const head = linkedHops.get(key)!;
+
+      const chain = [head];
+      const visited = new Set([head.from, head.to]);
+      let next = links.get(key);
+      while (next && !visited.has(next.to)) {
+        chain.push(next);
+        visited.add(next.to);
+        next = links.get(hopKey(next));
+      }
+
+      const forwardingWallets = chain.length - 1;
+      if (forwardingWallets < settings.minPeelHops) return;
+
+      const last = chain[chain.length - 1];
+      const wallets = [head.from, ...chain.map(hop => hop.to)];
+      const roles: Record<string, StructuringRole> = {};
+      wallets.forEach((wallet, index) => {
+        roles[wallet] = index === 0 ? 'source' : index === wallets.length - 1 ? 'recipient' : 'intermediary';
+      });
+
+      findings.push(createFinding('peel_chain', wallets, roles, chain,
+        Math.min(MAX_CONFIDENCE, 1 - Math.pow(0.7, forwardingWallets)),
+        `Peel chain of ${forwardingWallets} fresh wallets: ${head.amount.toFixed(4)} ${symbol} in, ${last.amount.toFixed(4)} ${symbol} out, ${(head.amount - last.amount).toFixed(4)} ${symbol} skimmed along the way`
+      ));
+    });
+
+    return findings;
+  }
+
+  /**
+   * Windows in which one loaded wallet transfers to (out) or from (in) many distinct fresh wallets
+   */
+  private findFans(graph: TransferGraph, settings: StructuringSettings, direction: 'out' | 'in'): FanGroup[] {
+    const fans: FanGroup[] = [];
+    const counterpartyOf = (hop: TraceHop) => direction === 'out' ? hop.to : hop.from;
+
+    (direction === 'out' ? graph.outgoing : graph.incoming).forEach((hops, hub) => {
+      const transactionCount = graph.transactionCounts.get(hub);
+      if (transactionCount === undefined || transactionCount >= settings.transactionsPerWallet) return;
+
+      const candidates = hops.filter(hop => graph.fresh.has(counterpartyOf(hop)));
+      let start = 0;
+      while (start < candidates.length) {
+        const windowEnd = candidates[start].blockTime! + settings.fanWindowHours * HOUR_MS;
+        let end = start;
+        while (end < candidates.length && candidates[end].blockTime! <= windowEnd) end++;
+
+        const group = candidates.slice(start, end);
+        const counterparties = Array.from(new Set(group.map(counterpartyOf)));
+        if (counterparties.length < settings.minFanWallets) {
+          start++;
+          continue;
+        }
+
+        // Evenly sized transfers look more deliberate
+        const amounts = group.map(hop => hop.amount);
+        const mean = amounts.reduce((sum, amount) => sum + amount, 0) / amounts.length;
+        const stdDev = Math.sqrt(amounts.reduce((sum, amount) => sum + Math.pow(amount - mean, 2), 0) / amounts.length);
+        const uniformity = Math.max(0, 1 - stdDev / mean);
+
+        fans.push({
+          hub,
+          counterparties,
+          hops: group,
+          confidence: Math.min(MAX_CONFIDENCE, (1 - Math.pow(0.8, counterparties.length)) * (0.7 + 0.3 * uniformity)),
+        });
+        start = end;
+      }
+    });
+
+    return fans;
+  }
+
+  /**
+   * Fan-outs whose fresh wallets later consolidate into the same fan-in
+   */
+  private findSplitMerges(
+    fanOuts: FanGroup[],
+    fanIns: FanGroup[],
+    settings: StructuringSettings
+  ): { findings: StructuringFinding[]; merged: Set<FanGroup> } {
+    const findings: StructuringFinding[] = [];
+    const merged = new Set<FanGroup>();
+    const symbol = getMintSymbol(settings.mint);
+
+    fanOuts.forEach(fanOut => {
+      const recipients = new Set(fanOut.counterparties);
+      const splitStart = fanOut.hops[0].blockTime!;
+
+      fanIns.forEach(fanIn => {
+        if (fanIn.hops[fanIn.hops.length - 1].blockTime! < splitStart) return;
+
+        const shared = fanIn.counterparties.filter(wallet => recipients.has(wallet));
+        if (shared.length < settings.minFanWallets) return;
+
+        const sharedSet = new Set(shared);
+        const splitHops = fanOut.hops.filter(hop => sharedSet.has(hop.to));
+        const mergeHops = fanIn.hops.filter(hop => sharedSet.has(hop.from) && hop.blockTime! >= splitStart);
+
+        const roles: Record<string, StructuringRole> = {};
+        shared.forEach(wallet => { roles[wallet] = 'intermediary'; });
+        roles[fanOut.hub] = 'source';
+        roles[fanIn.hub] = fanIn.hub === fanOut.hub ? 'source' : 'target';
+
+        const splitAmount = splitHops.reduce((sum, hop) => sum + hop.amount, 0);
+        const mergeAmount = mergeHops.reduce((sum, hop) => sum + hop.amount, 0);
+        findings.push(createFinding('split_merge',
+          Array.from(new Set([fanOut.hub, ...shared, fanIn.hub])),
+          roles,
+          [...splitHops, ...mergeHops],
+          Math.min(MAX_CONFIDENCE, 1 - (1 - fanOut.confidence) * (1 - fanIn.confidence)),
+          `Split of ${splitAmount.toFixed(4)} ${symbol} across ${shared.length} fresh wallets, ${mergeAmount.toFixed(4)} ${symbol} consolidated again`
+        ));
+        merged.add(fanOut);
+        merged.add(fanIn);
+      });
+    });
+
+    return { findings, merged };
+  }
+
+  /**
+   * Save each finding as an activity pattern of every participating wallet
+   */
+  private async saveFindings(findings: StructuringFinding[], mint: string, userId?: number): Promise<void> {
+    for (const finding of findings) {
+      const patterns: InsertActivityPattern[] = [];
+      for (const address of finding.wallets) {
+        let wallet = await storage.getWalletByAddress(address);
+        if (!wallet) {
+          wallet = await storage.createWallet({ address, userId });
+        }
+
+        patterns.push({
+          walletId: wallet.id,
+          pattern: finding.pattern,
+          firstObserved: new Date(finding.startTime),
+          lastObserved: new Date(finding.endTime),
+          frequency: 'irregular',
+          confidence: finding.confidence,
+          description: finding.description,
+          metadata: {
+            role: finding.roles[address],
+            mint,
+            wallets: finding.wallets,
+            hops: finding.hops,
+            signatures: finding.signatures,
+            totalAmount: finding.totalAmount,
+          },
+          findingId: finding.id,
+          userId,
+        });
+      }
+      await storage.saveFindingPatterns(patterns);
+    }
+  }
+}
+
+function toFanFinding(fan: FanGroup, pattern: 'fan_out' | 'fan_in', mint: string): StructuringFinding {
+  const roles: Record<string, StructuringRole> = {};
+  fan.counterparties.forEach(wallet => { roles[wallet] = pattern === 'fan_out' ? 'recipient' : 'sender'; });
+  roles[fan.hub] = pattern === 'fan_out' ? 'source' : 'target';
+
+  const total = fan.hops.reduce((sum, hop) => sum + hop.amount, 0);
+  const symbol = getMintSymbol(mint);
+  const hours = (fan.hops[fan.hops.length - 1].blockTime! - fan.hops[0].blockTime!) / HOUR_MS;
+  return createFinding(pattern,
+    pattern === 'fan_out' ? [fan.hub, ...fan.counterparties] : [...fan.counterparties, fan.hub],
+    roles,
+    fan.hops,
+    fan.confidence,
+    pattern === 'fan_out'
+      ? `Fan-out of ${total.toFixed(4)} ${symbol} to ${fan.counterparties.length} fresh wallets within ${hours.toFixed(1)} hours`
+      : `Fan-in of ${total.toFixed(4)} ${symbol} from ${fan.counterparties.length} fresh wallets within ${hours.toFixed(1)} hours`
+  );
+}
+
+function createFinding(
+  pattern: StructuringPattern,
+  wallets: string[],
+  roles: Record<string, StructuringRole>,
+  hops: TraceHop[],
+  confidence: number,
+  description: string
+): StructuringFinding {
+  const identity = JSON.stringify([pattern, hops.map(hopKey).sort()]);
+  const times = hops.map(hop => hop.blockTime!);
+
+  return {
+    id: `sf_${createHash('sha256').update(identity).digest('hex').slice(0, 32)}`,
+    pattern,
+    wallets,
+    roles,
+    hops,
+    signatures: Array.from(new Set(hops.map(hop => hop.signature))),
+    totalAmount: pattern === 'fan_in'
+      ? hops.reduce((sum, hop) => sum + hop.amount, 0)
+      : hops.filter(hop => hop.from === wallets[0]).reduce((sum, hop) => sum + hop.amount, 0),
+    startTime: Math.min(...times),
+    endTime: Math.max(...times),
+    confidence,
+    description,
+  };
+}
+
+function hopKey(hop: TraceHop): string {
+  return `${hop.signature}:${hop.legIndex}`;
+}
+
+function compareHops(a: TraceHop, b: TraceHop): number {
+  return a.blockTime! - b.blockTime! || (a.slot ?? 0) - (b.slot ?? 0) || a.legIndex - b.legIndex;
+}
+
+// Export a singleton instance
+export const structuringDetectionService = new StructuringDetectionService();
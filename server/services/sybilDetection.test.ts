@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Transaction } from '@shared/schema';
+
+// server/db.ts refuses to load without a connection string; storage reads are replaced below
+process.env.DATABASE_URL ??= 'postgres://fixtures@localhost/fixtures';
+
+const { storage } = await import('../storage');
+const { labelResolutionService } = await import('./labelResolution');
+const { sybilDetectionService, DEFAULT_SYBIL_PARAMETERS } = await import('./sybilDetection');
+const { NATIVE_SOL_MINT } = await import('@shared/transfers');
+
+const FUNDER = 'Funder1111111111111111111111111111111111111';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A SOL transfer creating the recipient's account, a day apart per slot so creation times never link
+function funding(from: string, to: string, slot: number): Transaction {
+  return {
+    signature: `fund-${from}-${to}`,
+    sourceAddress: from,
+    destinationAddress: to,
+    amount: 0.01,
+    blockTime: new Date(1_700_000_000_000 + slot * DAY_MS),
+    slot,
+    status: 'success',
+    type: 'transfer',
+    programId: null,
+    metadata: {
+      signers: [from],
+      fundedAccounts: [to],
+      transfers: [{ from, to, mint: NATIVE_SOL_MINT, amount: '10000000', decimals: 9, uiAmount: 0.01 }],
+    },
+  } as Transaction;
+}
+
+// Serve the histories from memory: each address sees the transactions it takes part in, and nothing is labeled
+function useHistory(transactions: Transaction[]) {
+  (storage as any).getAddressTransactions = async (address: string) =>
+    transactions.filter(tx => tx.sourceAddress === address || tx.destinationAddress === address);
+  (labelResolutionService as any).resolve = async () => ({});
+}
+
+test('links a farm of 60 claimants seeded by one funder', async () => {
+  const claimants = Array.from({ length: 60 }, (_, index) => `Claimant${index}`);
+  useHistory(claimants.map((claimant, index) => funding(FUNDER, claimant, index)));
+
+  const result = await sybilDetectionService.scoreBatch(claimants, DEFAULT_SYBIL_PARAMETERS);
+  assert.equal(result.clusters.length, 1);
+  assert.equal(result.clusters[0].addresses.length, 60);
+  assert.equal(result.clusters[0].signals['funding-source'], 60 * 59 / 2);
+  assert.deepEqual(result.unlinked, []);
+});
+
+test('ignores a funder that seeds many wallets outside the batch', async () => {
+  const claimants = ['ClaimantA', 'ClaimantB', 'ClaimantC'];
+  const outsiders = Array.from({ length: 60 }, (_, index) => `Outsider${index}`);
+  useHistory([
+    ...claimants.map((claimant, index) => funding(FUNDER, claimant, index)),
+    ...outsiders.map((outsider, index) => funding(FUNDER, outsider, 100 + index)),
+  ]);
+
+  const result = await sybilDetectionService.scoreBatch(claimants, DEFAULT_SYBIL_PARAMETERS);
+  assert.deepEqual(result.clusters, []);
+  assert.deepEqual(result.unlinked, claimants);
+});
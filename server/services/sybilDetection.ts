@@ -0,0 +1,462 @@
+import { storage } from '../storage';
+import { SybilDetectionJob, Transaction } from '@shared/schema';
+import { NATIVE_SOL_MINT } from '@shared/transfers';
+import { SybilCluster, SybilEvidence, SybilParameters, SybilResult, SybilSignal } from '@shared/sybil';
+import { UnionFind } from '../clustering';
+import { getTransferLegs } from './fundTracing';
+import { transactionIngestionService } from './transactionIngestion';
+import { labelResolutionService } from './labelResolution';
+
+const ACTION_SEQUENCE_LENGTH = 20; // Earliest transactions compared per address
+const MIN_ACTION_SEQUENCE_LENGTH = 3;
+const MAX_EVIDENCE_PER_CLUSTER = 100;
+const COUNTERPARTY_TRANSACTIONS = 500; // History of each funder and fee payer read to measure its fan-out
+const HOUR_MS = 60 * 60 * 1000;
+const ACTIVE_STATUSES: SybilDetectionJob['status'][] = ['pending', 'running'];
+
+export const DEFAULT_SYBIL_PARAMETERS: SybilParameters = {
+  ingest: true,
+  transactionsPerWallet: 100,
+  minScore: 0.6,
+  creationWindowHours: 6,
+  maxFeePayerWallets: 20,
+  maxFundedWallets: 50,
+};
+
+// Funders, fee payers and token destinations of these entity types serve everyone and link nobody
+const SERVICE_ENTITY_TYPES = ['exchange', 'bridge'];
+
+/**
+ * Weight of each similarity between two claimant addresses, scaled by how similar they are:
+ * - gas-payer: the same third party paid fees for both
+ * - token-destination: both sent tokens to the same address, or one to the other
+ * - funding-source: both were first funded by the same address, or one by the other
+ * - action-sequence: their earliest transactions follow the same sequence of types and programs
+ * - creation-time: their first transactions are close in time
+ */
+export const SYBIL_SIGNAL_WEIGHTS: Record<SybilSignal, number> = {
+  'gas-payer': 0.85,
+  'token-destination': 0.8,
+  'funding-source': 0.6,
+  'action-sequence': 0.4,
+  'creation-time': 0.3,
+};
+
+// What is compared between two addresses, from their earliest stored transactions
+interface AddressProfile {
+  address: string;
+  createdAt: number | null; // First stored transaction, milliseconds since epoch
+  funder?: { address: string; signature: string };
+  feePayers: Map<string, string>; // Third-party fee payer -> a signature it paid for
+  tokenDestinations: Map<string, string>; // Recipient of outgoing tokens -> a signature
+  actions: string[];
+}
+
+interface TransactionMetadata {
+  signers?: string[];
+  fundedAccounts?: string[];
+}
+
+/**
+ * SybilDetectionService tells whether a batch of addresses (e.g. airdrop claimants) is one farmer:
+ * - Ingests the first transactions of every address in the batch, walking its signatures back to genesis
+ * - Scores every pair on funding source, creation time, action sequence, gas payer and token destination
+ * - Ignores fee payers and funders serving more wallets outside the batch than the caps, as relayers and services;
+ *   their fan-out is measured on their own stored history, so a large farm does not hide its own funder
+ * - Links pairs at or above the minimum score with union-find, strongest first
+ * - Runs as a background job with progress, cancellation and resumption like backfill jobs
+ */
+export class SybilDetectionService {
+  // Cancellation flags of jobs running in this process
+  private activeJobs = new Map<number, { cancelled: boolean }>();
+
+  /**
+   * Create a detection job for a batch of addresses and start it
+   */
+  async startDetection(addresses: string[], parameters: Partial<SybilParameters> = {}): Promise<SybilDetectionJob> {
+    const job = await storage.createSybilDetectionJob({
+      addresses: Array.from(new Set(addresses)),
+      parameters: { ...DEFAULT_SYBIL_PARAMETERS, ...parameters },
+    });
+
+    this.launch(job.id);
+    return job;
+  }
+
+  /**
+   * Request cancellation. Running jobs stop after their current address.
+   */
+  async cancelJob(id: number): Promise<SybilDetectionJob | undefined> {
+    const job = await storage.getSybilDetectionJob(id);
+    if (!job || !ACTIVE_STATUSES.includes(job.status)) return job;
+
+    const control = this.activeJobs.get(id);
+    if (control) {
+      control.cancelled = true;
+      return job;
+    }
+
+    return storage.updateSybilDetectionJob(id, { status: 'cancelled', completedAt: new Date() });
+  }
+
+  /**
+   * Restart jobs that were pending or running when the server stopped; they start over,
+   * and addresses ingested before the restart only fetch what is new
+   */
+  async resumeInterruptedJobs(): Promise<number> {
+    const jobs = await storage.getSybilDetectionJobsByStatus(ACTIVE_STATUSES);
+    jobs.forEach(job => this.launch(job.id));
+
+    if (jobs.length > 0) {
+      console.log(`Resuming ${jobs.length} sybil detection job(s)`);
+    }
+    return jobs.length;
+  }
+
+  private launch(id: number): void {
+    if (this.activeJobs.has(id)) return;
+
+    const control = { cancelled: false };
+    this.activeJobs.set(id, control);
+
+    this.runJob(id, control)
+      .catch(async error => {
+        console.error(`Error running sybil detection job ${id}:`, error);
+        await storage.updateSybilDetectionJob(id, {
+          status: 'failed',
+          error: error.message || 'Unknown error',
+          completedAt: new Date(),
+        }).catch(() => undefined);
+      })
+      .finally(() => this.activeJobs.delete(id));
+  }
+
+  private async runJob(id: number, control: { cancelled: boolean }): Promise<void> {
+    let job = await storage.getSybilDetectionJob(id);
+    if (!job) return;
+
+    job = (await storage.updateSybilDetectionJob(id, {
+      status: 'running',
+      startedAt: job.startedAt || new Date(),
+      addressesIngested: 0,
+      error: null,
+    }))!;
+
+    const { addresses, parameters } = job;
+    const failed: string[] = [];
+    const partialHistory: string[] = [];
+    if (parameters.ingest) {
+      for (let i = 0; i < addresses.length; i++) {
+        if (control.cancelled) {
+          await storage.updateSybilDetectionJob(id, { status: 'cancelled', completedAt: new Date() });
+          return;
+        }
+
+        const address = addresses[i];
+        try {
+          const ingested = await transactionIngestionService.ingestOldest(address, parameters.transactionsPerWallet);
+          if (!ingested.reachedGenesis) partialHistory.push(address);
+        } catch (error) {
+          console.error(`Error ingesting ${address} for sybil detection:`, error);
+          failed.push(address);
+        }
+        await storage.updateSybilDetectionJob(id, { addressesIngested: i + 1 });
+      }
+    }
+
+    const result = await this.scoreBatch(addresses, parameters, failed, partialHistory);
+    await storage.updateSybilDetectionJob(id, { status: 'completed', result, completedAt: new Date() });
+    console.log(`Sybil detection job ${id} completed: ${result.clusters.length} clusters among ${addresses.length} addresses`);
+  }
+
+  /**
+   * Compare every pair of the batch on its earliest stored transactions and cluster the linked addresses
+   */
+  async scoreBatch(
+    addresses: string[],
+    parameters: SybilParameters,
+    failed: string[] = [],
+    partialHistory: string[] = []
+  ): Promise<SybilResult> {
+    const profiles: AddressProfile[] = [];
+    for (const address of addresses) {
+      const transactions = await storage.getAddressTransactions(address, parameters.transactionsPerWallet, 'oldest');
+      profiles.push(buildProfile(address, transactions));
+    }
+
+    const counterparties = new Set<string>();
+    profiles.forEach(profile => {
+      if (profile.funder) counterparties.add(profile.funder.address);
+      profile.feePayers.forEach((_, payer) => counterparties.add(payer));
+    });
+    const counterpartyHistory = new Map<string, Transaction>();
+    for (const address of Array.from(counterparties)) {
+      (await storage.getAddressTransactions(address, COUNTERPARTY_TRANSACTIONS))
+        .forEach(tx => counterpartyHistory.set(tx.signature, tx));
+    }
+    dropRelayers(profiles, Array.from(counterpartyHistory.values()), parameters);
+    await this.dropServiceCounterparties(profiles);
+
+    const evidence: SybilEvidence[] = [];
+    for (let i = 0; i < profiles.length; i++) {
+      for (let j = i + 1; j < profiles.length; j++) {
+        evidence.push(...comparePair(profiles[i], profiles[j], parameters));
+      }
+    }
+
+    const clusters = this.buildClusters(evidence, parameters);
+    const clustered = new Set(clusters.flatMap(cluster => cluster.addresses));
+
+    return {
+      addresses: addresses.length,
+      failed,
+      partialHistory,
+      clusters,
+      unlinked: addresses.filter(address => !clustered.has(address)),
+    };
+  }
+
+  /**
+   * Merge addresses into clusters; pair strength combines the pair's evidence like independent signals
+   */
+  private buildClusters(evidence: SybilEvidence[], parameters: SybilParameters): SybilCluster[] {
+    const byPair = new Map<string, SybilEvidence[]>();
+    evidence.forEach(item => {
+      const key = [...item.addresses].sort().join(':');
+      byPair.set(key, [...(byPair.get(key) || []), item]);
+    });
+
+    const links = Array.from(byPair.entries())
+      .map(([key, items]) => ({
+        key,
+        addresses: items[0].addresses,
+        strength: 1 - items.reduce((remaining, item) => remaining * (1 - evidenceWeight(item)), 1),
+      }))
+      .filter(link => link.strength >= parameters.minScore)
+      .sort((a, b) => b.strength - a.strength || a.key.localeCompare(b.key));
+
+    const sets = new UnionFind();
+    links.forEach(link => sets.union(link.addresses[0], link.addresses[1], link.strength));
+
+    const members = new Map<string, string[]>();
+    links.forEach(link => link.addresses.forEach(address => {
+      const root = sets.find(address);
+      const list = members.get(root) || [];
+      if (!list.includes(address)) list.push(address);
+      members.set(root, list);
+    }));
+
+    return Array.from(members.entries())
+      .map(([root, addresses]) => {
+        const clusterEvidence = evidence.filter(item => sets.find(item.addresses[0]) === root && sets.find(item.addresses[1]) === root);
+        const signals: Partial<Record<SybilSignal, number>> = {};
+        clusterEvidence.forEach(item => {
+          signals[item.signal] = (signals[item.signal] || 0) + 1;
+        });
+
+        return {
+          addresses,
+          confidence: sets.getConfidence(root),
+          signals,
+          evidence: [...clusterEvidence]
+            .sort((a, b) => evidenceWeight(b) - evidenceWeight(a))
+            .slice(0, MAX_EVIDENCE_PER_CLUSTER),
+        };
+      })
+      .sort((a, b) => b.addresses.length - a.addresses.length);
+  }
+
+  /**
+   * Forget funders, fee payers and token destinations whose effective label is a service
+   */
+  private async dropServiceCounterparties(profiles: AddressProfile[]): Promise<void> {
+    const counterparties = new Set<string>();
+    profiles.forEach(profile => {
+      if (profile.funder) counterparties.add(profile.funder.address);
+      profile.feePayers.forEach((_, payer) => counterparties.add(payer));
+      profile.tokenDestinations.forEach((_, destination) => counterparties.add(destination));
+    });
+
+    const labels = await labelResolutionService.resolve(Array.from(counterparties));
+    const services = new Set(Object.keys(labels).filter(address => SERVICE_ENTITY_TYPES.includes(labels[address].label.type)));
+
+    profiles.forEach(profile => {
+      if (profile.funder && services.has(profile.funder.address)) profile.funder = undefined;
+      services.forEach(address => {
+        profile.feePayers.delete(address);
+        profile.tokenDestinations.delete(address);
+      });
+    });
+  }
+}
+
+/**
+ * Forget fee payers and funders serving more wallets than the caps in their own history;
+ * relayers pay fees, and exchanges and faucets fund, for many unrelated wallets. Wallets of
+ * the batch are not counted: a farmer funding every claimant is the signal, not a service.
+ */
+function dropRelayers(profiles: AddressProfile[], transactions: Transaction[], parameters: SybilParameters) {
+  const batch = new Set(profiles.map(profile => profile.address));
+  const paidFor = new Map<string, Set<string>>();
+  const funded = new Map<string, Set<string>>();
+  const add = (fanOut: Map<string, Set<string>>, from: string, to: string) => {
+    if (batch.has(to)) return;
+    const wallets = fanOut.get(from) || new Set<string>();
+    wallets.add(to);
+    fanOut.set(from, wallets);
+  };
+
+  transactions.forEach(tx => {
+    if (tx.status === 'failed') return;
+    const metadata = (tx.metadata || {}) as TransactionMetadata;
+
+    const signers = metadata.signers || [];
+    signers.slice(1).forEach(signer => {
+      if (signer !== signers[0]) add(paidFor, signers[0], signer);
+    });
+
+    const fundedAccounts = metadata.fundedAccounts || [];
+    getTransferLegs(tx).forEach(leg => {
+      if (leg.mint === NATIVE_SOL_MINT && leg.from !== leg.to && fundedAccounts.includes(leg.to)) add(funded, leg.from, leg.to);
+    });
+  });
+
+  profiles.forEach(profile => {
+    if (profile.funder && (funded.get(profile.funder.address)?.size || 0) > parameters.maxFundedWallets) {
+      profile.funder = undefined;
+    }
+    Array.from(profile.feePayers.keys()).forEach(payer => {
+      if ((paidFor.get(payer)?.size || 0) > parameters.maxFeePayerWallets) profile.feePayers.delete(payer);
+    });
+  });
+}
+
+function buildProfile(address: string, transactions: Transaction[]): AddressProfile {
+  const ordered = transactions
+    .filter(tx => tx.status !== 'failed')
+    .sort((a, b) => (a.slot ?? 0) - (b.slot ?? 0));
+
+  const profile: AddressProfile = {
+    address,
+    createdAt: null,
+    feePayers: new Map(),
+    tokenDestinations: new Map(),
+    actions: ordered.slice(0, ACTION_SEQUENCE_LENGTH).map(tx => `${tx.type}:${tx.programId || ''}`),
+  };
+
+  const firstTimed = ordered.find(tx => tx.blockTime);
+  if (firstTimed) profile.createdAt = firstTimed.blockTime!.getTime();
+
+  ordered.forEach(tx => {
+    const signers = ((tx.metadata || {}) as TransactionMetadata).signers || [];
+    if (signers.length > 0 && signers[0] !== address && signers.includes(address)) {
+      if (!profile.feePayers.has(signers[0])) profile.feePayers.set(signers[0], tx.signature);
+    }
+
+    getTransferLegs(tx).forEach(leg => {
+      if (leg.from === leg.to || leg.uiAmount <= 0) return;
+
+      if (!profile.funder && leg.mint === NATIVE_SOL_MINT && leg.to === address) {
+        profile.funder = { address: leg.from, signature: tx.signature };
+      }
+      if (leg.mint !== NATIVE_SOL_MINT && leg.from === address && !profile.tokenDestinations.has(leg.to)) {
+        profile.tokenDestinations.set(leg.to, tx.signature);
+      }
+    });
+  });
+
+  return profile;
+}
+
+function comparePair(a: AddressProfile, b: AddressProfile, parameters: SybilParameters): SybilEvidence[] {
+  const evidence: SybilEvidence[] = [];
+  const pair: [string, string] = [a.address, b.address];
+
+  // Funding: a common first funder, or one address first funding the other
+  if (a.funder && b.funder && a.funder.address === b.funder.address) {
+    evidence.push({
+      signal: 'funding-source', addresses: pair, similarity: 1, signature: a.funder.signature,
+      detail: `Both were first funded by ${a.funder.address}`,
+    });
+  } else if (a.funder?.address === b.address || b.funder?.address === a.address) {
+    const [funded, funder] = a.funder?.address === b.address ? [a, b] : [b, a];
+    evidence.push({
+      signal: 'funding-source', addresses: pair, similarity: 1, signature: funded.funder!.signature,
+      detail: `${funded.address} was first funded by ${funder.address}`,
+    });
+  }
+
+  // Gas payer: a third party paying fees for both
+  const sharedPayer = Array.from(a.feePayers.keys()).find(payer => b.feePayers.has(payer));
+  if (sharedPayer) {
+    evidence.push({
+      signal: 'gas-payer', addresses: pair, similarity: 1, signature: a.feePayers.get(sharedPayer),
+      detail: `${sharedPayer} paid transaction fees for both`,
+    });
+  } else if (a.feePayers.has(b.address) || b.feePayers.has(a.address)) {
+    const [paidFor, payer] = a.feePayers.has(b.address) ? [a, b] : [b, a];
+    evidence.push({
+      signal: 'gas-payer', addresses: pair, similarity: 1, signature: paidFor.feePayers.get(payer.address),
+      detail: `${payer.address} paid transaction fees for ${paidFor.address}`,
+    });
+  }
+
+  // Claimed tokens: sent to the same place, or from one to the other
+  const sharedDestination = Array.from(a.tokenDestinations.keys()).find(destination => b.tokenDestinations.has(destination));
+  if (sharedDestination) {
+    evidence.push({
+      signal: 'token-destination', addresses: pair, similarity: 1, signature: a.tokenDestinations.get(sharedDestination),
+      detail: `Both sent tokens to ${sharedDestination}`,
+    });
+  } else if (a.tokenDestinations.has(b.address) || b.tokenDestinations.has(a.address)) {
+    const [sender, recipient] = a.tokenDestinations.has(b.address) ? [a, b] : [b, a];
+    evidence.push({
+      signal: 'token-destination', addresses: pair, similarity: 1, signature: sender.tokenDestinations.get(recipient.address),
+      detail: `${sender.address} sent tokens to ${recipient.address}`,
+    });
+  }
+
+  // Creation time: linear falloff over the window
+  if (a.createdAt !== null && b.createdAt !== null) {
+    const hours = Math.abs(a.createdAt - b.createdAt) / HOUR_MS;
+    if (hours <= parameters.creationWindowHours) {
+      evidence.push({
+        signal: 'creation-time', addresses: pair, similarity: 1 - hours / parameters.creationWindowHours,
+        detail: `First transactions ${hours.toFixed(1)} hours apart`,
+      });
+    }
+  }
+
+  // Action sequence: longest common subsequence of the earliest transactions
+  if (a.actions.length >= MIN_ACTION_SEQUENCE_LENGTH && b.actions.length >= MIN_ACTION_SEQUENCE_LENGTH) {
+    const common = longestCommonSubsequence(a.actions, b.actions);
+    const similarity = common / Math.max(a.actions.length, b.actions.length);
+    if (similarity > 0.5) {
+      evidence.push({
+        signal: 'action-sequence', addresses: pair, similarity,
+        detail: `${common} of their first ${Math.max(a.actions.length, b.actions.length)} transactions follow the same sequence`,
+      });
+    }
+  }
+
+  return evidence;
+}
+
+function evidenceWeight(item: SybilEvidence): number {
+  return SYBIL_SIGNAL_WEIGHTS[item.signal] * item.similarity;
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): number {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Export a singleton instance
+export const sybilDetectionService = new SybilDetectionService();
@@ -1,27 +1,94 @@
+import { createHash } from 'crypto';
 import { storage } from '../storage';
-import { Transaction, Wallet, InsertWallet } from '@shared/schema';
+import { Transaction, Wallet, InsertWallet, Cluster } from '@shared/schema';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { getSolanaConnection } from '../solana';
+import { dbscan, louvain, WeightedEdge } from '../clustering';
+import { TransferLeg, getMintSymbol } from '@shared/transfers';
+import { FlowCycle } from '@shared/tracing';
+import { cycleDetectionService } from './cycleDetection';
+import { anomalyScoringService } from './anomalyScoring';
+
+const CLUSTER_TRANSACTION_LIMIT = 200;
+const MIN_LOG_AMOUNT = 1e-9; // Floor for zero amounts before taking the log
+
+/**
+ * Available clustering algorithms and their parameters:
+ * - heuristic: greedy passes by time, amount and counterparty pattern, merged by overlap.
+ *   timeWindowHours (24), minTransactions (3), similarityThreshold (0.7, Jaccard overlap for merging)
+ * - dbscan: density clustering over (time, log10 amount, counterparty) feature vectors.
+ *   eps (1, neighborhood radius), minPoints (3), timeScaleHours (24, hours per unit of distance),
+ *   amountScale (1, orders of magnitude per unit of distance), counterpartyWeight (0.5, distance
+ *   added when the counterparties differ)
+ * - louvain: community detection over the counterparty graph, where two addresses are linked by
+ *   the number of transactions they both take part in. The analyzed wallet is left out since it
+ *   touches every edge; transactions are grouped by the community of their counterparty.
+ *   resolution (1, higher gives smaller communities), minTransactions (3)
+ */
+export const CLUSTERING_ALGORITHMS = ['heuristic', 'dbscan', 'louvain'] as const;
+export type ClusteringAlgorithm = typeof CLUSTERING_ALGORITHMS[number];
+
+export interface ClusteringOptions {
+  algorithm?: ClusteringAlgorithm;
+  timeWindowHours?: number;
+  minTransactions?: number;
+  similarityThreshold?: number;
+  eps?: number;
+  minPoints?: number;
+  timeScaleHours?: number;
+  amountScale?: number;
+  counterpartyWeight?: number;
+  resolution?: number;
+}
 
 /**
  * Interface for representing transaction clusters
  */
-interface TransactionCluster {
-  id: string;
+export interface TransactionCluster {
+  id: string; // Content-derived, see deriveClusterId
   transactions: Transaction[];
   wallets: string[];
   createdAt: Date;
   score: number; // Confidence score from 0 to 1
   type: 'normal' | 'unusual' | 'suspicious';
   description: string;
+  parameters?: Record<string, number | string>; // Options that produced the cluster
   metadata?: Record<string, any>;
 }
 
+/**
+ * A persisted cluster with its member transactions and wallets
+ */
+export interface ClusterDetails extends Cluster {
+  transactions: Transaction[];
+  wallets: string[];
+}
+
+/**
+ * Stable cluster id: the same wallet, detector, parameters and member transactions always give the same id.
+ * The detector keeps clusters of different passes apart when they share their transactions.
+ */
+export function deriveClusterId(
+  walletAddress: string,
+  detector: string,
+  parameters: Record<string, number | string>,
+  signatures: string[]
+): string {
+  const identity = JSON.stringify({
+    walletAddress,
+    detector,
+    parameters: Object.keys(parameters).sort().map(key => [key, parameters[key]]),
+    signatures: [...signatures].sort(),
+  });
+  return `cl_${createHash('sha256').update(identity).digest('hex').slice(0, 32)}`;
+}
+
 /**
  * TransactionClusteringService provides methods for:
  * - Grouping related transactions
  * - Identifying associated wallets
  * - Flagging unusual transaction movements
+ * - Persisting clusters under content-derived ids so they can be cited and looked up later
  */
 export class TransactionClusteringService {
   private connection: Connection;
@@ -39,60 +106,283 @@ export class TransactionClusteringService {
   async clusterTransactions(
     walletAddress: string, 
     userId?: number, 
-    options: {
-      timeWindowHours?: number;
-      minTransactions?: number;
-      similarityThreshold?: number;
-    } = {}
+    options: ClusteringOptions = {}
   ): Promise<TransactionCluster[]> {
     // Default options
+    const algorithm = options.algorithm || 'heuristic';
     const timeWindow = options.timeWindowHours || 24; // Default 24 hour window
     const minTransactions = options.minTransactions || 3; // Minimum 3 transactions to form a cluster
     const similarityThreshold = options.similarityThreshold || 0.7; // Similarity threshold for clustering
 
-    // Get or create wallet
-    let wallet = await storage.getWalletByAddress(walletAddress);
+    // Get or create wallet; clustering itself only needs the stored transactions
+    const wallet = await storage.getWalletByAddress(walletAddress);
     if (!wallet && userId) {
-      wallet = await storage.createWallet({
+      await storage.createWallet({
         address: walletAddress,
         userId,
       });
     }
 
-    if (!wallet) {
-      throw new Error(`Cannot cluster transactions for unknown wallet: ${walletAddress}`);
-    }
-
     // Fetch transactions
-    const transactions = await storage.getWalletTransactions(walletAddress, 200);
+    const transactions = await storage.getWalletTransactions(walletAddress, CLUSTER_TRANSACTION_LIMIT);
     if (transactions.length < minTransactions) {
       return []; // Not enough transactions to perform meaningful clustering
     }
 
-    // Perform temporal clustering (transactions that happen close together in time)
-    const temporalClusters = this.clusterByTime(transactions, timeWindow);
+    let clusters: TransactionCluster[];
+    let parameters: Record<string, number | string>;
     
-    // Perform amount-based clustering (transactions with similar amounts)
-    const amountClusters = this.clusterByAmount(transactions);
+    if (algorithm === 'dbscan') {
+      const dbscanParameters = {
+        eps: options.eps || 1,
+        minPoints: options.minPoints || 3,
+        timeScaleHours: options.timeScaleHours || 24,
+        amountScale: options.amountScale || 1,
+        counterpartyWeight: options.counterpartyWeight ?? 0.5,
+      };
+      clusters = this.clusterByDensity(transactions, walletAddress, dbscanParameters);
+      parameters = { algorithm, ...dbscanParameters };
+    } else if (algorithm === 'louvain') {
+      const resolution = options.resolution || 1;
+      clusters = this.clusterByCommunity(transactions, walletAddress, resolution, minTransactions);
+      parameters = { algorithm, resolution, minTransactions };
+    } else {
+      // Perform temporal clustering (transactions that happen close together in time)
+      const temporalClusters = this.clusterByTime(transactions, timeWindow, minTransactions);
+      
+      // Perform amount-based clustering (transactions with similar amounts)
+      const amountClusters = this.clusterByAmount(transactions, minTransactions);
+      
+      // Perform pattern-based clustering (transactions with similar patterns)
+      const patternClusters = this.clusterByPattern(transactions, minTransactions);
+      
+      // Merge clusters with high similarity
+      clusters = this.mergeClusters([
+        ...temporalClusters, 
+        ...amountClusters,
+        ...patternClusters
+      ], similarityThreshold);
+      parameters = { algorithm, timeWindowHours: timeWindow, minTransactions, similarityThreshold };
+    }
     
-    // Perform pattern-based clustering (transactions with similar patterns)
-    const patternClusters = this.clusterByPattern(transactions);
+    // Value that left the wallet and came back marks wash trading or circular fund movement
+    const { cycles, mint: cycleMint } = await cycleDetectionService.detectCycles(walletAddress);
+    const cycleSignatures = new Set(cycles.flatMap(cycle => cycle.signatures));
     
-    // Merge clusters with high similarity
-    const mergedClusters = this.mergeClusters([
-      ...temporalClusters, 
-      ...amountClusters,
-      ...patternClusters
-    ], similarityThreshold);
+    // Transactions scoring far from the wallet's rolling baseline
+    const { anomalies } = await anomalyScoringService.scoreWallet(walletAddress);
+    const anomalySignatures = new Set(anomalies.map(anomaly => anomaly.signature));
     
     // Identify and flag unusual transaction movements
-    return this.flagUnusualMovements(mergedClusters, walletAddress);
+    const flaggedClusters = this.flagUnusualMovements(clusters, walletAddress, cycleSignatures, anomalySignatures);
+    const cycleClusters = await this.clusterByCycle(cycles, cycleMint);
+    
+    return this.saveClusters(walletAddress, [
+      { detector: algorithm, clusters: flaggedClusters },
+      { detector: 'cycle', clusters: cycleClusters },
+    ], {
+      ...parameters,
+      transactionLimit: CLUSTER_TRANSACTION_LIMIT,
+    });
+  }
+
+  /**
+   * DBSCAN over (time, log amount, counterparty); transactions in no dense region are left out
+   */
+  private clusterByDensity(
+    transactions: Transaction[],
+    walletAddress: string,
+    parameters: { eps: number; minPoints: number; timeScaleHours: number; amountScale: number; counterpartyWeight: number }
+  ): TransactionCluster[] {
+    const points = transactions
+      .filter(tx => tx.blockTime)
+      .map(tx => ({
+        tx,
+        time: new Date(tx.blockTime!).getTime() / (parameters.timeScaleHours * 60 * 60 * 1000),
+        logAmount: Math.log10(Math.max(tx.amount || 0, MIN_LOG_AMOUNT)) / parameters.amountScale,
+        counterparty: getCounterparty(tx, walletAddress),
+      }));
+    
+    const { labels, corePoints } = dbscan(points, (a, b) => Math.sqrt(
+      Math.pow(a.time - b.time, 2) +
+      Math.pow(a.logAmount - b.logAmount, 2) +
+      Math.pow(a.counterparty === b.counterparty ? 0 : parameters.counterpartyWeight, 2)
+    ), parameters.eps, parameters.minPoints);
+    
+    const groups = new Map<number, number[]>();
+    labels.forEach((label, index) => {
+      if (label >= 0) groups.set(label, [...(groups.get(label) || []), index]);
+    });
+    
+    return Array.from(groups.values()).map(indexes => {
+      const members = indexes.map(index => points[index].tx);
+      const times = members.map(tx => new Date(tx.blockTime!).getTime());
+      const hours = (Math.max(...times) - Math.min(...times)) / (60 * 60 * 1000);
+      const averageAmount = members.reduce((sum, tx) => sum + (tx.amount || 0), 0) / members.length;
+      const counterparties = new Set(indexes.map(index => points[index].counterparty)).size;
+      
+      return this.createCluster(
+        members,
+        `Dense cluster: ${members.length} transactions over ${hours.toFixed(1)} hours, ~${averageAmount.toFixed(4)} SOL, ${counterparties} counterparties`,
+        // Share of core points: clusters held together by few core points are less certain
+        indexes.filter(index => corePoints[index]).length / indexes.length,
+        'normal'
+      );
+    });
+  }
+
+  /**
+   * Louvain communities of counterparties; each community's transactions form a cluster
+   */
+  private clusterByCommunity(
+    transactions: Transaction[],
+    walletAddress: string,
+    resolution: number,
+    minTransactions: number
+  ): TransactionCluster[] {
+    // Link every pair of addresses taking part in the same transaction
+    const weights = new Map<string, number>();
+    const addresses = new Set<string>();
+    transactions.forEach(tx => {
+      const participants = Array.from(new Set(getParticipants(tx))).filter(address => address !== walletAddress).sort();
+      participants.forEach(address => addresses.add(address));
+      for (let i = 0; i < participants.length; i++) {
+        for (let j = i + 1; j < participants.length; j++) {
+          const key = `${participants[i]}:${participants[j]}`;
+          weights.set(key, (weights.get(key) || 0) + 1);
+        }
+      }
+    });
+    
+    const edges: WeightedEdge[] = Array.from(weights.entries()).map(([key, weight]) => {
+      const [a, b] = key.split(':');
+      return { a, b, weight };
+    });
+    const communities = louvain(Array.from(addresses).sort(), edges, resolution);
+    
+    const communityOf = new Map<string, number>();
+    communities.forEach((members, index) => members.forEach(address => communityOf.set(address, index)));
+    
+    const groups = new Map<number, Transaction[]>();
+    transactions.forEach(tx => {
+      const community = communityOf.get(getCounterparty(tx, walletAddress));
+      if (community !== undefined) groups.set(community, [...(groups.get(community) || []), tx]);
+    });
+    
+    return Array.from(groups.entries())
+      .filter(([, members]) => members.length >= minTransactions)
+      .map(([index, members]) => {
+        const community = new Set(communities[index]);
+        
+        // Share of the community's edge weight that stays inside it
+        let internal = 0;
+        let total = 0;
+        edges.forEach(edge => {
+          const inA = community.has(edge.a);
+          const inB = community.has(edge.b);
+          if (inA || inB) total += edge.weight;
+          if (inA && inB) internal += edge.weight;
+        });
+        
+        return this.createCluster(
+          members,
+          `Counterparty community of ${community.size} addresses (${members.length} transactions)`,
+          total > 0 ? internal / total : 1,
+          'normal',
+          { community: communities[index] }
+        );
+      });
+  }
+
+  /**
+   * One suspicious cluster per circular flow, holding every transaction along the cycle
+   */
+  private async clusterByCycle(cycles: FlowCycle[], mint: string): Promise<TransactionCluster[]> {
+    const clusters: TransactionCluster[] = [];
+    const symbol = getMintSymbol(mint);
+    
+    for (const cycle of cycles) {
+      const transactions = await storage.getTransactionsBySignatures(cycle.signatures);
+      const hours = cycle.elapsedMs / (60 * 60 * 1000);
+      const cluster = this.createCluster(
+        transactions,
+        `Circular flow: ${cycle.sentAmount.toFixed(4)} ${symbol} returned through ${cycle.hops.length - 1} intermediaries after ${hours.toFixed(1)} hours, ${cycle.netRetained.toFixed(4)} ${symbol} retained along the way`,
+        Math.min(1, cycle.returnedAmount / cycle.sentAmount),
+        'suspicious',
+        { cycle }
+      );
+      clusters.push({ ...cluster, wallets: Array.from(new Set(cycle.addresses)) });
+    }
+    
+    return clusters;
+  }
+
+  /**
+   * Assign content-derived ids and persist clusters with their members, grouped by the pass that found them
+   */
+  private async saveClusters(
+    walletAddress: string,
+    passes: { detector: string; clusters: TransactionCluster[] }[],
+    parameters: Record<string, number | string>
+  ): Promise<TransactionCluster[]> {
+    const saved = new Map<string, TransactionCluster>();
+    
+    for (const { detector, clusters: passClusters } of passes) {
+      for (const cluster of passClusters) {
+        const signatures = cluster.transactions.map(tx => tx.signature);
+        const id = deriveClusterId(walletAddress, detector, parameters, signatures);
+        // The same pass finding the same transactions twice is one cluster
+        if (saved.has(id)) continue;
+        
+        const stored = await storage.saveCluster({
+          id,
+          walletAddress,
+          type: cluster.type,
+          score: cluster.score,
+          description: cluster.description,
+          parameters,
+          metadata: cluster.metadata || null,
+          transactionCount: cluster.transactions.length,
+          walletCount: cluster.wallets.length,
+        }, [
+          ...signatures.map(signature => ({ clusterId: id, memberType: 'transaction', value: signature })),
+          ...cluster.wallets.map(address => ({ clusterId: id, memberType: 'wallet', value: address })),
+        ]);
+        
+        saved.set(id, {
+          ...cluster,
+          id,
+          parameters,
+          createdAt: stored.createdAt || cluster.createdAt,
+        });
+      }
+    }
+    
+    return Array.from(saved.values());
+  }
+
+  /**
+   * Look up a persisted cluster with its member transactions and wallets
+   */
+  async getCluster(clusterId: string): Promise<ClusterDetails | undefined> {
+    const cluster = await storage.getCluster(clusterId);
+    if (!cluster) return undefined;
+    
+    const members = await storage.getClusterMembers(clusterId);
+    const signatures = members.filter(member => member.memberType === 'transaction').map(member => member.value);
+    const wallets = members.filter(member => member.memberType === 'wallet').map(member => member.value);
+    
+    return {
+      ...cluster,
+      transactions: await storage.getTransactionsBySignatures(signatures),
+      wallets,
+    };
   }
 
   /**
    * Cluster transactions based on temporal proximity
    */
-  private clusterByTime(transactions: Transaction[], timeWindowHours: number): TransactionCluster[] {
+  private clusterByTime(transactions: Transaction[], timeWindowHours: number, minTransactions: number): TransactionCluster[] {
     const clusters: TransactionCluster[] = [];
     const sortedTransactions = [...transactions].sort((a, b) => {
       const aTime = a.blockTime ? new Date(a.blockTime).getTime() : 0;
@@ -115,8 +405,8 @@ export class TransactionClusteringService {
         lastTimestamp = txTime;
       } else {
         // Close current cluster and start a new one
-        if (currentCluster.length >= 3) {
-          // Only keep clusters with at least 3 transactions
+        if (currentCluster.length >= minTransactions) {
+          // Only keep clusters with enough transactions
           clusters.push(this.createCluster(currentCluster, 'Temporal cluster', 0.8, 'normal'));
         }
         currentCluster = [tx];
@@ -125,7 +415,7 @@ export class TransactionClusteringService {
     }
 
     // Don't forget to process the last cluster
-    if (currentCluster.length >= 3) {
+    if (currentCluster.length >= minTransactions) {
       clusters.push(this.createCluster(currentCluster, 'Temporal cluster', 0.8, 'normal'));
     }
 
@@ -135,7 +425,7 @@ export class TransactionClusteringService {
   /**
    * Cluster transactions based on similar amounts
    */
-  private clusterByAmount(transactions: Transaction[]): TransactionCluster[] {
+  private clusterByAmount(transactions: Transaction[], minTransactions: number): TransactionCluster[] {
     const clusters: TransactionCluster[] = [];
     const txWithAmounts = transactions.filter(tx => tx.amount !== null && tx.amount !== undefined);
     
@@ -162,7 +452,7 @@ export class TransactionClusteringService {
     
     // Convert groups to clusters
     for (const [amount, group] of amountGroups.entries()) {
-      if (group.length >= 3) {
+      if (group.length >= minTransactions) {
         const formattedAmount = amount.toFixed(4);
         clusters.push(this.createCluster(
           group, 
@@ -179,7 +469,7 @@ export class TransactionClusteringService {
   /**
    * Cluster transactions based on repeating patterns
    */
-  private clusterByPattern(transactions: Transaction[]): TransactionCluster[] {
+  private clusterByPattern(transactions: Transaction[], minTransactions: number): TransactionCluster[] {
     const clusters: TransactionCluster[] = [];
     
     // Group by transaction type
@@ -206,7 +496,7 @@ export class TransactionClusteringService {
     
     // Convert groups to clusters
     for (const [type, group] of typeGroups.entries()) {
-      if (group.length >= 3) {
+      if (group.length >= minTransactions) {
         clusters.push(this.createCluster(
           group, 
           `Transactions of type: ${type}`, 
@@ -318,53 +608,22 @@ export class TransactionClusteringService {
   /**
    * Flag unusual transaction movements based on various heuristics
    */
-  private flagUnusualMovements(clusters: TransactionCluster[], walletAddress: string): TransactionCluster[] {
+  private flagUnusualMovements(
+    clusters: TransactionCluster[],
+    walletAddress: string,
+    cycleSignatures: Set<string>,
+    anomalySignatures: Set<string>
+  ): TransactionCluster[] {
     return clusters.map(cluster => {
       let isUnusual = false;
       let isSuspicious = false;
       let reason = '';
       
-      // Check for large variance in amounts
-      const amounts = cluster.transactions
-        .filter(tx => tx.amount !== null && tx.amount !== undefined)
-        .map(tx => tx.amount as number);
-      
-      if (amounts.length >= 3) {
-        const avg = amounts.reduce((sum, amt) => sum + amt, 0) / amounts.length;
-        const variance = amounts.reduce((sum, amt) => sum + Math.pow(amt - avg, 2), 0) / amounts.length;
-        const stdDev = Math.sqrt(variance);
-        
-        // High variance can indicate unusual patterns
-        if (stdDev / avg > 1.5) {
-          isUnusual = true;
-          reason += 'High variance in transaction amounts. ';
-        }
-      }
-      
-      // Check for unusual timing patterns
-      const timestamps = cluster.transactions
-        .filter(tx => tx.blockTime)
-        .map(tx => new Date(tx.blockTime!).getTime());
-      
-      if (timestamps.length >= 3) {
-        // Sort timestamps
-        timestamps.sort((a, b) => a - b);
-        
-        // Calculate time differences between consecutive transactions
-        const timeDiffs = [];
-        for (let i = 1; i < timestamps.length; i++) {
-          timeDiffs.push(timestamps[i] - timestamps[i-1]);
-        }
-        
-        // Check for very regular timing (potential bot/scripted activity)
-        const avgTimeDiff = timeDiffs.reduce((sum, diff) => sum + diff, 0) / timeDiffs.length;
-        const timingVariance = timeDiffs.reduce((sum, diff) => sum + Math.pow(diff - avgTimeDiff, 2), 0) / timeDiffs.length;
-        const timingStdDev = Math.sqrt(timingVariance);
-        
-        if (timingStdDev / avgTimeDiff < 0.1) {
-          isUnusual = true;
-          reason += 'Suspiciously regular transaction timing. ';
-        }
+      // Flag clusters holding transactions that deviate from the wallet's own baseline
+      const anomalies = cluster.transactions.filter(tx => anomalySignatures.has(tx.signature)).length;
+      if (anomalies > 0) {
+        isUnusual = true;
+        reason += `${anomalies} transaction${anomalies === 1 ? '' : 's'} far outside the wallet's usual behavior. `;
       }
       
       // Check if transaction flow is predominantly in one direction
@@ -376,16 +635,10 @@ export class TransactionClusteringService {
         reason += `One-directional transaction flow (${outgoing === 0 ? 'all incoming' : 'all outgoing'}). `;
       }
       
-      // Flag potential wash trading or circular fund movements
-      const uniqueCounterparties = new Set<string>();
-      cluster.transactions.forEach(tx => {
-        if (tx.sourceAddress !== walletAddress) uniqueCounterparties.add(tx.sourceAddress);
-        if (tx.destinationAddress !== walletAddress) uniqueCounterparties.add(tx.destinationAddress);
-      });
-      
-      if (cluster.transactions.length > 5 && uniqueCounterparties.size <= 2) {
+      // Flag clusters taking part in a detected circular fund movement
+      if (cluster.transactions.some(tx => cycleSignatures.has(tx.signature))) {
         isSuspicious = true;
-        reason += 'Potential wash trading or circular fund movement. ';
+        reason += 'Part of a circular fund movement (potential wash trading). ';
       }
       
       // Check for unusual number of transactions with same counterparty
@@ -431,8 +684,11 @@ export class TransactionClusteringService {
       if (tx.destinationAddress) wallets.add(tx.destinationAddress);
     });
     
+    // Provisional id used while merging; the persisted id is assigned in saveClusters
+    const identity = JSON.stringify([description, transactions.map(tx => tx.signature)]);
+    
     return {
-      id: Math.random().toString(36).substring(2, 15),
+      id: createHash('sha256').update(identity).digest('hex'),
       transactions,
       wallets: Array.from(wallets),
       createdAt: new Date(),
@@ -442,84 +698,24 @@ export class TransactionClusteringService {
       metadata
     };
   }
+}
 
-  /**
-   * Get associated wallets based on transaction patterns
-   */
-  async getAssociatedWallets(walletAddress: string, userId?: number): Promise<{ 
-    address: string; 
-    score: number; 
-    reason: string;
-    transactionCount: number;
-  }[]> {
-    // Get clusters for this wallet
-    const clusters = await this.clusterTransactions(walletAddress, userId);
-    
-    // Create a map of wallet -> scores
-    const walletScores: Map<string, { score: number; reasons: Set<string>; txCounts: number }> = new Map();
-    
-    for (const cluster of clusters) {
-      // Skip the input wallet
-      const otherWallets = cluster.wallets.filter(w => w !== walletAddress);
-      
-      for (const otherWallet of otherWallets) {
-        if (!walletScores.has(otherWallet)) {
-          walletScores.set(otherWallet, { score: 0, reasons: new Set(), txCounts: 0 });
-        }
-        
-        const walletInfo = walletScores.get(otherWallet)!;
-        
-        // Count transactions between these wallets
-        const txCount = cluster.transactions.filter(tx => 
-          (tx.sourceAddress === walletAddress && tx.destinationAddress === otherWallet) ||
-          (tx.sourceAddress === otherWallet && tx.destinationAddress === walletAddress)
-        ).length;
-        
-        // Add points based on cluster type
-        let points = 0;
-        let reason = '';
-        
-        switch(cluster.type) {
-          case 'normal':
-            points = 0.2;
-            reason = 'Normal transaction pattern';
-            break;
-          case 'unusual':
-            points = 0.5;
-            reason = 'Unusual transaction pattern';
-            break;
-          case 'suspicious':
-            points = 0.8;
-            reason = 'Suspicious transaction pattern';
-            break;
-        }
-        
-        // Add more points for frequent interactions
-        if (txCount >= 5) {
-          points += 0.3;
-          reason += ', frequent interactions';
-        } else if (txCount >= 3) {
-          points += 0.1;
-          reason += ', multiple interactions';
-        }
-        
-        // Update scores
-        walletInfo.score = Math.min(1.0, walletInfo.score + points);
-        walletInfo.reasons.add(reason);
-        walletInfo.txCounts += txCount;
-      }
-    }
-    
-    // Convert map to array and sort by score
-    return Array.from(walletScores.entries())
-      .map(([address, info]) => ({
-        address,
-        score: info.score,
-        reason: Array.from(info.reasons).join('; '),
-        transactionCount: info.txCounts
-      }))
-      .sort((a, b) => b.score - a.score);
+/**
+ * The other side of a transaction from the analyzed wallet's point of view
+ */
+function getCounterparty(tx: Transaction, walletAddress: string): string {
+  return tx.sourceAddress === walletAddress ? tx.destinationAddress : tx.sourceAddress;
+}
+
+/**
+ * Senders and receivers of all transfer legs; rows without decoded legs only have the primary transfer
+ */
+function getParticipants(tx: Transaction): string[] {
+  const metadata = tx.metadata as { transfers?: TransferLeg[] } | null;
+  if (metadata && Array.isArray(metadata.transfers) && metadata.transfers.length > 0) {
+    return metadata.transfers.flatMap(leg => [leg.from, leg.to]);
   }
+  return [tx.sourceAddress, tx.destinationAddress];
 }
 
 // Export a singleton instance
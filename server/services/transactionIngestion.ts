@@ -0,0 +1,294 @@
+import { PublicKey, VersionedTransactionResponse, ConfirmedSignatureInfo } from '@solana/web3.js';
+import { storage } from '../storage';
+import { InsertTransaction, IngestionCursor } from '@shared/schema';
+import { NATIVE_SOL_MINT, TransferLeg } from '@shared/transfers';
+import { DecodedInstruction, SWAP_PROGRAMS } from '@shared/instructions';
+import { getSignaturesForAddress, getTransactionsInBatches, getTransactionAccountKeys, getTransactionTransfers } from '../solana';
+import {
+  instructionDecoderService,
+  SYSTEM_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+} from './instructionDecoder';
+import { walletFingerprintService } from './walletFingerprint';
+import { accountClassificationService } from './accountClassification';
+
+const SIGNATURE_PAGE_SIZE = 1000; // Maximum page size supported by getSignaturesForAddress
+const DETAIL_CHUNK_SIZE = 25; // Signatures fetched and stored per round trip
+const DEFAULT_MAX_HISTORY_SIGNATURES = 10000; // Signatures walked looking for a wallet's first transactions
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+const COMPUTE_BUDGET_PROGRAM_ID = 'ComputeBudget111111111111111111111111111111';
+const METAPLEX_ID = 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s';
+
+/**
+ * Result of a single ingestion run for a wallet
+ */
+export interface IngestionResult {
+  address: string;
+  signaturesFound: number;
+  transactionsStored: number;
+  failedSignatures: string[];
+  incremental: boolean; // True when the run only pulled signatures newer than the high-water mark
+  cursor: IngestionCursor;
+}
+
+/**
+ * Result of ingesting a wallet's first transactions
+ */
+export interface OldestIngestionResult {
+  address: string;
+  signaturesFound: number;
+  transactionsStored: number;
+  failedSignatures: string[];
+  reachedGenesis: boolean; // False when the history is longer than the signatures walked
+}
+
+/**
+ * TransactionIngestionService populates the transactions table from RPC:
+ * - Walks getSignaturesForAddress pages down to the wallet's high-water mark
+ * - Fetches transaction details in batches
+ * - Normalizes each transaction and upserts it by signature
+ * - Keeps the high-water mark below signatures whose details could not be fetched, so they are retried
+ */
+export class TransactionIngestionService {
+  /**
+   * Ingest new transactions for a wallet
+   * @param walletAddress The wallet to ingest
+   * @param options.maxSignatures Upper bound on signatures pulled when the wallet has no high-water mark yet
+   */
+  async ingestWallet(
+    walletAddress: string,
+    options: { maxSignatures?: number } = {}
+  ): Promise<IngestionResult> {
+    const maxSignatures = options.maxSignatures || 1000;
+    const publicKey = new PublicKey(walletAddress);
+
+    const existingCursor = await storage.getIngestionCursor(walletAddress);
+    const highWaterMark = existingCursor?.newestSignature || undefined;
+
+    // Walk signature pages from newest to oldest until we reach the high-water mark
+    const signatureInfos: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+    let reachedEnd = false;
+
+    while (!reachedEnd) {
+      // Only the first ingestion is capped, later runs must close the gap to the high-water mark
+      const remaining = highWaterMark ? SIGNATURE_PAGE_SIZE : maxSignatures - signatureInfos.length;
+      if (remaining <= 0) break;
+
+      const page: ConfirmedSignatureInfo[] = await getSignaturesForAddress(publicKey, {
+        limit: Math.min(SIGNATURE_PAGE_SIZE, remaining),
+        before,
+        until: highWaterMark,
+      });
+
+      signatureInfos.push(...page);
+
+      if (page.length < Math.min(SIGNATURE_PAGE_SIZE, remaining)) {
+        reachedEnd = true;
+      } else {
+        before = page[page.length - 1].signature;
+      }
+    }
+
+    // Fetch and store details oldest first, so a partial run still leaves consistent rows
+    const ordered = [...signatureInfos].reverse();
+    const { transactionsStored, failedSignatures } = await this.storeSignatures(ordered);
+
+    // The cursor only covers the run stored without gaps: it stops before the first signature whose
+    // details could not be fetched, so the next run retries everything from there
+    const firstFailure = ordered.findIndex(info => failedSignatures.includes(info.signature));
+    const covered = firstFailure === -1 ? ordered : ordered.slice(0, firstFailure);
+    const newest = covered[covered.length - 1];
+    const oldest = covered[0];
+
+    const cursor = await storage.saveIngestionCursor({
+      walletAddress,
+      newestSignature: newest?.signature || existingCursor?.newestSignature || null,
+      newestSlot: newest?.slot ?? existingCursor?.newestSlot ?? null,
+      oldestSignature: existingCursor?.oldestSignature || oldest?.signature || null,
+      oldestSlot: existingCursor?.oldestSlot ?? oldest?.slot ?? null,
+      transactionCount: (existingCursor?.transactionCount || 0) + covered.length,
+      lastIngestedAt: new Date(),
+    });
+
+    console.log(`Ingested ${transactionsStored}/${signatureInfos.length} transactions for ${walletAddress}` +
+      (failedSignatures.length > 0 ? `, ${failedSignatures.length} failed and will be retried` : ''));
+
+    // Refresh the behavioral fingerprint; a failure here does not fail the ingestion
+    await walletFingerprintService.updateFingerprint(walletAddress)
+      .catch(error => console.error(`Error fingerprinting ${walletAddress}:`, error));
+
+    // Classify the account from its on-chain metadata, likewise without failing the ingestion
+    await accountClassificationService.classifyAddress(walletAddress)
+      .catch(error => console.error(`Error classifying ${walletAddress}:`, error));
+
+    return {
+      address: walletAddress,
+      signaturesFound: signatureInfos.length,
+      transactionsStored,
+      failedSignatures,
+      incremental: !!highWaterMark,
+      cursor,
+    };
+  }
+
+  /**
+   * Ingest the oldest transactions of a wallet, walking its signatures back to genesis.
+   * Only signatures are paged; details are fetched for the oldest ones not stored yet.
+   * The ingestion cursor is left alone, it describes the contiguous newest range.
+   * @param count Transactions to store, counted from the wallet's first one
+   * @param options.maxSignatures Upper bound on signatures walked
+   */
+  async ingestOldest(
+    walletAddress: string,
+    count: number,
+    options: { maxSignatures?: number } = {}
+  ): Promise<OldestIngestionResult> {
+    const maxSignatures = options.maxSignatures || DEFAULT_MAX_HISTORY_SIGNATURES;
+    const publicKey = new PublicKey(walletAddress);
+
+    const signatureInfos: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+    let reachedGenesis = false;
+
+    while (signatureInfos.length < maxSignatures) {
+      const page: ConfirmedSignatureInfo[] = await getSignaturesForAddress(publicKey, {
+        limit: SIGNATURE_PAGE_SIZE,
+        before,
+      });
+      signatureInfos.push(...page);
+
+      if (page.length < SIGNATURE_PAGE_SIZE) {
+        reachedGenesis = true;
+        break;
+      }
+      before = page[page.length - 1].signature;
+    }
+
+    const oldest = signatureInfos.slice(-count).reverse();
+    const stored = new Set(
+      (await storage.getTransactionsBySignatures(oldest.map(info => info.signature))).map(tx => tx.signature)
+    );
+    const { transactionsStored, failedSignatures } = await this.storeSignatures(
+      oldest.filter(info => !stored.has(info.signature))
+    );
+
+    return {
+      address: walletAddress,
+      signaturesFound: signatureInfos.length,
+      transactionsStored,
+      failedSignatures,
+      reachedGenesis,
+    };
+  }
+
+  /**
+   * Fetch details for the given signatures in chunks and upsert them, in the given order
+   */
+  async storeSignatures(
+    signatureInfos: ConfirmedSignatureInfo[]
+  ): Promise<{ transactionsStored: number; failedSignatures: string[] }> {
+    const failedSignatures: string[] = [];
+    let transactionsStored = 0;
+
+    for (let i = 0; i < signatureInfos.length; i += DETAIL_CHUNK_SIZE) {
+      const chunk = signatureInfos.slice(i, i + DETAIL_CHUNK_SIZE);
+      const details = await getTransactionsInBatches(chunk.map(info => info.signature));
+
+      for (const { signature, transaction } of details) {
+        const signatureInfo = chunk.find(info => info.signature === signature)!;
+
+        if (!transaction) {
+          failedSignatures.push(signature);
+          continue;
+        }
+
+        await storage.upsertTransaction(this.normalizeTransaction(signatureInfo, transaction));
+        transactionsStored++;
+      }
+    }
+
+    return { transactionsStored, failedSignatures };
+  }
+
+  /**
+   * Convert an RPC transaction into a row for the transactions table.
+   * Source, destination and amount come from the largest SOL transfer leg, so the
+   * result does not depend on which wallet triggered ingestion. All legs are kept
+   * in metadata.transfers for token-aware analyses.
+   */
+  normalizeTransaction(
+    signatureInfo: ConfirmedSignatureInfo,
+    tx: VersionedTransactionResponse
+  ): InsertTransaction {
+    const accountKeys = getTransactionAccountKeys(tx);
+    const feePayer = accountKeys[0];
+    const fee = tx.meta?.fee || 0;
+
+    // Signers lead the account keys; funded accounts held no lamports before this transaction
+    const signers = accountKeys.slice(0, tx.transaction.message.header.numRequiredSignatures);
+    const preBalances = tx.meta?.preBalances || [];
+    const postBalances = tx.meta?.postBalances || [];
+    const fundedAccounts = accountKeys.filter((_, index) => preBalances[index] === 0 && postBalances[index] > 0);
+
+    const transfers = getTransactionTransfers(tx);
+    const primaryTransfer = transfers
+      .filter(leg => leg.mint === NATIVE_SOL_MINT)
+      .reduce<TransferLeg | undefined>((max, leg) => (!max || leg.uiAmount > max.uiAmount ? leg : max), undefined);
+
+    // Primary instruction: the first top-level one that is not a compute budget directive
+    const { instructions, innerInstructions, instructionTransfers } =
+      instructionDecoderService.decodeTransactionDetail(tx);
+    const primaryInstruction = instructions.find(ix => ix.programId !== COMPUTE_BUDGET_PROGRAM_ID) || instructions[0];
+
+    return {
+      signature: signatureInfo.signature,
+      sourceAddress: primaryTransfer?.from || feePayer,
+      destinationAddress: primaryTransfer?.to || primaryInstruction?.programId || feePayer,
+      amount: primaryTransfer?.uiAmount || 0,
+      blockTime: tx.blockTime ? new Date(tx.blockTime * 1000) : null,
+      slot: tx.slot,
+      status: tx.meta?.err ? 'failed' : 'success',
+      type: this.classifyTransaction([...instructions, ...innerInstructions]),
+      programId: primaryInstruction?.programId || null,
+      instruction: primaryInstruction || null,
+      fee: fee / LAMPORTS_PER_SOL,
+      memo: signatureInfo.memo || null,
+      metadata: {
+        accountKeys,
+        signers,
+        fundedAccounts,
+        instructions,
+        innerInstructions,
+        transfers,
+        instructionTransfers,
+        logMessages: tx.meta?.logMessages || [],
+      },
+    };
+  }
+
+  /**
+   * Coarse transaction type from the decoded instructions, including CPI calls
+   * so that swaps routed through aggregators or other programs are recognized
+   */
+  private classifyTransaction(decoded: DecodedInstruction[]): InsertTransaction['type'] {
+    const programIds = decoded.map(ix => ix.programId);
+
+    if (programIds.includes(METAPLEX_ID)) {
+      return 'nft';
+    } else if (decoded.some(ix => SWAP_PROGRAMS.includes(ix.program))) {
+      return 'swap';
+    } else if (programIds.includes(TOKEN_PROGRAM_ID) || programIds.includes(TOKEN_2022_PROGRAM_ID)) {
+      return 'transfer';
+    } else if (programIds.every(id => id === SYSTEM_PROGRAM_ID || id === COMPUTE_BUDGET_PROGRAM_ID)) {
+      return 'transfer';
+    }
+
+    return 'other';
+  }
+}
+
+// Export a singleton instance
+export const transactionIngestionService = new TransactionIngestionService();
@@ -3,10 +3,11 @@ import { Transaction, Wallet, WalletEntityRelation, Entity, InsertWallet, Insert
   InsertFundingSource, InsertActivityPattern, FundingSource, ActivityPattern } from '@shared/schema';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { getSolanaConnection } from '../solana';
+import { fundTracingService } from './fundTracing';
+import { TaintModel, TracePath } from '@shared/tracing';
 
 /**
  * WalletAnalysisService provides functionality for:
- * - Tracking funding sources for wallets
  * - Analyzing transaction patterns
  * - Identifying entity connections
  * - Calculating complete history of fund origins
@@ -18,73 +19,6 @@ export class WalletAnalysisService {
     this.connection = getSolanaConnection();
   }
 
-  /**
-   * Tracks all incoming transactions to a wallet to determine funding sources
-   */
-  async trackFundingSources(walletAddress: string, userId?: number): Promise<FundingSource[]> {
-    // Get or create wallet
-    let wallet = await storage.getWalletByAddress(walletAddress);
-    if (!wallet && userId) {
-      wallet = await storage.createWallet({
-        address: walletAddress,
-        userId,
-      });
-    }
-
-    if (!wallet) {
-      throw new Error(`Cannot track funding sources for unknown wallet: ${walletAddress}`);
-    }
-
-    // Fetch transactions
-    const transactions = await storage.getWalletTransactions(walletAddress, 100);
-    
-    // Filter for incoming transactions
-    const incomingTransactions = transactions.filter(tx => 
-      tx.destinationAddress === walletAddress &&
-      tx.amount && tx.amount > 0
-    );
-
-    // Process each funding source
-    const fundingSources: FundingSource[] = [];
-    
-    for (const tx of incomingTransactions) {
-      // Get or create source wallet
-      let sourceWallet = await storage.getWalletByAddress(tx.sourceAddress);
-      if (!sourceWallet && userId) {
-        sourceWallet = await storage.createWallet({
-          address: tx.sourceAddress,
-          userId,
-        });
-      }
-
-      if (!sourceWallet) {
-        console.warn(`Source wallet not found: ${tx.sourceAddress}`);
-        continue;
-      }
-
-      // Add this as a funding source
-      const fundingSource = await storage.addFundingSource({
-        walletId: wallet.id,
-        sourceWalletId: sourceWallet.id,
-        firstTransactionSignature: tx.signature,
-        firstTransactionDate: tx.blockTime || new Date(),
-        lastTransactionSignature: tx.signature,
-        lastTransactionDate: tx.blockTime || new Date(),
-        totalAmount: tx.amount || 0,
-        transactionCount: 1,
-        isDirectSource: true,
-        confidence: 1,
-        path: [sourceWallet.address, wallet.address],
-        userId: userId,
-      });
-
-      fundingSources.push(fundingSource);
-    }
-
-    // Return all funding sources
-    return await storage.getFundingSources(wallet.id);
-  }
-
   /**
    * Analyzes transaction patterns for a wallet
    */
@@ -281,6 +215,10 @@ export class WalletAnalysisService {
           walletId: wallet.id,
           entityId: entity.id,
           confirmedBy: userId,
+          sourceType: 'heuristic',
+          source: 'counterparty-ratio',
+          evidence: `${uniqueCounterparties.size} distinct counterparties in ${transactions.length} transactions`,
+          confidence: counterpartyRatio,
         });
         
         return [entity];
@@ -292,9 +230,17 @@ export class WalletAnalysisService {
   }
 
   /**
-   * Calculate the full fund origin history for a wallet
+   * Calculate the full fund origin history for a wallet.
+   * Runs a backward trace under the given taint model and stores one funding source per
+   * origin wallet, with every traced path (attributed amount and signatures) in `path`.
+   * Each run replaces the wallet's sources stored for that model.
    */
-  async traceFundOrigins(walletAddress: string, userId?: number, depth: number = 3): Promise<FundingSource[]> {
+  async traceFundOrigins(
+    walletAddress: string,
+    userId?: number,
+    depth: number = 3,
+    model: TaintModel = 'haircut'
+  ): Promise<(FundingSource & { sourceAddress: string })[]> {
     // Get or create wallet
     let wallet = await storage.getWalletByAddress(walletAddress);
     if (!wallet && userId) {
@@ -307,64 +253,54 @@ export class WalletAnalysisService {
     if (!wallet) {
       throw new Error(`Cannot trace fund origins for unknown wallet: ${walletAddress}`);
     }
-    
-    // First, get direct funding sources
-    const directSources = await this.trackFundingSources(walletAddress, userId);
-    
-    if (depth <= 1 || directSources.length === 0) {
-      return directSources;
-    }
-    
-    // For each source, recursively trace its origins
-    const processedAddresses = new Set<string>([walletAddress]);
-    const allSources: FundingSource[] = [...directSources];
-    
-    const processSourceWallet = async (source: FundingSource, currentDepth: number) => {
-      // Skip if we've reached our depth limit or already processed this address
-      const sourceWallet = await storage.getWallet(source.sourceWalletId);
-      if (!sourceWallet || currentDepth >= depth || processedAddresses.has(sourceWallet.address)) {
-        return;
-      }
-      
-      processedAddresses.add(sourceWallet.address);
-      
-      // Find funding sources for this wallet
-      const nestedSources = await this.trackFundingSources(sourceWallet.address, userId);
-      
-      // For each nested source, create an indirect funding source from origin to target
-      for (const nestedSource of nestedSources) {
-        const nestedWallet = await storage.getWallet(nestedSource.sourceWalletId);
-        if (!nestedWallet) continue;
-        
-        // Create indirect funding link
-        const indirectSource = await storage.addFundingSource({
-          walletId: wallet.id,
-          sourceWalletId: nestedSource.sourceWalletId,
-          firstTransactionSignature: nestedSource.firstTransactionSignature,
-          firstTransactionDate: nestedSource.firstTransactionDate,
-          lastTransactionSignature: nestedSource.lastTransactionSignature,
-          lastTransactionDate: nestedSource.lastTransactionDate,
-          totalAmount: nestedSource.totalAmount,
-          transactionCount: nestedSource.transactionCount,
-          isDirectSource: false,
-          confidence: Math.max(0.1, (nestedSource.confidence || 0.5) - 0.2), // Lower confidence for indirect links
-          path: [...(nestedSource.path || []), sourceWallet.address, wallet.address],
-          userId,
-        });
-        
-        allSources.push(indirectSource);
-        
-        // Recurse deeper
-        await processSourceWallet(nestedSource, currentDepth + 1);
+
+    const trace = await fundTracingService.trace(walletAddress, { direction: 'backward', model, depth });
+
+    // Group paths by the wallet the funds originate from; value that only cycled back out of the wallet has no outside origin
+    const pathsByOrigin = new Map<string, TracePath[]>();
+    trace.paths.forEach(path => {
+      const origin = path.addresses[0];
+      if (origin === walletAddress) return;
+      pathsByOrigin.set(origin, [...(pathsByOrigin.get(origin) || []), path]);
+    });
+
+    const sources: InsertFundingSource[] = [];
+    const originAddresses = new Map<number, string>();
+
+    for (const [origin, paths] of Array.from(pathsByOrigin.entries())) {
+      let sourceWallet = await storage.getWalletByAddress(origin);
+      if (!sourceWallet) {
+        sourceWallet = await storage.createWallet({ address: origin, userId });
       }
-    };
-    
-    // Process each direct source
-    for (const source of directSources) {
-      await processSourceWallet(source, 1);
+
+      // The transfers leaving the origin, oldest first
+      const originHops = paths.map(path => path.hops[0])
+        .sort((a, b) => (a.blockTime ?? 0) - (b.blockTime ?? 0));
+      const firstHop = originHops[0];
+      const lastHop = originHops[originHops.length - 1];
+      const totalAmount = paths.reduce((sum, path) => sum + path.attributedAmount, 0);
+
+      const fields = {
+        firstTransactionSignature: firstHop.signature,
+        firstTransactionDate: firstHop.blockTime ? new Date(firstHop.blockTime) : null,
+        lastTransactionSignature: lastHop.signature,
+        lastTransactionDate: lastHop.blockTime ? new Date(lastHop.blockTime) : null,
+        totalAmount,
+        transactionCount: new Set(originHops.map(hop => hop.signature)).size,
+        isDirectSource: paths.some(path => path.hops.length === 1),
+        // Share of the traced value attributed to this origin
+        confidence: trace.totalAmount > 0 ? Math.min(1, totalAmount / trace.totalAmount) : 0,
+        path: paths,
+      };
+
+      sources.push({ walletId: wallet.id, sourceWalletId: sourceWallet.id, userId, ...fields });
+      originAddresses.set(sourceWallet.id, origin);
     }
-    
-    return allSources;
+
+    const stored = await storage.replaceFundingSources(wallet.id, model, sources);
+    return stored
+      .map(source => ({ ...source, sourceAddress: originAddresses.get(source.sourceWalletId)! }))
+      .sort((a, b) => (b.totalAmount || 0) - (a.totalAmount || 0));
   }
 }
 
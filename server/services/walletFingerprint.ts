@@ -0,0 +1,253 @@
+import { storage } from '../storage';
+import { Transaction, Wallet } from '@shared/schema';
+import { NATIVE_SOL_MINT } from '@shared/transfers';
+import { DecodedInstruction, SWAP_PROGRAMS } from '@shared/instructions';
+import { getTransferLegs } from './fundTracing';
+import { labelResolutionService } from './labelResolution';
+
+const FINGERPRINT_VERSION = 2;
+const FINGERPRINT_TRANSACTIONS = 500;
+const DEFAULT_NEIGHBORS = 10;
+const MIN_SHARED_GROUPS = 3; // Feature groups both wallets need data for to be compared
+const MAX_MATCHING_FEATURES = 5;
+
+const PROGRAMS = ['system', 'spl-token', 'spl-associated-token-account', 'spl-memo', ...SWAP_PROGRAMS, 'other'];
+const ENTITY_TYPES = ['exchange', 'defi', 'nft', 'bridge', 'mixer', 'related', 'other', 'unlabeled'];
+const AMOUNT_BUCKETS = [0.001, 0.01, 0.1, 1, 10, 100, 1000]; // Upper bounds in SOL, the last bucket is open
+const CADENCE_BUCKETS = [60, 600, 3600, 6 * 3600, 24 * 3600, 7 * 24 * 3600]; // Upper bounds in seconds
+
+/**
+ * Fixed layout of a fingerprint vector. Each group is a distribution summing to 1,
+ * or all zeros when the wallet has no data for it:
+ * - hours: share of transactions per UTC hour of day
+ * - programs: share of top-level instructions per program, unregistered programs as "other"
+ * - amounts: share of SOL transfers per order of magnitude
+ * - entities: share of transfers per counterparty entity type
+ * - cadence: share of gaps between consecutive transactions per duration bucket
+ */
+export const FINGERPRINT_GROUPS: { name: string; labels: string[] }[] = [
+  { name: 'hours', labels: Array.from({ length: 24 }, (_, hour) => `active at ${String(hour).padStart(2, '0')}:00 UTC`) },
+  { name: 'programs', labels: PROGRAMS.map(program => `uses ${program}`) },
+  {
+    name: 'amounts',
+    labels: [...AMOUNT_BUCKETS.map(bound => `transfers below ${bound} SOL`), `transfers of ${AMOUNT_BUCKETS[AMOUNT_BUCKETS.length - 1]}+ SOL`],
+  },
+  { name: 'entities', labels: ENTITY_TYPES.map(type => `${type} counterparties`) },
+  {
+    name: 'cadence',
+    labels: [...CADENCE_BUCKETS.map(bound => `gaps under ${formatDuration(bound)}`), `gaps over ${formatDuration(CADENCE_BUCKETS[CADENCE_BUCKETS.length - 1])}`],
+  },
+];
+
+export interface WalletFingerprint {
+  version: number;
+  vector: number[]; // Groups concatenated in FINGERPRINT_GROUPS order
+  transactionCount: number;
+  computedAt: string;
+}
+
+export interface FeatureSimilarity {
+  group: string;
+  similarity: number; // Cosine similarity of the group's distributions
+}
+
+export interface SimilarWallet {
+  address: string;
+  label: string | null;
+  similarity: number; // Mean of the group similarities both wallets have data for
+  groups: FeatureSimilarity[]; // Most similar first
+  matchingFeatures: string[]; // Features carrying the most shared weight
+}
+
+interface TransactionMetadata {
+  instructions?: DecodedInstruction[];
+}
+
+/**
+ * WalletFingerprintService summarizes a wallet's behavior as a fixed-length vector:
+ * - Built from the stored transactions, refreshed after every ingestion
+ * - Stored under wallets.metadata.fingerprint
+ * - Nearest neighbors are found by comparing every fingerprinted wallet group by group
+ */
+export class WalletFingerprintService {
+  /**
+   * Compute and store the fingerprint of an address; returns undefined when nothing is stored for it
+   */
+  async updateFingerprint(address: string): Promise<WalletFingerprint | undefined> {
+    const transactions = (await storage.getAddressTransactions(address, FINGERPRINT_TRANSACTIONS))
+      .filter(tx => tx.status !== 'failed');
+    if (transactions.length === 0) return undefined;
+
+    const counterparties = new Set<string>();
+    transactions.forEach(tx => getTransferLegs(tx).forEach(leg => {
+      if (leg.from === address && leg.to !== address) counterparties.add(leg.to);
+      if (leg.to === address && leg.from !== address) counterparties.add(leg.from);
+    }));
+    // Entity type of each counterparty's effective public label
+    const labels = await labelResolutionService.resolve(Array.from(counterparties));
+    const entityTypes: Record<string, string> = {};
+    Object.keys(labels).forEach(counterparty => { entityTypes[counterparty] = labels[counterparty].label.type; });
+
+    const fingerprint: WalletFingerprint = {
+      version: FINGERPRINT_VERSION,
+      vector: buildVector(address, transactions, entityTypes),
+      transactionCount: transactions.length,
+      computedAt: new Date().toISOString(),
+    };
+
+    let wallet = await storage.getWalletByAddress(address);
+    if (!wallet) {
+      wallet = await storage.createWallet({ address });
+    }
+    await storage.mergeWalletMetadata(wallet.id, 'fingerprint', fingerprint);
+
+    return fingerprint;
+  }
+
+  /**
+   * Wallets whose fingerprints are closest to the given address's, computing its fingerprint when missing
+   */
+  async findSimilarWallets(
+    address: string,
+    options: { limit?: number; minSimilarity?: number } = {}
+  ): Promise<SimilarWallet[] | undefined> {
+    const wallet = await storage.getWalletByAddress(address);
+    let fingerprint = getFingerprint(wallet);
+    if (!fingerprint) {
+      fingerprint = await this.updateFingerprint(address);
+      if (!fingerprint) return undefined;
+    }
+
+    const candidates = await storage.getFingerprintedWallets();
+    const neighbors: SimilarWallet[] = [];
+
+    candidates.forEach(candidate => {
+      const other = getFingerprint(candidate);
+      if (candidate.address === address || !other) return;
+
+      const comparison = compareFingerprints(fingerprint!.vector, other.vector);
+      if (!comparison || comparison.similarity < (options.minSimilarity ?? 0)) return;
+
+      neighbors.push({ address: candidate.address, label: candidate.label, ...comparison });
+    });
+
+    return neighbors
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.limit || DEFAULT_NEIGHBORS);
+  }
+}
+
+// Current-version fingerprint stored on a wallet
+function getFingerprint(wallet: Wallet | undefined): WalletFingerprint | undefined {
+  const fingerprint = (wallet?.metadata as { fingerprint?: WalletFingerprint } | null)?.fingerprint;
+  return fingerprint && fingerprint.version === FINGERPRINT_VERSION ? fingerprint : undefined;
+}
+
+function buildVector(address: string, transactions: Transaction[], entityTypes: Record<string, string>): number[] {
+  const hours = new Array<number>(24).fill(0);
+  const programs = new Array<number>(PROGRAMS.length).fill(0);
+  const amounts = new Array<number>(AMOUNT_BUCKETS.length + 1).fill(0);
+  const entities = new Array<number>(ENTITY_TYPES.length).fill(0);
+  const cadence = new Array<number>(CADENCE_BUCKETS.length + 1).fill(0);
+
+  const times = transactions
+    .filter(tx => tx.blockTime)
+    .map(tx => tx.blockTime!.getTime())
+    .sort((a, b) => a - b);
+  times.forEach(time => hours[new Date(time).getUTCHours()]++);
+  for (let i = 1; i < times.length; i++) {
+    cadence[bucketIndex(CADENCE_BUCKETS, (times[i] - times[i - 1]) / 1000)]++;
+  }
+
+  transactions.forEach(tx => {
+    const instructions = ((tx.metadata || {}) as TransactionMetadata).instructions || [];
+    instructions.forEach(instruction => {
+      const program = instruction.program === 'spl-token-2022' ? 'spl-token' : instruction.program;
+      const index = PROGRAMS.indexOf(program);
+      programs[index >= 0 ? index : PROGRAMS.length - 1]++;
+    });
+
+    getTransferLegs(tx).forEach(leg => {
+      if (leg.from === leg.to || (leg.from !== address && leg.to !== address)) return;
+
+      if (leg.mint === NATIVE_SOL_MINT && leg.uiAmount > 0) {
+        amounts[bucketIndex(AMOUNT_BUCKETS, leg.uiAmount)]++;
+      }
+
+      const type = entityTypes[leg.from === address ? leg.to : leg.from];
+      entities[ENTITY_TYPES.indexOf(!type ? 'unlabeled' : ENTITY_TYPES.includes(type) ? type : 'other')]++;
+    });
+  });
+
+  return [hours, programs, amounts, entities, cadence].flatMap(normalize);
+}
+
+/**
+ * Group-wise cosine similarity over the groups both vectors have data for
+ */
+function compareFingerprints(
+  a: number[],
+  b: number[]
+): { similarity: number; groups: FeatureSimilarity[]; matchingFeatures: string[] } | undefined {
+  const groups: FeatureSimilarity[] = [];
+  const shared: { label: string; weight: number }[] = [];
+
+  let offset = 0;
+  FINGERPRINT_GROUPS.forEach(group => {
+    const sliceA = a.slice(offset, offset + group.labels.length);
+    const sliceB = b.slice(offset, offset + group.labels.length);
+    offset += group.labels.length;
+
+    const similarity = cosine(sliceA, sliceB);
+    if (similarity === undefined) return;
+
+    groups.push({ group: group.name, similarity });
+    group.labels.forEach((label, index) => {
+      const weight = Math.min(sliceA[index], sliceB[index]);
+      if (weight > 0) shared.push({ label, weight });
+    });
+  });
+
+  if (groups.length < MIN_SHARED_GROUPS) return undefined;
+
+  return {
+    similarity: groups.reduce((sum, group) => sum + group.similarity, 0) / groups.length,
+    groups: groups.sort((x, y) => y.similarity - x.similarity),
+    matchingFeatures: shared
+      .sort((x, y) => y.weight - x.weight)
+      .slice(0, MAX_MATCHING_FEATURES)
+      .map(feature => feature.label),
+  };
+}
+
+function cosine(a: number[], b: number[]): number | undefined {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((value, index) => {
+    dot += value * b[index];
+    normA += value * value;
+    normB += b[index] * b[index];
+  });
+  if (normA === 0 || normB === 0) return undefined;
+  return dot / Math.sqrt(normA * normB);
+}
+
+function normalize(counts: number[]): number[] {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return total > 0 ? counts.map(count => count / total) : counts;
+}
+
+function bucketIndex(bounds: number[], value: number): number {
+  const index = bounds.findIndex(bound => value < bound);
+  return index >= 0 ? index : bounds.length;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 3600) return `${seconds / 60} min`;
+  if (seconds < 24 * 3600) return `${seconds / 3600} h`;
+  return `${seconds / (24 * 3600)} d`;
+}
+
+// Export a singleton instance
+export const walletFingerprintService = new WalletFingerprintService();
@@ -1,117 +1,455 @@
-import { Connection, clusterApiUrl, PublicKey } from '@solana/web3.js';
+import { Connection, clusterApiUrl, FetchFn, PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { decodeBalanceChanges, TransferLeg } from '@shared/transfers';
+import { rpcCacheService } from './services/rpcCache';
+import { fixtureRecorder } from './fixtures';
 
-let connection: Connection;
 const RATE_LIMIT_RETRIES = 5;
-const MAX_BATCH_SIZE = 5; // Maximum number of transactions to fetch in parallel
+const DEFAULT_BATCH_SIZE_PER_ENDPOINT = 5; // Transactions fetched in parallel per configured endpoint
+const DEFAULT_REQUESTS_PER_SECOND = 10;
+const PUBLIC_REQUESTS_PER_SECOND = 4; // The public mainnet endpoint throttles aggressively
+const MAX_COOLDOWN_MS = 10000;
+const FAILURES_BEFORE_COOLDOWN = 3;
+const HEALTH_SMOOTHING = 0.2; // Weight of the newest sample in the latency/error moving averages
+const INITIAL_LATENCY_MS = 500;
+
+type RpcErrorKind = 'rate-limit' | 'transient' | 'fatal';
+
+/**
+ * Health and rate limit state of a single RPC endpoint
+ */
+interface RpcEndpoint {
+  url: string;
+  name: string; // Host only, so API keys in paths or query strings are never reported
+  connection: Connection;
+  requestsPerSecond: number;
+  tokens: number;
+  lastRefill: number;
+  latencyMs: number; // Exponential moving average of successful request latency
+  errorRate: number; // Exponential moving average of failed requests (0-1)
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+}
+
+/**
+ * Per-endpoint status reported on /api/health
+ */
+export interface RpcEndpointStatus {
+  name: string;
+  healthy: boolean;
+  score: number;
+  latencyMs: number;
+  errorRate: number;
+  requestsPerSecond: number;
+  availableTokens: number;
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  coolingDownForMs: number;
+  lastError: string | null;
+  lastSuccessAt: string | null;
+}
 
 /**
- * Gets or creates a Solana connection using the configured endpoint.
- * We're now using the default mainnet-beta endpoint since the custom endpoint was having issues.
+ * RpcPool spreads requests over the configured Solana RPC endpoints:
+ * - Each endpoint has a token bucket sized to its requests-per-second limit
+ * - Latency and error rate are tracked as moving averages and combined into a health score
+ * - Requests go to the healthiest endpoint with capacity and fail over on rate limits or network errors
+ */
+export class RpcPool {
+  private endpoints: RpcEndpoint[];
+
+  constructor(configs: { url: string; requestsPerSecond: number }[]) {
+    this.endpoints = configs.map(config => ({
+      url: config.url,
+      name: getEndpointName(config.url),
+      connection: new Connection(config.url, {
+        commitment: 'confirmed',
+        disableRetryOnRateLimit: true, // The pool handles rate limits by failing over
+        confirmTransactionInitialTimeout: 60000,
+        // Record or replay raw JSON-RPC responses when a fixture mode is active
+        fetch: fixtureRecorder.enabled ? fixtureRecorder.wrapFetch<FetchFn>('rpc', fetch) : undefined,
+      }),
+      requestsPerSecond: config.requestsPerSecond,
+      tokens: config.requestsPerSecond,
+      lastRefill: Date.now(),
+      latencyMs: INITIAL_LATENCY_MS,
+      errorRate: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+      requests: 0,
+      failures: 0,
+      rateLimited: 0,
+      lastError: null,
+      lastSuccessAt: null,
+    }));
+  }
+
+  get size(): number {
+    return this.endpoints.length;
+  }
+
+  /**
+   * Run an RPC operation against the healthiest endpoint, failing over to the
+   * next one on rate limits and transient errors. Other errors are rethrown as-is.
+   */
+  async execute<T>(operation: (connection: Connection) => Promise<T>, label: string = 'request'): Promise<T> {
+    const maxAttempts = Math.max(RATE_LIMIT_RETRIES, this.endpoints.length * 2);
+    const attempted = new Set<RpcEndpoint>();
+    let lastError: any;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      // Once every endpoint has failed for this request, start over with the full pool
+      if (attempted.size === this.endpoints.length) attempted.clear();
+
+      const endpoint = this.selectEndpoint(attempted);
+      attempted.add(endpoint);
+
+      // Everything is cooling down, wait for the selected endpoint to come back
+      const cooldown = endpoint.cooldownUntil - Date.now();
+      if (cooldown > 0) {
+        await sleep(cooldown);
+      }
+
+      await this.acquireToken(endpoint);
+
+      const startedAt = Date.now();
+      endpoint.requests++;
+
+      try {
+        const result = await operation(endpoint.connection);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return result;
+      } catch (error: any) {
+        const kind = classifyRpcError(error);
+        if (kind === 'fatal') {
+          // The request itself is bad, another endpoint would fail the same way
+          throw error;
+        }
+
+        lastError = error;
+        this.recordFailure(endpoint, kind, error);
+        console.log(`RPC ${label} failed on ${endpoint.name} (${kind}), attempt ${attempt + 1}/${maxAttempts}`);
+      }
+    }
+
+    throw new Error(`RPC ${label} failed on all endpoints: ${lastError?.message || 'unknown error'}`);
+  }
+
+  /**
+   * Connection of the currently healthiest endpoint
+   */
+  getBestConnection(): Connection {
+    return this.selectEndpoint(new Set()).connection;
+  }
+
+  /**
+   * Health snapshot of every endpoint, in configuration order
+   */
+  getStatus(): RpcEndpointStatus[] {
+    const now = Date.now();
+
+    return this.endpoints.map(endpoint => {
+      this.refillTokens(endpoint);
+      return {
+        name: endpoint.name,
+        healthy: endpoint.cooldownUntil <= now && endpoint.errorRate < 0.5,
+        score: Math.round(this.getScore(endpoint) * 1000) / 1000,
+        latencyMs: Math.round(endpoint.latencyMs),
+        errorRate: Math.round(endpoint.errorRate * 1000) / 1000,
+        requestsPerSecond: endpoint.requestsPerSecond,
+        availableTokens: Math.floor(endpoint.tokens),
+        requests: endpoint.requests,
+        failures: endpoint.failures,
+        rateLimited: endpoint.rateLimited,
+        coolingDownForMs: Math.max(0, endpoint.cooldownUntil - now),
+        lastError: endpoint.lastError,
+        lastSuccessAt: endpoint.lastSuccessAt ? new Date(endpoint.lastSuccessAt).toISOString() : null,
+      };
+    });
+  }
+
+  /**
+   * Health score between 0 and 1: success rate discounted by latency, 0 while cooling down
+   */
+  private getScore(endpoint: RpcEndpoint): number {
+    if (endpoint.cooldownUntil > Date.now()) return 0;
+    return (1 - endpoint.errorRate) / (1 + endpoint.latencyMs / 1000);
+  }
+
+  /**
+   * Pick the best scoring endpoint that has a token available, otherwise the best scoring one.
+   * Endpoints already attempted for the current request are skipped.
+   */
+  private selectEndpoint(exclude: Set<RpcEndpoint>): RpcEndpoint {
+    const candidates = this.endpoints
+      .filter(endpoint => !exclude.has(endpoint))
+      .map(endpoint => {
+        this.refillTokens(endpoint);
+        return { endpoint, score: this.getScore(endpoint) };
+      })
+      .sort((a, b) => b.score - a.score || a.endpoint.cooldownUntil - b.endpoint.cooldownUntil);
+
+    const withCapacity = candidates.find(candidate => candidate.score > 0 && candidate.endpoint.tokens >= 1);
+    return (withCapacity || candidates[0]).endpoint;
+  }
+
+  private refillTokens(endpoint: RpcEndpoint): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - endpoint.lastRefill) / 1000;
+    endpoint.tokens = Math.min(endpoint.requestsPerSecond, endpoint.tokens + elapsedSeconds * endpoint.requestsPerSecond);
+    endpoint.lastRefill = now;
+  }
+
+  /**
+   * Wait until the endpoint's token bucket allows another request
+   */
+  private async acquireToken(endpoint: RpcEndpoint): Promise<void> {
+    this.refillTokens(endpoint);
+
+    while (endpoint.tokens < 1) {
+      await sleep(Math.ceil(((1 - endpoint.tokens) / endpoint.requestsPerSecond) * 1000));
+      this.refillTokens(endpoint);
+    }
+
+    endpoint.tokens -= 1;
+  }
+
+  private recordSuccess(endpoint: RpcEndpoint, latencyMs: number): void {
+    endpoint.latencyMs = endpoint.latencyMs * (1 - HEALTH_SMOOTHING) + latencyMs * HEALTH_SMOOTHING;
+    endpoint.errorRate = endpoint.errorRate * (1 - HEALTH_SMOOTHING);
+    endpoint.consecutiveFailures = 0;
+    endpoint.lastSuccessAt = Date.now();
+  }
+
+  private recordFailure(endpoint: RpcEndpoint, kind: RpcErrorKind, error: any): void {
+    endpoint.errorRate = endpoint.errorRate * (1 - HEALTH_SMOOTHING) + HEALTH_SMOOTHING;
+    endpoint.consecutiveFailures++;
+    endpoint.failures++;
+    endpoint.lastError = error?.message || String(error);
+
+    if (kind === 'rate-limit') {
+      // Back off exponentially and drain the bucket so other endpoints take the load
+      endpoint.rateLimited++;
+      endpoint.tokens = 0;
+      endpoint.cooldownUntil = Date.now() + Math.min(1000 * Math.pow(2, endpoint.consecutiveFailures), MAX_COOLDOWN_MS);
+    } else if (endpoint.consecutiveFailures >= FAILURES_BEFORE_COOLDOWN) {
+      endpoint.cooldownUntil = Date.now() + Math.min(1000 * endpoint.consecutiveFailures, MAX_COOLDOWN_MS);
+    }
+  }
+}
+
+/**
+ * Endpoints from SOLANA_RPC_URL and SOLANA_RPC_URLS (comma separated, each optionally
+ * suffixed with "|<requests per second>"), falling back to the public mainnet endpoint
+ */
+function getEndpointConfigs(): { url: string; requestsPerSecond: number }[] {
+  const defaultRate = parseInt(process.env.SOLANA_RPC_RATE_LIMIT || '') || DEFAULT_REQUESTS_PER_SECOND;
+  const entries = [process.env.SOLANA_RPC_URL, ...(process.env.SOLANA_RPC_URLS || '').split(',')]
+    .map(entry => entry?.trim())
+    .filter((entry): entry is string => !!entry);
+
+  const configs = entries.map(entry => {
+    const [url, rate] = entry.split('|');
+    return { url: url.trim(), requestsPerSecond: parseFloat(rate) || defaultRate };
+  });
+
+  // The same URL may be given in both variables
+  const unique = configs.filter((config, index) => configs.findIndex(c => c.url === config.url) === index);
+
+  if (unique.length === 0) {
+    return [{ url: clusterApiUrl('mainnet-beta'), requestsPerSecond: PUBLIC_REQUESTS_PER_SECOND }];
+  }
+
+  return unique;
+}
+
+function getEndpointName(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch (error) {
+    return 'invalid-url';
+  }
+}
+
+/**
+ * Rate limits and network/server failures are worth retrying elsewhere, anything else is not
+ */
+function classifyRpcError(error: any): RpcErrorKind {
+  const message: string = error?.message || String(error);
+
+  if (message.includes('429') || message.includes('Too many requests') || message.includes('rate limit')) {
+    return 'rate-limit';
+  }
+  if (/50[234]|fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|socket hang up|timed out|timeout/i.test(message)) {
+    return 'transient';
+  }
+  return 'fatal';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+let rpcPool: RpcPool | undefined;
+let pooledConnection: Connection | undefined;
+
+/**
+ * Gets or creates the RPC pool from the configured endpoints
+ */
+export function getRpcPool(): RpcPool {
+  if (!rpcPool) {
+    rpcPool = new RpcPool(getEndpointConfigs());
+    console.log(`Initialized Solana RPC pool with ${rpcPool.size} endpoint(s)`);
+  }
+  return rpcPool;
+}
+
+/**
+ * Gets a Connection backed by the RPC pool. Every get* RPC method is routed to the
+ * healthiest endpoint with failover, so existing callers need no changes.
+ * getTransaction and getSignaturesForAddress also go through the RPC cache.
  */
 export function getSolanaConnection(): Connection {
-  if (!connection) {
-    // Force using the default mainnet-beta endpoint
-    const rpcEndpoint = process.env.SOLANA_RPC_URL || clusterApiUrl('mainnet-beta');
-    connection = new Connection(rpcEndpoint, {
-      commitment: 'confirmed',
-      disableRetryOnRateLimit: false, // Let the connection handle rate limits
-      confirmTransactionInitialTimeout: 60000,
+  if (!pooledConnection) {
+    pooledConnection = new Proxy({} as Connection, {
+      get(_target, property) {
+        const pool = getRpcPool();
+        const best = pool.getBestConnection() as any;
+        const value = best[property];
+
+        if (typeof value !== 'function') return value;
+        if (property === 'getTransaction') {
+          return (signature: string, config?: any) => isCacheableTransactionConfig(config)
+            ? getTransaction(signature)
+            : pool.execute(connection => connection.getTransaction(signature, config), property);
+        }
+        if (property === 'getSignaturesForAddress') {
+          return (address: PublicKey, options?: any, commitment?: any) => !commitment
+            ? getSignaturesForAddress(address, options)
+            : pool.execute(connection => connection.getSignaturesForAddress(address, options, commitment), property);
+        }
+        if (typeof property === 'string' && property.startsWith('get')) {
+          return (...args: any[]) => pool.execute(connection => (connection as any)[property](...args), property);
+        }
+        return value.bind(best);
+      },
     });
-    console.log('Initialized Solana connection to RPC endpoint');
   }
-  return connection;
+  return pooledConnection;
 }
 
 /**
- * Reset the Solana connection, forcing a new connection on the next call to getSolanaConnection()
+ * Reset the RPC pool, re-reading the endpoint configuration on the next call to getSolanaConnection()
  */
 export function resetSolanaConnection(): void {
-  connection = undefined as unknown as Connection;
+  rpcPool = undefined;
+}
+
+/**
+ * Per-endpoint health for /api/health
+ */
+export function getRpcPoolStatus(): RpcEndpointStatus[] {
+  return getRpcPool().getStatus();
 }
 
 /**
- * Fetch transaction signatures with retry logic for rate limiting
+ * Number of transactions to fetch in parallel, configurable with SOLANA_RPC_BATCH_SIZE
+ */
+function getBatchSize(): number {
+  return parseInt(process.env.SOLANA_RPC_BATCH_SIZE || '') || DEFAULT_BATCH_SIZE_PER_ENDPOINT * getRpcPool().size;
+}
+
+/**
+ * Only the default-commitment, version 0 lookups used throughout the server are cached
+ */
+function isCacheableTransactionConfig(config?: any): boolean {
+  return config?.maxSupportedTransactionVersion === 0 && !config.commitment;
+}
+
+/**
+ * Fetch transaction signatures through the RPC cache and pool
  */
 export async function getSignaturesForAddress(
   address: PublicKey,
-  options: { limit?: number; before?: string } = {}
+  options: { limit?: number; before?: string; until?: string } = {}
 ): Promise<any[]> {
-  const conn = getSolanaConnection();
-  let retries = 0;
-  
-  while (retries < RATE_LIMIT_RETRIES) {
-    try {
-      const signatures = await conn.getSignaturesForAddress(address, options);
-      return signatures;
-    } catch (error: any) {
-      // Check if it's a rate limit error
-      if (error.message?.includes('429') || error.message?.includes('Too many requests')) {
-        retries++;
-        console.log(`Rate limited when fetching signatures, retry ${retries}/${RATE_LIMIT_RETRIES}`);
-        
-        // Exponential backoff
-        const delay = Math.min(1000 * Math.pow(2, retries), 10000);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      } else {
-        // Not a rate limit error, rethrow
-        throw error;
-      }
-    }
-  }
-  
-  throw new Error('Failed to fetch signatures after multiple retries due to rate limiting');
+  return rpcCacheService.getSignatures(address.toBase58(), options, () =>
+    getRpcPool().execute(
+      connection => connection.getSignaturesForAddress(address, options),
+      'getSignaturesForAddress'
+    )
+  );
+}
+
+/**
+ * Fetch a single transaction through the RPC cache and pool
+ */
+export async function getTransaction(signature: string): Promise<VersionedTransactionResponse | null> {
+  return rpcCacheService.getTransaction(signature, () =>
+    getRpcPool().execute(
+      connection => connection.getTransaction(signature, { maxSupportedTransactionVersion: 0 }),
+      'getTransaction'
+    )
+  );
 }
 
 /**
- * Fetch transaction details in batches with retry logic for rate limiting
+ * Fetch transaction details in batches through the RPC pool. Pacing is left to the
+ * per-endpoint token buckets, so batches are only bounded by SOLANA_RPC_BATCH_SIZE.
  */
 export async function getTransactionsInBatches(signatures: string[]): Promise<any[]> {
-  const conn = getSolanaConnection();
+  const batchSize = getBatchSize();
   const results: any[] = [];
   
-  // Process in small batches to avoid overloading the RPC endpoint
-  for (let i = 0; i < signatures.length; i += MAX_BATCH_SIZE) {
-    const batch = signatures.slice(i, i + MAX_BATCH_SIZE);
+  for (let i = 0; i < signatures.length; i += batchSize) {
+    const batch = signatures.slice(i, i + batchSize);
     
-    // Process each transaction in batch with retries
     const batchResults = await Promise.all(
       batch.map(async (signature) => {
-        let retries = 0;
-        
-        while (retries < RATE_LIMIT_RETRIES) {
-          try {
-            const tx = await conn.getTransaction(signature, {
-              maxSupportedTransactionVersion: 0,
-            });
-            return { signature, transaction: tx };
-          } catch (error: any) {
-            // Check if it's a rate limit error
-            if (error.message?.includes('429') || error.message?.includes('Too many requests')) {
-              retries++;
-              console.log(`Rate limited when fetching transaction ${signature}, retry ${retries}/${RATE_LIMIT_RETRIES}`);
-              
-              // Exponential backoff
-              const delay = Math.min(1000 * Math.pow(2, retries), 10000);
-              await new Promise(resolve => setTimeout(resolve, delay));
-            } else {
-              // Not a rate limit error, return null
-              console.log(`Error fetching transaction ${signature}: ${error.message}`);
-              return { signature, transaction: null, error: error.message };
-            }
-          }
+        try {
+          const tx = await getTransaction(signature);
+          return { signature, transaction: tx };
+        } catch (error: any) {
+          console.log(`Error fetching transaction ${signature}: ${error.message}`);
+          return { signature, transaction: null, error: error.message };
         }
-        
-        return { signature, transaction: null, error: 'Rate limited too many times' };
       })
     );
     
     results.push(...batchResults);
-    
-    // Add a small delay between batches to avoid rate limiting
-    if (i + MAX_BATCH_SIZE < signatures.length) {
-      await new Promise(resolve => setTimeout(resolve, 500));
-    }
   }
   
   return results;
-}
\ No newline at end of file
+}
+
+/**
+ * Resolve the full account key list of a fetched transaction, including keys
+ * loaded from address lookup tables for versioned transactions. The order
+ * matches meta.preBalances/postBalances.
+ */
+export function getTransactionAccountKeys(tx: VersionedTransactionResponse): string[] {
+  const message = tx.transaction.message;
+  
+  try {
+    const accountKeys = message.version === 'legacy'
+      ? message.getAccountKeys()
+      : message.getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses });
+    return accountKeys.keySegments().flat().map(key => key.toBase58());
+  } catch (error) {
+    // Lookup table keys were not returned by the RPC node, fall back to static keys
+    return message.staticAccountKeys.map(key => key.toBase58());
+  }
+}
+
+/**
+ * Decode the SOL and SPL token transfer legs of a fetched transaction
+ */
+export function getTransactionTransfers(tx: VersionedTransactionResponse): TransferLeg[] {
+  if (!tx.meta) return [];
+  return decodeBalanceChanges(getTransactionAccountKeys(tx), tx.meta);
+}
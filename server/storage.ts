@@ -1,12 +1,30 @@
-import { users, type User, type InsertUser, wallets, type Wallet, type InsertWallet, visualizations, 
+import { users, type User, type InsertUser, teamMembers, wallets, type Wallet, type InsertWallet, visualizations, 
   type Visualization, type InsertVisualization, transactions, type Transaction, type InsertTransaction, 
   transactionTracking, type TransactionTracking, type InsertTransactionTracking, 
   entities, type Entity, type InsertEntity, walletEntityRelations, type WalletEntityRelation, 
-  type InsertWalletEntityRelation, fundingSources, type FundingSource, type InsertFundingSource,
-  activityPatterns, type ActivityPattern, type InsertActivityPattern } from "@shared/schema";
+  type InsertWalletEntityRelation, labelDatasets, type LabelDataset, type InsertLabelDataset, fundingSources, type FundingSource, type InsertFundingSource,
+  activityPatterns, type ActivityPattern, type InsertActivityPattern,
+  ingestionCursors, type IngestionCursor, type InsertIngestionCursor,
+  rpcCacheEntries, type RpcCacheEntry, type InsertRpcCacheEntry,
+  backfillJobs, type BackfillJob, type InsertBackfillJob,
+  depositDiscoveryJobs, type DepositDiscoveryJob, type InsertDepositDiscoveryJob,
+  sybilDetectionJobs, type SybilDetectionJob, type InsertSybilDetectionJob,
+  clusters, type Cluster, type InsertCluster, clusterMembers, type ClusterMember, type InsertClusterMember } from "@shared/schema";
+import type { TaintModel } from "@shared/tracing";
 import { nanoid } from "nanoid";
 import { db } from "./db";
-import { eq, and, desc, sql, or, count, max, min, avg } from "drizzle-orm";
+import { eq, and, asc, desc, sql, or, count, max, min, avg, inArray, isNull } from "drizzle-orm";
+
+// Wallet columns written by the on-chain account classifier
+export type WalletAccountFields = Pick<Wallet, 'type' | 'classification' | 'executable' | 'owner'>;
+
+// Wallet columns written alongside a metadata key by the analysis services
+export type WalletMetadataColumns = Partial<WalletAccountFields & Pick<Wallet, 'riskScore'>>;
+
+// Label assertions that count towards shared analyses: not withdrawn and not part of a team's private overlay
+function isPublicLabel() {
+  return and(isNull(walletEntityRelations.retiredAt), isNull(walletEntityRelations.teamId));
+}
 
 // Interface for storage operations
 export interface IStorage {
@@ -21,13 +39,53 @@ export interface IStorage {
   getWalletByAddress(address: string): Promise<Wallet | undefined>;
   createWallet(wallet: InsertWallet): Promise<Wallet>;
   updateWalletLastFetched(id: number): Promise<Wallet | undefined>;
+  mergeWalletMetadata(id: number, key: string, value: unknown, columns?: WalletMetadataColumns): Promise<Wallet | undefined>;
+  getWalletsByAddresses(addresses: string[]): Promise<Wallet[]>;
   getUserWallets(userId: number): Promise<Wallet[]>;
+  getFingerprintedWallets(): Promise<Wallet[]>;
   
   // Transaction operations
   getTransaction(id: number): Promise<Transaction | undefined>;
   getTransactionBySignature(signature: string): Promise<Transaction | undefined>;
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
   getWalletTransactions(address: string, limit?: number): Promise<Transaction[]>;
+  upsertTransaction(transaction: InsertTransaction): Promise<Transaction>;
+  getAddressTransactions(address: string, limit?: number, order?: 'newest' | 'oldest'): Promise<Transaction[]>;
+  getTransactionsBySignatures(signatures: string[]): Promise<Transaction[]>;
+  
+  // Ingestion cursor operations
+  getIngestionCursor(walletAddress: string): Promise<IngestionCursor | undefined>;
+  saveIngestionCursor(cursor: InsertIngestionCursor): Promise<IngestionCursor>;
+  
+  // RPC cache operations
+  getRpcCacheEntry(key: string): Promise<RpcCacheEntry | undefined>;
+  saveRpcCacheEntry(entry: InsertRpcCacheEntry): Promise<RpcCacheEntry>;
+  
+  // Backfill job operations
+  createBackfillJob(job: InsertBackfillJob): Promise<BackfillJob>;
+  getBackfillJob(id: number): Promise<BackfillJob | undefined>;
+  getBackfillJobsByWallet(walletAddress: string): Promise<BackfillJob[]>;
+  getBackfillJobsByStatus(statuses: BackfillJob['status'][]): Promise<BackfillJob[]>;
+  updateBackfillJob(id: number, fields: Partial<Omit<BackfillJob, 'id'>>): Promise<BackfillJob | undefined>;
+  
+  // Deposit discovery job operations
+  createDepositDiscoveryJob(job: InsertDepositDiscoveryJob): Promise<DepositDiscoveryJob>;
+  getDepositDiscoveryJob(id: number): Promise<DepositDiscoveryJob | undefined>;
+  getDepositDiscoveryJobsByWallet(hotWalletAddress: string): Promise<DepositDiscoveryJob[]>;
+  getDepositDiscoveryJobsByStatus(statuses: DepositDiscoveryJob['status'][]): Promise<DepositDiscoveryJob[]>;
+  updateDepositDiscoveryJob(id: number, fields: Partial<Omit<DepositDiscoveryJob, 'id'>>): Promise<DepositDiscoveryJob | undefined>;
+  
+  // Sybil detection job operations
+  createSybilDetectionJob(job: InsertSybilDetectionJob): Promise<SybilDetectionJob>;
+  getSybilDetectionJob(id: number): Promise<SybilDetectionJob | undefined>;
+  getSybilDetectionJobsByStatus(statuses: SybilDetectionJob['status'][]): Promise<SybilDetectionJob[]>;
+  updateSybilDetectionJob(id: number, fields: Partial<Omit<SybilDetectionJob, 'id'>>): Promise<SybilDetectionJob | undefined>;
+  
+  // Transaction cluster operations
+  saveCluster(cluster: InsertCluster, members: InsertClusterMember[]): Promise<Cluster>;
+  getCluster(id: string): Promise<Cluster | undefined>;
+  getClusterMembers(clusterId: string): Promise<ClusterMember[]>;
+  getWalletClusters(walletAddress: string): Promise<Cluster[]>;
   
   // Transaction tracking operations
   trackTransaction(tracking: InsertTransactionTracking): Promise<TransactionTracking>;
@@ -37,11 +95,13 @@ export interface IStorage {
   getFundingSources(walletId: number): Promise<FundingSource[]>;
   addFundingSource(source: InsertFundingSource): Promise<FundingSource>;
   updateFundingSource(id: number, source: Partial<InsertFundingSource>): Promise<FundingSource | undefined>;
+  replaceFundingSources(walletId: number, model: TaintModel, sources: InsertFundingSource[]): Promise<FundingSource[]>;
   
   // Activity pattern operations
   getWalletActivityPatterns(walletId: number): Promise<ActivityPattern[]>;
   addActivityPattern(pattern: InsertActivityPattern): Promise<ActivityPattern>;
   updateActivityPattern(id: number, pattern: Partial<InsertActivityPattern>): Promise<ActivityPattern | undefined>;
+  saveFindingPatterns(patterns: InsertActivityPattern[]): Promise<ActivityPattern[]>;
   
   // Entity operations
   getEntity(id: number): Promise<Entity | undefined>;
@@ -49,11 +109,24 @@ export interface IStorage {
   getEntities(userId?: number): Promise<Entity[]>;
   getEntitiesByType(type: string): Promise<Entity[]>;
   getEntityByAddress(address: string): Promise<Entity | undefined>;
+  updateEntity(id: number, entity: Partial<InsertEntity>): Promise<Entity | undefined>;
   
   // Wallet-Entity relationship operations
   addWalletToEntity(relation: InsertWalletEntityRelation): Promise<WalletEntityRelation>;
   getWalletEntities(walletId: number): Promise<Entity[]>;
   getEntityWallets(entityId: number): Promise<Wallet[]>;
+  getAddressLabels(addresses: string[], teamIds?: number[]): Promise<{ address: string; relation: WalletEntityRelation; entity: Entity }[]>;
+  getEntityLabels(entityId: number, teamIds?: number[]): Promise<{ address: string; relation: WalletEntityRelation; entity: Entity }[]>;
+  getWalletEntityRelation(id: number): Promise<WalletEntityRelation | undefined>;
+  updateWalletEntityRelation(id: number, relation: Partial<InsertWalletEntityRelation>): Promise<WalletEntityRelation | undefined>;
+  retireWalletEntityRelations(ids: number[]): Promise<void>;
+  getUserTeamIds(userId: number): Promise<number[]>;
+  
+  // Label dataset operations
+  getLabelDataset(name: string): Promise<LabelDataset | undefined>;
+  getLabelDatasets(): Promise<LabelDataset[]>;
+  saveLabelDataset(dataset: InsertLabelDataset): Promise<LabelDataset>;
+  getDatasetLabels(datasetId: number): Promise<{ address: string; relation: WalletEntityRelation; entity: Entity }[]>;
   
   // Visualization operations
   getVisualization(id: number): Promise<Visualization | undefined>;
@@ -164,6 +237,28 @@ export class MemStorage implements IStorage {
     return updatedWallet;
   }
 
+  async mergeWalletMetadata(id: number, key: string, value: unknown, columns: WalletMetadataColumns = {}): Promise<Wallet | undefined> {
+    const wallet = await this.getWallet(id);
+    if (!wallet) return undefined;
+    
+    const metadata = { ...((wallet.metadata as Record<string, any>) || {}), [key]: value };
+    const updatedWallet = { ...wallet, ...columns, metadata };
+    this.wallets.set(id, updatedWallet);
+    return updatedWallet;
+  }
+
+  async getWalletsByAddresses(addresses: string[]): Promise<Wallet[]> {
+    return Array.from(this.wallets.values()).filter(
+      (wallet) => addresses.includes(wallet.address),
+    );
+  }
+
+  async getFingerprintedWallets(): Promise<Wallet[]> {
+    return Array.from(this.wallets.values()).filter(
+      (wallet) => !!(wallet.metadata as Record<string, any> | null)?.fingerprint,
+    );
+  }
+
   async getUserWallets(userId: number): Promise<Wallet[]> {
     return Array.from(this.wallets.values()).filter(
       (wallet) => wallet.userId === userId,
@@ -187,6 +282,112 @@ export class MemStorage implements IStorage {
     throw new Error("Transaction operations not implemented in MemStorage");
   }
   
+  async upsertTransaction(transaction: InsertTransaction): Promise<Transaction> {
+    throw new Error("Transaction operations not implemented in MemStorage");
+  }
+
+  async getAddressTransactions(address: string, limit?: number, order?: 'newest' | 'oldest'): Promise<Transaction[]> {
+    throw new Error("Transaction operations not implemented in MemStorage");
+  }
+  
+  async getTransactionsBySignatures(signatures: string[]): Promise<Transaction[]> {
+    throw new Error("Transaction operations not implemented in MemStorage");
+  }
+  
+  // Ingestion cursor operations - not implemented in MemStorage
+  async getIngestionCursor(walletAddress: string): Promise<IngestionCursor | undefined> {
+    throw new Error("Ingestion cursor operations not implemented in MemStorage");
+  }
+  
+  async saveIngestionCursor(cursor: InsertIngestionCursor): Promise<IngestionCursor> {
+    throw new Error("Ingestion cursor operations not implemented in MemStorage");
+  }
+  
+  // RPC cache operations - not implemented in MemStorage
+  async getRpcCacheEntry(key: string): Promise<RpcCacheEntry | undefined> {
+    throw new Error("RPC cache operations not implemented in MemStorage");
+  }
+  
+  async saveRpcCacheEntry(entry: InsertRpcCacheEntry): Promise<RpcCacheEntry> {
+    throw new Error("RPC cache operations not implemented in MemStorage");
+  }
+  
+  // Backfill job operations - not implemented in MemStorage
+  async createBackfillJob(job: InsertBackfillJob): Promise<BackfillJob> {
+    throw new Error("Backfill job operations not implemented in MemStorage");
+  }
+  
+  async getBackfillJob(id: number): Promise<BackfillJob | undefined> {
+    throw new Error("Backfill job operations not implemented in MemStorage");
+  }
+  
+  async getBackfillJobsByWallet(walletAddress: string): Promise<BackfillJob[]> {
+    throw new Error("Backfill job operations not implemented in MemStorage");
+  }
+  
+  async getBackfillJobsByStatus(statuses: BackfillJob['status'][]): Promise<BackfillJob[]> {
+    throw new Error("Backfill job operations not implemented in MemStorage");
+  }
+  
+  async updateBackfillJob(id: number, fields: Partial<Omit<BackfillJob, 'id'>>): Promise<BackfillJob | undefined> {
+    throw new Error("Backfill job operations not implemented in MemStorage");
+  }
+  
+  // Deposit discovery job operations - not implemented in MemStorage
+  async createDepositDiscoveryJob(job: InsertDepositDiscoveryJob): Promise<DepositDiscoveryJob> {
+    throw new Error("Deposit discovery job operations not implemented in MemStorage");
+  }
+  
+  async getDepositDiscoveryJob(id: number): Promise<DepositDiscoveryJob | undefined> {
+    throw new Error("Deposit discovery job operations not implemented in MemStorage");
+  }
+  
+  async getDepositDiscoveryJobsByWallet(hotWalletAddress: string): Promise<DepositDiscoveryJob[]> {
+    throw new Error("Deposit discovery job operations not implemented in MemStorage");
+  }
+  
+  async getDepositDiscoveryJobsByStatus(statuses: DepositDiscoveryJob['status'][]): Promise<DepositDiscoveryJob[]> {
+    throw new Error("Deposit discovery job operations not implemented in MemStorage");
+  }
+  
+  async updateDepositDiscoveryJob(id: number, fields: Partial<Omit<DepositDiscoveryJob, 'id'>>): Promise<DepositDiscoveryJob | undefined> {
+    throw new Error("Deposit discovery job operations not implemented in MemStorage");
+  }
+  
+  // Sybil detection job operations - not implemented in MemStorage
+  async createSybilDetectionJob(job: InsertSybilDetectionJob): Promise<SybilDetectionJob> {
+    throw new Error("Sybil detection job operations not implemented in MemStorage");
+  }
+  
+  async getSybilDetectionJob(id: number): Promise<SybilDetectionJob | undefined> {
+    throw new Error("Sybil detection job operations not implemented in MemStorage");
+  }
+  
+  async getSybilDetectionJobsByStatus(statuses: SybilDetectionJob['status'][]): Promise<SybilDetectionJob[]> {
+    throw new Error("Sybil detection job operations not implemented in MemStorage");
+  }
+  
+  async updateSybilDetectionJob(id: number, fields: Partial<Omit<SybilDetectionJob, 'id'>>): Promise<SybilDetectionJob | undefined> {
+    throw new Error("Sybil detection job operations not implemented in MemStorage");
+  }
+  
+  // Transaction cluster operations - not implemented in MemStorage
+  async saveCluster(cluster: InsertCluster, members: InsertClusterMember[]): Promise<Cluster> {
+    throw new Error("Cluster operations not implemented in MemStorage");
+  }
+  
+  async getCluster(id: string): Promise<Cluster | undefined> {
+    throw new Error("Cluster operations not implemented in MemStorage");
+  }
+  
+  async getClusterMembers(clusterId: string): Promise<ClusterMember[]> {
+    throw new Error("Cluster operations not implemented in MemStorage");
+  }
+  
+  async getWalletClusters(walletAddress: string): Promise<Cluster[]> {
+    throw new Error("Cluster operations not implemented in MemStorage");
+  }
+  
   // Transaction tracking operations - not implemented in MemStorage
   async trackTransaction(tracking: InsertTransactionTracking): Promise<TransactionTracking> {
     throw new Error("Transaction tracking operations not implemented in MemStorage");
@@ -209,6 +410,10 @@ export class MemStorage implements IStorage {
     throw new Error("Funding source operations not implemented in MemStorage");
   }
   
+  async replaceFundingSources(walletId: number, model: TaintModel, sources: InsertFundingSource[]): Promise<FundingSource[]> {
+    throw new Error("Funding source operations not implemented in MemStorage");
+  }
+  
   // Activity pattern operations - not implemented in MemStorage
   async getWalletActivityPatterns(walletId: number): Promise<ActivityPattern[]> {
     throw new Error("Activity pattern operations not implemented in MemStorage");
@@ -222,6 +427,10 @@ export class MemStorage implements IStorage {
     throw new Error("Activity pattern operations not implemented in MemStorage");
   }
   
+  async saveFindingPatterns(patterns: InsertActivityPattern[]): Promise<ActivityPattern[]> {
+    throw new Error("Activity pattern operations not implemented in MemStorage");
+  }
+  
   // Entity operations - not implemented in MemStorage
   async getEntity(id: number): Promise<Entity | undefined> {
     throw new Error("Entity operations not implemented in MemStorage");
@@ -243,6 +452,10 @@ export class MemStorage implements IStorage {
     throw new Error("Entity operations not implemented in MemStorage");
   }
   
+  async updateEntity(id: number, entity: Partial<InsertEntity>): Promise<Entity | undefined> {
+    throw new Error("Entity operations not implemented in MemStorage");
+  }
+  
   // Wallet-Entity relationship operations - not implemented in MemStorage
   async addWalletToEntity(relation: InsertWalletEntityRelation): Promise<WalletEntityRelation> {
     throw new Error("Wallet-Entity operations not implemented in MemStorage");
@@ -255,6 +468,48 @@ export class MemStorage implements IStorage {
   async getEntityWallets(entityId: number): Promise<Wallet[]> {
     throw new Error("Wallet-Entity operations not implemented in MemStorage");
   }
+  
+  async getAddressLabels(addresses: string[], teamIds?: number[]): Promise<{ address: string; relation: WalletEntityRelation; entity: Entity }[]> {
+    throw new Error("Wallet-Entity operations not implemented in MemStorage");
+  }
+  
+  async getEntityLabels(entityId: number, teamIds?: number[]): Promise<{ address: string; relation: WalletEntityRelation; entity: Entity }[]> {
+    throw new Error("Wallet-Entity operations not implemented in MemStorage");
+  }
+  
+  async getWalletEntityRelation(id: number): Promise<WalletEntityRelation | undefined> {
+    throw new Error("Wallet-Entity operations not implemented in MemStorage");
+  }
+  
+  async updateWalletEntityRelation(id: number, relation: Partial<InsertWalletEntityRelation>): Promise<WalletEntityRelation | undefined> {
+    throw new Error("Wallet-Entity operations not implemented in MemStorage");
+  }
+  
+  async retireWalletEntityRelations(ids: number[]): Promise<void> {
+    throw new Error("Wallet-Entity operations not implemented in MemStorage");
+  }
+  
+  async getUserTeamIds(userId: number): Promise<number[]> {
+    throw new Error("Team operations not implemented in MemStorage");
+  }
+  
+  // Label dataset operations - not implemented in MemStorage
+  async getLabelDataset(name: string): Promise<LabelDataset | undefined> {
+    throw new Error("Label dataset operations not implemented in MemStorage");
+  }
+  
+  async getLabelDatasets(): Promise<LabelDataset[]> {
+    throw new Error("Label dataset operations not implemented in MemStorage");
+  }
+  
+  async saveLabelDataset(dataset: InsertLabelDataset): Promise<LabelDataset> {
+    throw new Error("Label dataset operations not implemented in MemStorage");
+  }
+  
+  async getDatasetLabels(datasetId: number): Promise<{ address: string; relation: WalletEntityRelation; entity: Entity }[]> {
+    throw new Error("Label dataset operations not implemented in MemStorage");
+  }
+  
 
   // Visualization methods
   async getVisualization(id: number): Promise<Visualization | undefined> {
@@ -357,6 +612,30 @@ export class DatabaseStorage implements IStorage {
     return wallet;
   }
 
+  /**
+   * Set one key of the wallet's metadata in place, so concurrent writers of other keys are not overwritten
+   */
+  async mergeWalletMetadata(id: number, key: string, value: unknown, columns: WalletMetadataColumns = {}): Promise<Wallet | undefined> {
+    const [wallet] = await db
+      .update(wallets)
+      .set({
+        ...columns,
+        metadata: sql`coalesce(${wallets.metadata}, '{}'::jsonb) || jsonb_build_object(${key}::text, ${JSON.stringify(value)}::jsonb)`,
+      })
+      .where(eq(wallets.id, id))
+      .returning();
+    return wallet;
+  }
+
+  async getWalletsByAddresses(addresses: string[]): Promise<Wallet[]> {
+    if (addresses.length === 0) return [];
+    return db.select().from(wallets).where(inArray(wallets.address, addresses));
+  }
+
+  async getFingerprintedWallets(): Promise<Wallet[]> {
+    return db.select().from(wallets).where(sql`${wallets.metadata} -> 'fingerprint' is not null`);
+  }
+
   async getUserWallets(userId: number): Promise<Wallet[]> {
     return db.select().from(wallets).where(eq(wallets.userId, userId));
   }
@@ -391,6 +670,222 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
   
+  async upsertTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    // Re-ingesting the same signature refreshes the normalized fields instead of duplicating the row
+    const { signature, ...fields } = insertTransaction;
+    const [transaction] = await db.insert(transactions)
+      .values(insertTransaction)
+      .onConflictDoUpdate({
+        target: transactions.signature,
+        set: fields,
+      })
+      .returning();
+    return transaction;
+  }
+  
+  async getAddressTransactions(address: string, limit: number = 500, order: 'newest' | 'oldest' = 'newest'): Promise<Transaction[]> {
+    // Unlike getWalletTransactions this also matches transactions where the address is
+    // only one of several transfer participants, via the account keys kept in metadata
+    return db.select()
+      .from(transactions)
+      .where(sql`${transactions.sourceAddress} = ${address} OR ${transactions.destinationAddress} = ${address} OR ${transactions.metadata}->'accountKeys' @> ${JSON.stringify([address])}::jsonb`)
+      .orderBy(order === 'oldest' ? asc(transactions.slot) : desc(transactions.blockTime))
+      .limit(limit);
+  }
+  
+  async getTransactionsBySignatures(signatures: string[]): Promise<Transaction[]> {
+    if (signatures.length === 0) return [];
+    return db.select()
+      .from(transactions)
+      .where(inArray(transactions.signature, signatures))
+      .orderBy(desc(transactions.blockTime));
+  }
+  
+  // Ingestion cursor operations
+  async getIngestionCursor(walletAddress: string): Promise<IngestionCursor | undefined> {
+    const [cursor] = await db.select()
+      .from(ingestionCursors)
+      .where(eq(ingestionCursors.walletAddress, walletAddress));
+    return cursor;
+  }
+  
+  async saveIngestionCursor(insertCursor: InsertIngestionCursor): Promise<IngestionCursor> {
+    const { walletAddress, ...fields } = insertCursor;
+    const [cursor] = await db.insert(ingestionCursors)
+      .values(insertCursor)
+      .onConflictDoUpdate({
+        target: ingestionCursors.walletAddress,
+        set: fields,
+      })
+      .returning();
+    return cursor;
+  }
+  
+  // RPC cache operations
+  async getRpcCacheEntry(key: string): Promise<RpcCacheEntry | undefined> {
+    const [entry] = await db.select()
+      .from(rpcCacheEntries)
+      .where(eq(rpcCacheEntries.key, key));
+    return entry;
+  }
+  
+  async saveRpcCacheEntry(insertEntry: InsertRpcCacheEntry): Promise<RpcCacheEntry> {
+    const { key, ...fields } = insertEntry;
+    const [entry] = await db.insert(rpcCacheEntries)
+      .values(insertEntry)
+      .onConflictDoUpdate({
+        target: rpcCacheEntries.key,
+        set: { ...fields, createdAt: new Date() },
+      })
+      .returning();
+    return entry;
+  }
+  
+  // Backfill job operations
+  async createBackfillJob(insertJob: InsertBackfillJob): Promise<BackfillJob> {
+    const [job] = await db.insert(backfillJobs)
+      .values(insertJob)
+      .returning();
+    return job;
+  }
+  
+  async getBackfillJob(id: number): Promise<BackfillJob | undefined> {
+    const [job] = await db.select()
+      .from(backfillJobs)
+      .where(eq(backfillJobs.id, id));
+    return job;
+  }
+  
+  async getBackfillJobsByWallet(walletAddress: string): Promise<BackfillJob[]> {
+    return await db.select()
+      .from(backfillJobs)
+      .where(eq(backfillJobs.walletAddress, walletAddress))
+      .orderBy(desc(backfillJobs.createdAt));
+  }
+  
+  async getBackfillJobsByStatus(statuses: BackfillJob['status'][]): Promise<BackfillJob[]> {
+    return await db.select()
+      .from(backfillJobs)
+      .where(inArray(backfillJobs.status, statuses))
+      .orderBy(backfillJobs.createdAt);
+  }
+  
+  async updateBackfillJob(id: number, fields: Partial<Omit<BackfillJob, 'id'>>): Promise<BackfillJob | undefined> {
+    const [job] = await db.update(backfillJobs)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(eq(backfillJobs.id, id))
+      .returning();
+    return job;
+  }
+  
+  // Deposit discovery job operations
+  async createDepositDiscoveryJob(insertJob: InsertDepositDiscoveryJob): Promise<DepositDiscoveryJob> {
+    const [job] = await db.insert(depositDiscoveryJobs)
+      .values(insertJob)
+      .returning();
+    return job;
+  }
+  
+  async getDepositDiscoveryJob(id: number): Promise<DepositDiscoveryJob | undefined> {
+    const [job] = await db.select()
+      .from(depositDiscoveryJobs)
+      .where(eq(depositDiscoveryJobs.id, id));
+    return job;
+  }
+  
+  async getDepositDiscoveryJobsByWallet(hotWalletAddress: string): Promise<DepositDiscoveryJob[]> {
+    return await db.select()
+      .from(depositDiscoveryJobs)
+      .where(eq(depositDiscoveryJobs.hotWalletAddress, hotWalletAddress))
+      .orderBy(desc(depositDiscoveryJobs.createdAt));
+  }
+  
+  async getDepositDiscoveryJobsByStatus(statuses: DepositDiscoveryJob['status'][]): Promise<DepositDiscoveryJob[]> {
+    return await db.select()
+      .from(depositDiscoveryJobs)
+      .where(inArray(depositDiscoveryJobs.status, statuses))
+      .orderBy(depositDiscoveryJobs.createdAt);
+  }
+  
+  async updateDepositDiscoveryJob(id: number, fields: Partial<Omit<DepositDiscoveryJob, 'id'>>): Promise<DepositDiscoveryJob | undefined> {
+    const [job] = await db.update(depositDiscoveryJobs)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(eq(depositDiscoveryJobs.id, id))
+      .returning();
+    return job;
+  }
+  
+  // Sybil detection job operations
+  async createSybilDetectionJob(insertJob: InsertSybilDetectionJob): Promise<SybilDetectionJob> {
+    const [job] = await db.insert(sybilDetectionJobs)
+      .values(insertJob)
+      .returning();
+    return job;
+  }
+  
+  async getSybilDetectionJob(id: number): Promise<SybilDetectionJob | undefined> {
+    const [job] = await db.select()
+      .from(sybilDetectionJobs)
+      .where(eq(sybilDetectionJobs.id, id));
+    return job;
+  }
+  
+  async getSybilDetectionJobsByStatus(statuses: SybilDetectionJob['status'][]): Promise<SybilDetectionJob[]> {
+    return await db.select()
+      .from(sybilDetectionJobs)
+      .where(inArray(sybilDetectionJobs.status, statuses))
+      .orderBy(sybilDetectionJobs.createdAt);
+  }
+  
+  async updateSybilDetectionJob(id: number, fields: Partial<Omit<SybilDetectionJob, 'id'>>): Promise<SybilDetectionJob | undefined> {
+    const [job] = await db.update(sybilDetectionJobs)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(eq(sybilDetectionJobs.id, id))
+      .returning();
+    return job;
+  }
+  
+  // Transaction cluster operations
+  async saveCluster(insertCluster: InsertCluster, members: InsertClusterMember[]): Promise<Cluster> {
+    // The id is derived from the content, so a re-run only refreshes the scoring and keeps createdAt
+    const { id, ...fields } = insertCluster;
+    const [cluster] = await db.insert(clusters)
+      .values(insertCluster)
+      .onConflictDoUpdate({
+        target: clusters.id,
+        set: { ...fields, updatedAt: new Date() },
+      })
+      .returning();
+    
+    if (members.length > 0) {
+      await db.insert(clusterMembers)
+        .values(members)
+        .onConflictDoNothing();
+    }
+    return cluster;
+  }
+  
+  async getCluster(id: string): Promise<Cluster | undefined> {
+    const [cluster] = await db.select()
+      .from(clusters)
+      .where(eq(clusters.id, id));
+    return cluster;
+  }
+  
+  async getClusterMembers(clusterId: string): Promise<ClusterMember[]> {
+    return await db.select()
+      .from(clusterMembers)
+      .where(eq(clusterMembers.clusterId, clusterId))
+      .orderBy(clusterMembers.id);
+  }
+  
+  async getWalletClusters(walletAddress: string): Promise<Cluster[]> {
+    return await db.select()
+      .from(clusters)
+      .where(eq(clusters.walletAddress, walletAddress))
+      .orderBy(desc(clusters.updatedAt));
+  }
+  
   // Transaction tracking operations
   async trackTransaction(insertTracking: InsertTransactionTracking): Promise<TransactionTracking> {
     const [tracking] = await db.insert(transactionTracking)
@@ -421,12 +916,13 @@ export class DatabaseStorage implements IStorage {
   }
   
   async addFundingSource(insertSource: InsertFundingSource): Promise<FundingSource> {
-    // Check if the funding source already exists for this wallet-source pair
+    // Check if the funding source already exists for this wallet-source pair (and taint model)
     const existingSources = await db.select()
       .from(fundingSources)
       .where(and(
         eq(fundingSources.walletId, insertSource.walletId),
-        eq(fundingSources.sourceWalletId, insertSource.sourceWalletId)
+        eq(fundingSources.sourceWalletId, insertSource.sourceWalletId),
+        insertSource.model ? eq(fundingSources.model, insertSource.model) : isNull(fundingSources.model)
       ));
     
     if (existingSources.length > 0) {
@@ -466,6 +962,21 @@ export class DatabaseStorage implements IStorage {
     return source;
   }
   
+  /**
+   * Swap the wallet's sources from one taint model for a new trace result; other models' rows are kept
+   */
+  async replaceFundingSources(walletId: number, model: TaintModel, sources: InsertFundingSource[]): Promise<FundingSource[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(fundingSources)
+        .where(and(eq(fundingSources.walletId, walletId), eq(fundingSources.model, model)));
+      if (sources.length === 0) return [];
+
+      return tx.insert(fundingSources)
+        .values(sources.map(source => ({ ...source, walletId, model })))
+        .returning();
+    });
+  }
+  
   // Activity pattern operations
   async getWalletActivityPatterns(walletId: number): Promise<ActivityPattern[]> {
     return db.select()
@@ -518,6 +1029,30 @@ export class DatabaseStorage implements IStorage {
     return pattern;
   }
   
+  async saveFindingPatterns(patterns: InsertActivityPattern[]): Promise<ActivityPattern[]> {
+    // One row per finding and wallet; detecting the same finding again refreshes it
+    const saved: ActivityPattern[] = [];
+    for (const insertPattern of patterns) {
+      const [pattern] = await db.insert(activityPatterns)
+        .values(insertPattern)
+        .onConflictDoUpdate({
+          target: [activityPatterns.findingId, activityPatterns.walletId],
+          set: {
+            pattern: insertPattern.pattern,
+            firstObserved: insertPattern.firstObserved,
+            lastObserved: insertPattern.lastObserved,
+            confidence: insertPattern.confidence,
+            description: insertPattern.description,
+            metadata: insertPattern.metadata,
+          },
+        })
+        .returning();
+      saved.push(pattern);
+    }
+    
+    return saved;
+  }
+  
   // Entity operations
   async getEntity(id: number): Promise<Entity | undefined> {
     const [entity] = await db.select().from(entities).where(eq(entities.id, id));
@@ -554,6 +1089,14 @@ export class DatabaseStorage implements IStorage {
     return walletEntities.length > 0 ? walletEntities[0] : undefined;
   }
   
+  async updateEntity(id: number, entityData: Partial<InsertEntity>): Promise<Entity | undefined> {
+    const [entity] = await db.update(entities)
+      .set(entityData)
+      .where(eq(entities.id, id))
+      .returning();
+    return entity;
+  }
+  
   // Wallet-Entity relationship operations
   async addWalletToEntity(insertRelation: InsertWalletEntityRelation): Promise<WalletEntityRelation> {
     const [relation] = await db.insert(walletEntityRelations)
@@ -563,27 +1106,73 @@ export class DatabaseStorage implements IStorage {
   }
   
   async getWalletEntities(walletId: number): Promise<Entity[]> {
-    return db.select({
-      id: entities.id,
-      name: entities.name,
-      type: entities.type,
-      description: entities.description,
-      icon: entities.icon,
-      color: entities.color,
-      userId: entities.userId,
-      isPublic: entities.isPublic,
-      createdAt: entities.createdAt
-    })
-    .from(entities)
-    .innerJoin(
-      walletEntityRelations,
-      eq(entities.id, walletEntityRelations.entityId)
-    )
-    .where(eq(walletEntityRelations.walletId, walletId));
+    const rows = await db.selectDistinct({ entity: entities })
+      .from(entities)
+      .innerJoin(
+        walletEntityRelations,
+        eq(entities.id, walletEntityRelations.entityId)
+      )
+      .where(and(eq(walletEntityRelations.walletId, walletId), isPublicLabel()));
+    return rows.map(row => row.entity);
+  }
+  
+  async getAddressLabels(addresses: string[], teamIds: number[] = []): Promise<{ address: string; relation: WalletEntityRelation; entity: Entity }[]> {
+    if (addresses.length === 0) return [];
+    
+    // Public assertions plus the private overlays of the given teams
+    const visible = teamIds.length > 0
+      ? or(isNull(walletEntityRelations.teamId), inArray(walletEntityRelations.teamId, teamIds))
+      : isNull(walletEntityRelations.teamId);
+    
+    return db.select({ address: wallets.address, relation: walletEntityRelations, entity: entities })
+      .from(walletEntityRelations)
+      .innerJoin(wallets, eq(wallets.id, walletEntityRelations.walletId))
+      .innerJoin(entities, eq(entities.id, walletEntityRelations.entityId))
+      .where(and(inArray(wallets.address, addresses), isNull(walletEntityRelations.retiredAt), visible));
+  }
+  
+  async getEntityLabels(entityId: number, teamIds: number[] = []): Promise<{ address: string; relation: WalletEntityRelation; entity: Entity }[]> {
+    const visible = teamIds.length > 0
+      ? or(isNull(walletEntityRelations.teamId), inArray(walletEntityRelations.teamId, teamIds))
+      : isNull(walletEntityRelations.teamId);
+    
+    return db.select({ address: wallets.address, relation: walletEntityRelations, entity: entities })
+      .from(walletEntityRelations)
+      .innerJoin(wallets, eq(wallets.id, walletEntityRelations.walletId))
+      .innerJoin(entities, eq(entities.id, walletEntityRelations.entityId))
+      .where(and(eq(walletEntityRelations.entityId, entityId), isNull(walletEntityRelations.retiredAt), visible));
+  }
+  
+  async getWalletEntityRelation(id: number): Promise<WalletEntityRelation | undefined> {
+    const [relation] = await db.select().from(walletEntityRelations).where(eq(walletEntityRelations.id, id));
+    return relation;
+  }
+  
+  async updateWalletEntityRelation(id: number, relationData: Partial<InsertWalletEntityRelation>): Promise<WalletEntityRelation | undefined> {
+    const [relation] = await db.update(walletEntityRelations)
+      .set(relationData)
+      .where(eq(walletEntityRelations.id, id))
+      .returning();
+    return relation;
+  }
+  
+  async retireWalletEntityRelations(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    
+    await db.update(walletEntityRelations)
+      .set({ retiredAt: new Date() })
+      .where(inArray(walletEntityRelations.id, ids));
+  }
+  
+  async getUserTeamIds(userId: number): Promise<number[]> {
+    const rows = await db.select({ teamId: teamMembers.teamId })
+      .from(teamMembers)
+      .where(and(eq(teamMembers.userId, userId), eq(teamMembers.status, 'active')));
+    return rows.map(row => row.teamId);
   }
   
   async getEntityWallets(entityId: number): Promise<Wallet[]> {
-    return db.select({
+    return db.selectDistinct({
       id: wallets.id,
       address: wallets.address,
       label: wallets.label,
@@ -608,8 +1197,38 @@ export class DatabaseStorage implements IStorage {
       walletEntityRelations,
       eq(wallets.id, walletEntityRelations.walletId)
     )
-    .where(eq(walletEntityRelations.entityId, entityId));
+    .where(and(eq(walletEntityRelations.entityId, entityId), isPublicLabel()));
+  }
+  
+  // Label dataset operations
+  async getLabelDataset(name: string): Promise<LabelDataset | undefined> {
+    const [dataset] = await db.select().from(labelDatasets).where(eq(labelDatasets.name, name));
+    return dataset;
+  }
+  
+  async getLabelDatasets(): Promise<LabelDataset[]> {
+    return db.select().from(labelDatasets).orderBy(labelDatasets.name);
   }
+  
+  async saveLabelDataset(insertDataset: InsertLabelDataset): Promise<LabelDataset> {
+    const [dataset] = await db.insert(labelDatasets)
+      .values(insertDataset)
+      .onConflictDoUpdate({
+        target: labelDatasets.name,
+        set: { ...insertDataset, importedAt: new Date() },
+      })
+      .returning();
+    return dataset;
+  }
+  
+  async getDatasetLabels(datasetId: number): Promise<{ address: string; relation: WalletEntityRelation; entity: Entity }[]> {
+    return db.select({ address: wallets.address, relation: walletEntityRelations, entity: entities })
+      .from(walletEntityRelations)
+      .innerJoin(wallets, eq(wallets.id, walletEntityRelations.walletId))
+      .innerJoin(entities, eq(entities.id, walletEntityRelations.entityId))
+      .where(and(eq(walletEntityRelations.datasetId, datasetId), isNull(walletEntityRelations.retiredAt)));
+  }
+  
 
   // Visualization methods
   async getVisualization(id: number): Promise<Visualization | undefined> {
@@ -0,0 +1,68 @@
+// On-chain account classification read from getAccountInfo, shared by the server and the client
+
+// Values of wallets.type
+export const ACCOUNT_TYPES = ["wallet", "program", "program-data", "mint", "token-account", "stake", "vote", "account"] as const;
+export type AccountType = typeof ACCOUNT_TYPES[number];
+
+// Programs whose accounts are classified, by owner address
+export const ACCOUNT_OWNERS: Record<string, string> = {
+  "11111111111111111111111111111111": "system",
+  NativeLoader1111111111111111111111111111111: "native-loader",
+  BPFLoader1111111111111111111111111111111111: "bpf-loader-deprecated",
+  BPFLoader2111111111111111111111111111111111: "bpf-loader",
+  BPFLoaderUpgradeab1e11111111111111111111111: "bpf-loader-upgradeable",
+  LoaderV411111111111111111111111111111111111: "loader-v4",
+  TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA: "spl-token",
+  TokenzQdBNbLqP5VEhdkAS6EPFLC1PQnx4Gz6d3pYjm: "spl-token-2022",
+  Stake11111111111111111111111111111111111111: "stake",
+  Vote111111111111111111111111111111111111111: "vote",
+};
+
+export interface ProgramAccountInfo {
+  loader: string; // ACCOUNT_OWNERS name of the loader that owns the program, or its address
+  upgradeable: boolean; // False for programs under the older loaders or with no upgrade authority left
+  upgradeAuthority: string | null;
+  programData: string | null; // Upgradeable loader account holding the program's code
+  deploySlot: number | null;
+}
+
+export interface MintAccountInfo {
+  tokenProgram: string;
+  decimals: number;
+  supply: string; // Raw base units as a decimal string
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+}
+
+export interface TokenAccountInfo {
+  tokenProgram: string;
+  mint: string;
+  owner: string; // Wallet the token account belongs to
+  amount: string; // Raw base units as a decimal string
+}
+
+export interface StakeAccountInfo {
+  staker: string | null;
+  withdrawer: string | null;
+}
+
+export interface VoteAccountInfo {
+  node: string | null; // Validator identity
+  withdrawer: string | null;
+}
+
+export interface AccountClassification {
+  address: string;
+  exists: boolean; // False for addresses holding no lamports
+  type: AccountType;
+  classification: string; // Finer kind stored in wallets.classification, e.g. 'upgradeable-program' or 'token-2022-mint'
+  executable: boolean;
+  owner: string | null;
+  ownerProgram: string | null; // ACCOUNT_OWNERS name of the owner, null for other programs
+  program?: ProgramAccountInfo;
+  mint?: MintAccountInfo;
+  tokenAccount?: TokenAccountInfo;
+  stake?: StakeAccountInfo;
+  vote?: VoteAccountInfo;
+  classifiedAt: string;
+}
@@ -0,0 +1,36 @@
+// Exchange deposit-address discovery: addresses whose receipts are regularly swept into a labeled hot wallet
+
+// walletEntityRelations.role of the discovered addresses
+export const DEPOSIT_ROLE = "deposit";
+
+export interface DepositDiscoveryParameters {
+  maxSweepDelayHours: number; // A receipt counts as swept when the address sends the same asset to the hot wallet within this window
+  minSweeps: number; // Receipts swept into the hot wallet before an address is considered
+  minConfidence: number; // Addresses below this are reported but not labeled
+  maxCandidates: number; // Senders to the hot wallet examined, most frequent first
+  ingestCandidates: boolean; // Ingest each candidate's history first, so receipts from outside the hot wallet's transactions are known
+  candidateSignatures: number; // History examined per candidate
+}
+
+export interface DepositAddress {
+  address: string;
+  receipts: number; // Transfers into the address from anyone but the hot wallet
+  sweeps: number; // Transfers from the address into the hot wallet
+  sweptReceipts: number; // Receipts followed by a sweep of the same asset within the window
+  regularity: number; // sweptReceipts / receipts
+  medianDelaySeconds: number | null; // From receipt to sweep
+  delayConsistency: number; // 1 / (1 + coefficient of variation of the delays)
+  exclusivity: number; // Share of the address's outgoing transfers that went to the hot wallet
+  mints: string[]; // Assets swept
+  confidence: number; // 0-1
+  labeled: boolean; // Confidence reached minConfidence and the deposit label was stored
+  signatures: string[]; // Sweep transactions, newest first
+}
+
+export interface DepositDiscoveryResult {
+  hotWallet: string;
+  entity: { id: number; name: string };
+  candidates: number;
+  deposits: DepositAddress[]; // Most confident first
+  retired: string[]; // Addresses an earlier run labeled that no longer qualify; their deposit labels were withdrawn
+}
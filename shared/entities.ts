@@ -0,0 +1,87 @@
+// Entity profiles: activity aggregated across every member wallet of a labeled entity
+
+import { KnownLabel } from "./labels";
+import { RiskRuleId } from "./risk";
+
+export interface EntityFlow {
+  sol: number; // Native SOL moved
+  usd: number; // Every priced asset moved, at block-time prices
+  transfers: number;
+  unpriced: number; // Transfers with no price at block time, left out of usd
+}
+
+export interface EntityMember {
+  address: string;
+  walletType: string | null; // wallets.type, see ACCOUNT_TYPES
+  riskScore: number | null; // Stored assessment, null when the wallet was never scored
+  inflow: EntityFlow; // From outside the entity
+  outflow: EntityFlow;
+  firstActivity: string | null;
+  lastActivity: string | null;
+  evidence: KnownLabel[]; // Assertions visible to the viewer that put the address in the entity
+}
+
+export interface EntityCounterparty {
+  entityId: number | null; // null for the unlabeled remainder
+  name: string;
+  type: string;
+  inflow: EntityFlow; // Received by the entity from the counterparty
+  outflow: EntityFlow; // Sent by the entity to the counterparty
+  addresses: number; // Counterparty wallets involved
+}
+
+export interface EntityDailyVolume {
+  date: string; // YYYY-MM-DD, UTC
+  inflow: EntityFlow;
+  outflow: EntityFlow;
+}
+
+export interface EntityRiskRule {
+  ruleId: RiskRuleId;
+  description: string;
+  wallets: number; // Members the rule applied to
+  maxPoints: number;
+  totalPoints: number;
+}
+
+export interface EntityRiskSummary {
+  maxScore: number | null; // Highest member score
+  averageScore: number | null;
+  scoredWallets: number;
+  levels: { low: number; medium: number; high: number; unscored: number }; // Members per score band
+  rules: EntityRiskRule[]; // Most total points first
+}
+
+export interface EntityProfile {
+  entity: {
+    id: number;
+    name: string;
+    type: string;
+    description: string | null;
+    riskLevel: string | null; // Set by analysts on the entity, independent of the member scores
+    verificationStatus: string | null;
+    isPublic: boolean;
+  };
+  members: EntityMember[]; // Most volume first
+  inflow: EntityFlow;
+  outflow: EntityFlow;
+  internal: EntityFlow; // Transfers between members, left out of inflow and outflow
+  topCounterparties: EntityCounterparty[];
+  firstActivity: string | null;
+  lastActivity: string | null;
+  dailyVolume: EntityDailyVolume[]; // Oldest first, days without activity omitted
+  risk: EntityRiskSummary;
+  walletsAnalyzed: number; // Members whose history was read; the rest are listed without activity
+  transactionsAnalyzed: number;
+}
+
+// Lowest scores of the medium and high bands of EntityRiskSummary.levels
+export const ENTITY_RISK_LEVELS = { medium: 40, high: 70 };
+
+// An entity opened in FlowVisualization, its member wallets collapsed into one node
+export interface EntityGraphNode {
+  id: number;
+  name: string;
+  type: string;
+  members: string[]; // On a graph node, only the members present in the graph
+}
@@ -0,0 +1,20 @@
+// Decoded instruction types shared by the server and the client
+
+// Program names assigned by the server-side decoder registry
+export const SWAP_PROGRAMS = ["raydium-amm", "jupiter", "orca-whirlpool", "serum-dex"];
+
+// Argument values are kept JSON-safe: u64 amounts are decimal strings
+export type InstructionArgValue = string | number | boolean | null;
+
+// A single top-level or inner (CPI) instruction after decoding
+export interface DecodedInstruction {
+  programId: string;
+  program: string; // Registry name of the program, "unknown" when no decoder is registered
+  name: string; // Instruction name such as "transfer" or "transferChecked", "unknown" when undecodable
+  args: Record<string, InstructionArgValue>;
+  accounts: string[];
+  data: string; // Raw instruction data, base64 encoded
+  index: number; // Index of the top-level instruction this belongs to
+  innerIndex?: number; // Position within the CPI list of the top-level instruction
+  stackHeight?: number;
+}
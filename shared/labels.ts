@@ -0,0 +1,141 @@
+// Address labels: packs imported from CSV or JSON files, the assertions stored in walletEntityRelations,
+// and the resolver that picks the effective label when assertions disagree
+
+// Where an assertion comes from; 'team' assertions belong to a team's private overlay
+export const LABEL_SOURCE_TYPES = ["dataset", "heuristic", "analyst", "team"] as const;
+export type LabelSourceType = typeof LABEL_SOURCE_TYPES[number];
+
+// Header of a CSV label pack; address, entity and type are required
+export const LABEL_CSV_COLUMNS = ["address", "entity", "type", "source", "confidence", "valid_from", "valid_to"] as const;
+
+export interface LabelRecord {
+  address: string;
+  entity: string; // Entity name; labels with the same name and type share one entity
+  type: string; // Entity type, e.g. 'exchange', 'defi', 'mixer', 'protocol'
+  source?: string; // Defaults to the pack's source
+  confidence?: number; // 0-1, defaults to 1
+  validFrom?: string; // ISO 8601 date the address started belonging to the entity
+  validTo?: string;
+}
+
+export interface LabelPack {
+  name: string; // Identifies the dataset across re-imports
+  version?: string; // Defaults to a hash of the labels
+  source?: string;
+  description?: string;
+  labels: LabelRecord[];
+}
+
+export interface LabelImportResult {
+  dataset: string;
+  version: string;
+  previousVersion: string | null;
+  skipped: boolean; // The same version was already imported, nothing changed
+  added: number;
+  updated: number;
+  unchanged: number;
+  retired: number; // Labels of the previous version missing from this one
+}
+
+// An assertion in effect, as served to the client and the lookup API
+export interface KnownLabel {
+  id: number;
+  address: string;
+  entityId: number;
+  entity: string;
+  type: string;
+  role: string | null; // Part the address plays in the entity, e.g. 'deposit'
+  sourceType: LabelSourceType;
+  source: string | null;
+  teamId: number | null;
+  verified: boolean;
+  verifiedBy: number | null;
+  evidence: string | null;
+  confidence: number;
+  assertedBy: number | null; // Analyst who made the assertion
+  assertedAt: string;
+  dataset: string | null; // Label pack the label was imported from
+  datasetVersion: string | null;
+  validFrom: string | null;
+  validTo: string | null;
+}
+
+export const LABEL_RULE_IDS = ["team-overlay", "verified", "source", "confidence", "recency"] as const;
+export type LabelRuleId = typeof LABEL_RULE_IDS[number];
+
+export interface LabelRule {
+  id: LabelRuleId;
+  description: string;
+  rank(label: KnownLabel): number; // Higher wins
+}
+
+export interface ResolvedLabel {
+  address: string;
+  label: KnownLabel; // The effective label
+  rule: LabelRuleId | null; // First rule that put it ahead of the strongest conflicting label; null when uncontested
+  supporting: KnownLabel[]; // Other assertions of the same entity
+  conflicting: KnownLabel[]; // Assertions of other entities, strongest first
+}
+
+const SOURCE_RANKS: Record<LabelSourceType, number> = {
+  team: 2,
+  analyst: 2,
+  dataset: 1,
+  heuristic: 0,
+};
+
+// Applied in order; a later rule only breaks ties left by the earlier ones
+export const LABEL_RULES: LabelRule[] = [
+  {
+    id: "team-overlay",
+    description: "A team's private labels override public ones for its members",
+    rank: label => (label.teamId !== null ? 1 : 0),
+  },
+  {
+    id: "verified",
+    description: "Verified labels beat unverified ones",
+    rank: label => (label.verified ? 1 : 0),
+  },
+  {
+    id: "source",
+    description: "Analysts beat label packs, which beat heuristics",
+    rank: label => SOURCE_RANKS[label.sourceType] ?? 0,
+  },
+  {
+    id: "confidence",
+    description: "More confident labels win",
+    rank: label => label.confidence,
+  },
+  {
+    id: "recency",
+    description: "More recent labels win",
+    rank: label => Date.parse(label.assertedAt),
+  },
+];
+
+function compareLabels(a: KnownLabel, b: KnownLabel): { order: number; rule: LabelRuleId | null } {
+  for (const rule of LABEL_RULES) {
+    const order = rule.rank(b) - rule.rank(a);
+    if (order !== 0) return { order, rule: rule.id };
+  }
+  return { order: 0, rule: null };
+}
+
+/**
+ * Pick the effective label among one address's assertions, which must all be visible to the viewer
+ */
+export function resolveLabels(labels: KnownLabel[]): ResolvedLabel | null {
+  if (labels.length === 0) return null;
+
+  const ranked = [...labels].sort((a, b) => compareLabels(a, b).order);
+  const [label] = ranked;
+  const conflicting = ranked.filter(item => item.entityId !== label.entityId);
+
+  return {
+    address: label.address,
+    label,
+    rule: conflicting.length > 0 ? compareLabels(label, conflicting[0]).rule : null,
+    supporting: ranked.slice(1).filter(item => item.entityId === label.entityId),
+    conflicting,
+  };
+}
@@ -0,0 +1,167 @@
+// Rule-based wallet risk engine shared by the server, which gathers the inputs, and the client views
+
+// Bumped whenever a rule's logic or default weight changes, so stored scores can be told apart
+export const RISK_RULESET_VERSION = "1";
+
+export const RISK_RULE_IDS = [
+  "flagged-exposure",
+  "mixer-proximity",
+  "anomalous-activity",
+  "new-wallet",
+  "peel-chain",
+] as const;
+export type RiskRuleId = typeof RISK_RULE_IDS[number];
+
+// Facts about a wallet the rules are evaluated on
+export interface RiskInputs {
+  evaluatedAt: number; // Milliseconds since epoch
+  firstSeen: number | null; // First transaction, milliseconds since epoch; null until the full history is stored
+  totalVolume: number; // SOL moved by the wallet in the analyzed history
+  flaggedExposure: { address: string; entity: string; amount: number }[]; // SOL moved with wallets of flagged or high-risk entities
+  mixerPath: { entity: string; path: string[] } | null; // Shortest known transfer path to a mixer, starting at the wallet
+  anomalies: { signature: string; score: number; description: string }[]; // Highest baseline anomaly scores first
+  peelChains: { findingId: string; confidence: number; description: string }[];
+}
+
+export interface RiskRule {
+  id: RiskRuleId;
+  weight: number; // Points the rule adds at full strength
+  description: string;
+  // Strength between 0 and 1 with the facts behind it, or null when the rule does not apply
+  extract(inputs: RiskInputs): { strength: number; evidence: string[] } | null;
+}
+
+export interface RiskBreakdownItem {
+  ruleId: RiskRuleId;
+  description: string;
+  weight: number;
+  strength: number;
+  points: number; // weight * strength
+  evidence: string[];
+}
+
+export interface RiskAssessment {
+  address: string;
+  score: number; // 0-100, higher means higher risk
+  rulesetVersion: string; // RISK_RULESET_VERSION, suffixed with the weight configuration when weights were overridden
+  breakdown: RiskBreakdownItem[]; // Rules that applied, most points first
+  evaluatedAt: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FULL_EXPOSURE_SHARE = 0.25; // Share of volume with flagged wallets that counts as full exposure
+const FULL_ANOMALY_SCORE = 15; // Baseline anomaly score that counts as fully anomalous
+const NEW_WALLET_DAYS = 30;
+const MAX_EVIDENCE = 5;
+
+export const RISK_RULES: RiskRule[] = [
+  {
+    id: "flagged-exposure",
+    weight: 35,
+    description: "Moved funds with wallets of flagged or high-risk entities",
+    extract(inputs) {
+      if (inputs.flaggedExposure.length === 0) return null;
+
+      const exposed = inputs.flaggedExposure.reduce((sum, item) => sum + item.amount, 0);
+      const share = inputs.totalVolume > 0 ? exposed / inputs.totalVolume : 1;
+      return {
+        strength: Math.min(1, share / FULL_EXPOSURE_SHARE),
+        evidence: [...inputs.flaggedExposure]
+          .sort((a, b) => b.amount - a.amount)
+          .slice(0, MAX_EVIDENCE)
+          .map(item => `${item.amount.toFixed(4)} SOL with ${item.address} (${item.entity})`),
+      };
+    },
+  },
+  {
+    id: "mixer-proximity",
+    weight: 30,
+    description: "Within a few transfers of a mixer",
+    extract(inputs) {
+      if (!inputs.mixerPath) return null;
+
+      const hops = inputs.mixerPath.path.length - 1;
+      return {
+        strength: 1 / Math.pow(2, hops - 1), // Halved for every hop beyond a direct transfer
+        evidence: [`${hops} hop${hops === 1 ? "" : "s"} from ${inputs.mixerPath.entity}: ${inputs.mixerPath.path.join(" → ")}`],
+      };
+    },
+  },
+  {
+    id: "anomalous-activity",
+    weight: 15,
+    description: "Transactions far outside the wallet's own baseline",
+    extract(inputs) {
+      if (inputs.anomalies.length === 0) return null;
+
+      return {
+        strength: Math.min(1, inputs.anomalies[0].score / FULL_ANOMALY_SCORE),
+        evidence: inputs.anomalies
+          .slice(0, MAX_EVIDENCE)
+          .map(item => `${item.signature} (score ${item.score.toFixed(1)}): ${item.description}`),
+      };
+    },
+  },
+  {
+    id: "new-wallet",
+    weight: 10,
+    description: `First seen less than ${NEW_WALLET_DAYS} days ago`,
+    extract(inputs) {
+      if (inputs.firstSeen === null) return null;
+
+      const ageDays = (inputs.evaluatedAt - inputs.firstSeen) / DAY_MS;
+      if (ageDays >= NEW_WALLET_DAYS) return null;
+      return {
+        strength: 1 - Math.max(0, ageDays) / NEW_WALLET_DAYS,
+        evidence: [`First seen ${new Date(inputs.firstSeen).toISOString()}, ${ageDays.toFixed(1)} days before evaluation`],
+      };
+    },
+  },
+  {
+    id: "peel-chain",
+    weight: 25,
+    description: "Part of a detected peel chain",
+    extract(inputs) {
+      if (inputs.peelChains.length === 0) return null;
+
+      return {
+        strength: Math.max(...inputs.peelChains.map(item => item.confidence)),
+        evidence: inputs.peelChains.slice(0, MAX_EVIDENCE).map(item => item.description),
+      };
+    },
+  },
+];
+
+/**
+ * Evaluate every rule; weights override the rules' defaults by rule id
+ */
+export function evaluateRisk(
+  address: string,
+  inputs: RiskInputs,
+  options: { weights?: Partial<Record<RiskRuleId, number>>; rulesetVersion?: string } = {}
+): RiskAssessment {
+  const breakdown: RiskBreakdownItem[] = [];
+
+  RISK_RULES.forEach(rule => {
+    const weight = options.weights?.[rule.id] ?? rule.weight;
+    const result = rule.extract(inputs);
+    if (!result || weight <= 0 || result.strength <= 0) return;
+
+    breakdown.push({
+      ruleId: rule.id,
+      description: rule.description,
+      weight,
+      strength: result.strength,
+      points: weight * result.strength,
+      evidence: result.evidence,
+    });
+  });
+
+  return {
+    address,
+    score: Math.min(100, Math.round(breakdown.reduce((sum, item) => sum + item.points, 0))),
+    rulesetVersion: options.rulesetVersion || RISK_RULESET_VERSION,
+    breakdown: breakdown.sort((a, b) => b.points - a.points),
+    evaluatedAt: inputs.evaluatedAt,
+  };
+}
@@ -1,7 +1,10 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real, unique, varchar, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real, unique, varchar, pgEnum, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+import { TAINT_MODELS, type TaintModel, type TracePath } from "./tracing";
+import type { DepositDiscoveryParameters, DepositDiscoveryResult } from "./deposits";
+import type { SybilParameters, SybilResult } from "./sybil";
 
 // User account model
 export const users = pgTable("users", {
@@ -76,7 +79,7 @@ export const wallets = pgTable("wallets", {
   balance: real("balance"),
   executable: boolean("executable").default(false),
   owner: text("owner"),
-  type: text("type").default("wallet"), // wallet, program, contract
+  type: text("type").default("wallet"), // ACCOUNT_TYPES in shared/accounts.ts, read from the chain
   lastFetched: timestamp("last_fetched"),
   userId: integer("user_id").references(() => users.id),
   firstSeen: timestamp("first_seen").defaultNow(),
@@ -87,7 +90,7 @@ export const wallets = pgTable("wallets", {
   riskScore: integer("risk_score"),
   verified: boolean("verified").default(false),
   activityLevel: text("activity_level"), // 'high', 'medium', 'low'
-  classification: text("classification"), // 'personal', 'exchange', 'contract', 'project', etc.
+  classification: text("classification"), // Finer account kind, e.g. 'upgradeable-program', 'spl-token-account'
   category: text("category"),
   metadata: jsonb("metadata"),
 });
@@ -130,6 +133,13 @@ export const transactions = pgTable("transactions", {
   isCritical: boolean("is_critical").default(false),
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    // Looking up a wallet's transactions matches either party or any of the account keys kept in metadata
+    sourceAddressIdx: index("transactions_source_address_idx").on(table.sourceAddress),
+    destinationAddressIdx: index("transactions_destination_address_idx").on(table.destinationAddress),
+    accountKeysIdx: index("transactions_account_keys_idx").using("gin", sql`(${table.metadata}->'accountKeys') jsonb_path_ops`),
+  };
 });
 
 export const insertTransactionSchema = createInsertSchema(transactions).pick({
@@ -149,6 +159,81 @@ export const insertTransactionSchema = createInsertSchema(transactions).pick({
   metadata: true,
 });
 
+// Per-wallet ingestion high-water marks so re-ingestion only pulls new signatures
+export const ingestionCursors = pgTable("ingestion_cursors", {
+  id: serial("id").primaryKey(),
+  walletAddress: text("wallet_address").notNull().unique(),
+  newestSignature: text("newest_signature"), // High-water mark: most recent ingested signature
+  newestSlot: integer("newest_slot"),
+  oldestSignature: text("oldest_signature"), // Deepest signature reached so far
+  oldestSlot: integer("oldest_slot"),
+  transactionCount: integer("transaction_count").default(0),
+  lastIngestedAt: timestamp("last_ingested_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertIngestionCursorSchema = createInsertSchema(ingestionCursors).pick({
+  walletAddress: true,
+  newestSignature: true,
+  newestSlot: true,
+  oldestSignature: true,
+  oldestSlot: true,
+  transactionCount: true,
+  lastIngestedAt: true,
+});
+
+// Full-history backfill jobs, resumable from their persisted cursor
+export const backfillJobStatuses = pgEnum("backfill_job_status", [
+  "pending",
+  "running",
+  "completed",
+  "failed",
+  "cancelled"
+]);
+
+export const backfillJobs = pgTable("backfill_jobs", {
+  id: serial("id").primaryKey(),
+  walletAddress: text("wallet_address").notNull(),
+  status: backfillJobStatuses("status").notNull().default("pending"),
+  beforeSignature: text("before_signature"), // Resume cursor: oldest signature processed so far
+  untilSignature: text("until_signature"), // Optional stop point, exclusive
+  signaturesProcessed: integer("signatures_processed").notNull().default(0),
+  transactionsStored: integer("transactions_stored").notNull().default(0),
+  failedSignatures: integer("failed_signatures").notNull().default(0), // Signatures still waiting in retrySignatures
+  // Signatures whose details could not be fetched, retried before the job completes
+  retrySignatures: jsonb("retry_signatures").$type<{ signature: string; slot: number; memo: string | null }[]>().notNull().default([]),
+  estimatedTotal: integer("estimated_total"), // Lower bound that grows while full pages keep arriving
+  error: text("error"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertBackfillJobSchema = createInsertSchema(backfillJobs, {
+  retrySignatures: z.array(z.object({ signature: z.string(), slot: z.number(), memo: z.string().nullable() })).optional(),
+}).pick({
+  walletAddress: true,
+  untilSignature: true,
+  retrySignatures: true,
+});
+
+// Cached raw RPC responses (transactions by signature, signature pages by address/before/limit)
+export const rpcCacheEntries = pgTable("rpc_cache_entries", {
+  key: text("key").primaryKey(), // sha256 of the request identity
+  kind: text("kind").notNull(), // 'transaction' or 'signatures'
+  value: jsonb("value").notNull(),
+  expiresAt: timestamp("expires_at"), // Null for immutable entries
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertRpcCacheEntrySchema = createInsertSchema(rpcCacheEntries).pick({
+  key: true,
+  kind: true,
+  value: true,
+  expiresAt: true,
+});
+
 // Transaction flow visualization saved configurations
 export const visualizations = pgTable("visualizations", {
   id: serial("id").primaryKey(),
@@ -276,12 +361,16 @@ export const fundingSources = pgTable("funding_sources", {
   lastTransactionDate: timestamp("last_transaction_date"),
   isDirectSource: boolean("is_direct_source").default(true),
   confidence: real("confidence").default(1), // 0-1 confidence score
-  path: jsonb("path").$type<string[]>(), // Path of wallet addresses from source to destination
+  path: jsonb("path").$type<TracePath[]>(), // Traced paths from source to destination, with attributed amounts and signatures
+  model: text("model").$type<TaintModel>(), // Taint model of the trace that produced the row, null for heuristic sources
   userId: integer("user_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertFundingSourceSchema = createInsertSchema(fundingSources).pick({
+export const insertFundingSourceSchema = createInsertSchema(fundingSources, {
+  path: z.custom<TracePath[]>().nullish(),
+  model: z.enum(TAINT_MODELS).nullish(),
+}).pick({
   walletId: true,
   sourceWalletId: true,
   firstTransactionSignature: true,
@@ -293,6 +382,7 @@ export const insertFundingSourceSchema = createInsertSchema(fundingSources).pick
   isDirectSource: true,
   confidence: true,
   path: true,
+  model: true,
   userId: true,
 });
 
@@ -307,8 +397,13 @@ export const activityPatterns = pgTable("activity_patterns", {
   confidence: real("confidence").default(0.5), // 0-1 confidence score
   description: text("description"),
   metadata: jsonb("metadata"),
+  findingId: text("finding_id"), // Set on rows of a multi-wallet finding, one row per participating wallet
   userId: integer("user_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    uniqFindingWallet: unique().on(table.findingId, table.walletId),
+  };
 });
 
 export const insertActivityPatternSchema = createInsertSchema(activityPatterns).pick({
@@ -320,6 +415,7 @@ export const insertActivityPatternSchema = createInsertSchema(activityPatterns).
   confidence: true,
   description: true,
   metadata: true,
+  findingId: true,
   userId: true,
 });
 
@@ -348,25 +444,162 @@ export const insertEntitySchema = createInsertSchema(entities).pick({
   color: true,
   userId: true,
   isPublic: true,
+  metadata: true,
+});
+
+// Imported label packs; re-importing a pack under the same name replaces its previous version
+export const labelDatasets = pgTable("label_datasets", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  version: text("version").notNull(),
+  source: text("source"), // Default provenance of the pack's labels, e.g. its publisher
+  description: text("description"),
+  labelCount: integer("label_count").notNull().default(0),
+  importedBy: integer("imported_by").references(() => users.id),
+  importedAt: timestamp("imported_at").defaultNow(),
 });
 
-// Wallet-entity relationships
+export const insertLabelDatasetSchema = createInsertSchema(labelDatasets).pick({
+  name: true,
+  version: true,
+  source: true,
+  description: true,
+  labelCount: true,
+  importedBy: true,
+});
+
+// Wallet-entity label assertions; several sources may assert the same or conflicting labels for a wallet
 export const walletEntityRelations = pgTable("wallet_entity_relations", {
   id: serial("id").primaryKey(),
   walletId: integer("wallet_id").references(() => wallets.id).notNull(),
   entityId: integer("entity_id").references(() => entities.id).notNull(),
-  confirmedBy: integer("confirmed_by").references(() => users.id),
+  confirmedBy: integer("confirmed_by").references(() => users.id), // Analyst who made the assertion
   createdAt: timestamp("created_at").defaultNow(),
-}, (table) => {
-  return {
-    uniqWalletEntity: unique().on(table.walletId, table.entityId),
-  };
+  sourceType: text("source_type").notNull().default("analyst"), // 'dataset', 'heuristic', 'analyst', 'team'
+  role: text("role"), // Part the wallet plays in the entity, e.g. 'deposit' for an exchange's per-user deposit address
+  teamId: integer("team_id").references(() => teams.id), // Private to this team's label overlay when set
+  evidence: text("evidence"), // Why the label was asserted
+  verifiedBy: integer("verified_by").references(() => users.id), // Analyst who checked the assertion; verified ones beat unverified
+  verifiedAt: timestamp("verified_at"),
+  datasetId: integer("dataset_id").references(() => labelDatasets.id), // Set for labels imported from a label pack
+  datasetVersion: text("dataset_version"), // Pack version that last added or changed the label
+  source: text("source"), // Who or what made the assertion, e.g. a pack's publisher or a heuristic's name
+  confidence: real("confidence"), // 0-1
+  validFrom: timestamp("valid_from"), // When the address started belonging to the entity, if known
+  validTo: timestamp("valid_to"),
+  retiredAt: timestamp("retired_at"), // Set when the assertion is withdrawn or a later pack version drops it
+  negated: boolean("negated").notNull().default(false), // A team's assertion that the wallet is not part of the entity; hides the entity's other labels for the wallet from the team
 });
 
 export const insertWalletEntityRelationSchema = createInsertSchema(walletEntityRelations).pick({
   walletId: true,
   entityId: true,
   confirmedBy: true,
+  sourceType: true,
+  role: true,
+  teamId: true,
+  evidence: true,
+  verifiedBy: true,
+  verifiedAt: true,
+  datasetId: true,
+  datasetVersion: true,
+  source: true,
+  confidence: true,
+  validFrom: true,
+  validTo: true,
+  negated: true,
+});
+
+// Exchange deposit-address discovery jobs, same lifecycle as backfill jobs
+export const depositDiscoveryJobs = pgTable("deposit_discovery_jobs", {
+  id: serial("id").primaryKey(),
+  hotWalletAddress: text("hot_wallet_address").notNull(),
+  entityId: integer("entity_id").references(() => entities.id).notNull(), // Exchange the hot wallet is labeled with
+  status: backfillJobStatuses("status").notNull().default("pending"),
+  parameters: jsonb("parameters").$type<DepositDiscoveryParameters>().notNull(),
+  candidatesFound: integer("candidates_found"),
+  candidatesChecked: integer("candidates_checked").notNull().default(0),
+  depositsFound: integer("deposits_found").notNull().default(0),
+  result: jsonb("result").$type<DepositDiscoveryResult>(),
+  error: text("error"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertDepositDiscoveryJobSchema = createInsertSchema(depositDiscoveryJobs).pick({
+  hotWalletAddress: true,
+  entityId: true,
+  parameters: true,
+});
+
+// Batch sybil detection jobs, same lifecycle as backfill jobs
+export const sybilDetectionJobs = pgTable("sybil_detection_jobs", {
+  id: serial("id").primaryKey(),
+  addresses: jsonb("addresses").$type<string[]>().notNull(),
+  status: backfillJobStatuses("status").notNull().default("pending"),
+  parameters: jsonb("parameters").$type<SybilParameters>().notNull(),
+  addressesIngested: integer("addresses_ingested").notNull().default(0),
+  result: jsonb("result").$type<SybilResult>(),
+  error: text("error"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertSybilDetectionJobSchema = createInsertSchema(sybilDetectionJobs, {
+  addresses: z.array(z.string()),
+}).pick({
+  addresses: true,
+  parameters: true,
+});
+
+// Transaction clusters; the id is a hash of the wallet, parameters and member signatures,
+// so re-running the same analysis on the same data yields the same cluster
+export const clusters = pgTable("clusters", {
+  id: text("id").primaryKey(),
+  walletAddress: text("wallet_address").notNull(), // Wallet whose history was clustered
+  type: text("type").notNull(), // 'normal', 'unusual', 'suspicious'
+  score: real("score").notNull(), // 0-1 confidence score
+  description: text("description").notNull(),
+  parameters: jsonb("parameters").$type<Record<string, number | string>>().notNull(), // Options that produced the cluster
+  metadata: jsonb("metadata"),
+  transactionCount: integer("transaction_count").notNull(),
+  walletCount: integer("wallet_count").notNull(),
+  createdAt: timestamp("created_at").defaultNow(), // First time the cluster was produced
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertClusterSchema = createInsertSchema(clusters).pick({
+  id: true,
+  walletAddress: true,
+  type: true,
+  score: true,
+  description: true,
+  parameters: true,
+  metadata: true,
+  transactionCount: true,
+  walletCount: true,
+});
+
+// Member transactions and wallets of a cluster
+export const clusterMembers = pgTable("cluster_members", {
+  id: serial("id").primaryKey(),
+  clusterId: text("cluster_id").references(() => clusters.id).notNull(),
+  memberType: text("member_type").notNull(), // 'transaction' or 'wallet'
+  value: text("value").notNull(), // Transaction signature or wallet address
+}, (table) => {
+  return {
+    uniqClusterMember: unique().on(table.clusterId, table.memberType, table.value),
+  };
+});
+
+export const insertClusterMemberSchema = createInsertSchema(clusterMembers).pick({
+  clusterId: true,
+  memberType: true,
+  value: true,
 });
 
 // Define relations
@@ -512,6 +745,10 @@ export const entitiesRelations = relations(entities, ({ many }) => ({
   wallets: many(walletEntityRelations),
 }));
 
+export const labelDatasetsRelations = relations(labelDatasets, ({ many }) => ({
+  labels: many(walletEntityRelations),
+}));
+
 export const walletEntityRelationsRelations = relations(walletEntityRelations, ({ one }) => ({
   wallet: one(wallets, {
     fields: [walletEntityRelations.walletId],
@@ -521,6 +758,21 @@ export const walletEntityRelationsRelations = relations(walletEntityRelations, (
     fields: [walletEntityRelations.entityId],
     references: [entities.id],
   }),
+  dataset: one(labelDatasets, {
+    fields: [walletEntityRelations.datasetId],
+    references: [labelDatasets.id],
+  }),
+}));
+
+export const clustersRelations = relations(clusters, ({ many }) => ({
+  members: many(clusterMembers),
+}));
+
+export const clusterMembersRelations = relations(clusterMembers, ({ one }) => ({
+  cluster: one(clusters, {
+    fields: [clusterMembers.clusterId],
+    references: [clusters.id],
+  }),
 }));
 
 // Export types
@@ -539,6 +791,21 @@ export type Wallet = typeof wallets.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 
+export type InsertIngestionCursor = z.infer<typeof insertIngestionCursorSchema>;
+export type IngestionCursor = typeof ingestionCursors.$inferSelect;
+
+export type InsertBackfillJob = z.infer<typeof insertBackfillJobSchema>;
+export type BackfillJob = typeof backfillJobs.$inferSelect;
+
+export type InsertDepositDiscoveryJob = z.infer<typeof insertDepositDiscoveryJobSchema>;
+export type DepositDiscoveryJob = typeof depositDiscoveryJobs.$inferSelect;
+
+export type InsertSybilDetectionJob = z.infer<typeof insertSybilDetectionJobSchema>;
+export type SybilDetectionJob = typeof sybilDetectionJobs.$inferSelect;
+
+export type InsertRpcCacheEntry = z.infer<typeof insertRpcCacheEntrySchema>;
+export type RpcCacheEntry = typeof rpcCacheEntries.$inferSelect;
+
 export type InsertTransactionTracking = z.infer<typeof insertTransactionTrackingSchema>;
 export type TransactionTracking = typeof transactionTracking.$inferSelect;
 
@@ -557,8 +824,17 @@ export type ActivityPattern = typeof activityPatterns.$inferSelect;
 export type InsertEntity = z.infer<typeof insertEntitySchema>;
 export type Entity = typeof entities.$inferSelect;
 
+export type InsertLabelDataset = z.infer<typeof insertLabelDatasetSchema>;
+export type LabelDataset = typeof labelDatasets.$inferSelect;
+
 export type InsertWalletEntityRelation = z.infer<typeof insertWalletEntityRelationSchema>;
 export type WalletEntityRelation = typeof walletEntityRelations.$inferSelect;
 
+export type InsertCluster = z.infer<typeof insertClusterSchema>;
+export type Cluster = typeof clusters.$inferSelect;
+
+export type InsertClusterMember = z.infer<typeof insertClusterMemberSchema>;
+export type ClusterMember = typeof clusterMembers.$inferSelect;
+
 export type InsertVisualization = z.infer<typeof insertVisualizationSchema>;
 export type Visualization = typeof visualizations.$inferSelect;
\ No newline at end of file
@@ -0,0 +1,36 @@
+// Multi-hop structuring (laundering shape) detection around a wallet, found by the server over the ingested transfer graph
+import type { TraceHop } from "./tracing";
+
+/**
+ * Multi-hop structuring shapes:
+ * - peel_chain: fresh wallets each forwarding most of what they received to the next, skimming a little
+ * - fan_out: one wallet splitting funds across many fresh wallets within a time window
+ * - fan_in: many fresh wallets consolidating funds into one wallet within a time window
+ * - split_merge: a fan-out whose fresh wallets later feed the same fan-in
+ */
+export const STRUCTURING_PATTERNS = ["peel_chain", "fan_out", "fan_in", "split_merge"] as const;
+export type StructuringPattern = typeof STRUCTURING_PATTERNS[number];
+
+export type StructuringRole = "source" | "intermediary" | "recipient" | "sender" | "target";
+
+export interface StructuringFinding {
+  id: string; // Content-derived from the pattern and its transfers
+  pattern: StructuringPattern;
+  wallets: string[]; // In flow order
+  roles: Record<string, StructuringRole>;
+  hops: TraceHop[];
+  signatures: string[];
+  totalAmount: number; // Value entering the structure
+  startTime: number; // Milliseconds since epoch
+  endTime: number;
+  confidence: number; // 0-1
+  description: string;
+}
+
+export interface StructuringResult {
+  address: string;
+  mint: string;
+  walletsScanned: number;
+  findings: StructuringFinding[];
+  truncated: boolean; // True when the wallet limit stopped loading the graph
+}
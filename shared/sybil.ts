@@ -0,0 +1,35 @@
+// Batch sybil detection: whether a set of addresses (e.g. airdrop claimants) is controlled by one farmer
+
+export type SybilSignal = "gas-payer" | "token-destination" | "funding-source" | "action-sequence" | "creation-time";
+
+export interface SybilParameters {
+  ingest: boolean; // Fetch each address's first transactions before scoring
+  transactionsPerWallet: number; // Earliest transactions compared per address
+  minScore: number; // Address pairs scoring lower are not linked
+  creationWindowHours: number; // First transactions further apart are not similar
+  maxFeePayerWallets: number; // Fee payers serving more wallets outside the batch are treated as relayers and ignored
+  maxFundedWallets: number; // Funders of more fresh wallets outside the batch are treated as services (e.g. exchanges) and ignored
+}
+
+export interface SybilEvidence {
+  signal: SybilSignal;
+  addresses: [string, string];
+  similarity: number; // 0-1, scales the signal weight
+  signature?: string;
+  detail: string;
+}
+
+export interface SybilCluster {
+  addresses: string[];
+  confidence: number; // Weakest link of the strongest spanning tree over the cluster
+  signals: Partial<Record<SybilSignal, number>>; // Evidence count per signal
+  evidence: SybilEvidence[]; // Strongest first, capped per cluster
+}
+
+export interface SybilResult {
+  addresses: number;
+  failed: string[]; // Addresses whose history could not be ingested
+  partialHistory: string[]; // Addresses with more history than was walked, so their first transactions may be missing
+  clusters: SybilCluster[];
+  unlinked: string[];
+}
@@ -0,0 +1,175 @@
+// Fund tracing types shared by the server tracing engine and the client views
+
+/**
+ * How value held by a wallet is attributed to what it later sends out:
+ * - poison: any outflow from a wallet holding tainted funds is fully tainted
+ * - haircut: every outflow carries a pro-rata share of everything the wallet holds
+ * - fifo: outflows spend the oldest received funds first
+ * - lifo: outflows spend the most recently received funds first
+ */
+export const TAINT_MODELS = ["poison", "haircut", "fifo", "lifo"] as const;
+export type TaintModel = typeof TAINT_MODELS[number];
+
+export type TraceDirection = "backward" | "forward";
+
+// Entity types where forward tracing stops by default: funds reaching them leave the traceable graph
+export const TERMINAL_ENTITY_TYPES = ["exchange", "bridge", "mixer"];
+
+/**
+ * Why a path stopped:
+ * - origin: backward, no earlier inflow in the known history explains the funds
+ * - held: forward, the funds are still in the last wallet
+ * - depth-limit: the hop limit was reached
+ * - cycle: the funds flowed back into a wallet already on the path
+ * - entity: the funds reached a wallet of a labeled terminal entity
+ */
+export type TraceTermination = "origin" | "held" | "depth-limit" | "cycle" | "entity";
+
+// Labeled entity owning the wallet a path ended at
+export interface TraceEntity {
+  id: number;
+  name: string;
+  type: string;
+}
+
+// One transfer leg on a traced path
+export interface TraceHop {
+  signature: string;
+  legIndex: number; // Index into the transaction's transfer legs
+  from: string;
+  to: string;
+  amount: number; // Traced value attributed to this hop, in UI units
+  transferAmount: number; // Full amount of the transfer leg
+  blockTime: number | null; // Milliseconds since epoch
+  slot: number | null;
+}
+
+// A single chain of transfers carrying an attributed amount, in flow order (source first)
+export interface TracePath {
+  addresses: string[];
+  hops: TraceHop[];
+  signatures: string[];
+  attributedAmount: number;
+  terminal: TraceTermination;
+  entity?: TraceEntity;
+}
+
+export interface TraceResult {
+  address: string;
+  signature?: string; // Starting transaction, for traces that follow a single transfer
+  direction: TraceDirection;
+  model: TaintModel;
+  mint: string;
+  depth: number;
+  totalAmount: number; // Value of the starting transfers
+  paths: TracePath[];
+  truncated: boolean; // True when the path limit stopped the expansion
+}
+
+// Node of a forward trace merged into a tree; the root is the traced wallet
+export interface TraceTreeNode {
+  address: string;
+  hop?: TraceHop; // Transfer into this node, absent on the root
+  amount: number;
+  terminal?: TraceTermination; // Set when a path ends here; a node can both end paths and have children
+  terminalAmount?: number; // Value of the paths ending here
+  entity?: TraceEntity;
+  children: TraceTreeNode[];
+}
+
+/**
+ * Merge the paths of a forward trace into a flow tree. Paths sharing a prefix of
+ * transfers share nodes, so every node appears once per distinct route.
+ */
+export function buildTraceTree(result: TraceResult): TraceTreeNode {
+  const root: TraceTreeNode = { address: result.address, amount: 0, children: [] };
+
+  result.paths.forEach(path => {
+    let node = root;
+    path.hops.forEach((hop, index) => {
+      let child = node.children.find(candidate =>
+        candidate.hop?.signature === hop.signature && candidate.hop?.legIndex === hop.legIndex
+      );
+      if (!child) {
+        child = { address: path.addresses[index + 1], hop, amount: hop.amount, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    });
+
+    node.terminal = path.terminal;
+    node.terminalAmount = (node.terminalAmount || 0) + path.attributedAmount;
+    node.entity = path.entity;
+  });
+
+  root.amount = root.children.reduce((sum, child) => sum + child.amount, 0);
+  return root;
+}
+
+// A chain of transfers that leaves a wallet and comes back to it, in flow order
+export interface FlowCycle {
+  origin: string;
+  addresses: string[]; // Starts and ends with the origin
+  hops: TraceHop[];
+  signatures: string[];
+  elapsedMs: number; // From the first transfer out to the transfer back in
+  sentAmount: number;
+  returnedAmount: number;
+  netRetained: number; // Value kept along the way by intermediaries, fees and slippage (sent - returned)
+}
+
+export interface CycleReport {
+  address: string;
+  mint: string;
+  maxHops: number;
+  timeWindowHours: number;
+  tolerance: number; // Share of the sent value each hop may lose or gain
+  cycles: FlowCycle[];
+  truncated: boolean; // True when the cycle limit stopped the search or the wallet limit cut off branches
+}
+
+// Entity types exposure is attributed to by default; "related" groups are the wallet's own cluster and are passed through
+export const EXPOSURE_CATEGORIES = ["exchange", "defi", "nft", "bridge", "mixer", "sanctioned", "other"];
+
+// Category of value that reached no labeled wallet within the hop limit
+export const UNLABELED_CATEGORY = "unlabeled";
+
+// Value attributed to one entity category at one hop distance
+export interface ExposureRow {
+  category: string; // Entity type, or UNLABELED_CATEGORY
+  hops: number; // 1 when the counterparty itself belongs to the entity
+  amount: number;
+  share: number; // Of the direction's total, 0-1
+}
+
+export interface CategoryExposure {
+  category: string;
+  direct: number; // Amount at hop 1
+  indirect: number; // Amount beyond hop 1
+  amount: number;
+  share: number; // Of the direction's total, 0-1
+}
+
+export interface DirectionExposure {
+  total: number; // Value of all inflows or outflows
+  rows: ExposureRow[]; // Largest first
+  categories: CategoryExposure[]; // Largest first
+}
+
+// Sankey input: sources on the left flow into the wallet, which flows into destinations on the right.
+// Links reference nodes by id (d3-sankey: .nodeId(node => node.id)).
+export interface ExposureSankey {
+  nodes: { id: string; name: string; column: number }[];
+  links: { source: string; target: string; value: number }[];
+}
+
+export interface ExposureReport {
+  address: string;
+  mint: string;
+  model: TaintModel;
+  depth: number;
+  inflows: DirectionExposure;
+  outflows: DirectionExposure;
+  sankey: ExposureSankey;
+  truncated: boolean; // True when the path limit stopped a trace, so shares may add up to less than 1
+}
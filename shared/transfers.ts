@@ -0,0 +1,252 @@
+// Balance-delta transfer decoding shared by the server and the client
+
+// Sentinel mint used for native SOL (lamport) movements
+export const NATIVE_SOL_MINT = "SOL";
+export const SOL_DECIMALS = 9;
+
+// Well-known SPL mints, used to label and color token flows
+export const KNOWN_MINTS: Record<string, { symbol: string; name: string }> = {
+  [NATIVE_SOL_MINT]: { symbol: "SOL", name: "Solana" },
+  So11111111111111111111111111111111111111112: { symbol: "wSOL", name: "Wrapped SOL" },
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: { symbol: "USDC", name: "USD Coin" },
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: { symbol: "USDT", name: "Tether USD" },
+  mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So: { symbol: "mSOL", name: "Marinade Staked SOL" },
+  J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn: { symbol: "JitoSOL", name: "Jito Staked SOL" },
+  JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN: { symbol: "JUP", name: "Jupiter" },
+  DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263: { symbol: "BONK", name: "Bonk" },
+};
+
+// A single value movement between two owners within a transaction
+export interface TransferLeg {
+  from: string;
+  to: string;
+  mint: string; // NATIVE_SOL_MINT for lamports, otherwise the SPL mint address
+  amount: string; // Raw base units as a decimal string (token amounts can exceed 2^53)
+  decimals: number;
+  uiAmount: number;
+  fromTokenAccount?: string;
+  toTokenAccount?: string;
+  usdValue?: number; // Filled in by the server price source, at block time
+}
+
+// Token balance entry as returned by getTransaction in meta.pre/postTokenBalances
+export interface TokenBalanceSnapshot {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  uiTokenAmount: {
+    amount: string;
+    decimals: number;
+  };
+}
+
+// The subset of transaction meta needed to derive transfers
+export interface BalanceMeta {
+  fee?: number;
+  preBalances: number[];
+  postBalances: number[];
+  preTokenBalances?: TokenBalanceSnapshot[] | null;
+  postTokenBalances?: TokenBalanceSnapshot[] | null;
+}
+
+interface BalanceDelta {
+  owner: string;
+  account: string;
+  delta: bigint;
+}
+
+const ZERO = BigInt(0);
+
+/**
+ * Derive typed transfer legs from a transaction's balance changes.
+ * SOL legs come from pre/postBalances (with the fee added back for the fee payer),
+ * token legs from pre/postTokenBalances grouped by mint. Senders and receivers of
+ * the same asset are paired largest-first so every leg has a concrete counterparty.
+ */
+export function decodeBalanceChanges(accountKeys: string[], meta: BalanceMeta): TransferLeg[] {
+  const legs: TransferLeg[] = [];
+
+  // Native SOL deltas
+  const solDeltas: BalanceDelta[] = accountKeys.map((account, index) => {
+    const pre = BigInt(meta.preBalances[index] || 0);
+    const post = BigInt(meta.postBalances[index] || 0);
+    const fee = index === 0 ? BigInt(meta.fee || 0) : ZERO;
+    return { owner: account, account, delta: post - pre + fee };
+  });
+
+  legs.push(...pairDeltas(solDeltas, NATIVE_SOL_MINT, SOL_DECIMALS, false));
+
+  // SPL token deltas, keyed by token account and grouped by mint
+  const tokenAccounts = new Map<number, { mint: string; owner: string; decimals: number; pre: bigint; post: bigint }>();
+
+  (meta.preTokenBalances || []).forEach(balance => {
+    tokenAccounts.set(balance.accountIndex, {
+      mint: balance.mint,
+      owner: balance.owner || accountKeys[balance.accountIndex],
+      decimals: balance.uiTokenAmount.decimals,
+      pre: BigInt(balance.uiTokenAmount.amount),
+      post: ZERO,
+    });
+  });
+
+  (meta.postTokenBalances || []).forEach(balance => {
+    const existing = tokenAccounts.get(balance.accountIndex);
+    tokenAccounts.set(balance.accountIndex, {
+      mint: balance.mint,
+      owner: balance.owner || existing?.owner || accountKeys[balance.accountIndex],
+      decimals: balance.uiTokenAmount.decimals,
+      pre: existing?.pre ?? ZERO,
+      post: BigInt(balance.uiTokenAmount.amount),
+    });
+  });
+
+  const deltasByMint = new Map<string, { decimals: number; deltas: BalanceDelta[] }>();
+  tokenAccounts.forEach((entry, accountIndex) => {
+    if (!deltasByMint.has(entry.mint)) {
+      deltasByMint.set(entry.mint, { decimals: entry.decimals, deltas: [] });
+    }
+    deltasByMint.get(entry.mint)!.deltas.push({
+      owner: entry.owner,
+      account: accountKeys[accountIndex],
+      delta: entry.post - entry.pre,
+    });
+  });
+
+  Array.from(deltasByMint.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([mint, { decimals, deltas }]) => {
+      legs.push(...pairDeltas(deltas, mint, decimals, true));
+    });
+
+  return legs;
+}
+
+/**
+ * Pair negative and positive deltas of one asset into transfer legs
+ */
+function pairDeltas(
+  deltas: BalanceDelta[],
+  mint: string,
+  decimals: number,
+  isToken: boolean
+): TransferLeg[] {
+  const byMagnitude = (a: { remaining: bigint; entry: BalanceDelta }, b: { remaining: bigint; entry: BalanceDelta }) =>
+    a.remaining === b.remaining
+      ? a.entry.account.localeCompare(b.entry.account)
+      : (a.remaining > b.remaining ? -1 : 1);
+
+  const senders = deltas
+    .filter(d => d.delta < ZERO)
+    .map(entry => ({ entry, remaining: -entry.delta }))
+    .sort(byMagnitude);
+  const receivers = deltas
+    .filter(d => d.delta > ZERO)
+    .map(entry => ({ entry, remaining: entry.delta }))
+    .sort(byMagnitude);
+
+  const legs: TransferLeg[] = [];
+  let s = 0;
+  let r = 0;
+
+  while (s < senders.length && r < receivers.length) {
+    const sender = senders[s];
+    const receiver = receivers[r];
+    const amount = sender.remaining < receiver.remaining ? sender.remaining : receiver.remaining;
+
+    // Movements between two accounts of the same owner are not transfers
+    if (sender.entry.owner !== receiver.entry.owner) {
+      legs.push({
+        from: sender.entry.owner,
+        to: receiver.entry.owner,
+        mint,
+        amount: amount.toString(),
+        decimals,
+        uiAmount: toUiAmount(amount, decimals),
+        ...(isToken ? { fromTokenAccount: sender.entry.account, toTokenAccount: receiver.entry.account } : {}),
+      });
+    }
+
+    sender.remaining -= amount;
+    receiver.remaining -= amount;
+    if (sender.remaining === ZERO) s++;
+    if (receiver.remaining === ZERO) r++;
+  }
+
+  return legs;
+}
+
+/**
+ * Convert a raw base-unit amount into a decimal UI amount
+ */
+export function toUiAmount(amount: bigint | string, decimals: number): number {
+  const raw = typeof amount === "string" ? BigInt(amount) : amount;
+  let divisor = BigInt(1);
+  for (let i = 0; i < decimals; i++) {
+    divisor *= BigInt(10);
+  }
+  const whole = raw / divisor;
+  const fraction = raw % divisor;
+  return Number(whole) + Number(fraction) / Number(divisor);
+}
+
+/**
+ * Total UI amount moved for a mint across all legs
+ */
+export function getTransferVolume(legs: TransferLeg[] | undefined, mint: string = NATIVE_SOL_MINT): number {
+  return (legs || [])
+    .filter(leg => leg.mint === mint)
+    .reduce((sum, leg) => sum + leg.uiAmount, 0);
+}
+
+/**
+ * Net UI amount of a mint received by an address (negative when it sent more than it received)
+ */
+export function getNetFlow(
+  legs: TransferLeg[] | undefined,
+  address: string,
+  mint: string = NATIVE_SOL_MINT
+): number {
+  return (legs || [])
+    .filter(leg => leg.mint === mint)
+    .reduce((sum, leg) => {
+      if (leg.to === address) return sum + leg.uiAmount;
+      if (leg.from === address) return sum - leg.uiAmount;
+      return sum;
+    }, 0);
+}
+
+// Net movement of one mint for an address
+export interface MintFlow {
+  mint: string;
+  decimals: number;
+  amount: number; // Net UI amount received (negative when sent)
+  usdValue?: number; // Net USD value, when every contributing leg was priced
+}
+
+/**
+ * Net flow of an address per mint, in order of first appearance
+ */
+export function getNetFlowsByMint(legs: TransferLeg[] | undefined, address: string): MintFlow[] {
+  const flows = new Map<string, MintFlow>();
+
+  (legs || []).forEach(leg => {
+    const sign = leg.to === address ? 1 : leg.from === address ? -1 : 0;
+    if (sign === 0) return;
+
+    const flow = flows.get(leg.mint) || { mint: leg.mint, decimals: leg.decimals, amount: 0, usdValue: 0 };
+    flow.amount += sign * leg.uiAmount;
+    flow.usdValue = flow.usdValue !== undefined && leg.usdValue !== undefined
+      ? flow.usdValue + sign * leg.usdValue
+      : undefined;
+    flows.set(leg.mint, flow);
+  });
+
+  return Array.from(flows.values());
+}
+
+/**
+ * Display symbol of a mint, falling back to a shortened mint address
+ */
+export function getMintSymbol(mint: string): string {
+  return KNOWN_MINTS[mint]?.symbol || `${mint.slice(0, 4)}...${mint.slice(-4)}`;
+}